@@ -1,5 +1,6 @@
 import arg from "arg";
 import { ConfigManager } from "@/core/config";
+import { formatDigestText } from "@/core/digest";
 import { AddonManager } from "@/core/manager";
 import pkg from "../../package.json";
 
@@ -10,6 +11,8 @@ export async function runCLI() {
     "--cli": Boolean, // Consumed by index.ts, but valid here
     "--version": Boolean,
     "-v": "--version",
+    "--prune-cache": Boolean,
+    "--install-file": String,
   });
 
   if (args["--version"]) {
@@ -24,6 +27,27 @@ export async function runCLI() {
 
   console.log(`Starting Lemonup v${pkg.version} (CLI Mode)...`);
 
+  if (args["--prune-cache"]) {
+    const result = await manager.pruneGitCache();
+    const freedMB = (result.freedBytes / 1024 / 1024).toFixed(1);
+    console.log(
+      `Pruned ${result.removed.length} cached repositories (${freedMB} MB freed).`,
+    );
+    manager.close();
+    return;
+  }
+
+  if (args["--install-file"]) {
+    const result = await manager.installFromFile(args["--install-file"]);
+    manager.close();
+    if (!result.success) {
+      console.error(`[ERROR]   ${result.error}`);
+      process.exit(1);
+    }
+    console.log(`Installed: ${result.installedAddons.join(", ")}`);
+    return;
+  }
+
   const addons = manager.getAllAddons();
   if (!addons.length) {
     console.warn("No addons found. Install addons first using the TUI.");
@@ -31,29 +55,15 @@ export async function runCLI() {
   }
 
   try {
-    const results = await manager.updateAll(force);
-    let successCount = 0;
-    let failCount = 0;
-
-    for (const res of results) {
-      if (res.success) {
-        if (res.updated) {
-          console.log(`[UPDATED] ${res.repoName} - ${res.message}`);
-        } else {
-          console.log(
-            `[OK]      ${res.repoName} - ${res.message || "Up to date"}`,
-          );
-        }
-        successCount++;
-      } else {
-        console.error(`[ERROR]   ${res.repoName} - ${res.error}`);
-        failCount++;
-      }
-    }
+    const digest = await manager.updateAll(force);
+    console.log(`\n${formatDigestText(digest)}`);
 
-    console.log(`\nFinished: ${successCount} successful, ${failCount} failed.`);
+    if (configManager.get().saveUpdateDigest) {
+      const digestPath = await manager.saveDigest(digest);
+      console.log(`\nDigest written to ${digestPath}`);
+    }
 
-    if (failCount > 0) {
+    if (digest.failed.length > 0) {
       process.exit(1);
     }
   } catch (error) {
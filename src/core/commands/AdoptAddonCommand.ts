@@ -0,0 +1,101 @@
+import type { AddonRecord, DatabaseManager, HistoryAction } from "@/core/db";
+import { logger } from "@/core/logger";
+import type { AddonMatch } from "./MatchSourcesCommand";
+import type { Command, CommandContext } from "./types";
+
+export interface AdoptAddonResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Turns a manually installed addon into a managed one, using a source
+ * match confirmed by the user. Files on disk are left as they are; the
+ * next update check compares against the matched release.
+ */
+export class AdoptAddonCommand implements Command<AdoptAddonResult> {
+  private previous: AddonRecord[] = [];
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private addonMatch: AddonMatch,
+  ) {}
+
+  async execute(context: CommandContext): Promise<AdoptAddonResult> {
+    const { folder, match, ownedFolders } = this.addonMatch;
+    const addon = this.dbManager.getByFolder(folder);
+    if (!addon) {
+      return { success: false, error: "Addon not found" };
+    }
+    if (addon.type !== "manual") {
+      return { success: false, error: "Addon already has a source" };
+    }
+
+    this.previous = [folder, ...ownedFolders]
+      .map((f) => this.dbManager.getByFolder(f))
+      .filter((a): a is AddonRecord => a !== null);
+
+    logger.log(
+      "AdoptAddonCommand",
+      `Adopting ${folder} as ${match.type}: ${match.url}`,
+    );
+
+    this.dbManager.updateAddon(folder, {
+      type: match.type,
+      url: match.url,
+      version: match.release.version || addon.version,
+      author: match.release.author || addon.author,
+      file_id: match.release.fileId ?? null,
+      last_checked: null,
+      remote_version: null,
+      ownedFolders,
+    });
+
+    // Owned folders are listed under the adopted addon from now on
+    for (const ownedFolder of ownedFolders) {
+      this.dbManager.removeAddon(ownedFolder);
+    }
+
+    if (ownedFolders.length > 0) {
+      context.emit("install:folder_ownership", folder, ownedFolders);
+    }
+
+    this.recordHistory(addon, "source", match.type, match.url);
+    return { success: true };
+  }
+
+  async undo(_context: CommandContext): Promise<void> {
+    const adopted = this.dbManager.getByFolder(this.addonMatch.folder);
+    for (const record of this.previous) {
+      if (this.dbManager.getByFolder(record.folder)) {
+        this.dbManager.updateAddon(record.folder, record);
+      } else {
+        this.dbManager.addAddon(record);
+      }
+    }
+    const [previous] = this.previous;
+    if (adopted && previous) {
+      this.recordHistory(adopted, "rollback", previous.type, null);
+    }
+  }
+
+  /**
+   * Records a change of source from the addon's current type.
+   */
+  private recordHistory(
+    addon: AddonRecord,
+    action: HistoryAction,
+    toType: AddonRecord["type"],
+    message: string | null,
+  ) {
+    this.dbManager.addHistory({
+      folder: addon.folder,
+      name: addon.name,
+      action,
+      fromVersion: addon.type,
+      toVersion: toType,
+      source: toType,
+      message,
+    });
+  }
+}
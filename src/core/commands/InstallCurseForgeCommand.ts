@@ -0,0 +1,219 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { recordFailedInstall, recordInstall } from "@/core/commands/history";
+import { ScanCommand } from "@/core/commands/ScanCommand";
+import type { Command, CommandContext } from "@/core/commands/types";
+import { type ConfigManager, REPO_TYPE } from "@/core/config";
+import * as CurseForge from "@/core/curseforge";
+import type { DatabaseManager } from "@/core/db";
+import { logger } from "@/core/logger";
+import { isPathConfigured } from "@/core/paths";
+import {
+  CurseForgeProvider,
+  describeCurseForgeError,
+  getCurseForgeRelease,
+  resolveCurseForgeMod,
+} from "@/core/sources/curseforge";
+import {
+  copyAddonFolder,
+  determineParentFolder,
+  findAddonFolders,
+} from "@/core/utils/addonFolders";
+
+export interface InstallCurseForgeResult {
+  success: boolean;
+  installedAddons: string[];
+  error?: string;
+}
+
+export class InstallCurseForgeCommand
+  implements Command<InstallCurseForgeResult>
+{
+  private installedFolders: string[] = [];
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private configManager: ConfigManager,
+    private addonIdOrUrl: string,
+  ) {}
+
+  async execute(context: CommandContext): Promise<InstallCurseForgeResult> {
+    const config = this.configManager.get();
+
+    if (!config.curseforgeApiKey) {
+      return {
+        success: false,
+        installedAddons: [],
+        error:
+          "CurseForge API key not configured. Add your API key in Settings or set CURSEFORGE_API_KEY environment variable.",
+      };
+    }
+
+    if (!isPathConfigured(config.destDir)) {
+      return {
+        success: false,
+        installedAddons: [],
+        error: "WoW Addon directory is not configured. Please go to Settings.",
+      };
+    }
+
+    const input = CurseForge.parseCurseForgeUrl(this.addonIdOrUrl);
+    if (!input) {
+      return {
+        success: false,
+        installedAddons: [],
+        error: "Could not parse CurseForge project from URL",
+      };
+    }
+
+    const tempDir = path.join(
+      os.tmpdir(),
+      `lemonup-curseforge-${crypto.randomUUID()}`,
+    );
+
+    try {
+      logger.log(
+        "InstallCurseForgeCommand",
+        `Installing addon: ${this.addonIdOrUrl}`,
+      );
+      context.emit("addon:install:start", this.addonIdOrUrl);
+
+      const mod = await resolveCurseForgeMod(input, config.curseforgeApiKey);
+
+      // A /files/<id> URL pins that file; otherwise take the newest match
+      let file: CurseForge.CurseForgeFile | null;
+      if (input.fileId !== null) {
+        const result = await CurseForge.getFile(
+          mod.id,
+          input.fileId,
+          config.curseforgeApiKey,
+        );
+        if (!result.success) {
+          throw new Error(describeCurseForgeError(result.error));
+        }
+        file = result.file;
+      } else {
+        const result = await CurseForge.getModFiles(
+          mod.id,
+          "retail",
+          config.curseforgeApiKey,
+        );
+        if (!result.success) {
+          throw new Error(describeCurseForgeError(result.error));
+        }
+        file = CurseForge.selectLatestFile(
+          result.files,
+          "retail",
+          config.curseforgeReleaseType,
+        );
+      }
+      if (!file) {
+        throw new Error(`No files available for addon "${mod.name}"`);
+      }
+
+      const release = getCurseForgeRelease(mod, file);
+      const url = CurseForge.getProjectUrl(mod);
+
+      context.emit("addon:install:downloading", mod.name);
+      await CurseForgeProvider.download(
+        release,
+        { name: mod.name, url },
+        tempDir,
+        config,
+        () => context.emit("addon:install:extracting", mod.name),
+      );
+
+      const addonFolders = await findAddonFolders(tempDir);
+      const installedNames: string[] = [];
+
+      context.emit("addon:install:copying", mod.name);
+
+      for (const folder of addonFolders) {
+        await copyAddonFolder(
+          folder.source,
+          path.join(config.destDir, folder.name),
+        );
+        installedNames.push(folder.name);
+        this.installedFolders.push(folder.name);
+      }
+
+      if (installedNames.length === 0) {
+        throw new Error("No addon folders found in download");
+      }
+
+      const parentFolder = determineParentFolder(
+        installedNames,
+        file.fileName.replace(/\.zip$/i, ""),
+        mod.name,
+      );
+      const ownedFolders = installedNames.filter((f) => f !== parentFolder);
+
+      // Scan and register in database
+      const scanCmd = new ScanCommand(this.dbManager, this.configManager, [
+        parentFolder,
+      ]);
+      await scanCmd.execute(context);
+
+      // Update checks compare file IDs, the display name is just for show
+      const now = new Date().toISOString();
+      this.dbManager.updateAddon(parentFolder, {
+        url,
+        type: REPO_TYPE.CURSEFORGE,
+        version: release.version,
+        author: release.author ?? "",
+        file_id: file.id,
+        last_updated: now,
+        last_checked: now,
+        remote_version: String(file.id),
+        ownedFolders,
+      });
+
+      // Remove stale DB records for owned folders
+      for (const ownedFolder of ownedFolders) {
+        this.dbManager.removeAddon(ownedFolder);
+      }
+
+      if (ownedFolders.length > 0) {
+        context.emit("install:folder_ownership", parentFolder, ownedFolders);
+      }
+
+      recordInstall(this.dbManager, parentFolder);
+      context.emit("addon:install:complete", mod.name);
+      return { success: true, installedAddons: installedNames };
+    } catch (error) {
+      logger.error("InstallCurseForgeCommand", "Install failed", error);
+      await this.undo(context);
+      const message = error instanceof Error ? error.message : String(error);
+      recordFailedInstall(
+        this.dbManager,
+        this.addonIdOrUrl,
+        REPO_TYPE.CURSEFORGE,
+        message,
+      );
+      return { success: false, installedAddons: [], error: message };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  async undo(_context: CommandContext): Promise<void> {
+    logger.log("InstallCurseForgeCommand", "Rolling back installation");
+    const destDir = this.configManager.get().destDir;
+    for (const folder of this.installedFolders) {
+      try {
+        await fs.rm(path.join(destDir, folder), {
+          recursive: true,
+          force: true,
+        });
+        this.dbManager.removeAddon(folder);
+      } catch (err) {
+        logger.error(
+          "InstallCurseForgeCommand",
+          `Failed to remove ${folder} during undo`,
+          err,
+        );
+      }
+    }
+  }
+}
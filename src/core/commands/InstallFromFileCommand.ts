@@ -0,0 +1,171 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { recordFailedInstall, recordInstall } from "@/core/commands/history";
+import type { InstallFromUrlResult } from "@/core/commands/InstallFromUrlCommand";
+import { ScanCommand } from "@/core/commands/ScanCommand";
+import type { Command, CommandContext } from "@/core/commands/types";
+import { type ConfigManager, REPO_TYPE } from "@/core/config";
+import type { DatabaseManager } from "@/core/db";
+import * as Downloader from "@/core/downloader";
+import { logger } from "@/core/logger";
+import { isPathConfigured, resolveUserPath } from "@/core/paths";
+import {
+  copyAddonFolder,
+  determineParentFolder,
+  findAddonFolders,
+} from "@/core/utils/addonFolders";
+
+/**
+ * Installs addons from a local .zip file or folder, e.g. a zip shared on
+ * Discord or a local build. The addon is recorded as a "local" source;
+ * installing a newer file over it later replaces the installed folders.
+ */
+export class InstallFromFileCommand implements Command<InstallFromUrlResult> {
+  private installedFolders: string[] = [];
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private configManager: ConfigManager,
+    private filePath: string,
+  ) {}
+
+  async execute(context: CommandContext): Promise<InstallFromUrlResult> {
+    const config = this.configManager.get();
+
+    if (!isPathConfigured(config.destDir)) {
+      return {
+        success: false,
+        installedAddons: [],
+        error: "WoW Addon directory is not configured. Please go to Settings.",
+      };
+    }
+
+    const sourcePath = resolveUserPath(this.filePath);
+    const tempDir = path.join(
+      os.tmpdir(),
+      `lemonup-install-${crypto.randomUUID()}`,
+    );
+
+    try {
+      const stat = await fs.stat(sourcePath).catch(() => null);
+      if (!stat) {
+        throw new Error(`File not found: ${sourcePath}`);
+      }
+
+      const destDir = path.resolve(config.destDir);
+      if (sourcePath === destDir || sourcePath.startsWith(destDir + path.sep)) {
+        throw new Error("Path is already inside the AddOns directory");
+      }
+
+      logger.log("InstallFromFileCommand", `Installing from ${sourcePath}`);
+      context.emit("addon:install:start", sourcePath);
+
+      let contentRoot = sourcePath;
+      let contentHash: string | null = null;
+      if (stat.isFile()) {
+        if (!sourcePath.toLowerCase().endsWith(".zip")) {
+          throw new Error("Only .zip files and folders can be installed");
+        }
+        context.emit("addon:install:extracting", sourcePath);
+        await fs.mkdir(tempDir, { recursive: true });
+        if (!(await Downloader.unzip(sourcePath, tempDir))) {
+          throw new Error("Unzip failed");
+        }
+        contentHash = await Downloader.hashFile(sourcePath);
+        contentRoot = tempDir;
+      }
+
+      const addonFolders = await findAddonFolders(contentRoot);
+      const installedNames: string[] = [];
+
+      context.emit("addon:install:copying", sourcePath);
+
+      for (const folder of addonFolders) {
+        await copyAddonFolder(
+          folder.source,
+          path.join(config.destDir, folder.name),
+        );
+        installedNames.push(folder.name);
+        this.installedFolders.push(folder.name);
+      }
+
+      if (installedNames.length === 0) {
+        throw new Error("No addons found in file or folder");
+      }
+
+      const parentFolder = determineParentFolder(
+        installedNames,
+        path.basename(sourcePath).replace(/\.zip$/i, ""),
+        null,
+      );
+      const ownedFolders = installedNames.filter((f) => f !== parentFolder);
+
+      const scanCmd = new ScanCommand(this.dbManager, this.configManager, [
+        parentFolder,
+      ]);
+      await scanCmd.execute(context);
+
+      // Version comes from the TOC; there's no remote to check against
+      const now = new Date().toISOString();
+      this.dbManager.updateAddon(parentFolder, {
+        url: sourcePath,
+        type: REPO_TYPE.LOCAL,
+        branch: null,
+        subpath: null,
+        git_commit: null,
+        content_hash: contentHash,
+        httpValidators: null,
+        last_updated: now,
+        last_checked: now,
+        remote_version: null,
+        ownedFolders,
+      });
+
+      for (const ownedFolder of ownedFolders) {
+        this.dbManager.removeAddon(ownedFolder);
+      }
+
+      if (ownedFolders.length > 0) {
+        context.emit("install:folder_ownership", parentFolder, ownedFolders);
+      }
+
+      recordInstall(this.dbManager, parentFolder);
+      context.emit("addon:install:complete", sourcePath);
+      return { success: true, installedAddons: installedNames };
+    } catch (error) {
+      logger.error("InstallFromFileCommand", "Install failed", error);
+      await this.undo(context);
+      const message = error instanceof Error ? error.message : String(error);
+      recordFailedInstall(
+        this.dbManager,
+        this.filePath,
+        REPO_TYPE.LOCAL,
+        message,
+      );
+      return { success: false, installedAddons: [], error: message };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  async undo(_context: CommandContext): Promise<void> {
+    logger.log("InstallFromFileCommand", "Rolling back installation");
+    const destDir = this.configManager.get().destDir;
+    for (const folder of this.installedFolders) {
+      try {
+        await fs.rm(path.join(destDir, folder), {
+          recursive: true,
+          force: true,
+        });
+        this.dbManager.removeAddon(folder);
+      } catch (err) {
+        logger.error(
+          "InstallFromFileCommand",
+          `Failed to remove ${folder} during undo`,
+          err,
+        );
+      }
+    }
+  }
+}
@@ -1,16 +1,36 @@
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import { recordFailedInstall, recordInstall } from "@/core/commands/history";
+import { InstallCurseForgeCommand } from "@/core/commands/InstallCurseForgeCommand";
 import { InstallWagoCommand } from "@/core/commands/InstallWagoCommand";
 import { ScanCommand } from "@/core/commands/ScanCommand";
 import type { Command, CommandContext } from "@/core/commands/types";
-import { type ConfigManager, REPO_TYPE } from "@/core/config";
-import type { DatabaseManager } from "@/core/db";
-import * as Downloader from "@/core/downloader";
+import {
+  type Config,
+  type ConfigManager,
+  REPO_TYPE,
+  type RepoType,
+} from "@/core/config";
+import type { DatabaseManager, TrackingMode } from "@/core/db";
 import * as GitClient from "@/core/git";
 import { logger } from "@/core/logger";
 import { isPathConfigured } from "@/core/paths";
-import * as WoWInterface from "@/core/wowinterface";
+import {
+  findProviderForUrl,
+  getRemoteVersion,
+  type SourceProvider,
+} from "@/core/sources";
+import { DEFAULT_BRANCH, resolveRefPath } from "@/core/sources/git";
+import { parseGiteaUrl } from "@/core/sources/gitea";
+import { parseGitHubUrl, resolveInstallRef } from "@/core/sources/github";
+import { parseGitLabUrl } from "@/core/sources/gitlab";
+import {
+  copyAddonFolder,
+  determineParentFolder,
+  findAddonFolders,
+  resolveContentRoot,
+} from "@/core/utils/addonFolders";
 
 export interface InstallFromUrlResult {
   success: boolean;
@@ -18,6 +38,71 @@ export interface InstallFromUrlResult {
   error?: string;
 }
 
+/**
+ * Where a URL points within its source, as stored on the addon record.
+ */
+export interface SourceTargetInfo {
+  /** Bare repository or project URL */
+  sourceUrl: string;
+  branch: string | null;
+  subpath: string | null;
+  tracking?: TrackingMode;
+}
+
+/**
+ * Splits a git host URL into the repository and the branch, subpath and
+ * tracking mode it refers to. Other sources keep the URL as given.
+ */
+export async function resolveSourceTarget(
+  url: string,
+  type: RepoType,
+  config: Config,
+): Promise<SourceTargetInfo> {
+  // GitHub URLs may carry a /tree/<branch>[/<subpath>] suffix; store the bare repo URL
+  // Release URLs switch the addon to packaged release tracking
+  if (type === REPO_TYPE.GITHUB) {
+    const githubUrl = parseGitHubUrl(url);
+    if (githubUrl.isRelease) {
+      return {
+        sourceUrl: githubUrl.url,
+        branch: null,
+        subpath: null,
+        tracking: "release",
+      };
+    }
+    const { branch, subpath } = await resolveInstallRef(url);
+    return { sourceUrl: githubUrl.url, branch, subpath, tracking: "branch" };
+  }
+
+  if (type === REPO_TYPE.GITLAB || type === REPO_TYPE.GITEA) {
+    const forgeUrl =
+      type === REPO_TYPE.GITLAB
+        ? parseGitLabUrl(url, config.gitlabHosts)
+        : parseGiteaUrl(url, config.giteaHosts);
+    if (!forgeUrl) throw new Error(`Unrecognised URL: ${url}`);
+    if (forgeUrl.isRelease) {
+      return {
+        sourceUrl: forgeUrl.url,
+        branch: null,
+        subpath: null,
+        tracking: "release",
+      };
+    }
+    const { branch, subpath } = await resolveRefPath(
+      forgeUrl.url,
+      forgeUrl.branch,
+    );
+    return { sourceUrl: forgeUrl.url, branch, subpath, tracking: "branch" };
+  }
+
+  if (type === REPO_TYPE.GIT) {
+    const branch = (await GitClient.getDefaultBranch(url)) || DEFAULT_BRANCH;
+    return { sourceUrl: url, branch, subpath: null, tracking: "branch" };
+  }
+
+  return { sourceUrl: url, branch: null, subpath: null };
+}
+
 export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
   private installedFolders: string[] = [];
 
@@ -43,20 +128,11 @@ export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
       `lemonup-install-${crypto.randomUUID()}`,
     );
 
+    let provider: SourceProvider | null = null;
     try {
-      const parsed = new URL(this.url);
-      const isGitHub = parsed.hostname.endsWith("github.com");
-      const isWoWInterface = parsed.hostname.endsWith("wowinterface.com");
-      const isCurseforge = parsed.hostname.endsWith("curseforge.com");
-      const isWago = parsed.hostname.endsWith("wago.io");
+      provider = findProviderForUrl(this.url, config);
 
-      if (isCurseforge) {
-        throw new Error(
-          "Curseforge addons are not currently supported by LemonUp",
-        );
-      }
-
-      if (isWago) {
+      if (provider?.type === REPO_TYPE.WAGO) {
         // Delegate to InstallWagoCommand for Wago URLs
         const wagoCmd = new InstallWagoCommand(
           this.dbManager,
@@ -66,108 +142,59 @@ export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
         return wagoCmd.execute(context);
       }
 
-      if (!isGitHub && !isWoWInterface) {
+      if (provider?.type === REPO_TYPE.CURSEFORGE) {
+        const curseforgeCmd = new InstallCurseForgeCommand(
+          this.dbManager,
+          this.configManager,
+          this.url,
+        );
+        return curseforgeCmd.execute(context);
+      }
+
+      if (
+        provider?.type !== REPO_TYPE.GITHUB &&
+        provider?.type !== REPO_TYPE.WOWINTERFACE &&
+        provider?.type !== REPO_TYPE.GITLAB &&
+        provider?.type !== REPO_TYPE.GITEA &&
+        provider?.type !== REPO_TYPE.GIT &&
+        provider?.type !== REPO_TYPE.ZIP
+      ) {
         throw new Error(
-          "Only github.com and wowinterface.com URLs are supported",
+          "Only GitHub, GitLab, Gitea, wowinterface.com, git remote and https .zip URLs are supported",
         );
       }
 
       logger.log("InstallFromUrlCommand", `Installing from URL: ${this.url}`);
       context.emit("addon:install:start", this.url);
 
-      let repoType: "github" | "wowinterface";
-      let wowInterfaceDetails: WoWInterface.WoWInterfaceAddonDetails | null =
-        null;
-
-      if (isGitHub) {
-        repoType = "github";
-        context.emit("addon:install:downloading", this.url);
-        if (!(await GitClient.clone(this.url, "main", tempDir))) {
-          throw new Error("Git Clone failed");
-        }
-      } else {
-        repoType = "wowinterface";
-        const addonId = WoWInterface.getAddonIdFromUrl(this.url);
-        if (!addonId) {
-          throw new Error("Could not parse WoWInterface Addon ID from URL");
-        }
-
-        context.emit("addon:install:downloading", this.url);
-        const result = await WoWInterface.getAddonDetails(addonId);
-        if (!result.success) {
-          switch (result.error) {
-            case "not_found":
-              throw new Error(
-                "Addon not found on WoWInterface. It may have been removed, discontinued, or the URL may be incorrect.",
-              );
-            case "network_error":
-              throw new Error(
-                "Failed to connect to WoWInterface API. Please check your internet connection.",
-              );
-            case "invalid_response":
-              throw new Error(
-                "Received unexpected response from WoWInterface API.",
-              );
-          }
-        }
-        wowInterfaceDetails = result.details;
-
-        const zipPath = path.join(tempDir, "addon.zip");
-        await fs.mkdir(tempDir, { recursive: true });
-
-        if (
-          !(await Downloader.download(wowInterfaceDetails.UIDownload, zipPath))
-        ) {
-          throw new Error("Failed to download addon zip");
-        }
-
-        await Downloader.unzip(zipPath, tempDir);
-        // Remove zip after extraction so it doesn't get copied
-        await fs.unlink(zipPath);
-      }
+      const { sourceUrl, branch, subpath, tracking } =
+        await resolveSourceTarget(this.url, provider.type, config);
 
-      // Scan for first-level folders containing .toc (ignore embedded libs in subfolders)
-      const tocGlob = new Bun.Glob("**/*.toc");
-      const foundFolders = new Set<string>();
-
-      for await (const file of tocGlob.scan({ cwd: tempDir })) {
-        const dir = path.dirname(file);
-        if (dir !== ".") {
-          // Only add first-level folders (no "/" in path = top-level addon folder)
-          const firstLevel = dir.split("/")[0];
-          if (firstLevel) {
-            foundFolders.add(firstLevel);
-          }
-        }
-      }
-
-      const foldersToCopy = Array.from(foundFolders);
-      const rootTocs = Array.from(
-        new Bun.Glob("*.toc").scanSync({ cwd: tempDir }),
+      const target = { name: "", url: this.url, branch, tracking };
+      context.emit("addon:install:downloading", this.url);
+      let release = await provider.resolveLatest(target, config);
+      await fs.mkdir(tempDir, { recursive: true });
+      release = await provider.download(release, target, tempDir, config, () =>
+        context.emit("addon:install:extracting", this.url),
       );
+      // Packaged zips are already laid out as addon folders
+      const contentRoot = await resolveContentRoot(
+        tempDir,
+        release.downloadUrl ? null : subpath,
+      );
+
+      const addonFolders = await findAddonFolders(contentRoot);
       const installedNames: string[] = [];
 
       context.emit("addon:install:copying", this.url);
 
-      if (rootTocs.length > 0) {
-        for (const tocFile of rootTocs) {
-          const addonName = path.basename(tocFile, ".toc");
-          const dest = path.join(config.destDir, addonName);
-          await fs.cp(tempDir, dest, { recursive: true, force: true });
-          installedNames.push(addonName);
-          this.installedFolders.push(addonName);
-        }
-      }
-
-      if (foldersToCopy.length > 0) {
-        for (const folderName of foldersToCopy) {
-          // folderName is already first-level only (e.g., "Clique", not "Clique/libs/...")
-          const source = path.join(tempDir, folderName);
-          const dest = path.join(config.destDir, folderName);
-          await fs.cp(source, dest, { recursive: true, force: true });
-          installedNames.push(folderName);
-          this.installedFolders.push(folderName);
-        }
+      for (const folder of addonFolders) {
+        await copyAddonFolder(
+          folder.source,
+          path.join(config.destDir, folder.name),
+        );
+        installedNames.push(folder.name);
+        this.installedFolders.push(folder.name);
       }
 
       if (installedNames.length === 0) {
@@ -175,18 +202,14 @@ export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
       }
 
       // Determine parent folder BEFORE scanning
-      let targetName = "";
-      if (repoType === "github") {
-        const pathname = parsed.pathname.replace(/\.git$/, "");
-        targetName = pathname.split("/").pop() || "";
-      } else if (repoType === "wowinterface" && wowInterfaceDetails !== null) {
-        targetName = wowInterfaceDetails.UIFileName.replace(/\.zip$/i, "");
-      }
+      const targetName = release.fileName
+        ? release.fileName.replace(/\.zip$/i, "")
+        : release.name || "";
 
-      const parentFolder = this.determineParentFolder(
+      const parentFolder = determineParentFolder(
         installedNames,
         targetName,
-        repoType === "wowinterface" ? wowInterfaceDetails : null,
+        release.fileName ? (release.name ?? null) : null,
       );
 
       // Owned folders = all folders except parent
@@ -199,27 +222,37 @@ export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
       await scanCmd.execute(context);
 
       // Update parent addon with source info and owned folders
-      if (repoType === "github") {
-        const installedHash =
-          (await GitClient.getCurrentCommit(tempDir)) || null;
+      const now = new Date().toISOString();
+      if (release.commit) {
         this.dbManager.updateAddon(parentFolder, {
-          url: this.url,
-          type: REPO_TYPE.GITHUB,
-          git_commit: installedHash,
-          last_updated: new Date().toISOString(),
-          last_checked: new Date().toISOString(),
-          remote_version: installedHash,
+          url: sourceUrl,
+          type: provider.type,
+          branch: release.branch ?? branch,
+          ...(subpath ? { subpath } : {}),
+          ...(tracking ? { tracking } : {}),
+          ...(release.tag ? { version: release.tag } : {}),
+          git_commit: release.commit,
+          last_updated: now,
+          last_checked: now,
+          remote_version: getRemoteVersion(release),
           ownedFolders,
         });
-      } else if (repoType === "wowinterface" && wowInterfaceDetails !== null) {
+      } else {
         this.dbManager.updateAddon(parentFolder, {
-          url: this.url,
-          type: REPO_TYPE.WOWINTERFACE,
-          version: wowInterfaceDetails.UIVersion,
-          author: wowInterfaceDetails.UIAuthorName,
-          last_updated: new Date().toISOString(),
-          last_checked: new Date().toISOString(),
-          remote_version: wowInterfaceDetails.UIVersion,
+          url: sourceUrl,
+          type: provider.type,
+          ...(tracking ? { tracking } : {}),
+          version: release.version,
+          ...(release.author ? { author: release.author } : {}),
+          ...(release.contentHash
+            ? {
+                content_hash: release.contentHash,
+                httpValidators: release.validators ?? null,
+              }
+            : {}),
+          last_updated: now,
+          last_checked: now,
+          remote_version: release.version,
           ownedFolders,
         });
       }
@@ -234,16 +267,20 @@ export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
         context.emit("install:folder_ownership", parentFolder, ownedFolders);
       }
 
+      recordInstall(this.dbManager, parentFolder);
       context.emit("addon:install:complete", this.url);
       return { success: true, installedAddons: installedNames };
     } catch (error) {
       logger.error("InstallFromUrlCommand", "Install failed", error);
       await this.undo(context);
-      return {
-        success: false,
-        installedAddons: [],
-        error: error instanceof Error ? error.message : String(error),
-      };
+      const message = error instanceof Error ? error.message : String(error);
+      recordFailedInstall(
+        this.dbManager,
+        this.url,
+        provider?.type ?? null,
+        message,
+      );
+      return { success: false, installedAddons: [], error: message };
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
     }
@@ -268,66 +305,4 @@ export class InstallFromUrlCommand implements Command<InstallFromUrlResult> {
       }
     }
   }
-
-  /**
-   * Determines which folder is the "parent" addon from a multi-folder install.
-   * Uses heuristics based on naming patterns and source metadata.
-   */
-  private determineParentFolder(
-    folders: string[],
-    targetName: string,
-    wowInterfaceDetails: WoWInterface.WoWInterfaceAddonDetails | null,
-  ): string {
-    // Should never happen - caller ensures at least one folder
-    if (folders.length === 0) {
-      throw new Error("No folders provided to determineParentFolder");
-    }
-
-    const [first] = folders;
-    if (folders.length === 1 && first) {
-      return first;
-    }
-
-    // Exact match with target name (case-insensitive)
-    const exactMatch = folders.find(
-      (f) => f.toLowerCase() === targetName.toLowerCase(),
-    );
-    if (exactMatch) return exactMatch;
-
-    // WoWInterface UIName match
-    if (wowInterfaceDetails) {
-      const uiNameMatch = folders.find(
-        (f) => f.toLowerCase() === wowInterfaceDetails.UIName.toLowerCase(),
-      );
-      if (uiNameMatch) return uiNameMatch;
-    }
-
-    // Shortest prefix that matches most other folders
-    const sorted = [...folders].sort((a, b) => a.length - b.length);
-    const [shortest] = sorted;
-    if (!shortest) {
-      throw new Error("Unexpected empty sorted array");
-    }
-    const prefixCount = sorted.filter((n) => n.startsWith(shortest)).length;
-    // If shortest is prefix for at least 50% of items, assume it's parent
-    if (prefixCount / sorted.length >= 0.5) {
-      return shortest;
-    }
-
-    // Target name similarity (substring match)
-    if (targetName) {
-      const candidates = folders.filter(
-        (name) =>
-          targetName.toLowerCase().includes(name.toLowerCase()) ||
-          name.toLowerCase().includes(targetName.toLowerCase()),
-      );
-      const [firstCandidate] = candidates.sort((a, b) => a.length - b.length);
-      if (firstCandidate) {
-        return firstCandidate;
-      }
-    }
-
-    // Fallback to shortest folder name
-    return shortest;
-  }
 }
@@ -1,12 +1,12 @@
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
-import type { ConfigManager } from "@/core/config";
+import { type ConfigManager, REPO_TYPE } from "@/core/config";
 import type { DatabaseManager } from "@/core/db";
-import * as Downloader from "@/core/downloader";
 import { logger } from "@/core/logger";
 import { isPathConfigured } from "@/core/paths";
-import * as TukUI from "@/core/tukui";
+import { getProvider, type RemoteRelease } from "@/core/sources";
+import { recordFailedInstall, recordInstall } from "./history";
 import { ScanCommand } from "./ScanCommand";
 import type { Command, CommandContext } from "./types";
 
@@ -32,16 +32,20 @@ export class InstallTukUICommand implements Command<boolean> {
     context.emit("addon:install:start", this.addonFolder);
 
     try {
-      let details: TukUI.TukUIAddon | null = null;
+      const provider = getProvider(REPO_TYPE.TUKUI);
+      if (!provider) throw new Error("TukUI source is not available");
+      const target = { name: this.addonFolder, url: this.url };
+
+      let release: RemoteRelease | null = null;
       try {
-        details = await TukUI.getAddonDetails(this.addonFolder);
+        release = await provider.resolveLatest(target, config);
       } catch (e) {
         logger.error("InstallTukUICommand", "Failed to fetch TukUI details", e);
       }
 
       let downloadUrl = this.url;
-      if ((!downloadUrl || downloadUrl === "latest") && details) {
-        downloadUrl = details.url;
+      if ((!downloadUrl || downloadUrl === "latest") && release?.downloadUrl) {
+        downloadUrl = release.downloadUrl;
       }
 
       if (!downloadUrl) {
@@ -49,17 +53,14 @@ export class InstallTukUICommand implements Command<boolean> {
       }
 
       context.emit("addon:install:downloading", this.addonFolder);
-      const zipPath = path.join(tempDir, "addon.zip");
-      if (!(await Downloader.download(downloadUrl, zipPath))) {
-        throw new Error("Download failed");
-      }
-
-      context.emit("addon:install:extracting", this.addonFolder);
       const extractPath = path.join(tempDir, "extract");
-      await fs.mkdir(extractPath, { recursive: true });
-      if (!(await Downloader.unzip(zipPath, extractPath))) {
-        throw new Error("Unzip failed");
-      }
+      await provider.download(
+        { version: release?.version || "unknown", ...release, downloadUrl },
+        target,
+        extractPath,
+        config,
+        () => context.emit("addon:install:extracting", this.addonFolder),
+      );
 
       context.emit("addon:install:copying", this.addonFolder);
       const foldersToCopy = [this.addonFolder, ...this.subFolders];
@@ -77,14 +78,14 @@ export class InstallTukUICommand implements Command<boolean> {
 
       // Update main addon with ownedFolders and TukUI metadata
       this.dbManager.updateAddon(this.addonFolder, {
-        type: "tukui",
+        type: REPO_TYPE.TUKUI,
         url: downloadUrl,
-        version: details?.version || "unknown",
-        author: details?.author || null,
+        version: release?.version || "unknown",
+        author: release?.author || null,
         ownedFolders: this.subFolders,
         last_updated: new Date().toISOString(),
         last_checked: new Date().toISOString(),
-        remote_version: details?.version || "unknown",
+        remote_version: release?.version || "unknown",
         git_commit: null,
       });
 
@@ -93,10 +94,17 @@ export class InstallTukUICommand implements Command<boolean> {
         this.dbManager.removeAddon(subFolder);
       }
 
+      recordInstall(this.dbManager, this.addonFolder);
       context.emit("addon:install:complete", this.addonFolder);
       return true;
     } catch (error) {
       logger.error("InstallTukUICommand", "Failed", error);
+      recordFailedInstall(
+        this.dbManager,
+        this.addonFolder,
+        REPO_TYPE.TUKUI,
+        error instanceof Error ? error.message : String(error),
+      );
       throw error;
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
@@ -1,13 +1,14 @@
 import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
+import { recordFailedInstall, recordInstall } from "@/core/commands/history";
 import { ScanCommand } from "@/core/commands/ScanCommand";
 import type { Command, CommandContext } from "@/core/commands/types";
 import { type ConfigManager, REPO_TYPE } from "@/core/config";
 import type { DatabaseManager } from "@/core/db";
-import * as Downloader from "@/core/downloader";
 import { logger } from "@/core/logger";
 import { isPathConfigured } from "@/core/paths";
+import { getWagoRelease, WagoProvider } from "@/core/sources/wago";
 import * as Wago from "@/core/wago";
 
 export interface InstallWagoResult {
@@ -91,67 +92,35 @@ export class InstallWagoCommand implements Command<InstallWagoResult> {
 
       const addon = result.addon;
 
-      // Find best stability if requested one isn't available
-      let effectiveStability = this.stability;
-      if (!addon.releases[this.stability]) {
-        const best = Wago.getBestAvailableStability(addon);
-        if (!best) {
-          throw new Error(
-            `No releases available for addon "${addon.display_name}"`,
-          );
-        }
-        effectiveStability = best;
+      // Same choice updates make for the channel, so they don't switch it
+      const effectiveStability = Wago.selectStability(addon, this.stability);
+      if (!effectiveStability) {
+        throw new Error(
+          `No releases available for addon "${addon.display_name}"`,
+        );
+      }
+      if (effectiveStability !== this.stability) {
         logger.log(
           "InstallWagoCommand",
-          `Using ${effectiveStability} release (${this.stability} not available)`,
+          `Using ${effectiveStability} release for the ${this.stability} channel`,
         );
       }
 
-      // Get download URL
-      const downloadUrl = Wago.getDownloadUrl(addon, effectiveStability);
-      if (!downloadUrl) {
+      const release = getWagoRelease(addon, effectiveStability);
+      if (!release) {
         throw new Error(`No download URL for ${effectiveStability} release`);
       }
 
-      // Validate download URL is from Wago domain (security check)
-      try {
-        const urlObj = new URL(downloadUrl);
-        if (!urlObj.hostname.endsWith("wago.io")) {
-          throw new Error("Invalid download URL domain");
-        }
-      } catch (urlError) {
-        if (
-          urlError instanceof Error &&
-          urlError.message === "Invalid download URL domain"
-        ) {
-          throw urlError;
-        }
-        throw new Error("Invalid download URL format");
-      }
-
       context.emit("addon:install:downloading", addon.display_name);
 
       // Download and extract
-      await fs.mkdir(tempDir, { recursive: true });
-      const zipPath = path.join(tempDir, "addon.zip");
-
-      // Download with auth header
-      const downloadResponse = await fetch(downloadUrl, {
-        headers: {
-          Authorization: `Bearer ${config.wagoApiKey}`,
-          Accept: "application/octet-stream",
-        },
-      });
-
-      if (!downloadResponse.ok) {
-        throw new Error(`Download failed: ${downloadResponse.status}`);
-      }
-
-      const zipData = await downloadResponse.arrayBuffer();
-      await Bun.write(zipPath, zipData);
-      context.emit("addon:install:extracting", addon.display_name);
-      await Downloader.unzip(zipPath, tempDir);
-      await fs.unlink(zipPath);
+      await WagoProvider.download(
+        release,
+        { name: addon.display_name, url: this.addonIdOrUrl },
+        tempDir,
+        config,
+        () => context.emit("addon:install:extracting", addon.display_name),
+      );
 
       // Scan for first-level folders containing .toc
       const tocGlob = new Bun.Glob("**/*.toc");
@@ -199,8 +168,8 @@ export class InstallWagoCommand implements Command<InstallWagoResult> {
       await scanCmd.execute(context);
 
       // Update addon record with Wago metadata
-      const version = Wago.getVersion(addon, effectiveStability);
-      const author = addon.owner ?? addon.authors?.[0] ?? "";
+      const version = release.version;
+      const author = release.author ?? "";
       this.dbManager.updateAddon(parentFolder, {
         url: `https://addons.wago.io/addons/${addonId}`,
         type: REPO_TYPE.WAGO,
@@ -209,6 +178,7 @@ export class InstallWagoCommand implements Command<InstallWagoResult> {
         last_updated: new Date().toISOString(),
         last_checked: new Date().toISOString(),
         remote_version: version || effectiveStability,
+        channel: this.stability,
         ownedFolders,
       });
 
@@ -221,16 +191,20 @@ export class InstallWagoCommand implements Command<InstallWagoResult> {
         context.emit("install:folder_ownership", parentFolder, ownedFolders);
       }
 
+      recordInstall(this.dbManager, parentFolder);
       context.emit("addon:install:complete", addon.display_name);
       return { success: true, installedAddons: installedNames };
     } catch (error) {
       logger.error("InstallWagoCommand", "Install failed", error);
       await this.undo(context);
-      return {
-        success: false,
-        installedAddons: [],
-        error: error instanceof Error ? error.message : String(error),
-      };
+      const message = error instanceof Error ? error.message : String(error);
+      recordFailedInstall(
+        this.dbManager,
+        this.addonIdOrUrl,
+        REPO_TYPE.WAGO,
+        message,
+      );
+      return { success: false, installedAddons: [], error: message };
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
     }
@@ -0,0 +1,184 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { resolveSourceTarget } from "@/core/commands/InstallFromUrlCommand";
+import type { Command, CommandContext } from "@/core/commands/types";
+import { type ConfigManager, REPO_TYPE } from "@/core/config";
+import type { AddonRecord, DatabaseManager, HistoryAction } from "@/core/db";
+import { logger } from "@/core/logger";
+import { findProviderForUrl } from "@/core/sources";
+import { resolveSourceInput } from "@/core/sources/tocLink";
+import {
+  findAddonFolders,
+  resolveContentRoot,
+} from "@/core/utils/addonFolders";
+
+export interface LinkSourceResult {
+  success: boolean;
+  /** Installed folders the addon took ownership of */
+  ownedFolders: string[];
+  error?: string;
+}
+
+/**
+ * Tells LemonUp where a manually installed addon came from. The remote
+ * package is downloaded to check it ships the addon's folder, then the
+ * record is pointed at the source. Installed files are left alone until
+ * the next update.
+ */
+export class LinkSourceCommand implements Command<LinkSourceResult> {
+  private previous: AddonRecord[] = [];
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private configManager: ConfigManager,
+    private folder: string,
+    private input: string,
+  ) {}
+
+  async execute(context: CommandContext): Promise<LinkSourceResult> {
+    const config = this.configManager.get();
+    const addon = this.dbManager.getByFolder(this.folder);
+    if (!addon) {
+      return { success: false, ownedFolders: [], error: "Addon not found" };
+    }
+    if (addon.type !== "manual" && addon.type !== REPO_TYPE.LOCAL) {
+      return {
+        success: false,
+        ownedFolders: [],
+        error: "Addon already has a source",
+      };
+    }
+
+    const url = resolveSourceInput(this.input);
+    const provider = findProviderForUrl(url, config);
+    if (!provider) {
+      return {
+        success: false,
+        ownedFolders: [],
+        error: "Enter a supported URL or a wago:, curseforge: or wowi: ID",
+      };
+    }
+
+    const tempDir = path.join(
+      os.tmpdir(),
+      `lemonup-link-${crypto.randomUUID()}`,
+    );
+
+    try {
+      logger.log("LinkSourceCommand", `Linking ${this.folder} to ${url}`);
+      const { sourceUrl, branch, subpath, tracking } =
+        await resolveSourceTarget(url, provider.type, config);
+
+      const target = { name: addon.name, url, branch, tracking };
+      let release = await provider.resolveLatest(target, config);
+      await fs.mkdir(tempDir, { recursive: true });
+      release = await provider.download(release, target, tempDir, config);
+      const contentRoot = await resolveContentRoot(
+        tempDir,
+        release.downloadUrl ? null : subpath,
+      );
+
+      const remoteFolders = (await findAddonFolders(contentRoot)).map(
+        (f) => f.name,
+      );
+      if (!remoteFolders.includes(this.folder)) {
+        throw new Error(
+          `Source doesn't contain ${this.folder} (found: ${remoteFolders.join(", ") || "no addons"})`,
+        );
+      }
+
+      // Sibling folders of the package come along, unless another addon owns them
+      const ownedFolders: string[] = [];
+      for (const folder of remoteFolders) {
+        if (folder === this.folder) continue;
+        const stat = await fs
+          .stat(path.join(config.destDir, folder))
+          .catch(() => null);
+        if (!stat?.isDirectory()) continue;
+        const record = this.dbManager.getByFolder(folder);
+        if (record && record.type !== "manual") continue;
+        if (this.dbManager.getOwnerOf(folder)) continue;
+        ownedFolders.push(folder);
+      }
+
+      this.previous = [this.folder, ...ownedFolders]
+        .map((f) => this.dbManager.getByFolder(f))
+        .filter((a): a is AddonRecord => a !== null);
+
+      // The installed files are still the manual ones, so the version stays
+      // the TOC's and the next check compares it against the remote
+      this.dbManager.updateAddon(this.folder, {
+        url: sourceUrl,
+        type: provider.type,
+        branch: release.branch ?? branch,
+        subpath,
+        ...(tracking ? { tracking } : {}),
+        git_commit: null,
+        ...(release.author ? { author: release.author } : {}),
+        content_hash: null,
+        httpValidators: null,
+        file_id: null,
+        last_checked: null,
+        remote_version: null,
+        ownedFolders,
+      });
+
+      for (const ownedFolder of ownedFolders) {
+        this.dbManager.removeAddon(ownedFolder);
+      }
+
+      if (ownedFolders.length > 0) {
+        context.emit("install:folder_ownership", this.folder, ownedFolders);
+      }
+
+      this.recordHistory(addon, "source", provider.type, sourceUrl);
+      return { success: true, ownedFolders };
+    } catch (error) {
+      logger.error("LinkSourceCommand", "Link failed", error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordHistory(addon, "source", provider.type, message, true);
+      return { success: false, ownedFolders: [], error: message };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  async undo(_context: CommandContext): Promise<void> {
+    const linked = this.dbManager.getByFolder(this.folder);
+    for (const record of this.previous) {
+      if (this.dbManager.getByFolder(record.folder)) {
+        this.dbManager.updateAddon(record.folder, record);
+      } else {
+        this.dbManager.addAddon(record);
+      }
+    }
+    const [previous] = this.previous;
+    if (linked && previous) {
+      this.recordHistory(linked, "rollback", previous.type, null);
+    }
+  }
+
+  /**
+   * Records a change of source from the addon's current type. A failed
+   * link carries its error as the message.
+   */
+  private recordHistory(
+    addon: AddonRecord,
+    action: HistoryAction,
+    toType: AddonRecord["type"],
+    message: string | null,
+    failed = false,
+  ) {
+    this.dbManager.addHistory({
+      folder: this.folder,
+      name: addon.name,
+      action,
+      fromVersion: addon.type,
+      toVersion: toType,
+      source: failed ? addon.type : toType,
+      outcome: failed ? "failed" : "success",
+      message,
+    });
+  }
+}
@@ -0,0 +1,140 @@
+import path from "node:path";
+import type { Config, ConfigManager } from "@/core/config";
+import type { AddonRecord, DatabaseManager } from "@/core/db";
+import { logger } from "@/core/logger";
+import { matchFingerprints, type SourceMatch } from "@/core/sources";
+import { getTocSourceLink } from "@/core/sources/tocLink";
+import { determineParentFolder } from "@/core/utils/addonFolders";
+import { getFolderFingerprint } from "@/core/utils/fingerprint";
+import type { Command, CommandContext } from "./types";
+
+/**
+ * A manually installed addon that a provider recognised.
+ */
+export interface AddonMatch {
+  /** Folder that becomes the managed record */
+  folder: string;
+  /** Name of the manual record, as shown in the list */
+  name: string;
+  match: SourceMatch;
+  /** Other matched folders the record takes ownership of */
+  ownedFolders: string[];
+}
+
+/**
+ * Builds matches from the project IDs manual addons declare in their TOC.
+ * Folders pointing at the same project are grouped under one parent.
+ */
+export function findTocMatches(
+  addons: AddonRecord[],
+  config: Config,
+): AddonMatch[] {
+  const groups = new Map<
+    string,
+    { match: SourceMatch; addons: AddonRecord[] }
+  >();
+  for (const addon of addons) {
+    if (addon.type !== "manual" || !addon.projectIds) continue;
+    const link = getTocSourceLink(addon.projectIds, config);
+    if (!link) continue;
+
+    const group = groups.get(link.url) ?? {
+      match: { ...link, release: { version: "" }, folders: [] },
+      addons: [],
+    };
+    group.match.folders.push(addon.folder);
+    group.addons.push(addon);
+    groups.set(link.url, group);
+  }
+
+  const results: AddonMatch[] = [];
+  for (const { match, addons: grouped } of groups.values()) {
+    const folder = determineParentFolder(match.folders, "", null);
+    const parent = grouped.find((a) => a.folder === folder);
+    if (!parent) continue;
+    // The installed files are whatever the TOC says they are
+    match.release = {
+      version: parent.version ?? "",
+      name: parent.name,
+      author: parent.author,
+    };
+    results.push({
+      folder,
+      name: parent.name,
+      match,
+      ownedFolders: match.folders.filter((f) => f !== folder),
+    });
+  }
+  return results;
+}
+
+/**
+ * Finds sources for manually installed addons: first from the project IDs
+ * their TOC declares, then by fingerprinting the remaining folders and
+ * asking providers which releases they come from. Nothing is changed;
+ * see AdoptAddonCommand.
+ */
+export class MatchSourcesCommand implements Command<AddonMatch[]> {
+  constructor(
+    private dbManager: DatabaseManager,
+    private configManager: ConfigManager,
+    private specificFolders?: string[],
+  ) {}
+
+  async execute(_context: CommandContext): Promise<AddonMatch[]> {
+    const config = this.configManager.get();
+    const manual = this.dbManager
+      .getAll()
+      .filter(
+        (a) =>
+          a.type === "manual" &&
+          (!this.specificFolders || this.specificFolders.includes(a.folder)),
+      );
+
+    const results = findTocMatches(manual, config);
+    const claimed = new Set(results.flatMap((r) => r.match.folders));
+
+    const fingerprints = new Map<string, number>();
+    for (const addon of manual) {
+      if (claimed.has(addon.folder)) continue;
+      try {
+        fingerprints.set(
+          addon.folder,
+          await getFolderFingerprint(path.join(config.destDir, addon.folder)),
+        );
+      } catch (error) {
+        logger.error(
+          "MatchSourcesCommand",
+          `Failed to fingerprint ${addon.folder}`,
+          error,
+        );
+      }
+    }
+
+    const matches =
+      fingerprints.size > 0
+        ? await matchFingerprints(fingerprints, config)
+        : [];
+    for (const match of matches) {
+      const folder = determineParentFolder(
+        match.folders,
+        match.release.fileName?.replace(/\.zip$/i, "") ?? "",
+        match.release.name ?? null,
+      );
+      const addon = manual.find((a) => a.folder === folder);
+      if (!addon) continue;
+      results.push({
+        folder,
+        name: addon.name,
+        match,
+        ownedFolders: match.folders.filter((f) => f !== folder),
+      });
+    }
+
+    logger.log(
+      "MatchSourcesCommand",
+      `Matched ${results.length} addons in ${manual.length} manual folders`,
+    );
+    return results;
+  }
+}
@@ -0,0 +1,34 @@
+import type { ConfigManager } from "@/core/config";
+import type { DatabaseManager } from "@/core/db";
+import { logger } from "@/core/logger";
+import * as RepoCache from "@/core/repoCache";
+import { isGitSource } from "@/core/sources";
+import type { Command, CommandContext } from "./types";
+
+/**
+ * Drops cached repositories of uninstalled addons and trims the
+ * repository cache down to its configured size limit.
+ */
+export class PruneCacheCommand implements Command<RepoCache.PruneResult> {
+  constructor(
+    private dbManager: DatabaseManager,
+    private configManager: ConfigManager,
+  ) {}
+
+  async execute(_context: CommandContext): Promise<RepoCache.PruneResult> {
+    const activeUrls = this.dbManager
+      .getAll()
+      .filter((addon) => isGitSource(addon.type))
+      .flatMap((addon) => (addon.url ? [addon.url] : []));
+
+    const result = await RepoCache.pruneRepoCache(
+      activeUrls,
+      this.configManager.get().gitCacheMaxMB,
+    );
+    logger.log(
+      "PruneCacheCommand",
+      `Removed ${result.removed.length} cached repositories (${result.freedBytes} bytes)`,
+    );
+    return result;
+  }
+}
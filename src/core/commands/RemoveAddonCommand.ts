@@ -2,7 +2,7 @@ import fs from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import type { ConfigManager } from "@/core/config";
-import type { AddonRecord, DatabaseManager } from "@/core/db";
+import type { AddonRecord, DatabaseManager, HistoryAction } from "@/core/db";
 import { logger } from "@/core/logger";
 import type { Command, CommandContext } from "./types";
 
@@ -15,6 +15,7 @@ export interface RemoveAddonResult {
 export class RemoveAddonCommand implements Command<RemoveAddonResult> {
   private addonRecord: AddonRecord | null = null;
   private backupPaths: Map<string, string> = new Map();
+  private removed = false;
 
   constructor(
     private dbManager: DatabaseManager,
@@ -96,6 +97,8 @@ export class RemoveAddonCommand implements Command<RemoveAddonResult> {
         await fs.rm(addonPath, { recursive: true, force: true });
         removedFolders.push(folder);
       }
+      this.removed = true;
+      this.recordHistory("remove", this.addonRecord.version, null);
       context.emit("addon:remove:complete", this.folder);
       return { success: true, removedFolders };
     } catch (error) {
@@ -104,8 +107,14 @@ export class RemoveAddonCommand implements Command<RemoveAddonResult> {
         `Failed to delete addon folders for: ${this.folder}`,
         error,
       );
-      // Try to rollback immediately if disk removal fails
-      await this.undo(context);
+      // Try to rollback immediately if disk removal fails; undo logs errors
+      await this.undo(context).catch(() => {});
+      this.recordHistory(
+        "remove",
+        this.addonRecord.version,
+        this.addonRecord.version,
+        error instanceof Error ? error.message : String(error),
+      );
       return { success: false, removedFolders: [] };
     }
   }
@@ -118,6 +127,16 @@ export class RemoveAddonCommand implements Command<RemoveAddonResult> {
     const addonsDir = this.configManager.get().destDir;
 
     try {
+      // Check before touching anything, the addon may be back by now
+      if (this.dbManager.getByFolder(this.folder)) {
+        throw new Error(`${this.folder} has been installed again`);
+      }
+      for (const [folder, backupPath] of this.backupPaths) {
+        await fs.access(backupPath).catch(() => {
+          throw new Error(`Backup of ${folder} is gone`);
+        });
+      }
+
       // Restore all folders from backups
       for (const [folder, backupPath] of this.backupPaths) {
         const addonPath = path.join(addonsDir, folder);
@@ -126,8 +145,43 @@ export class RemoveAddonCommand implements Command<RemoveAddonResult> {
 
       // Restore DB record
       this.dbManager.addAddon(this.addonRecord);
+
+      if (this.removed) {
+        this.recordHistory("rollback", null, this.addonRecord.version);
+        this.removed = false;
+      }
     } catch (error) {
       logger.error("Manager", `Rollback failed for ${this.folder}`, error);
+      throw error;
     }
   }
+
+  async dispose(): Promise<void> {
+    for (const backupPath of this.backupPaths.values()) {
+      await fs.rm(backupPath, { recursive: true, force: true });
+    }
+    this.backupPaths.clear();
+  }
+
+  /**
+   * An error marks the entry as failed.
+   */
+  private recordHistory(
+    action: HistoryAction,
+    fromVersion: string | null,
+    toVersion: string | null,
+    error?: string,
+  ) {
+    if (!this.addonRecord) return;
+    this.dbManager.addHistory({
+      folder: this.folder,
+      name: this.addonRecord.name,
+      action,
+      fromVersion,
+      toVersion,
+      source: this.addonRecord.type,
+      outcome: error ? "failed" : "success",
+      message: error,
+    });
+  }
 }
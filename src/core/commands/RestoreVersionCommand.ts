@@ -0,0 +1,185 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Command, CommandContext } from "@/core/commands/types";
+import type { ConfigManager } from "@/core/config";
+import type { AddonRecord, DatabaseManager } from "@/core/db";
+import { logger } from "@/core/logger";
+import * as VersionArchive from "@/core/versionArchive";
+
+export interface RestoreVersionResult {
+  success: boolean;
+  /** Version label that is installed now */
+  version?: string | null;
+  error?: string;
+}
+
+/**
+ * Swaps an addon's installed version for an archived one. The installed
+ * version is archived in its place, so a rollback can be rolled forward
+ * again from the same Versions list.
+ */
+export class RestoreVersionCommand implements Command<RestoreVersionResult> {
+  /** Archive entry holding the version that was replaced by the restore */
+  private replacedEntry: string | null = null;
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private configManager: ConfigManager,
+    private folder: string,
+    private entryPath: string,
+  ) {}
+
+  async execute(_context: CommandContext): Promise<RestoreVersionResult> {
+    const addon = this.dbManager.getByFolder(this.folder);
+    if (!addon) return { success: false, error: "Addon not found" };
+
+    try {
+      const entry = await VersionArchive.readEntry(this.entryPath);
+      if (!entry || !entry.folders.includes(this.folder)) {
+        throw new Error("Archived version is missing or damaged");
+      }
+
+      logger.log(
+        "RestoreVersionCommand",
+        `Restoring ${this.folder} to ${entry.record.version}`,
+      );
+      this.replacedEntry = await this.swap(addon, entry);
+      this.recordHistory(addon, addon.version, entry.record.version);
+      return { success: true, version: entry.record.version };
+    } catch (error) {
+      logger.error("RestoreVersionCommand", "Restore failed", error);
+      const message = error instanceof Error ? error.message : String(error);
+      this.recordHistory(addon, addon.version, null, message);
+      return { success: false, error: message };
+    }
+  }
+
+  async undo(_context: CommandContext): Promise<void> {
+    if (!this.replacedEntry) return;
+    const addon = this.dbManager.getByFolder(this.folder);
+    const entry = await VersionArchive.readEntry(this.replacedEntry);
+    if (!addon) throw new Error(`${this.folder} is no longer installed`);
+    if (!entry) throw new Error("Archived version is missing or damaged");
+    await this.swap(addon, entry);
+    this.recordHistory(addon, addon.version, entry.record.version);
+    this.replacedEntry = null;
+  }
+
+  /**
+   * An error marks the entry as failed.
+   */
+  private recordHistory(
+    addon: AddonRecord,
+    fromVersion: string | null,
+    toVersion: string | null,
+    error?: string,
+  ) {
+    this.dbManager.addHistory({
+      folder: addon.folder,
+      name: addon.name,
+      action: "rollback",
+      fromVersion,
+      toVersion,
+      source: addon.type,
+      outcome: error ? "failed" : "success",
+      message: error,
+    });
+  }
+
+  /**
+   * Archives what is installed, installs the entry's folders and record,
+   * then drops the entry since its version is the installed one now. If a
+   * folder fails to copy, the installed version is put back as it was.
+   * @returns The entry the replaced version was archived to
+   */
+  private async swap(
+    addon: AddonRecord,
+    entry: VersionArchive.ArchivedVersion,
+  ): Promise<string | null> {
+    const config = this.configManager.get();
+    const replacedEntry = await VersionArchive.archiveInstalled(
+      addon,
+      config.destDir,
+    );
+
+    const installedFolders = [addon.folder, ...addon.ownedFolders];
+    try {
+      for (const folder of installedFolders) {
+        await fs.rm(path.join(config.destDir, folder), {
+          recursive: true,
+          force: true,
+        });
+      }
+      for (const folder of entry.folders) {
+        await fs.cp(
+          path.join(entry.path, folder),
+          path.join(config.destDir, folder),
+          { recursive: true },
+        );
+      }
+    } catch (error) {
+      await this.putBack(
+        [...new Set([...installedFolders, ...entry.folders])],
+        replacedEntry,
+      );
+      if (replacedEntry) await VersionArchive.removeEntry(replacedEntry);
+      throw error;
+    }
+
+    const ownedFolders = entry.folders.filter((f) => f !== addon.folder);
+    const { record } = entry;
+    this.dbManager.updateAddon(addon.folder, {
+      version: record.version,
+      git_commit: record.git_commit,
+      author: record.author,
+      interface: record.interface,
+      branch: record.branch ?? null,
+      tracking: record.tracking,
+      subpath: record.subpath ?? null,
+      content_hash: record.content_hash ?? null,
+      httpValidators: record.httpValidators ?? null,
+      file_id: record.file_id ?? null,
+      last_updated: new Date().toISOString(),
+      // The remote hasn't changed, but the comparison has to be redone
+      last_checked: null,
+      remote_version: null,
+      ownedFolders,
+    });
+    // Folders this version brings along are owned, not separate addons
+    for (const folder of ownedFolders) {
+      this.dbManager.removeAddon(folder);
+    }
+
+    await VersionArchive.removeEntry(entry.path);
+    await VersionArchive.pruneVersions(addon.folder, config.versionRetention);
+    return replacedEntry;
+  }
+
+  /**
+   * Undoes a half-done swap: clears the folders it touched and copies the
+   * replaced version back from the entry it was just archived to.
+   */
+  private async putBack(folders: string[], replacedEntry: string | null) {
+    const { destDir } = this.configManager.get();
+    const archived = replacedEntry
+      ? await VersionArchive.readEntry(replacedEntry)
+      : null;
+    for (const folder of folders) {
+      const destPath = path.join(destDir, folder);
+      try {
+        await fs.rm(destPath, { recursive: true, force: true });
+        if (archived?.folders.includes(folder)) {
+          await fs.cp(path.join(archived.path, folder), destPath, {
+            recursive: true,
+          });
+        }
+      } catch (error) {
+        logger.error(
+          "RestoreVersionCommand",
+          `Failed to put back ${folder}`,
+          error,
+        );
+      }
+    }
+  }
+}
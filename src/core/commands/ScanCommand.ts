@@ -1,9 +1,16 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import type { ConfigManager } from "@/core/config";
-import type { AddonRecord, DatabaseManager, GameFlavor } from "@/core/db";
+import type {
+  AddonRecord,
+  DatabaseManager,
+  GameFlavor,
+  TocProjectIds,
+} from "@/core/db";
 import * as GitClient from "@/core/git";
 import { logger } from "@/core/logger";
+import * as RepoCache from "@/core/repoCache";
+import { isGitSource } from "@/core/sources";
 import { detectEmbeddedLibs } from "@/core/utils/embeddedLibs";
 import { detectLibraryKind } from "@/core/utils/libraryDetection";
 import { selectTocFile } from "@/core/utils/tocSelection";
@@ -20,6 +27,8 @@ export interface ParsedTOC {
   requiredDeps: string[];
   optionalDeps: string[];
   xLibrary: boolean;
+  /** Null when the TOC declares no project IDs */
+  projectIds: TocProjectIds | null;
 }
 
 /**
@@ -36,6 +45,10 @@ export function parseTOCContent(
   const depsMatch = content.match(/^## (?:Dependencies|RequiredDeps):\s*(.*)/m);
   const optDepsMatch = content.match(/^## OptionalDeps:\s*(.*)/m);
   const xLibraryMatch = content.match(/^## X-Library:\s*(.*)/im);
+  const wagoMatch = content.match(/^## X-Wago-ID:\s*(.*)/im);
+  const wowiMatch = content.match(/^## X-WoWI-ID:\s*(.*)/im);
+  const curseMatch = content.match(/^## X-Curse-Project-ID:\s*(.*)/im);
+  const websiteMatch = content.match(/^## X-Website:\s*(.*)/im);
 
   const title = titleMatch?.[1]?.trim() ?? fallbackTitle;
   const cleanTitle = title.replace(/\|c[0-9a-fA-F]{8}(.*?)\|r/g, "$1");
@@ -45,6 +58,13 @@ export function parseTOCContent(
     return raw.split(/,\s*|\s+/).filter(Boolean);
   };
 
+  const projectIds: TocProjectIds = {
+    wago: wagoMatch?.[1]?.trim() || null,
+    wowi: wowiMatch?.[1]?.trim() || null,
+    curse: curseMatch?.[1]?.trim() || null,
+    website: websiteMatch?.[1]?.trim() || null,
+  };
+
   return {
     title: cleanTitle,
     version: versionMatch?.[1]?.trim() ?? null,
@@ -53,9 +73,31 @@ export function parseTOCContent(
     requiredDeps: parseDeps(depsMatch?.[1]),
     optionalDeps: parseDeps(optDepsMatch?.[1]),
     xLibrary: xLibraryMatch?.[1]?.trim().toLowerCase() === "true",
+    projectIds: Object.values(projectIds).some(Boolean) ? projectIds : null,
   };
 }
 
+/**
+ * Looks up the commit of a git addon in the repository cache. A branch
+ * lookup gives the head last fetched, which may be newer than what is
+ * installed, so this is a last resort.
+ */
+async function readCachedCommit(addon: AddonRecord): Promise<string | null> {
+  if (!addon.url || !isGitSource(addon.type)) return null;
+
+  if (addon.tracking === "tag" || addon.tracking === "release") {
+    if (!addon.version) return null;
+    return RepoCache.getCachedCommit(addon.url, {
+      name: addon.version,
+      isTag: true,
+    });
+  }
+  return RepoCache.getCachedCommit(addon.url, {
+    name: addon.branch || "main",
+    isTag: false,
+  });
+}
+
 export class ScanCommand implements Command<number> {
   private targetFlavor: GameFlavor = "retail";
 
@@ -126,10 +168,13 @@ export class ScanCommand implements Command<number> {
         const addonPath = path.join(addonsDir, folderName);
         const embeddedLibs = await detectEmbeddedLibs(addonPath);
 
+        const existing = this.dbManager.getByFolder(folderName);
+
+        let gitHash: string | null = null;
+
         // Check for git repo
         const gitPath = path.join(addonPath, ".git");
         let isGit = false;
-        let gitHash: string | null = null;
         try {
           await fs.stat(gitPath);
           isGit = true;
@@ -138,17 +183,20 @@ export class ScanCommand implements Command<number> {
           isGit = false;
         }
 
-        const finalVersion =
-          toc.version ||
-          (isGit && gitHash ? gitHash.substring(0, 7) : "Unknown");
+        // Git addons installed through the repository cache have no .git
+        // folder; the commit recorded at install is the one on disk
+        gitHash ??= existing?.git_commit ?? null;
+        if (!gitHash && existing) gitHash = await readCachedCommit(existing);
 
-        const existing = this.dbManager.getByFolder(folderName);
+        const finalVersion =
+          toc.version || (gitHash ? gitHash.substring(0, 7) : "Unknown");
 
         if (existing) {
           const updates: Partial<AddonRecord> = {};
           let updated = false;
 
-          if (isGit && existing.type !== "github") {
+          // Git-hosted addons keep their type; only unknown checkouts become GitHub
+          if (isGit && !isGitSource(existing.type)) {
             updates.type = "github";
             updated = true;
           }
@@ -198,6 +246,14 @@ export class ScanCommand implements Command<number> {
             updated = true;
           }
 
+          if (
+            JSON.stringify(toc.projectIds) !==
+            JSON.stringify(existing.projectIds ?? null)
+          ) {
+            updates.projectIds = toc.projectIds;
+            updated = true;
+          }
+
           if (updated) {
             this.dbManager.updateAddon(folderName, updates);
           }
@@ -222,6 +278,7 @@ export class ScanCommand implements Command<number> {
             last_updated: new Date().toISOString(),
             last_checked: null,
             remote_version: null,
+            projectIds: toc.projectIds,
           });
           count++;
         }
@@ -0,0 +1,119 @@
+import type { AddonRecord, DatabaseManager, HistoryAction } from "@/core/db";
+import * as GitClient from "@/core/git";
+import { logger } from "@/core/logger";
+import { isGitSource } from "@/core/sources";
+import type { Command, CommandContext } from "./types";
+
+export interface SwitchBranchResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Points a git-backed addon at a different branch.
+ * The new branch is installed on the next update.
+ */
+export class SwitchBranchCommand implements Command<SwitchBranchResult> {
+  private previousBranch: string | null = null;
+
+  constructor(
+    private dbManager: DatabaseManager,
+    private folder: string,
+    private branch: string,
+  ) {}
+
+  async execute(_context: CommandContext): Promise<SwitchBranchResult> {
+    const addon = this.dbManager.getByFolder(this.folder);
+    if (!addon) {
+      return { success: false, error: "Addon not found" };
+    }
+    if (!isGitSource(addon.type) || !addon.url) {
+      return {
+        success: false,
+        error: "Only git addons can switch branches",
+      };
+    }
+
+    const branch = this.branch.trim();
+    if (!branch) {
+      return { success: false, error: "Branch name is required" };
+    }
+
+    let remoteHash: string | null;
+    try {
+      remoteHash = await GitClient.getRemoteCommit(addon.url, branch);
+    } catch (error) {
+      if (error instanceof GitClient.GitAuthError) {
+        this.recordHistory(
+          addon,
+          "source",
+          addon.branch ?? null,
+          branch,
+          error.message,
+        );
+        return { success: false, error: error.message };
+      }
+      throw error;
+    }
+    if (!remoteHash) {
+      const error = `Branch '${branch}' not found on remote`;
+      this.recordHistory(addon, "source", addon.branch ?? null, branch, error);
+      return { success: false, error };
+    }
+
+    this.previousBranch = addon.branch ?? null;
+    logger.log(
+      "SwitchBranchCommand",
+      `Switching ${this.folder} from ${this.previousBranch ?? "main"} to ${branch}`,
+    );
+
+    // Record the new head so the addon shows as updatable; the next check goes live
+    this.dbManager.updateAddon(this.folder, {
+      branch,
+      last_checked: null,
+      remote_version: remoteHash,
+    });
+    this.recordHistory(addon, "source", this.previousBranch, branch);
+
+    return { success: true };
+  }
+
+  async undo(_context: CommandContext): Promise<void> {
+    const addon = this.dbManager.getByFolder(this.folder);
+    this.dbManager.updateAddon(this.folder, {
+      branch: this.previousBranch,
+      last_checked: null,
+      remote_version: null,
+    });
+    if (addon) {
+      this.recordHistory(
+        addon,
+        "rollback",
+        addon.branch ?? null,
+        this.previousBranch,
+      );
+    }
+  }
+
+  /**
+   * An error marks the entry as failed.
+   */
+  private recordHistory(
+    addon: AddonRecord,
+    action: HistoryAction,
+    fromBranch: string | null,
+    toBranch: string | null,
+    error?: string,
+  ) {
+    this.dbManager.addHistory({
+      folder: this.folder,
+      name: addon.name,
+      action,
+      fromVersion: fromBranch,
+      toVersion: toBranch,
+      source: addon.type,
+      outcome: error ? "failed" : "success",
+      message: error,
+    });
+  }
+}
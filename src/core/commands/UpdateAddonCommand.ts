@@ -3,12 +3,17 @@ import os from "node:os";
 import path from "node:path";
 import type { ConfigManager } from "@/core/config";
 import type { AddonRecord, DatabaseManager } from "@/core/db";
-import * as Downloader from "@/core/downloader";
-import * as GitClient from "@/core/git";
 import { logger } from "@/core/logger";
-import * as TukUI from "@/core/tukui";
-import * as Wago from "@/core/wago";
-import * as WoWInterface from "@/core/wowinterface";
+import {
+  compareAddonVersion,
+  getDisplayVersion,
+  getProvider,
+  getRemoteVersion,
+  type RemoteRelease,
+} from "@/core/sources";
+import { copyAddonFolder, resolveContentRoot } from "@/core/utils/addonFolders";
+import { isUpdate, type VersionDelta } from "@/core/utils/versionCompare";
+import * as VersionArchive from "@/core/versionArchive";
 import { ScanCommand } from "./ScanCommand";
 import type { Command, CommandContext } from "./types";
 
@@ -18,11 +23,26 @@ export interface UpdateAddonResult {
   updated: boolean;
   message?: string;
   error?: string;
+  /** Version the source offered, once it was resolved */
+  remoteVersion?: string;
+  /** remoteVersion as users know it, e.g. a CurseForge file's display name */
+  displayVersion?: string;
+  delta?: VersionDelta;
 }
 
 export class UpdateAddonCommand implements Command<UpdateAddonResult> {
   private backupPaths: Map<string, string> = new Map();
+  /** Where replaced folders go: a version archive entry, or a temp dir */
+  private backupDir: string | null = null;
+  /** Whether backupDir is a version archive entry rather than a temp dir */
+  private archived = false;
+  /** Folders written by the update, in install order */
+  private installedFolders: string[] = [];
+  /** DB records of the installed folders beforehand, null if they had none */
+  private replacedRecords: Map<string, AddonRecord | null> = new Map();
   private previousRecord: AddonRecord | null = null;
+  /** Version installed by execute, for the history entry of an undo */
+  private installedVersion: string | null = null;
 
   constructor(
     private dbManager: DatabaseManager,
@@ -47,139 +67,62 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
 
     context.emit("addon:update-check:start", folder);
 
-    this.previousRecord = { ...this.addon };
+    this.previousRecord = this.dbManager.getByFolder(folder) ?? {
+      ...this.addon,
+    };
 
-    let remoteVersion = "unknown";
-    let updateAvailable = true;
-    let wowInterfaceDetails: WoWInterface.WoWInterfaceAddonDetails | null =
-      null;
-    let tukuiDetails: TukUI.TukUIAddon | null = null;
-    let wagoDetails: Wago.WagoAddonSummary | null = null;
-
-    if (this.addon.type === "github") {
-      try {
-        const branch = "main";
-        const remoteHash = await GitClient.getRemoteCommit(
-          this.addon.url || "",
-          branch,
-        );
-        if (!remoteHash) throw new Error("Failed to get remote hash");
-
-        remoteVersion = remoteHash;
-        const localHash = this.addon.git_commit || this.addon.version;
-
-        // short vs full hash
-        if (
-          localHash &&
-          (remoteHash.startsWith(localHash) || localHash.startsWith(remoteHash))
-        ) {
-          updateAvailable = false;
-        } else {
-          updateAvailable = localHash !== remoteHash;
-        }
-      } catch (err) {
-        return {
-          repoName: name,
-          success: false,
-          updated: false,
-          error: String(err),
-        };
-      }
-    } else if (this.addon.type === "wowinterface") {
-      try {
-        const addonId = WoWInterface.getAddonIdFromUrl(this.addon.url || "");
-        if (!addonId) throw new Error("Invalid WoWInterface URL");
-
-        const result = await WoWInterface.getAddonDetails(addonId);
-        if (!result.success) {
-          throw new Error(
-            result.error === "not_found"
-              ? "Addon not found on WoWInterface"
-              : "Failed to fetch details from WoWInterface",
-          );
-        }
-        wowInterfaceDetails = result.details;
-
-        remoteVersion = wowInterfaceDetails.UIVersion;
-        updateAvailable = remoteVersion !== this.addon.version;
-      } catch (err) {
-        return {
-          repoName: name,
-          success: false,
-          updated: false,
-          error: String(err),
-        };
-      }
-    } else if (this.addon.type === "tukui") {
-      try {
-        tukuiDetails = await TukUI.getAddonDetails(name);
-
-        if (tukuiDetails) {
-          remoteVersion = tukuiDetails.version;
-          updateAvailable = remoteVersion !== this.addon.version;
-        } else {
-          throw new Error(`Could not find addon details for ${name} on TukUI`);
-        }
-      } catch (err) {
-        return {
-          repoName: name,
-          success: false,
-          updated: false,
-          error: String(err),
-        };
-      }
-    } else if (this.addon.type === "wago") {
-      try {
-        const config = this.configManager.get();
-        if (!config.wagoApiKey) {
-          throw new Error("Wago API key not configured");
-        }
-
-        const addonId = Wago.getAddonIdFromUrl(this.addon.url || "");
-        if (!addonId) {
-          throw new Error("Invalid Wago URL");
-        }
-
-        const result = await Wago.getAddonDetails(addonId, config.wagoApiKey);
-        if (!result.success) {
-          throw new Error(
-            result.error === "not_found"
-              ? "Addon not found on Wago"
-              : "Failed to fetch details from Wago",
-          );
-        }
-        wagoDetails = result.addon;
+    const provider = getProvider(this.addon.type);
+    if (!provider) {
+      this.recordHistory(null, `Cannot update ${this.addon.type} addons`);
+      return {
+        repoName: name,
+        success: false,
+        updated: false,
+        error: `Cannot update ${this.addon.type} addons`,
+      };
+    }
 
-        const stability = Wago.getBestAvailableStability(wagoDetails);
-        if (stability) {
-          remoteVersion = Wago.getVersion(wagoDetails, stability) || "unknown";
-          updateAvailable = remoteVersion !== this.addon.version;
-        } else {
-          throw new Error("No releases available for addon");
-        }
-      } catch (err) {
-        return {
-          repoName: name,
-          success: false,
-          updated: false,
-          error: String(err),
-        };
-      }
+    let release: RemoteRelease;
+    let delta: VersionDelta = "different";
+    try {
+      release = await provider.resolveLatest(
+        this.addon,
+        this.configManager.get(),
+      );
+      delta = compareAddonVersion(this.addon, getRemoteVersion(release));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      this.recordHistory(null, error);
+      return {
+        repoName: name,
+        success: false,
+        updated: false,
+        error,
+      };
     }
 
+    const remoteVersion = getRemoteVersion(release);
+    const displayVersion = getDisplayVersion(release);
     context.emit(
       "addon:update-check:complete",
       folder,
-      updateAvailable,
+      isUpdate(delta),
       remoteVersion,
     );
 
-    if (!this.force && !updateAvailable) {
+    // Forcing reinstalls whatever the source serves, even an older version
+    if (!this.force && !isUpdate(delta)) {
       return {
         repoName: name,
         success: true,
         updated: false,
-        message: "Up to date",
+        remoteVersion,
+        displayVersion,
+        delta,
+        message:
+          delta === "downgrade"
+            ? `Remote version ${remoteVersion} is older`
+            : "Up to date",
       };
     }
 
@@ -189,108 +132,27 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
     await fs.mkdir(tempDir, { recursive: true });
 
     try {
-      let extractRoot = tempDir;
-
-      if (this.addon.type === "tukui" && tukuiDetails) {
-        context.emit("addon:install:downloading", folder);
-        const zipPath = path.join(tempDir, "addon.zip");
-
-        const downloadUrl = tukuiDetails.url;
-
-        if (!(await Downloader.download(downloadUrl, zipPath))) {
-          throw new Error("Download failed");
-        }
-
-        context.emit("addon:install:extracting", folder);
-        const extractPath = path.join(tempDir, "extract");
-        await fs.mkdir(extractPath, { recursive: true });
-        if (!(await Downloader.unzip(zipPath, extractPath))) {
-          throw new Error("Unzip failed");
-        }
-        extractRoot = extractPath;
-      } else if (
-        this.addon.type === "wowinterface" &&
-        wowInterfaceDetails !== null
-      ) {
-        context.emit("addon:install:downloading", folder);
-        const zipPath = path.join(tempDir, "addon.zip");
-        if (
-          !(await Downloader.download(wowInterfaceDetails.UIDownload, zipPath))
-        ) {
-          throw new Error("Download failed");
-        }
-
-        context.emit("addon:install:extracting", folder);
-        const extractPath = path.join(tempDir, "extract");
-        await fs.mkdir(extractPath, { recursive: true });
-        if (!(await Downloader.unzip(zipPath, extractPath))) {
-          throw new Error("Unzip failed");
-        }
-        extractRoot = extractPath;
-      } else if (this.addon.type === "github") {
-        context.emit("addon:install:downloading", folder);
-        if (!(await GitClient.clone(this.addon.url || "", "main", tempDir))) {
-          throw new Error("Git Clone failed");
-        }
-        extractRoot = tempDir;
-      } else if (this.addon.type === "wago" && wagoDetails !== null) {
-        const config = this.configManager.get();
-        const stability = Wago.getBestAvailableStability(wagoDetails);
-        const downloadUrl = stability
-          ? Wago.getDownloadUrl(wagoDetails, stability)
-          : null;
-
-        if (!downloadUrl) {
-          throw new Error("No download URL available");
-        }
-
-        // Validate download URL domain (security check)
-        try {
-          const urlObj = new URL(downloadUrl);
-          if (!urlObj.hostname.endsWith("wago.io")) {
-            throw new Error("Invalid download URL domain");
-          }
-        } catch (urlError) {
-          if (
-            urlError instanceof Error &&
-            urlError.message === "Invalid download URL domain"
-          ) {
-            throw urlError;
-          }
-          throw new Error("Invalid download URL format");
-        }
-
-        context.emit("addon:install:downloading", folder);
-        const zipPath = path.join(tempDir, "addon.zip");
-
-        const downloadResponse = await fetch(downloadUrl, {
-          headers: {
-            Authorization: `Bearer ${config.wagoApiKey}`,
-            Accept: "application/octet-stream",
-          },
-        });
-
-        if (!downloadResponse.ok) {
-          throw new Error("Download failed");
-        }
-
-        const zipData = await downloadResponse.arrayBuffer();
-        await Bun.write(zipPath, zipData);
-
-        context.emit("addon:install:extracting", folder);
-        const extractPath = path.join(tempDir, "extract");
-        await fs.mkdir(extractPath, { recursive: true });
-        if (!(await Downloader.unzip(zipPath, extractPath))) {
-          throw new Error("Unzip failed");
-        }
-        extractRoot = extractPath;
-      }
+      context.emit("addon:install:downloading", folder);
+      const extractRoot = path.join(tempDir, "extract");
+      await fs.mkdir(extractRoot, { recursive: true });
+      release = await provider.download(
+        release,
+        this.addon,
+        extractRoot,
+        this.configManager.get(),
+        () => context.emit("addon:install:extracting", folder),
+      );
+      // Packaged zips are already laid out as addon folders
+      const contentRoot = await resolveContentRoot(
+        extractRoot,
+        release.downloadUrl ? null : this.addon.subpath,
+      );
 
       // Scan for all valid addon folders in the extracted content
       const tocGlob = new Bun.Glob("**/*.toc");
       const foundFolders = new Set<string>();
 
-      for await (const file of tocGlob.scan({ cwd: extractRoot })) {
+      for await (const file of tocGlob.scan({ cwd: contentRoot })) {
         const dir = path.dirname(file);
         if (dir !== ".") {
           const parts = dir.split(path.sep);
@@ -306,7 +168,7 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
 
       // Also check root for TOCs (some zips are loose files)
       const rootTocs = Array.from(
-        new Bun.Glob("*.toc").scanSync({ cwd: extractRoot }),
+        new Bun.Glob("*.toc").scanSync({ cwd: contentRoot }),
       );
       if (rootTocs.length > 0) {
         // FIXME: What should we do if the zip is loose files?
@@ -315,11 +177,11 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
       const foldersToInstall = Array.from(foundFolders);
       if (foldersToInstall.length === 0 && rootTocs.length > 0) {
         // Single loose addon
-        await this.backupAndInstall(context, extractRoot, folder);
+        await this.backupAndInstall(context, contentRoot, folder);
         foldersToInstall.push(folder);
       } else {
         for (const f of foldersToInstall) {
-          const source = path.join(extractRoot, f);
+          const source = path.join(contentRoot, f);
           await this.backupAndInstall(context, source, f);
         }
       }
@@ -332,17 +194,29 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
       );
       await scanCmd.execute(context);
 
-      const isGitHash = remoteVersion.match(/^[a-f0-9]{40}$/);
-      const newVersion = isGitHash
-        ? remoteVersion.substring(0, 7)
-        : remoteVersion;
-      const newCommit = isGitHash ? remoteVersion : null;
+      // Git sources report a short hash or tag as version alongside the full commit
+      const newVersion = release.version;
+      const newCommit = release.commit ?? null;
+
+      if (this.backupDir && VersionArchive.getVersionArchiveDir()) {
+        await VersionArchive.pruneVersions(
+          folder,
+          this.configManager.get().versionRetention,
+        );
+      }
 
       // Update the main addon record, preserving ownedFolders
       const ownedFolders = this.addon.ownedFolders || [];
       this.dbManager.updateAddon(this.addon.folder, {
         version: newVersion,
         git_commit: newCommit,
+        ...(release.contentHash
+          ? {
+              content_hash: release.contentHash,
+              httpValidators: release.validators ?? null,
+            }
+          : {}),
+        ...(release.fileId !== undefined ? { file_id: release.fileId } : {}),
         last_updated: new Date().toISOString(),
         ownedFolders, // Preserve existing ownedFolders
       });
@@ -352,27 +226,56 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
         this.dbManager.removeAddon(ownedFolder);
       }
 
+      this.installedVersion = newVersion;
+      this.recordHistory(newVersion);
+
       context.emit("addon:install:complete", folder);
       return {
         repoName: name,
         success: true,
         updated: true,
+        remoteVersion,
+        displayVersion,
+        delta,
         message: `Updated to ${newVersion}`,
       };
     } catch (err) {
       logger.error("UpdateAddonCommand", `Error updating ${name}`, err);
-      await this.undo(context);
+      await this.undo(context).catch((undoErr) =>
+        logger.error("UpdateAddonCommand", `Undo failed for ${name}`, undoErr),
+      );
+      const error = err instanceof Error ? err.message : String(err);
+      this.recordHistory(remoteVersion, error);
       return {
         repoName: name,
         success: false,
         updated: false,
-        error: err instanceof Error ? err.message : String(err),
+        remoteVersion,
+        displayVersion,
+        delta,
+        error,
       };
     } finally {
       await fs.rm(tempDir, { recursive: true, force: true });
     }
   }
 
+  /**
+   * An error marks the entry as failed.
+   */
+  private recordHistory(toVersion: string | null, error?: string) {
+    this.dbManager.addHistory({
+      folder: this.addon.folder,
+      name: this.addon.name,
+      action: "update",
+      fromVersion: this.addon.version,
+      toVersion,
+      source: this.addon.type,
+      outcome: error ? "failed" : "success",
+      message: error,
+    });
+  }
+
   private async backupAndInstall(
     context: CommandContext,
     sourcePath: string,
@@ -381,11 +284,15 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
     const destDir = this.configManager.get().destDir;
     const destPath = path.join(destDir, folder);
 
+    this.installedFolders.push(folder);
+    if (!this.replacedRecords.has(folder)) {
+      this.replacedRecords.set(folder, this.dbManager.getByFolder(folder));
+    }
+
     try {
       await fs.access(destPath);
-      const backupBase = path.join(os.tmpdir(), "lemonup-backups");
-      await fs.mkdir(backupBase, { recursive: true });
-      const backupPath = path.join(backupBase, `${folder}-${Date.now()}`);
+      const backupDir = await this.getBackupDir();
+      const backupPath = path.join(backupDir, folder);
       await fs.cp(destPath, backupPath, { recursive: true });
       this.backupPaths.set(folder, backupPath);
     } catch {
@@ -393,21 +300,56 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
     }
 
     context.emit("addon:install:copying", folder);
-    await fs.cp(sourcePath, destPath, { recursive: true, force: true });
+    await copyAddonFolder(sourcePath, destPath);
   }
+
+  /**
+   * Replaced folders are archived as the addon's previous version so they
+   * can be restored later; without an archive they only last until undo.
+   */
+  private async getBackupDir(): Promise<string> {
+    if (this.backupDir) return this.backupDir;
+
+    const entryPath = VersionArchive.createEntryPath(this.addon.folder);
+    if (entryPath && this.previousRecord) {
+      await VersionArchive.writeEntry(entryPath, this.previousRecord);
+      this.backupDir = entryPath;
+      this.archived = true;
+    } else {
+      this.backupDir = path.join(
+        os.tmpdir(),
+        "lemonup-backups",
+        `${this.addon.folder}-${Date.now()}`,
+      );
+      await fs.mkdir(this.backupDir, { recursive: true });
+    }
+    return this.backupDir;
+  }
+
   async undo(_context: CommandContext): Promise<void> {
     logger.log(
       "UpdateAddonCommand",
       `Rolling back update for ${this.addon.name}`,
     );
 
+    // Check before touching anything, the archive may have been pruned since
+    for (const [folder, backupPath] of this.backupPaths) {
+      await fs.access(backupPath).catch(() => {
+        throw new Error(`Backup of ${folder} is gone`);
+      });
+    }
+
     const destDir = this.configManager.get().destDir;
 
-    for (const [folder, backupPath] of this.backupPaths) {
+    for (const folder of this.installedFolders) {
       const destPath = path.join(destDir, folder);
+      const backupPath = this.backupPaths.get(folder);
       try {
         await fs.rm(destPath, { recursive: true, force: true });
-        await fs.cp(backupPath, destPath, { recursive: true });
+        // Without a backup the folder is new to this update
+        if (backupPath) {
+          await fs.cp(backupPath, destPath, { recursive: true });
+        }
       } catch (err) {
         logger.error(
           "UpdateAddonCommand",
@@ -418,11 +360,71 @@ export class UpdateAddonCommand implements Command<UpdateAddonResult> {
     }
 
     if (this.previousRecord) {
-      this.dbManager.updateAddon(this.addon.folder, {
-        version: this.previousRecord.version,
-        last_updated:
-          this.previousRecord.last_updated || new Date().toISOString(),
+      this.restoreRecords(this.previousRecord);
+    }
+
+    // Failed updates undo themselves; only a finished one is rolled back
+    if (this.installedVersion) {
+      this.dbManager.addHistory({
+        folder: this.addon.folder,
+        name: this.addon.name,
+        action: "rollback",
+        fromVersion: this.installedVersion,
+        toVersion: this.addon.version,
+        source: this.addon.type,
       });
+      this.installedVersion = null;
+    }
+
+    // The archived version is the installed one again
+    if (this.backupDir) {
+      await VersionArchive.removeEntry(this.backupDir);
+      this.backupDir = null;
+      this.backupPaths.clear();
+    }
+    this.installedFolders = [];
+  }
+
+  async dispose(): Promise<void> {
+    // Archive entries outlive the command as restorable versions
+    if (this.backupDir && !this.archived) {
+      await fs.rm(this.backupDir, { recursive: true, force: true });
     }
+    this.backupDir = null;
+    this.backupPaths.clear();
+  }
+
+  /**
+   * Puts back what the update and its rescan wrote to the DB: the addon's
+   * own fields, and the records of the folders it installed alongside.
+   */
+  private restoreRecords(previous: AddonRecord) {
+    for (const folder of this.installedFolders) {
+      if (folder === previous.folder) continue;
+      const replaced = this.replacedRecords.get(folder);
+      if (!replaced) {
+        this.dbManager.removeAddon(folder);
+      } else if (this.dbManager.getByFolder(folder)) {
+        this.dbManager.updateAddon(folder, replaced);
+      } else {
+        this.dbManager.addAddon(replaced);
+      }
+    }
+
+    this.dbManager.updateAddon(previous.folder, {
+      version: previous.version,
+      git_commit: previous.git_commit,
+      author: previous.author,
+      interface: previous.interface,
+      content_hash: previous.content_hash ?? null,
+      httpValidators: previous.httpValidators ?? null,
+      file_id: previous.file_id ?? null,
+      requiredDeps: previous.requiredDeps,
+      optionalDeps: previous.optionalDeps,
+      embeddedLibs: previous.embeddedLibs,
+      projectIds: previous.projectIds ?? null,
+      ownedFolders: previous.ownedFolders,
+      last_updated: previous.last_updated || new Date().toISOString(),
+    });
   }
 }
@@ -0,0 +1,37 @@
+import type { AddonRecord, DatabaseManager } from "@/core/db";
+
+/**
+ * Records a finished install in the history, from the addon record the
+ * install left behind.
+ */
+export function recordInstall(dbManager: DatabaseManager, folder: string) {
+  const addon = dbManager.getByFolder(folder);
+  if (!addon) return;
+  dbManager.addHistory({
+    folder: addon.folder,
+    name: addon.name,
+    action: "install",
+    toVersion: addon.version,
+    source: addon.type,
+  });
+}
+
+/**
+ * Records an install that failed. No folder is known at that point, so
+ * the entry is filed under what the user asked to install.
+ */
+export function recordFailedInstall(
+  dbManager: DatabaseManager,
+  target: string,
+  source: AddonRecord["type"] | null,
+  error: string,
+) {
+  dbManager.addHistory({
+    folder: target,
+    name: target,
+    action: "install",
+    source,
+    outcome: "failed",
+    message: error,
+  });
+}
@@ -10,4 +10,6 @@ export interface CommandContext {
 export interface Command<T = void> {
   execute(context: CommandContext): Promise<T>;
   undo?(context: CommandContext): Promise<void>;
+  /** Deletes whatever was only kept so the command could be undone */
+  dispose?(): Promise<void>;
 }
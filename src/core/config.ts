@@ -12,10 +12,20 @@ export const REPO_TYPE = {
   TUKUI: "tukui",
   WOWINTERFACE: "wowinterface",
   WAGO: "wago",
+  GIT: "git",
+  GITLAB: "gitlab",
+  GITEA: "gitea",
+  ZIP: "zip",
+  LOCAL: "local",
+  CURSEFORGE: "curseforge",
 } as const;
 
 export type RepoType = (typeof REPO_TYPE)[keyof typeof REPO_TYPE];
 
+/** Instances recognised as GitLab or Gitea/Forgejo out of the box */
+export const DEFAULT_GITLAB_HOSTS = ["https://gitlab.com"];
+export const DEFAULT_GITEA_HOSTS = ["https://codeberg.org"];
+
 // --- Zod Schemas ---
 
 // Legacy schema - kept for backwards compatibility with old config files
@@ -42,7 +52,7 @@ export const ConfigSchema = z.object({
   // Legacy field - kept for backwards compatibility, no longer written to
   repositories: z.array(RepositorySchema).default([]),
   defaultMenuOption: z
-    .enum(["update", "install", "manage", "config"])
+    .enum(["update", "install", "manage", "history", "config"])
     .default("update"),
   maxConcurrent: z.number().min(1).max(10).default(3),
   nerdFonts: z.boolean().default(true),
@@ -58,6 +68,15 @@ export const ConfigSchema = z.object({
     .default(60 * 60 * 1000), // 1 hour
   backupWTF: z.boolean().default(true),
   backupRetention: z.number().min(1).default(5),
+  versionRetention: z
+    .number()
+    .min(1)
+    .describe("Replaced versions kept per addon for rollback")
+    .default(3),
+  saveUpdateDigest: z
+    .boolean()
+    .describe("Write a Markdown digest after batch updates")
+    .default(false),
   debug: z.boolean().default(false),
   showLibs: z.boolean().default(false),
   theme: z.enum(["dark", "light"]).default("dark"),
@@ -67,6 +86,31 @@ export const ConfigSchema = z.object({
     .describe("Wago.io API key for addon downloads")
     .default(""),
   lastGlobalCheck: z.number().default(0),
+  githubToken: z
+    .string()
+    .describe("GitHub personal access token for API lookups")
+    .default(""),
+  gitCacheMaxMB: z
+    .number()
+    .min(0)
+    .describe("Size limit of the git repository cache in MB, 0 disables it")
+    .default(1024),
+  gitlabHosts: z
+    .array(z.string())
+    .describe("Base URLs of GitLab instances, including self-hosted ones")
+    .default(DEFAULT_GITLAB_HOSTS),
+  giteaHosts: z
+    .array(z.string())
+    .describe("Base URLs of Gitea and Forgejo instances, e.g. Codeberg")
+    .default(DEFAULT_GITEA_HOSTS),
+  curseforgeApiKey: z
+    .string()
+    .describe("CurseForge API key for addon lookups")
+    .default(""),
+  curseforgeReleaseType: z
+    .enum(["release", "beta", "alpha"])
+    .describe("Least stable CurseForge file type to install")
+    .default("release"),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -104,12 +148,20 @@ export class ConfigManager {
         autoCheckInterval: { type: "number" },
         backupWTF: { type: "boolean" },
         backupRetention: { type: "number" },
+        versionRetention: { type: "number" },
+        saveUpdateDigest: { type: "boolean" },
         debug: { type: "boolean" },
         showLibs: { type: "boolean" },
         theme: { type: "string" },
         terminalProgress: { type: "boolean" },
         wagoApiKey: { type: "string" },
         lastGlobalCheck: { type: "number" },
+        githubToken: { type: "string" },
+        gitCacheMaxMB: { type: "number" },
+        gitlabHosts: { type: "array", items: { type: "string" } },
+        giteaHosts: { type: "array", items: { type: "string" } },
+        curseforgeApiKey: { type: "string" },
+        curseforgeReleaseType: { type: "string" },
       } as const,
 
       cwd: options.cwd || path.join(os.homedir(), ".config", "lemonup"),
@@ -143,11 +195,19 @@ export class ConfigManager {
         autoCheckInterval: 60 * 60 * 1000,
         backupWTF: true,
         backupRetention: 5,
+        versionRetention: 3,
+        saveUpdateDigest: false,
         debug: false,
         showLibs: false,
         theme: "dark",
         terminalProgress: true,
         wagoApiKey: "",
+        githubToken: "",
+        gitCacheMaxMB: 1024,
+        gitlabHosts: DEFAULT_GITLAB_HOSTS,
+        giteaHosts: DEFAULT_GITEA_HOSTS,
+        curseforgeApiKey: "",
+        curseforgeReleaseType: "release",
         ...(raw as object),
         ...this.overrides,
       } as unknown as Config;
@@ -159,6 +219,12 @@ export class ConfigManager {
           fallback.wagoApiKey = envKey;
         }
       }
+      if (!fallback.githubToken && process.env.GITHUB_TOKEN) {
+        fallback.githubToken = process.env.GITHUB_TOKEN;
+      }
+      if (!fallback.curseforgeApiKey && process.env.CURSEFORGE_API_KEY) {
+        fallback.curseforgeApiKey = process.env.CURSEFORGE_API_KEY;
+      }
 
       return fallback;
     }
@@ -171,6 +237,12 @@ export class ConfigManager {
         config.wagoApiKey = envKey;
       }
     }
+    if (!config.githubToken && process.env.GITHUB_TOKEN) {
+      config.githubToken = process.env.GITHUB_TOKEN;
+    }
+    if (!config.curseforgeApiKey && process.env.CURSEFORGE_API_KEY) {
+      config.curseforgeApiKey = process.env.CURSEFORGE_API_KEY;
+    }
 
     logger.setEnabled(config.debug || false);
     return config;
@@ -206,12 +278,20 @@ export class ConfigManager {
       autoCheckInterval: 60 * 60 * 1000,
       backupWTF: true,
       backupRetention: 5,
+      versionRetention: 3,
+      saveUpdateDigest: false,
       debug: false,
       showLibs: false,
       theme: "dark",
       terminalProgress: true,
       wagoApiKey: "",
       lastGlobalCheck: 0,
+      githubToken: "",
+      gitCacheMaxMB: 1024,
+      gitlabHosts: DEFAULT_GITLAB_HOSTS,
+      giteaHosts: DEFAULT_GITEA_HOSTS,
+      curseforgeApiKey: "",
+      curseforgeReleaseType: "release",
     };
     this.store.set(defaults);
   }
@@ -0,0 +1,381 @@
+import { z } from "zod";
+import type { GameFlavor } from "@/core/db";
+import { logger } from "@/core/logger";
+
+// --- Zod Schemas ---
+
+const CurseForgeGameVersionSchema = z
+  .object({
+    gameVersionName: z.string().optional(),
+    gameVersion: z.string().optional(),
+    gameVersionTypeId: z.number().nullable().optional(),
+  })
+  .loose();
+
+const CurseForgeFileSchema = z
+  .object({
+    id: z.number(),
+    modId: z.number(),
+    displayName: z.string(),
+    fileName: z.string(),
+    releaseType: z.number(),
+    fileDate: z.string(),
+    downloadUrl: z.string().nullable().optional(),
+    isAvailable: z.boolean().optional(),
+    gameVersions: z.array(z.string()).optional(),
+    sortableGameVersions: z.array(CurseForgeGameVersionSchema).optional(),
+    modules: z
+      .array(z.object({ name: z.string(), fingerprint: z.number() }).loose())
+      .optional(),
+  })
+  .loose();
+
+const CurseForgeModSchema = z
+  .object({
+    id: z.number(),
+    name: z.string(),
+    slug: z.string(),
+    summary: z.string().optional(),
+    links: z
+      .object({ websiteUrl: z.string().nullable().optional() })
+      .loose()
+      .optional(),
+    authors: z.array(z.object({ name: z.string() }).loose()).optional(),
+    latestFiles: z.array(CurseForgeFileSchema).optional(),
+  })
+  .loose();
+
+const ModResponseSchema = z.object({ data: CurseForgeModSchema });
+const ModListResponseSchema = z.object({ data: z.array(CurseForgeModSchema) });
+const FileResponseSchema = z.object({ data: CurseForgeFileSchema });
+const FileListResponseSchema = z.object({
+  data: z.array(CurseForgeFileSchema),
+});
+
+const FingerprintMatchSchema = z
+  .object({
+    id: z.number(),
+    file: CurseForgeFileSchema,
+    latestFiles: z.array(CurseForgeFileSchema).optional(),
+  })
+  .loose();
+
+const FingerprintResponseSchema = z.object({
+  data: z.object({ exactMatches: z.array(FingerprintMatchSchema) }).loose(),
+});
+
+// --- Types (derived from Zod schemas) ---
+
+export type CurseForgeMod = z.infer<typeof CurseForgeModSchema>;
+export type CurseForgeFile = z.infer<typeof CurseForgeFileSchema>;
+export type CurseForgeFingerprintMatch = z.infer<typeof FingerprintMatchSchema>;
+
+export type CurseForgeReleaseType = "release" | "beta" | "alpha";
+
+export type CurseForgeError =
+  | "not_found"
+  | "network_error"
+  | "invalid_response"
+  | "no_api_key"
+  | "forbidden";
+
+export type GetModResult =
+  | { success: true; mod: CurseForgeMod }
+  | { success: false; error: CurseForgeError };
+
+export type GetFilesResult =
+  | { success: true; files: CurseForgeFile[] }
+  | { success: false; error: CurseForgeError };
+
+export type GetFileResult =
+  | { success: true; file: CurseForgeFile }
+  | { success: false; error: CurseForgeError };
+
+export type GetModsResult =
+  | { success: true; mods: CurseForgeMod[] }
+  | { success: false; error: CurseForgeError };
+
+export type GetFingerprintMatchesResult =
+  | { success: true; matches: CurseForgeFingerprintMatch[] }
+  | { success: false; error: CurseForgeError };
+
+/**
+ * A project reference taken from a URL or typed in by the user.
+ * Exactly one of modId and slug is set.
+ */
+export interface ParsedCurseForgeInput {
+  modId: number | null;
+  slug: string | null;
+  /** Specific file from a /files/<id> URL */
+  fileId: number | null;
+}
+
+// --- Constants ---
+
+const DEFAULT_API_BASE = "https://api.curseforge.com";
+const WEBSITE_BASE = "https://www.curseforge.com/wow/addons";
+const WOW_GAME_ID = 1;
+const FILES_PAGE_SIZE = 50;
+
+/** CurseForge releaseType values, from most to least stable */
+const RELEASE_TYPE_IDS: Record<CurseForgeReleaseType, number> = {
+  release: 1,
+  beta: 2,
+  alpha: 3,
+};
+
+/** gameVersionTypeId of each WoW flavor */
+const FLAVOR_VERSION_TYPES: Record<GameFlavor, number> = {
+  retail: 517,
+  classic: 67408,
+  cata: 77522,
+};
+
+let apiBase = DEFAULT_API_BASE;
+
+/**
+ * Points API requests at another server, e.g. a local mock.
+ * Null restores the public API.
+ */
+export function setApiBase(url: string | null): void {
+  apiBase = url ? url.replace(/\/+$/, "") : DEFAULT_API_BASE;
+}
+
+// --- Utility Functions ---
+
+/**
+ * Extracts the project from a CurseForge URL or a numeric project ID.
+ * Supports: https://www.curseforge.com/wow/addons/<slug>
+ *           https://www.curseforge.com/wow/addons/<slug>/files/<fileId>
+ *           https://www.curseforge.com/wow/addons/<slug>/download/<fileId>
+ *           https://www.curseforge.com/projects/<projectId>
+ *           <projectId>
+ */
+export function parseCurseForgeUrl(
+  input: string,
+): ParsedCurseForgeInput | null {
+  const trimmed = input.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return { modId: Number(trimmed), slug: null, fileId: null };
+  }
+
+  try {
+    const parsed = new URL(trimmed);
+    if (!/(^|\.)curseforge\.com$/i.test(parsed.hostname)) return null;
+
+    const project = parsed.pathname.match(/^\/projects\/(\d+)\/?$/);
+    if (project?.[1]) {
+      return { modId: Number(project[1]), slug: null, fileId: null };
+    }
+
+    const match = parsed.pathname.match(
+      /^\/wow\/addons\/([\w-]+)(?:\/(?:files|download)\/(\d+))?/,
+    );
+    if (!match?.[1]) return null;
+    return {
+      modId: null,
+      slug: match[1].toLowerCase(),
+      fileId: match[2] ? Number(match[2]) : null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The project page URL stored on installed addons.
+ */
+export function getProjectUrl(mod: CurseForgeMod): string {
+  return mod.links?.websiteUrl || `${WEBSITE_BASE}/${mod.slug}`;
+}
+
+/**
+ * Picks the newest file for a flavor that is at least as stable as
+ * releaseType, e.g. "beta" accepts release and beta files.
+ */
+export function selectLatestFile(
+  files: CurseForgeFile[],
+  flavor: GameFlavor,
+  releaseType: CurseForgeReleaseType = "release",
+): CurseForgeFile | null {
+  const versionType = FLAVOR_VERSION_TYPES[flavor];
+  const maxReleaseType = RELEASE_TYPE_IDS[releaseType];
+
+  const candidates = files.filter(
+    (file) =>
+      file.isAvailable !== false &&
+      file.releaseType <= maxReleaseType &&
+      (file.sortableGameVersions ?? []).some(
+        (v) => v.gameVersionTypeId === versionType,
+      ),
+  );
+
+  let latest: CurseForgeFile | null = null;
+  for (const file of candidates) {
+    if (
+      !latest ||
+      file.fileDate > latest.fileDate ||
+      (file.fileDate === latest.fileDate && file.id > latest.id)
+    ) {
+      latest = file;
+    }
+  }
+  return latest;
+}
+
+// --- API Functions ---
+
+/**
+ * Calls the API, as a JSON POST when a body is given.
+ */
+async function request<T>(
+  apiPath: string,
+  apiKey: string | undefined,
+  schema: z.ZodType<T>,
+  body?: unknown,
+): Promise<
+  { success: true; data: T } | { success: false; error: CurseForgeError }
+> {
+  if (!apiKey) {
+    return { success: false, error: "no_api_key" };
+  }
+
+  const url = `${apiBase}${apiPath}`;
+  logger.log("CurseForge", `Fetching ${url}`);
+
+  try {
+    const response = await fetch(
+      url,
+      body === undefined
+        ? { headers: { "x-api-key": apiKey, Accept: "application/json" } }
+        : {
+            method: "POST",
+            headers: {
+              "x-api-key": apiKey,
+              Accept: "application/json",
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(body),
+          },
+    );
+
+    if (!response.ok) {
+      logger.error("CurseForge", `Request failed: ${response.status}`);
+      if (response.status === 404) {
+        return { success: false, error: "not_found" };
+      }
+      if (response.status === 401 || response.status === 403) {
+        return { success: false, error: "forbidden" };
+      }
+      return { success: false, error: "network_error" };
+    }
+
+    const result = schema.safeParse(await response.json());
+    if (!result.success) {
+      logger.error("CurseForge", "Invalid API response format");
+      return { success: false, error: "invalid_response" };
+    }
+    return { success: true, data: result.data };
+  } catch (error) {
+    logger.error("CurseForge", "Request failed", error);
+    return { success: false, error: "network_error" };
+  }
+}
+
+export async function getMod(
+  modId: number,
+  apiKey?: string,
+): Promise<GetModResult> {
+  const result = await request(`/v1/mods/${modId}`, apiKey, ModResponseSchema);
+  return result.success ? { success: true, mod: result.data.data } : result;
+}
+
+/**
+ * Looks up a WoW addon by the slug in its project URL.
+ */
+export async function findModBySlug(
+  slug: string,
+  apiKey?: string,
+): Promise<GetModResult> {
+  const params = new URLSearchParams({
+    gameId: String(WOW_GAME_ID),
+    slug,
+  });
+  const result = await request(
+    `/v1/mods/search?${params}`,
+    apiKey,
+    ModListResponseSchema,
+  );
+  if (!result.success) return result;
+
+  const mod = result.data.data.find(
+    (m) => m.slug.toLowerCase() === slug.toLowerCase(),
+  );
+  return mod ? { success: true, mod } : { success: false, error: "not_found" };
+}
+
+/**
+ * Lists the newest files of a project for one flavor.
+ */
+export async function getModFiles(
+  modId: number,
+  flavor: GameFlavor,
+  apiKey?: string,
+): Promise<GetFilesResult> {
+  const params = new URLSearchParams({
+    gameVersionTypeId: String(FLAVOR_VERSION_TYPES[flavor]),
+    pageSize: String(FILES_PAGE_SIZE),
+  });
+  const result = await request(
+    `/v1/mods/${modId}/files?${params}`,
+    apiKey,
+    FileListResponseSchema,
+  );
+  return result.success ? { success: true, files: result.data.data } : result;
+}
+
+export async function getFile(
+  modId: number,
+  fileId: number,
+  apiKey?: string,
+): Promise<GetFileResult> {
+  const result = await request(
+    `/v1/mods/${modId}/files/${fileId}`,
+    apiKey,
+    FileResponseSchema,
+  );
+  return result.success ? { success: true, file: result.data.data } : result;
+}
+
+/**
+ * Fetches several projects in one request.
+ */
+export async function getMods(
+  modIds: number[],
+  apiKey?: string,
+): Promise<GetModsResult> {
+  const result = await request(`/v1/mods`, apiKey, ModListResponseSchema, {
+    modIds,
+  });
+  return result.success ? { success: true, mods: result.data.data } : result;
+}
+
+/**
+ * Looks up the files whose folder fingerprints match installed folders.
+ * Each match carries the file that was installed and the folders
+ * (modules) it ships with their fingerprints.
+ */
+export async function getFingerprintMatches(
+  fingerprints: number[],
+  apiKey?: string,
+): Promise<GetFingerprintMatchesResult> {
+  const result = await request(
+    `/v1/fingerprints/${WOW_GAME_ID}`,
+    apiKey,
+    FingerprintResponseSchema,
+    { fingerprints },
+  );
+  return result.success
+    ? { success: true, matches: result.data.data.exactMatches }
+    : result;
+}
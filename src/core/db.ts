@@ -9,6 +9,36 @@ export type AddonKind = z.infer<typeof AddonKind>;
 export const GameFlavor = z.enum(["retail", "classic", "cata"]);
 export type GameFlavor = z.infer<typeof GameFlavor>;
 
+export const TrackingMode = z.enum(["branch", "tag", "release"]);
+export type TrackingMode = z.infer<typeof TrackingMode>;
+
+/** Wago release channels, from most to least stable */
+export const WagoChannel = z.enum(["stable", "beta", "alpha"]);
+export type WagoChannel = z.infer<typeof WagoChannel>;
+
+/**
+ * HTTP cache validators of a downloaded archive, used to skip
+ * re-downloading unchanged zips during update checks.
+ */
+export const HttpValidators = z.object({
+  etag: z.string().nullable(),
+  lastModified: z.string().nullable(),
+  contentLength: z.number().nullable(),
+});
+export type HttpValidators = z.infer<typeof HttpValidators>;
+
+/**
+ * Project IDs an addon's TOC declares for the sites it is published on
+ * (## X-Wago-ID, ## X-WoWI-ID, ## X-Curse-Project-ID, ## X-Website).
+ */
+export const TocProjectIds = z.object({
+  wago: z.string().nullable(),
+  wowi: z.string().nullable(),
+  curse: z.string().nullable(),
+  website: z.string().nullable(),
+});
+export type TocProjectIds = z.infer<typeof TocProjectIds>;
+
 export const AddonRecordSchema = z.object({
   id: z.number().optional(),
   name: z.string(),
@@ -22,7 +52,19 @@ export const AddonRecordSchema = z.object({
   author: z.string().nullable(),
   interface: z.string().nullable(),
   url: z.string().nullable(),
-  type: z.enum(["github", "tukui", "manual", "wowinterface", "wago"]),
+  type: z.enum([
+    "github",
+    "tukui",
+    "manual",
+    "wowinterface",
+    "wago",
+    "git",
+    "gitlab",
+    "gitea",
+    "zip",
+    "local",
+    "curseforge",
+  ]),
   requiredDeps: z.array(z.string()).default([]),
   optionalDeps: z.array(z.string()).default([]),
   embeddedLibs: z.array(z.string()).default([]),
@@ -30,10 +72,77 @@ export const AddonRecordSchema = z.object({
   last_updated: z.string(),
   last_checked: z.string().nullable().default(null),
   remote_version: z.string().nullable().default(null),
+  branch: z.string().nullable().optional(),
+  tracking: TrackingMode.optional(),
+  subpath: z.string().nullable().optional(),
+  content_hash: z.string().nullable().optional(),
+  httpValidators: HttpValidators.nullable().optional(),
+  /** Installed file on sources that version by file ID (CurseForge) */
+  file_id: z.number().int().nullable().optional(),
+  projectIds: TocProjectIds.nullable().optional(),
+  /** Held at its installed version; bulk updates and auto-checks skip it */
+  pinned: z.boolean().optional(),
+  /** Remote version the user chose to skip until a newer one appears */
+  ignoredVersion: z.string().nullable().optional(),
+  /** Release channel a Wago addon follows; null means stable */
+  channel: WagoChannel.nullable().optional(),
+  /** Release notes fetched for a pending update */
+  changelog: z.string().nullable().optional(),
+  /** Remote version the cached changelog leads up to */
+  changelogVersion: z.string().nullable().optional(),
+  /** remote_version as users know it, e.g. a CurseForge file's display name */
+  remoteDisplayVersion: z.string().nullable().optional(),
 });
 
 export type AddonRecord = z.infer<typeof AddonRecordSchema>;
 
+export const HistoryAction = z.enum([
+  "install",
+  "update",
+  "remove",
+  "rollback",
+  "kind",
+  "source",
+]);
+export type HistoryAction = z.infer<typeof HistoryAction>;
+
+export const HistoryOutcome = z.enum(["success", "failed"]);
+export type HistoryOutcome = z.infer<typeof HistoryOutcome>;
+
+/**
+ * One change made to an addon. Entries outlive the addon, so removed
+ * addons still show up in the history.
+ */
+export const HistoryEntrySchema = z.object({
+  id: z.number().optional(),
+  folder: z.string(),
+  name: z.string(),
+  action: HistoryAction,
+  /**
+   * Version before the change; for kind changes, the previous kind, and for
+   * source changes, the previous branch or source type
+   */
+  fromVersion: z.string().nullable().default(null),
+  toVersion: z.string().nullable().default(null),
+  /** Source type the addon was tracked from at the time */
+  source: AddonRecordSchema.shape.type.nullable().default(null),
+  outcome: HistoryOutcome.default("success"),
+  /** Error, or a note such as the URL a source was linked to */
+  message: z.string().nullable().default(null),
+  timestamp: z.string().default(() => new Date().toISOString()),
+});
+
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+
+export interface HistoryFilter {
+  /** Matches part of the addon's folder or name */
+  addon?: string;
+  /** ISO timestamps; `until` is exclusive */
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
 export class DatabaseManager {
   private db: Database;
 
@@ -78,6 +187,45 @@ export class DatabaseManager {
         this.migrateToV1();
       }
     }
+
+    if (this.getSchemaVersion() < 3) {
+      this.migrateToV3();
+    }
+    if (this.getSchemaVersion() < 4) {
+      this.migrateToV4();
+    }
+    if (this.getSchemaVersion() < 5) {
+      this.migrateToV5();
+    }
+    if (this.getSchemaVersion() < 6) {
+      this.migrateToV6();
+    }
+    if (this.getSchemaVersion() < 7) {
+      this.migrateToV7();
+    }
+    if (this.getSchemaVersion() < 8) {
+      this.migrateToV8();
+    }
+    if (this.getSchemaVersion() < 9) {
+      this.migrateToV9();
+    }
+    if (this.getSchemaVersion() < 10) {
+      this.migrateToV10();
+    }
+    if (this.getSchemaVersion() < 11) {
+      this.migrateToV11();
+    }
+    if (this.getSchemaVersion() < 12) {
+      this.migrateToV12();
+    }
+    if (this.getSchemaVersion() < 13) {
+      this.migrateToV13();
+    }
+  }
+
+  private getSchemaVersion(): number {
+    // biome-ignore lint/suspicious/noExplicitAny: user_version is a custom property from the query result
+    return (this.db.query("PRAGMA user_version").get() as any).user_version;
   }
 
   private migrateToV1() {
@@ -129,6 +277,130 @@ export class DatabaseManager {
     logger.log("Database", "Migration to Schema V2 complete");
   }
 
+  private migrateToV3() {
+    logger.log("Database", "Migrating Schema V2 -> V3...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN branch TEXT");
+      // Existing GitHub addons were always cloned from main
+      this.db.run("UPDATE addons SET branch = 'main' WHERE type = 'github'");
+      this.db.run("PRAGMA user_version = 3");
+    })();
+    logger.log("Database", "Migration to Schema V3 complete");
+  }
+
+  private migrateToV4() {
+    logger.log("Database", "Migrating Schema V3 -> V4...");
+    this.db.transaction(() => {
+      this.db.run(
+        "ALTER TABLE addons ADD COLUMN tracking TEXT NOT NULL DEFAULT 'branch'",
+      );
+      this.db.run("PRAGMA user_version = 4");
+    })();
+    logger.log("Database", "Migration to Schema V4 complete");
+  }
+
+  private migrateToV5() {
+    logger.log("Database", "Migrating Schema V4 -> V5...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN subpath TEXT");
+      this.db.run("PRAGMA user_version = 5");
+    })();
+    logger.log("Database", "Migration to Schema V5 complete");
+  }
+
+  private migrateToV6() {
+    logger.log("Database", "Migrating Schema V5 -> V6...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN content_hash TEXT");
+      this.db.run("ALTER TABLE addons ADD COLUMN http_validators TEXT");
+      this.db.run("PRAGMA user_version = 6");
+    })();
+    logger.log("Database", "Migration to Schema V6 complete");
+  }
+
+  private migrateToV7() {
+    logger.log("Database", "Migrating Schema V6 -> V7...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN file_id INTEGER");
+      this.db.run("PRAGMA user_version = 7");
+    })();
+    logger.log("Database", "Migration to Schema V7 complete");
+  }
+
+  private migrateToV8() {
+    logger.log("Database", "Migrating Schema V7 -> V8...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN project_ids TEXT");
+      this.db.run("PRAGMA user_version = 8");
+    })();
+    logger.log("Database", "Migration to Schema V8 complete");
+  }
+
+  private migrateToV9() {
+    logger.log("Database", "Migrating Schema V8 -> V9...");
+    this.db.transaction(() => {
+      this.db.run(
+        "ALTER TABLE addons ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0",
+      );
+      this.db.run("ALTER TABLE addons ADD COLUMN ignored_version TEXT");
+      this.db.run("PRAGMA user_version = 9");
+    })();
+    logger.log("Database", "Migration to Schema V9 complete");
+  }
+
+  private migrateToV10() {
+    logger.log("Database", "Migrating Schema V9 -> V10...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN channel TEXT");
+      this.db.run("PRAGMA user_version = 10");
+    })();
+    logger.log("Database", "Migration to Schema V10 complete");
+  }
+
+  private migrateToV11() {
+    logger.log("Database", "Migrating Schema V10 -> V11...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN changelog TEXT");
+      this.db.run("ALTER TABLE addons ADD COLUMN changelog_version TEXT");
+      this.db.run("PRAGMA user_version = 11");
+    })();
+    logger.log("Database", "Migration to Schema V11 complete");
+  }
+
+  private migrateToV12() {
+    logger.log("Database", "Migrating Schema V11 -> V12...");
+    this.db.transaction(() => {
+      this.db.run(`
+				CREATE TABLE IF NOT EXISTS history (
+					id INTEGER PRIMARY KEY AUTOINCREMENT,
+					folder TEXT NOT NULL,
+					name TEXT NOT NULL,
+					action TEXT NOT NULL,
+					from_version TEXT,
+					to_version TEXT,
+					source TEXT,
+					outcome TEXT NOT NULL,
+					message TEXT,
+					timestamp TEXT NOT NULL
+				);
+			`);
+      this.db.run(
+        "CREATE INDEX IF NOT EXISTS idx_history_timestamp ON history(timestamp)",
+      );
+      this.db.run("PRAGMA user_version = 12");
+    })();
+    logger.log("Database", "Migration to Schema V12 complete");
+  }
+
+  private migrateToV13() {
+    logger.log("Database", "Migrating Schema V12 -> V13...");
+    this.db.transaction(() => {
+      this.db.run("ALTER TABLE addons ADD COLUMN remote_display_version TEXT");
+      this.db.run("PRAGMA user_version = 13");
+    })();
+    logger.log("Database", "Migration to Schema V13 complete");
+  }
+
   // biome-ignore lint/suspicious/noExplicitAny: SQLite query results have dynamic schema
   private parseAddonRecord(row: any): AddonRecord {
     return {
@@ -142,6 +414,21 @@ export class DatabaseManager {
       embeddedLibs: row.embedded_libs ? JSON.parse(row.embedded_libs) : [],
       last_checked: row.last_checked || null,
       remote_version: row.remote_version || null,
+      branch: row.branch || null,
+      tracking: row.tracking || "branch",
+      subpath: row.subpath || null,
+      content_hash: row.content_hash || null,
+      httpValidators: row.http_validators
+        ? JSON.parse(row.http_validators)
+        : null,
+      file_id: row.file_id ?? null,
+      projectIds: row.project_ids ? JSON.parse(row.project_ids) : null,
+      pinned: Boolean(row.pinned),
+      ignoredVersion: row.ignored_version || null,
+      channel: row.channel || null,
+      changelog: row.changelog ?? null,
+      changelogVersion: row.changelog_version || null,
+      remoteDisplayVersion: row.remote_display_version || null,
     };
   }
 
@@ -168,13 +455,19 @@ export class DatabaseManager {
 				name, folder, owned_folders, kind, kind_override, flavor,
 				version, git_commit, author, interface, url, type,
 				required_deps, optional_deps, embedded_libs,
-				install_date, last_updated, last_checked, remote_version
+				install_date, last_updated, last_checked, remote_version, branch,
+				tracking, subpath, content_hash, http_validators, file_id,
+				project_ids, pinned, ignored_version, channel, changelog,
+				changelog_version, remote_display_version
 			)
 			VALUES (
 				$name, $folder, $owned_folders, $kind, $kind_override, $flavor,
 				$version, $git_commit, $author, $interface, $url, $type,
 				$required_deps, $optional_deps, $embedded_libs,
-				$install_date, $last_updated, $last_checked, $remote_version
+				$install_date, $last_updated, $last_checked, $remote_version, $branch,
+				$tracking, $subpath, $content_hash, $http_validators, $file_id,
+				$project_ids, $pinned, $ignored_version, $channel, $changelog,
+				$changelog_version, $remote_display_version
 			)
 		`);
 
@@ -198,14 +491,30 @@ export class DatabaseManager {
       $last_updated: data.last_updated,
       $last_checked: data.last_checked,
       $remote_version: data.remote_version,
+      $branch: data.branch ?? null,
+      $tracking: data.tracking ?? "branch",
+      $subpath: data.subpath ?? null,
+      $content_hash: data.content_hash ?? null,
+      $http_validators: data.httpValidators
+        ? JSON.stringify(data.httpValidators)
+        : null,
+      $file_id: data.file_id ?? null,
+      $project_ids: data.projectIds ? JSON.stringify(data.projectIds) : null,
+      $pinned: data.pinned ? 1 : 0,
+      $ignored_version: data.ignoredVersion ?? null,
+      $channel: data.channel ?? null,
+      $changelog: data.changelog ?? null,
+      $changelog_version: data.changelogVersion ?? null,
+      $remote_display_version: data.remoteDisplayVersion ?? null,
     });
   }
 
   public updateAddon(folder: string, updates: Partial<AddonRecord>): void {
     const validUpdates = AddonRecordSchema.partial().parse(updates);
 
+    // partial() still fills in schema defaults; only write what was passed
     const keys = Object.keys(validUpdates).filter(
-      (k) => k !== "id" && k !== "folder",
+      (k) => k !== "id" && k !== "folder" && k in updates,
     ) as (keyof AddonRecord)[];
     if (keys.length === 0) return;
 
@@ -218,6 +527,11 @@ export class DatabaseManager {
       embeddedLibs: "embedded_libs",
       last_checked: "last_checked",
       remote_version: "remote_version",
+      httpValidators: "http_validators",
+      projectIds: "project_ids",
+      ignoredVersion: "ignored_version",
+      changelogVersion: "changelog_version",
+      remoteDisplayVersion: "remote_display_version",
     };
 
     const setClause = keys
@@ -240,7 +554,9 @@ export class DatabaseManager {
         key === "embeddedLibs"
       ) {
         params[`$${key}`] = JSON.stringify(value);
-      } else if (key === "kindOverride") {
+      } else if (key === "httpValidators" || key === "projectIds") {
+        params[`$${key}`] = value ? JSON.stringify(value) : null;
+      } else if (key === "kindOverride" || key === "pinned") {
         params[`$${key}`] = value ? 1 : 0;
       } else {
         params[`$${key}`] = value as string | number | null | undefined;
@@ -302,6 +618,82 @@ export class DatabaseManager {
     return matches[0] ?? null;
   }
 
+  /**
+   * Records a change to an addon in the history.
+   */
+  public addHistory(entry: z.input<typeof HistoryEntrySchema>): void {
+    const data = HistoryEntrySchema.parse(entry);
+    this.db
+      .query(`
+				INSERT INTO history (
+					folder, name, action, from_version, to_version, source,
+					outcome, message, timestamp
+				)
+				VALUES (
+					$folder, $name, $action, $from_version, $to_version, $source,
+					$outcome, $message, $timestamp
+				)
+			`)
+      .run({
+        $folder: data.folder,
+        $name: data.name,
+        $action: data.action,
+        $from_version: data.fromVersion,
+        $to_version: data.toVersion,
+        $source: data.source,
+        $outcome: data.outcome,
+        $message: data.message,
+        $timestamp: data.timestamp,
+      });
+  }
+
+  /**
+   * History entries matching the filter, newest first.
+   */
+  public getHistory(filter: HistoryFilter = {}): HistoryEntry[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (filter.addon) {
+      conditions.push(
+        "(folder LIKE '%' || $addon || '%' OR name LIKE '%' || $addon || '%')",
+      );
+      params.$addon = filter.addon;
+    }
+    if (filter.since) {
+      conditions.push("timestamp >= $since");
+      params.$since = filter.since;
+    }
+    if (filter.until) {
+      conditions.push("timestamp < $until");
+      params.$until = filter.until;
+    }
+
+    // A negative limit means no limit in SQLite
+    params.$limit = filter.limit ?? -1;
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .query(
+        `SELECT * FROM history ${where} ORDER BY timestamp DESC, id DESC LIMIT $limit`,
+      )
+      // biome-ignore lint/suspicious/noExplicitAny: SQLite query results have dynamic schema
+      .all(params) as any[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      folder: row.folder,
+      name: row.name,
+      action: row.action,
+      fromVersion: row.from_version ?? null,
+      toVersion: row.to_version ?? null,
+      source: row.source ?? null,
+      outcome: row.outcome,
+      message: row.message ?? null,
+      timestamp: row.timestamp,
+    }));
+  }
+
   public close() {
     this.db.close();
   }
@@ -0,0 +1,187 @@
+import path from "node:path";
+import type { UpdateAddonResult } from "./commands/UpdateAddonCommand";
+import type { AddonRecord } from "./db";
+import { getInstalledVersion } from "./sources";
+import type { VersionDelta } from "./utils/versionCompare";
+
+/**
+ * What happened to one addon in a batch update.
+ */
+export interface DigestEntry {
+  name: string;
+  folder: string;
+  /** Version installed before the batch */
+  fromVersion: string | null;
+  /** Version the source offered */
+  toVersion: string | null;
+  delta?: VersionDelta;
+  /** First line of the changelog leading up to toVersion, if it has one */
+  headline?: string | null;
+  /** Failure or skip reason */
+  reason?: string;
+}
+
+/**
+ * Summary of a batch update, for showing once the batch is done and for
+ * sharing as Markdown.
+ */
+export interface UpdateDigest {
+  startedAt: string;
+  durationMs: number;
+  updated: DigestEntry[];
+  failed: DigestEntry[];
+  /** Addons that weren't updated for a reason, e.g. pinned or older remote */
+  skipped: DigestEntry[];
+  /** Addons that were already up to date */
+  upToDate: number;
+}
+
+/** Name of the Markdown digest written to the config dir */
+export const DIGEST_FILE = "update-digest.md";
+
+/**
+ * Shortens full commit hashes; other versions are shown as they are.
+ */
+export function shortVersion(version: string | null): string {
+  if (!version) return "?";
+  return /^[a-f0-9]{40}$/i.test(version) ? version.substring(0, 7) : version;
+}
+
+/**
+ * Sorts per-addon update results into a digest.
+ * @param batch - Each addon's record from before the batch, with its result
+ * @param startedAt - Epoch ms the batch started
+ */
+export function buildDigest(
+  batch: { before: AddonRecord; result: UpdateAddonResult }[],
+  startedAt: number,
+): UpdateDigest {
+  const digest: UpdateDigest = {
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    updated: [],
+    failed: [],
+    skipped: [],
+    upToDate: 0,
+  };
+
+  for (const { before, result } of batch) {
+    const entry: DigestEntry = {
+      name: before.name,
+      folder: before.folder,
+      fromVersion: getInstalledVersion(before),
+      toVersion: result.displayVersion ?? result.remoteVersion ?? null,
+      delta: result.delta,
+    };
+
+    if (!result.success) {
+      digest.failed.push({
+        ...entry,
+        reason: result.error ?? result.message ?? "Failed",
+      });
+    } else if (result.updated) {
+      digest.updated.push(entry);
+    } else if (result.delta === "equivalent") {
+      digest.upToDate++;
+    } else {
+      digest.skipped.push({ ...entry, reason: result.message ?? "Skipped" });
+    }
+  }
+
+  return digest;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+/**
+ * One line summary, e.g. "3 updated, 1 failed, 12 up to date in 8.2s".
+ */
+export function summarizeDigest(digest: UpdateDigest): string {
+  const parts = [`${digest.updated.length} updated`];
+  if (digest.failed.length) parts.push(`${digest.failed.length} failed`);
+  if (digest.skipped.length) parts.push(`${digest.skipped.length} skipped`);
+  if (digest.upToDate) parts.push(`${digest.upToDate} up to date`);
+  return `${parts.join(", ")} in ${formatDuration(digest.durationMs)}`;
+}
+
+export function formatVersionChange(entry: DigestEntry): string {
+  return `${shortVersion(entry.fromVersion)} → ${shortVersion(entry.toVersion)}`;
+}
+
+/**
+ * Plain text report, as printed by the CLI.
+ */
+export function formatDigestText(digest: UpdateDigest): string {
+  const lines = [`Update digest: ${summarizeDigest(digest)}`];
+
+  if (digest.updated.length) {
+    lines.push("", "Updated:");
+    for (const entry of digest.updated) {
+      lines.push(`  ${entry.name}  ${formatVersionChange(entry)}`);
+      if (entry.headline) lines.push(`    ${entry.headline}`);
+    }
+  }
+  if (digest.failed.length) {
+    lines.push("", "Failed:");
+    for (const entry of digest.failed) {
+      lines.push(`  ${entry.name}  ${entry.reason}`);
+    }
+  }
+  if (digest.skipped.length) {
+    lines.push("", "Skipped:");
+    for (const entry of digest.skipped) {
+      lines.push(`  ${entry.name}  ${entry.reason}`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Markdown version of the digest, short enough to paste into a chat.
+ */
+export function formatDigestMarkdown(digest: UpdateDigest): string {
+  const date = new Date(digest.startedAt).toLocaleString();
+  const lines = [`## Addon updates, ${date}`, "", summarizeDigest(digest)];
+
+  if (digest.updated.length) {
+    lines.push("", "### Updated", "");
+    for (const entry of digest.updated) {
+      const headline = entry.headline ? ` - ${entry.headline}` : "";
+      lines.push(
+        `- **${entry.name}** \`${formatVersionChange(entry)}\`${headline}`,
+      );
+    }
+  }
+  if (digest.failed.length) {
+    lines.push("", "### Failed", "");
+    for (const entry of digest.failed) {
+      lines.push(`- **${entry.name}**: ${entry.reason}`);
+    }
+  }
+  if (digest.skipped.length) {
+    lines.push("", "### Skipped", "");
+    for (const entry of digest.skipped) {
+      lines.push(`- **${entry.name}**: ${entry.reason}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Writes the digest as Markdown, replacing the previous one.
+ * @returns Path of the written file
+ */
+export async function writeDigestMarkdown(
+  digest: UpdateDigest,
+  dir: string,
+): Promise<string> {
+  const filePath = path.join(dir, DIGEST_FILE);
+  await Bun.write(filePath, formatDigestMarkdown(digest));
+  return filePath;
+}
@@ -1,8 +1,12 @@
 import fsp from "node:fs/promises";
 import path from "node:path";
 import AdmZip from "adm-zip";
+import type { HttpValidators } from "./db";
 import { logger } from "./logger";
 
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+
 export async function download(
   url: string,
   destPath: string,
@@ -10,10 +14,7 @@ export async function download(
   try {
     logger.log("Downloader", `Downloading: ${url}`);
     const response = await fetch(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36",
-      },
+      headers: { "User-Agent": USER_AGENT },
     });
 
     if (!response.ok) {
@@ -33,6 +34,54 @@ export async function download(
   }
 }
 
+/**
+ * Reads the cache validators of a URL with a HEAD request.
+ * Returns null if the server doesn't answer HEAD or sends none.
+ */
+export async function getValidators(
+  url: string,
+): Promise<HttpValidators | null> {
+  try {
+    const response = await fetch(url, {
+      method: "HEAD",
+      headers: { "User-Agent": USER_AGENT },
+    });
+    if (!response.ok) {
+      logger.log("Downloader", `HEAD ${url} returned ${response.status}`);
+      return null;
+    }
+
+    const length = response.headers.get("content-length");
+    const validators: HttpValidators = {
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      contentLength: length !== null && length !== "" ? Number(length) : null,
+    };
+    if (
+      validators.etag === null &&
+      validators.lastModified === null &&
+      validators.contentLength === null
+    ) {
+      return null;
+    }
+    return validators;
+  } catch (error) {
+    logger.error("Downloader", `HEAD request failed for ${url}`, error);
+    return null;
+  }
+}
+
+/**
+ * SHA-256 of a file, as lowercase hex.
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  const hasher = new Bun.CryptoHasher("sha256");
+  for await (const chunk of Bun.file(filePath).stream()) {
+    hasher.update(chunk);
+  }
+  return hasher.digest("hex");
+}
+
 export async function unzip(
   zipPath: string,
   destDir: string,
@@ -1,3 +1,5 @@
+import type { GitHubRateLimit } from "./github";
+
 export type AddonManagerEvents = {
   "scan:start": [];
   "scan:progress": [folder: string];
@@ -20,4 +22,5 @@ export type AddonManagerEvents = {
   "autocheck:start": [total: number];
   "autocheck:progress": [current: number, total: number, addon: string];
   "autocheck:complete": [updatesFound: number];
+  "github:ratelimit": [state: GitHubRateLimit];
 };
@@ -1,3 +1,47 @@
+import { selectLatestTag } from "./utils/versionCompare";
+
+/**
+ * Thrown when a remote rejects our credentials or none are available.
+ */
+export class GitAuthError extends Error {
+  constructor(
+    public readonly remoteUrl: string,
+    public readonly detail: string,
+  ) {
+    super(
+      `Authentication failed for ${remoteUrl}. Check your SSH key or git credentials.`,
+    );
+    this.name = "GitAuthError";
+  }
+}
+
+const AUTH_FAILURE_PATTERNS = [
+  /Authentication failed/i,
+  /Permission denied \(/i,
+  /could not read (Username|Password)/i,
+  /terminal prompts disabled/i,
+  /Host key verification failed/i,
+  /HTTP Basic: Access denied/i,
+];
+
+/**
+ * Environment for git commands that talk to a remote.
+ * Prompts are disabled because a hidden password prompt would hang the TUI.
+ */
+function remoteEnv(): Record<string, string | undefined> {
+  return {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: "0",
+    GIT_SSH_COMMAND: process.env.GIT_SSH_COMMAND ?? "ssh -o BatchMode=yes",
+  };
+}
+
+function assertAuthenticated(stderr: string, remoteUrl: string): void {
+  if (AUTH_FAILURE_PATTERNS.some((pattern) => pattern.test(stderr))) {
+    throw new GitAuthError(remoteUrl, stderr.trim());
+  }
+}
+
 /**
  * Fetches the latest commit hash from a remote git repository.
  * Equivalent to: git ls-remote <url> refs/heads/<branch>
@@ -11,12 +55,13 @@ export async function getRemoteCommit(
     const proc = Bun.spawn(cmd, {
       stdout: "pipe",
       stderr: "pipe", // Capture stderr to avoid polluting console on error
+      env: remoteEnv(),
     });
     const output = await new Response(proc.stdout).text();
     const exitCode = await proc.exited;
 
     if (exitCode !== 0) {
-      // TODO: Log error matching Nushell's behavior?
+      assertAuthenticated(await new Response(proc.stderr).text(), remoteUrl);
       return null;
     }
 
@@ -27,15 +72,79 @@ export async function getRemoteCommit(
     // Output format: <hash>\trefs/heads/<branch>
     const match = output.match(/^([a-f0-9]+)\s/);
     return match ? (match[1] ?? null) : null;
-  } catch (_error) {
-    // TODO: Log error
+  } catch (error) {
+    if (error instanceof GitAuthError) throw error;
     return null;
   }
 }
 
+/**
+ * Resolves the branch the remote HEAD points at.
+ * Equivalent to: git ls-remote --symref <url> HEAD
+ */
+export async function getDefaultBranch(
+  remoteUrl: string,
+): Promise<string | null> {
+  const cmd = ["git", "ls-remote", "--symref", remoteUrl, "HEAD"];
+  try {
+    const proc = Bun.spawn(cmd, {
+      stdout: "pipe",
+      stderr: "pipe",
+      env: remoteEnv(),
+    });
+    const output = await new Response(proc.stdout).text();
+    const exitCode = await proc.exited;
+
+    if (exitCode !== 0) {
+      assertAuthenticated(await new Response(proc.stderr).text(), remoteUrl);
+      return null;
+    }
+
+    // Output format: ref: refs/heads/<branch>\tHEAD
+    const match = output.match(/^ref: refs\/heads\/(\S+)\s+HEAD/m);
+    return match ? (match[1] ?? null) : null;
+  } catch (error) {
+    if (error instanceof GitAuthError) throw error;
+    return null;
+  }
+}
+
+/**
+ * Lists the branch names on a remote git repository.
+ * Equivalent to: git ls-remote --heads <url>
+ */
+export async function getRemoteBranches(remoteUrl: string): Promise<string[]> {
+  const cmd = ["git", "ls-remote", "--heads", remoteUrl];
+  try {
+    const proc = Bun.spawn(cmd, {
+      stdout: "pipe",
+      stderr: "pipe",
+      env: remoteEnv(),
+    });
+    const output = await new Response(proc.stdout).text();
+    const exitCode = await proc.exited;
+
+    if (exitCode !== 0) {
+      assertAuthenticated(await new Response(proc.stderr).text(), remoteUrl);
+      return [];
+    }
+
+    // Output lines like: hash\trefs/heads/<branch>
+    return output
+      .trim()
+      .split("\n")
+      .map((line) => line.match(/^[a-f0-9]+\s+refs\/heads\/(.+)$/)?.[1])
+      .filter((branch): branch is string => !!branch);
+  } catch (error) {
+    if (error instanceof GitAuthError) throw error;
+    return [];
+  }
+}
+
 /**
  * Clones a git repository to a specific path.
  * Equivalent to: git clone --quiet --depth 1 --branch <branch> <url> <path>
+ * An empty branch clones the remote's default branch.
  */
 export async function clone(
   remoteUrl: string,
@@ -48,8 +157,7 @@ export async function clone(
     "--quiet",
     "--depth",
     "1",
-    "--branch",
-    branch,
+    ...(branch ? ["--branch", branch] : []),
     remoteUrl,
     destPath,
   ];
@@ -58,14 +166,17 @@ export async function clone(
     const proc = Bun.spawn(cmd, {
       stdout: "ignore",
       stderr: "pipe",
+      env: remoteEnv(),
     });
     const exitCode = await proc.exited;
     if (exitCode !== 0) {
       const stderr = await new Response(proc.stderr).text();
+      assertAuthenticated(stderr, remoteUrl);
       throw new Error(`Git exited with code ${exitCode}: ${stderr.trim()}`);
     }
     return true;
   } catch (error) {
+    if (error instanceof GitAuthError) throw error;
     throw new Error(
       `Git clone execution failed: ${error instanceof Error ? error.message : String(error)}`,
     );
@@ -101,32 +212,185 @@ export async function getCurrentCommit(
 }
 
 /**
- * Fetches the latest tag from a remote git repository.
- * Returns the tag name (e.g. "1.2.3" or "v1.2.3").
+ * Creates an empty bare repository.
+ * Equivalent to: git init --bare --quiet <path>
  */
-export async function getLatestTag(remoteUrl: string): Promise<string | null> {
-  const cmd = ["git", "ls-remote", "--tags", "--sort=-v:refname", remoteUrl];
+export async function initBare(gitDir: string): Promise<boolean> {
+  const cmd = ["git", "init", "--bare", "--quiet", gitDir];
+  try {
+    const proc = Bun.spawn(cmd, { stdout: "ignore", stderr: "pipe" });
+    return (await proc.exited) === 0;
+  } catch (_error) {
+    return false;
+  }
+}
+
+/**
+ * Fetches a single ref from a remote into a local repository,
+ * transferring only the objects it doesn't have yet.
+ * Equivalent to: git --git-dir <dir> fetch --quiet --depth 1 <url> +<ref>:<ref>
+ *
+ * @param ref - Fully qualified ref, e.g. refs/heads/main or refs/tags/v1.0
+ */
+export async function fetchRef(
+  gitDir: string,
+  remoteUrl: string,
+  ref: string,
+): Promise<boolean> {
+  const cmd = [
+    "git",
+    "--git-dir",
+    gitDir,
+    "fetch",
+    "--quiet",
+    "--depth",
+    "1",
+    "--no-tags",
+    remoteUrl,
+    `+${ref}:${ref}`,
+  ];
+
+  try {
+    const proc = Bun.spawn(cmd, {
+      stdout: "ignore",
+      stderr: "pipe",
+      env: remoteEnv(),
+    });
+    const exitCode = await proc.exited;
+    if (exitCode !== 0) {
+      const stderr = await new Response(proc.stderr).text();
+      assertAuthenticated(stderr, remoteUrl);
+      throw new Error(`Git exited with code ${exitCode}: ${stderr.trim()}`);
+    }
+    return true;
+  } catch (error) {
+    if (error instanceof GitAuthError) throw error;
+    throw new Error(
+      `Git fetch execution failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Checks out a commit of a bare repository into a detached worktree.
+ * Worktrees whose directories were deleted are pruned first.
+ * Equivalent to: git --git-dir <dir> worktree add --detach --force <path> <commit>
+ */
+export async function addWorktree(
+  gitDir: string,
+  commitish: string,
+  destPath: string,
+): Promise<boolean> {
+  try {
+    await Bun.spawn(["git", "--git-dir", gitDir, "worktree", "prune"], {
+      stdout: "ignore",
+      stderr: "ignore",
+    }).exited;
+
+    const proc = Bun.spawn(
+      [
+        "git",
+        "--git-dir",
+        gitDir,
+        "worktree",
+        "add",
+        "--quiet",
+        "--detach",
+        "--force",
+        destPath,
+        commitish,
+      ],
+      { stdout: "ignore", stderr: "pipe" },
+    );
+    const exitCode = await proc.exited;
+    if (exitCode !== 0) {
+      const stderr = await new Response(proc.stderr).text();
+      throw new Error(`Git exited with code ${exitCode}: ${stderr.trim()}`);
+    }
+    return true;
+  } catch (error) {
+    throw new Error(
+      `Git worktree execution failed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Resolves a ref of a local repository to its commit hash.
+ * Equivalent to: git --git-dir <dir> rev-parse --verify --quiet <ref>^{commit}
+ */
+export async function resolveRef(
+  gitDir: string,
+  ref: string,
+): Promise<string | null> {
+  const cmd = [
+    "git",
+    "--git-dir",
+    gitDir,
+    "rev-parse",
+    "--verify",
+    "--quiet",
+    `${ref}^{commit}`,
+  ];
+  try {
+    const proc = Bun.spawn(cmd, { stdout: "pipe", stderr: "ignore" });
+    const output = await new Response(proc.stdout).text();
+    if ((await proc.exited) !== 0) return null;
+    return output.trim() || null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+export interface RemoteTag {
+  name: string;
+  /** Commit the tag points at (peeled for annotated tags) */
+  commit: string;
+}
+
+/**
+ * Lists all tags on a remote git repository.
+ * Equivalent to: git ls-remote --tags <url>
+ */
+export async function getRemoteTags(remoteUrl: string): Promise<RemoteTag[]> {
+  const cmd = ["git", "ls-remote", "--tags", remoteUrl];
   try {
     const proc = Bun.spawn(cmd, {
       stdout: "pipe",
       stderr: "pipe",
+      env: remoteEnv(),
     });
     const output = await new Response(proc.stdout).text();
     const exitCode = await proc.exited;
 
-    if (exitCode !== 0) return null;
+    if (exitCode !== 0) {
+      assertAuthenticated(await new Response(proc.stderr).text(), remoteUrl);
+      return [];
+    }
 
     // Output lines like: hash\trefs/tags/v1.0.0
-    const lines = output.trim().split("\n");
-    for (const line of lines) {
-      const match = line.match(/refs\/tags\/([^^{}]+)$/);
-      if (match?.[1]) {
-        // Return the first one (sorted by version descending by git)
-        return match[1];
+    // Annotated tags add a peeled line: hash\trefs/tags/v1.0.0^{}
+    const tags = new Map<string, string>();
+    for (const line of output.trim().split("\n")) {
+      const match = line.match(/^([a-f0-9]+)\s+refs\/tags\/(.+?)(\^\{\})?$/);
+      if (!match?.[1] || !match[2]) continue;
+      if (match[3] || !tags.has(match[2])) {
+        tags.set(match[2], match[1]);
       }
     }
-    return null;
-  } catch (_error) {
-    return null;
+
+    return Array.from(tags, ([name, commit]) => ({ name, commit }));
+  } catch (error) {
+    if (error instanceof GitAuthError) throw error;
+    return [];
   }
 }
+
+/**
+ * Fetches the latest tag from a remote git repository.
+ * Returns the tag name (e.g. "1.2.3" or "v1.2.3").
+ */
+export async function getLatestTag(remoteUrl: string): Promise<string | null> {
+  const tags = await getRemoteTags(remoteUrl);
+  return selectLatestTag(tags)?.name ?? null;
+}
@@ -0,0 +1,87 @@
+import type { GetReleaseResult, GitHubRelease } from "./github";
+import { logger } from "./logger";
+
+/**
+ * Release as returned by Gitea and Forgejo. The API mirrors GitHub's,
+ * minus a few asset fields.
+ */
+interface GiteaRelease {
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+  assets?: {
+    name: string;
+    size: number;
+    browser_download_url: string;
+  }[];
+}
+
+async function fetchRelease(apiUrl: string): Promise<GetReleaseResult> {
+  logger.log("Gitea", `Fetching release from ${apiUrl}`);
+
+  try {
+    const response = await fetch(apiUrl);
+    if (!response.ok) {
+      logger.error(
+        "Gitea",
+        `API request failed: ${response.status} ${response.statusText}`,
+      );
+      if (response.status === 404) {
+        return { success: false, error: "not_found" };
+      }
+      return { success: false, error: "network_error" };
+    }
+
+    const release = (await response.json()) as GiteaRelease | null;
+    if (!release || typeof release.tag_name !== "string") {
+      logger.error("Gitea", "Invalid API response format");
+      return { success: false, error: "invalid_response" };
+    }
+
+    const normalized: GitHubRelease = {
+      tag_name: release.tag_name,
+      name: release.name,
+      draft: release.draft,
+      prerelease: release.prerelease,
+      body: release.body,
+      published_at: release.published_at,
+      assets: (release.assets ?? []).map((asset) => ({
+        ...asset,
+        content_type: "",
+      })),
+    };
+    return { success: true, release: normalized };
+  } catch (error) {
+    logger.error("Gitea", "Failed to fetch release", error);
+    return { success: false, error: "network_error" };
+  }
+}
+
+/**
+ * Fetches the newest published, non-prerelease release of a repository.
+ *
+ * @param baseUrl - Instance base URL, e.g. https://codeberg.org
+ */
+export async function getLatestRelease(
+  baseUrl: string,
+  owner: string,
+  repo: string,
+): Promise<GetReleaseResult> {
+  return fetchRelease(
+    `${baseUrl}/api/v1/repos/${owner}/${repo}/releases/latest`,
+  );
+}
+
+export async function getReleaseByTag(
+  baseUrl: string,
+  owner: string,
+  repo: string,
+  tag: string,
+): Promise<GetReleaseResult> {
+  return fetchRelease(
+    `${baseUrl}/api/v1/repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`,
+  );
+}
@@ -0,0 +1,510 @@
+import type { GameFlavor } from "./db";
+import type { RemoteTag } from "./git";
+import { logger } from "./logger";
+
+export interface GitHubReleaseAsset {
+  name: string;
+  browser_download_url: string;
+  content_type: string;
+  size: number;
+}
+
+export interface GitHubRelease {
+  tag_name: string;
+  name: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  body: string | null;
+  published_at: string | null;
+  assets: GitHubReleaseAsset[];
+}
+
+/**
+ * Manifest the BigWigs packager uploads next to its zips.
+ * Maps each zip to the game flavors it supports.
+ */
+export interface PackagerReleaseJson {
+  releases: {
+    name?: string;
+    version?: string;
+    filename: string;
+    nolib: boolean;
+    metadata: { flavor: string; interface: number }[];
+  }[];
+}
+
+export type GitHubError =
+  | "not_found"
+  | "rate_limited"
+  | "network_error"
+  | "invalid_response";
+
+export type GetReleaseResult =
+  | { success: true; release: GitHubRelease }
+  | { success: false; error: GitHubError };
+
+export type GetCommitResult =
+  | { success: true; sha: string }
+  | { success: false; error: GitHubError };
+
+export interface GitHubCommitSummary {
+  sha: string;
+  message: string;
+}
+
+export type CompareCommitsResult =
+  | { success: true; commits: GitHubCommitSummary[] }
+  | { success: false; error: GitHubError };
+
+export type GetTagsResult =
+  | { success: true; tags: RemoteTag[] }
+  | { success: false; error: GitHubError };
+
+/**
+ * API quota as last reported by GitHub's X-RateLimit-* headers.
+ */
+export interface GitHubRateLimit {
+  limit: number | null;
+  remaining: number | null;
+  /** Epoch ms when the quota resets */
+  resetAt: number | null;
+  /** Epoch ms before which no requests are sent (quota exhausted or Retry-After) */
+  blockedUntil: number | null;
+}
+
+export interface BranchRef {
+  owner: string;
+  repo: string;
+  branch: string;
+}
+
+const API_BASE = "https://api.github.com";
+
+/** Repositories per GraphQL batch query */
+const BATCH_SIZE = 50;
+
+/** Pages of tags fetched at most (100 tags each) */
+const MAX_TAG_PAGES = 3;
+
+let rateLimit: GitHubRateLimit | null = null;
+const rateLimitListeners = new Set<(state: GitHubRateLimit) => void>();
+
+/**
+ * Packager flavor names for each game flavor, most specific first.
+ */
+const PACKAGER_FLAVORS: Record<GameFlavor, string[]> = {
+  retail: ["mainline", "retail"],
+  classic: ["vanilla", "classic"],
+  cata: ["cata", "cataclysm"],
+};
+
+/**
+ * Asset name suffixes used by authors who don't ship a release.json.
+ */
+const ASSET_FLAVOR_SUFFIXES: Record<GameFlavor, string[]> = {
+  retail: ["-mainline", "-retail"],
+  classic: ["-classic", "-vanilla", "-era"],
+  cata: ["-cata", "-cataclysm"],
+};
+
+export function getRepoFromUrl(
+  url: string,
+): { owner: string; repo: string } | null {
+  try {
+    const parsed = new URL(url);
+    if (!parsed.hostname.endsWith("github.com")) return null;
+    const [owner, repo] = parsed.pathname.split("/").filter(Boolean);
+    if (!owner || !repo) return null;
+    return { owner, repo: repo.replace(/\.git$/, "") };
+  } catch {
+    return null;
+  }
+}
+
+export function getRateLimit(): GitHubRateLimit | null {
+  return rateLimit;
+}
+
+/**
+ * Subscribes to rate limit updates.
+ * @returns Unsubscribe function
+ */
+export function onRateLimitChange(
+  listener: (state: GitHubRateLimit) => void,
+): () => void {
+  rateLimitListeners.add(listener);
+  return () => {
+    rateLimitListeners.delete(listener);
+  };
+}
+
+/**
+ * Forgets the tracked quota, e.g. after switching tokens.
+ */
+export function resetRateLimit(): void {
+  rateLimit = null;
+}
+
+/**
+ * Whether requests are being held back until the quota resets.
+ */
+export function isRateLimited(now = Date.now()): boolean {
+  return !!rateLimit?.blockedUntil && rateLimit.blockedUntil > now;
+}
+
+function parseHeaderNumber(response: Response, name: string): number | null {
+  const value = response.headers.get(name);
+  if (value === null || value.trim() === "") return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function recordRateLimit(response: Response): void {
+  const limit = parseHeaderNumber(response, "x-ratelimit-limit");
+  const remaining = parseHeaderNumber(response, "x-ratelimit-remaining");
+  const reset = parseHeaderNumber(response, "x-ratelimit-reset");
+  const retryAfter = parseHeaderNumber(response, "retry-after");
+  if (limit === null && remaining === null && retryAfter === null) return;
+
+  const resetAt = reset !== null ? reset * 1000 : null;
+  let blockedUntil: number | null = null;
+  if (retryAfter !== null) {
+    blockedUntil = Date.now() + retryAfter * 1000;
+  } else if (remaining === 0 && resetAt !== null) {
+    blockedUntil = resetAt;
+  }
+
+  rateLimit = {
+    limit: limit ?? rateLimit?.limit ?? null,
+    remaining: remaining ?? rateLimit?.remaining ?? null,
+    resetAt: resetAt ?? rateLimit?.resetAt ?? null,
+    blockedUntil,
+  };
+  for (const listener of rateLimitListeners) {
+    listener(rateLimit);
+  }
+}
+
+function getHeaders(
+  token: string | undefined,
+  accept = "application/vnd.github+json",
+): Record<string, string> {
+  return {
+    Accept: accept,
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+/**
+ * Sends an API request, tracking the rate limit and mapping failures.
+ * Requests are skipped entirely while the quota is exhausted.
+ */
+async function request(
+  apiUrl: string,
+  token: string | undefined,
+  init: { accept?: string; method?: string; body?: string } = {},
+): Promise<Response | GitHubError> {
+  if (isRateLimited()) {
+    logger.log("GitHub", `Rate limited, skipping ${apiUrl}`);
+    return "rate_limited";
+  }
+
+  try {
+    const response = await fetch(apiUrl, {
+      method: init.method,
+      body: init.body,
+      headers: getHeaders(token, init.accept),
+    });
+    recordRateLimit(response);
+
+    if (!response.ok) {
+      logger.error(
+        "GitHub",
+        `API request failed: ${response.status} ${response.statusText}`,
+      );
+      if (response.status === 404) return "not_found";
+      if (
+        response.status === 429 ||
+        (response.status === 403 &&
+          (response.headers.get("x-ratelimit-remaining") === "0" ||
+            response.headers.has("retry-after")))
+      ) {
+        return "rate_limited";
+      }
+      return "network_error";
+    }
+    return response;
+  } catch (error) {
+    logger.error("GitHub", `Request to ${apiUrl} failed`, error);
+    return "network_error";
+  }
+}
+
+async function fetchRelease(
+  apiUrl: string,
+  token?: string,
+): Promise<GetReleaseResult> {
+  logger.log("GitHub", `Fetching release from ${apiUrl}`);
+
+  const response = await request(apiUrl, token);
+  if (typeof response === "string") return { success: false, error: response };
+
+  try {
+    const release = (await response.json()) as GitHubRelease;
+    if (!release || typeof release.tag_name !== "string") {
+      logger.error("GitHub", "Invalid API response format");
+      return { success: false, error: "invalid_response" };
+    }
+
+    return {
+      success: true,
+      release: { ...release, assets: release.assets ?? [] },
+    };
+  } catch (error) {
+    logger.error("GitHub", "Failed to parse release", error);
+    return { success: false, error: "invalid_response" };
+  }
+}
+
+/**
+ * Fetches the newest published, non-prerelease release of a repository.
+ */
+export async function getLatestRelease(
+  owner: string,
+  repo: string,
+  token?: string,
+): Promise<GetReleaseResult> {
+  return fetchRelease(
+    `${API_BASE}/repos/${owner}/${repo}/releases/latest`,
+    token,
+  );
+}
+
+export async function getReleaseByTag(
+  owner: string,
+  repo: string,
+  tag: string,
+  token?: string,
+): Promise<GetReleaseResult> {
+  return fetchRelease(
+    `${API_BASE}/repos/${owner}/${repo}/releases/tags/${encodeURIComponent(tag)}`,
+    token,
+  );
+}
+
+/**
+ * Resolves the head commit of a branch.
+ * The sha media type returns the bare hash instead of the full commit.
+ */
+export async function getBranchCommit(
+  owner: string,
+  repo: string,
+  branch: string,
+  token?: string,
+): Promise<GetCommitResult> {
+  const ref = branch.split("/").map(encodeURIComponent).join("/");
+  const response = await request(
+    `${API_BASE}/repos/${owner}/${repo}/commits/${ref}`,
+    token,
+    { accept: "application/vnd.github.sha" },
+  );
+  if (typeof response === "string") return { success: false, error: response };
+
+  const sha = (await response.text()).trim();
+  if (!/^[a-f0-9]{40}$/.test(sha)) {
+    return { success: false, error: "invalid_response" };
+  }
+  return { success: true, sha };
+}
+
+/**
+ * Lists the tags of a repository with the commits they point at.
+ */
+export async function getTags(
+  owner: string,
+  repo: string,
+  token?: string,
+): Promise<GetTagsResult> {
+  const tags: RemoteTag[] = [];
+
+  for (let page = 1; page <= MAX_TAG_PAGES; page++) {
+    const response = await request(
+      `${API_BASE}/repos/${owner}/${repo}/tags?per_page=100&page=${page}`,
+      token,
+    );
+    if (typeof response === "string") {
+      return { success: false, error: response };
+    }
+
+    const data = (await response.json().catch(() => null)) as
+      | { name: string; commit: { sha: string } }[]
+      | null;
+    if (!Array.isArray(data)) {
+      return { success: false, error: "invalid_response" };
+    }
+
+    tags.push(...data.map((t) => ({ name: t.name, commit: t.commit.sha })));
+    if (data.length < 100) break;
+  }
+
+  return { success: true, tags };
+}
+
+/**
+ * Lists the commits head has on top of base, oldest first. Either side
+ * may be a commit, branch or tag. GitHub returns at most 250 commits.
+ */
+export async function compareCommits(
+  owner: string,
+  repo: string,
+  base: string,
+  head: string,
+  token?: string,
+): Promise<CompareCommitsResult> {
+  const range = `${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
+  const response = await request(
+    `${API_BASE}/repos/${owner}/${repo}/compare/${range}`,
+    token,
+  );
+  if (typeof response === "string") return { success: false, error: response };
+
+  const data = (await response.json().catch(() => null)) as {
+    commits?: { sha: string; commit: { message: string } }[];
+  } | null;
+  if (!Array.isArray(data?.commits)) {
+    return { success: false, error: "invalid_response" };
+  }
+
+  return {
+    success: true,
+    commits: data.commits.map((c) => ({
+      sha: c.sha,
+      message: c.commit.message,
+    })),
+  };
+}
+
+/**
+ * Resolves the head commits of many branches with as few requests as possible,
+ * using aliased GraphQL queries. GraphQL requires a token.
+ *
+ * @returns Head commits keyed by branchKey(); branches that couldn't be
+ * resolved are left out
+ */
+export async function getBranchCommits(
+  refs: BranchRef[],
+  token: string,
+): Promise<Map<string, string>> {
+  const commits = new Map<string, string>();
+  if (!token) return commits;
+
+  for (let start = 0; start < refs.length; start += BATCH_SIZE) {
+    const batch = refs.slice(start, start + BATCH_SIZE);
+    const variables: Record<string, string> = {};
+    const params: string[] = [];
+    const fields = batch.map((ref, i) => {
+      variables[`o${i}`] = ref.owner;
+      variables[`n${i}`] = ref.repo;
+      variables[`b${i}`] = `refs/heads/${ref.branch}`;
+      params.push(`$o${i}: String!, $n${i}: String!, $b${i}: String!`);
+      return `r${i}: repository(owner: $o${i}, name: $n${i}) { ref(qualifiedName: $b${i}) { target { oid } } }`;
+    });
+    const query = `query(${params.join(", ")}) { ${fields.join(" ")} }`;
+
+    const response = await request(`${API_BASE}/graphql`, token, {
+      method: "POST",
+      body: JSON.stringify({ query, variables }),
+    });
+    if (typeof response === "string") break;
+
+    const json = (await response.json().catch(() => null)) as {
+      data?: Record<string, { ref: { target: { oid: string } } | null } | null>;
+    } | null;
+    batch.forEach((ref, i) => {
+      const oid = json?.data?.[`r${i}`]?.ref?.target?.oid;
+      if (oid) commits.set(branchKey(ref), oid);
+    });
+  }
+
+  return commits;
+}
+
+/**
+ * Lookup key for a repository branch. Owner and repo names are
+ * case-insensitive on GitHub, branch names are not.
+ */
+export function branchKey(ref: BranchRef): string {
+  const repo = `${ref.owner}/${ref.repo}`.toLowerCase();
+  return `${repo}#${ref.branch}`;
+}
+
+/**
+ * Downloads and parses the packager's release.json asset, if the release has one.
+ */
+export async function getPackagerManifest(
+  release: GitHubRelease,
+): Promise<PackagerReleaseJson | null> {
+  const asset = release.assets.find((a) => a.name === "release.json");
+  if (!asset) return null;
+
+  try {
+    const response = await fetch(asset.browser_download_url);
+    if (!response.ok) return null;
+
+    const data = (await response.json()) as PackagerReleaseJson;
+    return Array.isArray(data?.releases) ? data : null;
+  } catch (error) {
+    logger.error("GitHub", "Failed to fetch release.json", error);
+    return null;
+  }
+}
+
+/**
+ * Picks the zip asset to install for a game flavor.
+ *
+ * Selection priority:
+ * 1. The release.json entry for the flavor (full package preferred over nolib)
+ * 2. A zip whose name carries the flavor suffix (e.g. Addon-v1.0-classic.zip)
+ * 3. For retail only, a zip without any flavor suffix
+ *
+ * Returns null if the release has no installable zip for the flavor.
+ */
+export function selectReleaseAsset(
+  release: GitHubRelease,
+  flavor: GameFlavor,
+  manifest: PackagerReleaseJson | null,
+): GitHubReleaseAsset | null {
+  const zips = release.assets.filter((a) =>
+    a.name.toLowerCase().endsWith(".zip"),
+  );
+  if (zips.length === 0) return null;
+
+  if (manifest) {
+    const flavors = PACKAGER_FLAVORS[flavor];
+    const entries = manifest.releases
+      .filter((r) => r.metadata?.some((m) => flavors.includes(m.flavor)))
+      .sort((a, b) => Number(a.nolib) - Number(b.nolib));
+
+    for (const entry of entries) {
+      const asset = zips.find((a) => a.name === entry.filename);
+      if (asset) return asset;
+    }
+  }
+
+  const candidates = zips.filter((a) => !/-nolib/i.test(a.name));
+  const baseName = (a: GitHubReleaseAsset) =>
+    a.name.toLowerCase().replace(/\.zip$/, "");
+
+  const flavored = candidates.find((a) =>
+    ASSET_FLAVOR_SUFFIXES[flavor].some((s) => baseName(a).endsWith(s)),
+  );
+  if (flavored) return flavored;
+
+  if (flavor !== "retail") return null;
+
+  const allSuffixes = Object.values(ASSET_FLAVOR_SUFFIXES).flat();
+  return (
+    candidates.find((a) => !allSuffixes.some((s) => baseName(a).endsWith(s))) ??
+    null
+  );
+}
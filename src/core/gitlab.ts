@@ -0,0 +1,109 @@
+import type { GetReleaseResult, GitHubRelease } from "./github";
+import { logger } from "./logger";
+
+interface GitLabRelease {
+  tag_name: string;
+  name: string | null;
+  description: string | null;
+  released_at: string | null;
+  upcoming_release?: boolean;
+  assets?: {
+    links?: {
+      name: string;
+      url: string;
+      direct_asset_url?: string;
+    }[];
+  };
+}
+
+/** Releases fetched when looking for the newest published one */
+const RELEASES_PER_PAGE = 20;
+
+function getApiBase(baseUrl: string, project: string): string {
+  return `${baseUrl}/api/v4/projects/${encodeURIComponent(project)}`;
+}
+
+/**
+ * Maps a GitLab release onto GitHub's shape, so packaged asset selection
+ * works the same for every host. GitLab has no prerelease flag; releases
+ * scheduled for the future are the closest match.
+ */
+function toRelease(release: GitLabRelease): GitHubRelease {
+  return {
+    tag_name: release.tag_name,
+    name: release.name,
+    draft: false,
+    prerelease: !!release.upcoming_release,
+    body: release.description,
+    published_at: release.released_at,
+    assets: (release.assets?.links ?? []).map((link) => ({
+      name: link.name,
+      browser_download_url: link.direct_asset_url || link.url,
+      content_type: "",
+      size: 0,
+    })),
+  };
+}
+
+async function fetchJson(
+  apiUrl: string,
+): Promise<{ data: unknown } | { error: "not_found" | "network_error" }> {
+  logger.log("GitLab", `Fetching ${apiUrl}`);
+  try {
+    const response = await fetch(apiUrl);
+    if (!response.ok) {
+      logger.error(
+        "GitLab",
+        `API request failed: ${response.status} ${response.statusText}`,
+      );
+      return { error: response.status === 404 ? "not_found" : "network_error" };
+    }
+    return { data: await response.json() };
+  } catch (error) {
+    logger.error("GitLab", `Request to ${apiUrl} failed`, error);
+    return { error: "network_error" };
+  }
+}
+
+/**
+ * Fetches the newest published release of a project.
+ *
+ * @param baseUrl - Instance base URL, e.g. https://gitlab.com
+ * @param project - Full project path, e.g. group/subgroup/project
+ */
+export async function getLatestRelease(
+  baseUrl: string,
+  project: string,
+): Promise<GetReleaseResult> {
+  const result = await fetchJson(
+    `${getApiBase(baseUrl, project)}/releases?per_page=${RELEASES_PER_PAGE}`,
+  );
+  if ("error" in result) return { success: false, error: result.error };
+  if (!Array.isArray(result.data)) {
+    return { success: false, error: "invalid_response" };
+  }
+
+  // Sorted newest first by release date
+  const latest = (result.data as GitLabRelease[]).find(
+    (r) => !r.upcoming_release,
+  );
+  if (!latest) return { success: false, error: "not_found" };
+  return { success: true, release: toRelease(latest) };
+}
+
+export async function getReleaseByTag(
+  baseUrl: string,
+  project: string,
+  tag: string,
+): Promise<GetReleaseResult> {
+  const result = await fetchJson(
+    `${getApiBase(baseUrl, project)}/releases/${encodeURIComponent(tag)}`,
+  );
+  if ("error" in result) return { success: false, error: result.error };
+
+  const release = result.data as GitLabRelease | null;
+  if (!release || typeof release.tag_name !== "string") {
+    return { success: false, error: "invalid_response" };
+  }
+  return { success: true, release: toRelease(release) };
+}
@@ -1,5 +1,15 @@
 import { EventEmitter } from "node:events";
 import path from "node:path";
+import pLimit from "p-limit";
+import {
+  AdoptAddonCommand,
+  type AdoptAddonResult,
+} from "./commands/AdoptAddonCommand";
+import {
+  InstallCurseForgeCommand,
+  type InstallCurseForgeResult,
+} from "./commands/InstallCurseForgeCommand";
+import { InstallFromFileCommand } from "./commands/InstallFromFileCommand";
 import {
   InstallFromUrlCommand,
   type InstallFromUrlResult,
@@ -9,23 +19,60 @@ import {
   InstallWagoCommand,
   type InstallWagoResult,
 } from "./commands/InstallWagoCommand";
+import {
+  LinkSourceCommand,
+  type LinkSourceResult,
+} from "./commands/LinkSourceCommand";
+import {
+  type AddonMatch,
+  MatchSourcesCommand,
+} from "./commands/MatchSourcesCommand";
+import { PruneCacheCommand } from "./commands/PruneCacheCommand";
 import {
   RemoveAddonCommand,
   type RemoveAddonResult,
 } from "./commands/RemoveAddonCommand";
+import {
+  RestoreVersionCommand,
+  type RestoreVersionResult,
+} from "./commands/RestoreVersionCommand";
 import { ScanCommand } from "./commands/ScanCommand";
+import {
+  SwitchBranchCommand,
+  type SwitchBranchResult,
+} from "./commands/SwitchBranchCommand";
 import type { Command, CommandContext } from "./commands/types";
 import {
   UpdateAddonCommand,
   type UpdateAddonResult,
 } from "./commands/UpdateAddonCommand";
-import { type Config, ConfigManager } from "./config";
-import { type AddonRecord, DatabaseManager } from "./db";
+import { type Config, ConfigManager, REPO_TYPE } from "./config";
+import {
+  type AddonKind,
+  type AddonRecord,
+  DatabaseManager,
+  type HistoryEntry,
+  type HistoryFilter,
+} from "./db";
+import { buildDigest, type UpdateDigest, writeDigestMarkdown } from "./digest";
 import type { AddonManagerEvents } from "./events";
-import * as GitClient from "./git";
-import * as TukUI from "./tukui";
-import * as Wago from "./wago";
-import * as WoWInterface from "./wowinterface";
+import * as GitHub from "./github";
+import * as RepoCache from "./repoCache";
+import {
+  compareAddonVersion,
+  fetchAddonChangelog,
+  getDisplayVersion,
+  getProvider,
+  getRemoteVersion,
+  prefetchReleases,
+} from "./sources";
+import { parseGiteaUrl } from "./sources/gitea";
+import { parseGitHubUrl } from "./sources/github";
+import { parseGitLabUrl } from "./sources/gitlab";
+import { getChangelogHeadline } from "./utils/changelogText";
+import { isUpdate, type VersionDelta } from "./utils/versionCompare";
+import * as VersionArchive from "./versionArchive";
+import type * as Wago from "./wago";
 
 export interface UpdateResult {
   repoName: string;
@@ -35,6 +82,41 @@ export interface UpdateResult {
   error?: string;
 }
 
+/** How many updates, removals and restores undoLast can go back */
+export const UNDO_LIMIT = 10;
+
+export interface UndoResult {
+  success: boolean;
+  /** What was undone, e.g. "update of ElvUI" */
+  description?: string;
+  folder?: string;
+  error?: string;
+}
+
+interface UndoEntry {
+  command: Command<unknown>;
+  description: string;
+  folder: string;
+}
+
+/**
+ * An addon whose source offers a version it should update to.
+ */
+export interface PendingUpdate {
+  addon: AddonRecord;
+  remoteVersion: string;
+  /** The remote version as users know it */
+  displayVersion: string;
+  delta: VersionDelta;
+}
+
+/**
+ * Manual and local installs have nowhere to check for updates.
+ */
+function hasRemoteSource(addon: AddonRecord): boolean {
+  return addon.type !== "manual" && addon.type !== REPO_TYPE.LOCAL;
+}
+
 export interface AddonManager {
   on<K extends keyof AddonManagerEvents>(
     event: K,
@@ -56,12 +138,20 @@ export class AddonManager extends EventEmitter {
   private dbManager: DatabaseManager;
   private autoCheckTimer: NodeJS.Timeout | null = null;
   private isAutoChecking = false;
+  private unsubscribeRateLimit: () => void;
+  /** Finished commands undoLast can revert, oldest first */
+  private undoStack: UndoEntry[] = [];
 
   constructor(configManager?: ConfigManager) {
     super();
     this.configManager = configManager || new ConfigManager();
     const configDir = path.dirname(this.configManager.path);
     this.dbManager = new DatabaseManager(configDir);
+    RepoCache.setRepoCacheDir(path.join(configDir, "git-cache"));
+    VersionArchive.setVersionArchiveDir(path.join(configDir, "versions"));
+    this.unsubscribeRateLimit = GitHub.onRateLimitChange((state) =>
+      this.emit("github:ratelimit", state),
+    );
   }
 
   public startAutoCheckLoop() {
@@ -110,12 +200,15 @@ export class AddonManager extends EventEmitter {
     this.isAutoChecking = true;
 
     try {
-      const addons = this.dbManager.getAll().filter((a) => a.type !== "manual");
+      const addons = this.dbManager
+        .getAll()
+        .filter((a) => hasRemoteSource(a) && !a.pinned);
 
       if (addons.length === 0) return;
 
       this.emit("autocheck:start", addons.length);
       let updatesFound = 0;
+      await prefetchReleases(addons, this.configManager.get());
 
       for (let i = 0; i < addons.length; i++) {
         const addon = addons[i];
@@ -146,11 +239,65 @@ export class AddonManager extends EventEmitter {
     }
   }
 
-  private async executeCommand<T>(command: Command<T>): Promise<T> {
-    const context: CommandContext = {
+  private createContext(): CommandContext {
+    return {
       emit: (event, ...args) => this.emit(event, ...args),
     };
-    return await command.execute(context);
+  }
+
+  private async executeCommand<T>(command: Command<T>): Promise<T> {
+    return await command.execute(this.createContext());
+  }
+
+  /**
+   * Runs a command and, if `changed` says it did something, keeps it on
+   * the undo stack with its backups. The oldest entry beyond UNDO_LIMIT
+   * is dropped, as are the backups of commands that changed nothing.
+   */
+  private async executeUndoable<T>(
+    command: Command<T>,
+    entry: Omit<UndoEntry, "command">,
+    changed: (result: T) => boolean,
+  ): Promise<T> {
+    const result = await this.executeCommand(command);
+    if (!changed(result)) {
+      await command.dispose?.();
+      return result;
+    }
+
+    this.undoStack.push({ ...entry, command });
+    const dropped = this.undoStack.splice(
+      0,
+      Math.max(0, this.undoStack.length - UNDO_LIMIT),
+    );
+    for (const old of dropped) {
+      await old.command.dispose?.();
+    }
+    return result;
+  }
+
+  /**
+   * Reverts the latest update, removal or restore on the undo stack,
+   * putting back its folders and DB records.
+   */
+  public async undoLast(): Promise<UndoResult> {
+    const entry = this.undoStack.pop();
+    if (!entry) return { success: false, error: "Nothing to undo" };
+
+    const { command, description, folder } = entry;
+    try {
+      await command.undo?.(this.createContext());
+    } catch (error) {
+      // Backups stay on disk for manual recovery
+      return {
+        success: false,
+        description,
+        folder,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+    await command.dispose?.();
+    return { success: true, description, folder };
   }
 
   public getConfig(): Config {
@@ -164,34 +311,107 @@ export class AddonManager extends EventEmitter {
   public close() {
     this.stopAutoCheckLoop();
     this.dbManager.close();
+    this.unsubscribeRateLimit();
+    // Nothing can be undone once closed
+    for (const { command } of this.undoStack.splice(0)) {
+      command.dispose?.().catch(() => {});
+    }
+    RepoCache.setRepoCacheDir(null);
+    VersionArchive.setVersionArchiveDir(null);
   }
 
-  public async updateAll(force = false): Promise<UpdateAddonResult[]> {
+  /**
+   * Updates every addon with a remote source, one at a time.
+   * @returns A digest of what changed
+   */
+  public async updateAll(force = false): Promise<UpdateDigest> {
+    const startedAt = Date.now();
     const addons = this.dbManager.getAll();
-    const results: UpdateAddonResult[] = [];
+    const batch: { before: AddonRecord; result: UpdateAddonResult }[] = [];
+    await prefetchReleases(
+      addons.filter((a) => !a.pinned),
+      this.configManager.get(),
+    );
 
     for (const addon of addons) {
-      if (addon.type === "manual") continue;
+      if (!hasRemoteSource(addon)) continue;
+      if (addon.pinned) {
+        batch.push({
+          before: addon,
+          result: {
+            repoName: addon.name,
+            success: true,
+            updated: false,
+            message: "Pinned",
+          },
+        });
+        continue;
+      }
 
       try {
         const result = await this.updateAddon(addon, force);
-        results.push(result);
+        batch.push({ before: addon, result });
       } catch (error) {
-        results.push({
-          repoName: addon.name,
-          success: false,
-          updated: false,
-          error: String(error),
+        batch.push({
+          before: addon,
+          result: {
+            repoName: addon.name,
+            success: false,
+            updated: false,
+            error: String(error),
+          },
         });
       }
     }
 
-    return results;
+    return this.createDigest(batch, startedAt);
+  }
+
+  /**
+   * Sorts a batch's results into a digest, then fetches the changelog
+   * headline of each update, maxConcurrent at a time. An update whose
+   * changelog can't be fetched is listed without one.
+   * @param batch - Each addon's record from before the batch, with its result
+   * @param startedAt - Epoch ms the batch started
+   */
+  public async createDigest(
+    batch: { before: AddonRecord; result: UpdateAddonResult }[],
+    startedAt: number,
+  ): Promise<UpdateDigest> {
+    const digest = buildDigest(batch, startedAt);
+    const remoteVersions = new Map(
+      batch.map(({ before, result }) => [before.folder, result.remoteVersion]),
+    );
+    const limit = pLimit(this.configManager.get().maxConcurrent);
+    await Promise.all(
+      digest.updated.map((entry) =>
+        limit(async () => {
+          const addon = this.dbManager.getByFolder(entry.folder);
+          const remoteVersion = remoteVersions.get(entry.folder);
+          if (!addon || !remoteVersion) return;
+          const { changelog } = await this.getChangelog({
+            ...addon,
+            remote_version: remoteVersion,
+          }).catch(() => ({ changelog: null }));
+          entry.headline = getChangelogHeadline(changelog);
+        }),
+      ),
+    );
+    return digest;
+  }
+
+  /**
+   * Writes the digest as Markdown next to the config, for sharing.
+   * @returns Path of the written file
+   */
+  public async saveDigest(digest: UpdateDigest): Promise<string> {
+    return writeDigestMarkdown(digest, path.dirname(this.configManager.path));
   }
 
   public getCachedUpdateStatus(addon: AddonRecord): {
     updateAvailable: boolean;
     remoteVersion: string;
+    delta: VersionDelta;
     cached: boolean;
   } | null {
     const config = this.configManager.get();
@@ -202,29 +422,12 @@ export class AddonManager extends EventEmitter {
 
     if (!isStale && addon.remote_version) {
       const remoteVersion = addon.remote_version;
-      let updateAvailable = false;
-
-      if (addon.type === "github") {
-        const localHash = addon.git_commit || addon.version;
-        if (!localHash) {
-          updateAvailable = true;
-        } else {
-          updateAvailable = localHash !== remoteVersion;
-          if (
-            remoteVersion.startsWith(localHash) ||
-            localHash.startsWith(remoteVersion)
-          ) {
-            updateAvailable = false;
-          }
-        }
-      } else {
-        // Simple version comparison for others
-        updateAvailable = addon.version !== remoteVersion;
-      }
+      const delta = compareAddonVersion(addon, remoteVersion);
 
       return {
-        updateAvailable,
+        updateAvailable: isUpdate(delta),
         remoteVersion,
+        delta,
         cached: true,
       };
     }
@@ -237,6 +440,8 @@ export class AddonManager extends EventEmitter {
   ): Promise<{
     updateAvailable: boolean;
     remoteVersion: string;
+    /** How the remote version relates to the installed one */
+    delta?: VersionDelta;
     error?: string;
     cached?: boolean;
   }> {
@@ -258,171 +463,126 @@ export class AddonManager extends EventEmitter {
       }
     }
 
+    const provider = getProvider(addon.type);
+    if (!provider) {
+      return { updateAvailable: false, remoteVersion: "" };
+    }
+
     // Perform live check
-    const config = this.configManager.get();
-    if (addon.type === "github") {
-      const branch = "main";
-      const remoteHash = await GitClient.getRemoteCommit(addon.url, branch);
-      if (!remoteHash) {
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error: "Failed to get remote hash",
-        };
-      }
+    try {
+      const release = await provider.resolveLatest(
+        addon,
+        this.configManager.get(),
+      );
+      const remoteVersion = getRemoteVersion(release);
 
       // Update DB
       this.dbManager.updateAddon(addon.folder, {
         last_checked: new Date().toISOString(),
-        remote_version: remoteHash,
+        remote_version: remoteVersion,
+        remoteDisplayVersion: getDisplayVersion(release),
+        // Unchanged content under new validators: remember them to skip re-hashing
+        ...(release.validators &&
+        release.contentHash &&
+        release.contentHash === addon.content_hash
+          ? { httpValidators: release.validators }
+          : {}),
       });
 
-      // Compare with stored git_commit if available, otherwise fallback to version (legacy behavior)
-      const localHash = addon.git_commit || addon.version;
-      let isUpdate = localHash !== remoteHash;
-
-      // Handle short vs full hash comparison
-      if (localHash && remoteHash) {
-        if (
-          remoteHash.startsWith(localHash) ||
-          localHash.startsWith(remoteHash)
-        ) {
-          isUpdate = false;
-        }
-      }
-
-      return { updateAvailable: isUpdate, remoteVersion: remoteHash };
+      const delta = compareAddonVersion(addon, remoteVersion);
+      return {
+        updateAvailable: isUpdate(delta),
+        remoteVersion,
+        delta,
+      };
+    } catch (e) {
+      return {
+        updateAvailable: false,
+        remoteVersion: "",
+        error: e instanceof Error ? e.message : String(e),
+      };
     }
+  }
 
-    if (addon.type === "tukui") {
-      try {
-        const details = await TukUI.getAddonDetails(addon.name);
-        if (details) {
-          // Update DB
-          this.dbManager.updateAddon(addon.folder, {
-            last_checked: new Date().toISOString(),
-            remote_version: details.version,
-          });
-
-          const isUpdate = details.version !== addon.version;
-          return {
-            updateAvailable: isUpdate,
-            remoteVersion: details.version,
-          };
-        }
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error: "Addon details not found",
-        };
-      } catch (e) {
-        return { updateAvailable: false, remoteVersion: "", error: String(e) };
-      }
+  /**
+   * Release notes leading up to an addon's remote version. They're fetched
+   * once per remote version and cached on the record.
+   */
+  public async getChangelog(
+    addon: AddonRecord,
+    force = false,
+  ): Promise<{ changelog: string | null; cached?: boolean; error?: string }> {
+    const remoteVersion = addon.remote_version;
+    if (!remoteVersion) {
+      return { changelog: null, error: "Check for updates first" };
     }
 
-    if (addon.type === "wowinterface") {
-      const addonId = WoWInterface.getAddonIdFromUrl(addon.url);
-      if (!addonId) {
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error: "Invalid WoWInterface URL",
-        };
-      }
-
-      const result = await WoWInterface.getAddonDetails(addonId);
-      if (!result.success) {
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error:
-            result.error === "not_found"
-              ? "Addon not found on WoWInterface"
-              : "Failed to fetch WoWInterface details",
-        };
-      }
+    if (!force && addon.changelogVersion === remoteVersion) {
+      return { changelog: addon.changelog ?? null, cached: true };
+    }
 
-      // Update DB
+    try {
+      const changelog = await fetchAddonChangelog(
+        addon,
+        remoteVersion,
+        this.configManager.get(),
+      );
       this.dbManager.updateAddon(addon.folder, {
-        last_checked: new Date().toISOString(),
-        remote_version: result.details.UIVersion,
+        changelog,
+        changelogVersion: remoteVersion,
       });
-
-      // Simple string comparison for now, assuming UIVersion changes on update
-      const isUpdate = result.details.UIVersion !== addon.version;
+      return { changelog };
+    } catch (e) {
       return {
-        updateAvailable: isUpdate,
-        remoteVersion: result.details.UIVersion,
+        changelog: null,
+        error: e instanceof Error ? e.message : String(e),
       };
     }
+  }
 
-    if (addon.type === "wago") {
-      const addonId = Wago.getAddonIdFromUrl(addon.url);
-      if (!addonId) {
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error: "Invalid Wago URL",
-        };
-      }
-
-      const apiKey = config.wagoApiKey;
-      if (!apiKey) {
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error: "Wago API key not configured",
-        };
-      }
-
-      const result = await Wago.getAddonDetails(addonId, apiKey);
-      if (!result.success) {
-        return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error:
-            result.error === "not_found"
-              ? "Addon not found on Wago"
-              : result.error === "no_api_key"
-                ? "Wago API key missing"
-                : "Failed to fetch Wago details",
-        };
-      }
-
-      // Determine remote version (prefer stable, fallback to best)
-      let remoteVersion: string | null | undefined =
-        Wago.getVersion(result.addon, "stable") ??
-        result.addon.releases.stable?.label;
+  /**
+   * Addons with an update on offer, pinned ones left out. Fresh cached
+   * results are reused; the rest are checked, maxConcurrent at a time.
+   * @param force - Check every addon, ignoring cached results
+   * @param onProgress - Called after each addon is checked
+   */
+  public async findPendingUpdates(
+    force = false,
+    onProgress?: (done: number, total: number) => void,
+  ): Promise<PendingUpdate[]> {
+    const config = this.configManager.get();
+    const addons = this.dbManager
+      .getAll()
+      .filter((a) => hasRemoteSource(a) && !a.pinned);
+    await prefetchReleases(
+      force ? addons : addons.filter((a) => !this.getCachedUpdateStatus(a)),
+      config,
+    );
 
-      if (!remoteVersion) {
-        const best = Wago.getBestAvailableStability(result.addon);
-        if (best) {
-          remoteVersion = Wago.getVersion(result.addon, best);
-        }
-      }
+    const limit = pLimit(config.maxConcurrent);
+    let done = 0;
+    const checks = await Promise.all(
+      addons.map((addon) =>
+        limit(async () => {
+          const result = await this.checkUpdate(addon, force);
+          onProgress?.(++done, addons.length);
+          return { addon, result };
+        }),
+      ),
+    );
 
-      if (!remoteVersion) {
+    return checks
+      .filter(({ result }) => result.updateAvailable)
+      .map(({ addon, result }) => {
+        // Re-read for the remote version the check just recorded
+        const checked = this.dbManager.getByFolder(addon.folder) ?? addon;
         return {
-          updateAvailable: false,
-          remoteVersion: "",
-          error: "No release version found",
+          addon: checked,
+          remoteVersion: result.remoteVersion,
+          displayVersion: checked.remoteDisplayVersion ?? result.remoteVersion,
+          delta: result.delta ?? "different",
         };
-      }
-
-      // Update DB
-      this.dbManager.updateAddon(addon.folder, {
-        last_checked: new Date().toISOString(),
-        remote_version: remoteVersion,
       });
-
-      const isUpdate = remoteVersion !== addon.version;
-      return {
-        updateAvailable: isUpdate,
-        remoteVersion: remoteVersion,
-      };
-    }
-
-    return { updateAvailable: false, remoteVersion: "" };
   }
 
   public async updateAddon(
@@ -435,7 +595,11 @@ export class AddonManager extends EventEmitter {
       addon,
       force,
     );
-    return await this.executeCommand(command);
+    return await this.executeUndoable(
+      command,
+      { description: `update of ${addon.name}`, folder: addon.folder },
+      (result) => result.updated,
+    );
   }
 
   public async installFromUrl(url: string): Promise<InstallFromUrlResult> {
@@ -447,6 +611,20 @@ export class AddonManager extends EventEmitter {
     return await this.executeCommand(command);
   }
 
+  /**
+   * Installs from a local .zip file or addon folder.
+   */
+  public async installFromFile(
+    filePath: string,
+  ): Promise<InstallFromUrlResult> {
+    const command = new InstallFromFileCommand(
+      this.dbManager,
+      this.configManager,
+      filePath,
+    );
+    return await this.executeCommand(command);
+  }
+
   public async installTukUI(
     url: string,
     addonFolder: string,
@@ -475,6 +653,65 @@ export class AddonManager extends EventEmitter {
     return await this.executeCommand(command);
   }
 
+  public async installCurseForge(
+    addonIdOrUrl: string,
+  ): Promise<InstallCurseForgeResult> {
+    const command = new InstallCurseForgeCommand(
+      this.dbManager,
+      this.configManager,
+      addonIdOrUrl,
+    );
+    return await this.executeCommand(command);
+  }
+
+  public async switchBranch(
+    folder: string,
+    branch: string,
+  ): Promise<SwitchBranchResult> {
+    const command = new SwitchBranchCommand(this.dbManager, folder, branch);
+    return await this.executeCommand(command);
+  }
+
+  /**
+   * Versions of an addon replaced by updates, newest first.
+   */
+  public async listArchivedVersions(
+    folder: string,
+  ): Promise<VersionArchive.ArchivedVersion[]> {
+    return await VersionArchive.listVersions(folder);
+  }
+
+  public async restoreVersion(
+    folder: string,
+    entryPath: string,
+  ): Promise<RestoreVersionResult> {
+    const command = new RestoreVersionCommand(
+      this.dbManager,
+      this.configManager,
+      folder,
+      entryPath,
+    );
+    const name = this.dbManager.getByFolder(folder)?.name ?? folder;
+    return await this.executeUndoable(
+      command,
+      { description: `restore of ${name}`, folder },
+      (result) => result.success,
+    );
+  }
+
+  public async pruneGitCache(): Promise<RepoCache.PruneResult> {
+    const command = new PruneCacheCommand(this.dbManager, this.configManager);
+    return await this.executeCommand(command);
+  }
+
+  public getGitHubRateLimit(): GitHub.GitHubRateLimit | null {
+    return GitHub.getRateLimit();
+  }
+
+  public async getGitCacheSize(): Promise<number> {
+    return RepoCache.getRepoCacheSize();
+  }
+
   public getAllAddons() {
     return this.dbManager.getAll();
   }
@@ -494,10 +731,69 @@ export class AddonManager extends EventEmitter {
     return await this.executeCommand(command);
   }
 
+  /**
+   * Looks up where manually installed addons came from, by the project
+   * IDs in their TOC or by fingerprint. Matches are only suggestions
+   * until passed to adoptAddon.
+   */
+  public async findSourceMatches(
+    specificFolders?: string[],
+  ): Promise<AddonMatch[]> {
+    const command = new MatchSourcesCommand(
+      this.dbManager,
+      this.configManager,
+      specificFolders,
+    );
+    return await this.executeCommand(command);
+  }
+
+  public async adoptAddon(match: AddonMatch): Promise<AdoptAddonResult> {
+    const command = new AdoptAddonCommand(this.dbManager, match);
+    return await this.executeCommand(command);
+  }
+
+  /**
+   * Points a manual addon at a URL or prefixed project ID (e.g. "wowi:5108")
+   * after checking the source ships its folder.
+   */
+  public async linkSource(
+    folder: string,
+    input: string,
+  ): Promise<LinkSourceResult> {
+    const command = new LinkSourceCommand(
+      this.dbManager,
+      this.configManager,
+      folder,
+      input,
+    );
+    return await this.executeCommand(command);
+  }
+
   public updateAddonMetadata(folder: string, metadata: Partial<AddonRecord>) {
     this.dbManager.updateAddon(folder, metadata);
   }
 
+  /**
+   * Marks an addon as a library or an addon, overriding what scans detect.
+   */
+  public setAddonKind(folder: string, kind: AddonKind) {
+    const addon = this.dbManager.getByFolder(folder);
+    if (!addon || addon.kind === kind) return;
+    this.dbManager.updateAddon(folder, { kind, kindOverride: true });
+    this.dbManager.addHistory({
+      folder,
+      name: addon.name,
+      action: "kind",
+      fromVersion: addon.kind,
+      toVersion: kind,
+      source: addon.type,
+    });
+  }
+
+  public getHistory(filter?: HistoryFilter): HistoryEntry[] {
+    return this.dbManager.getHistory(filter);
+  }
+
   public async removeAddon(
     folder: string,
     force = false,
@@ -508,7 +804,12 @@ export class AddonManager extends EventEmitter {
       folder,
       force,
     );
-    return await this.executeCommand(command);
+    const name = this.dbManager.getByFolder(folder)?.name ?? folder;
+    return await this.executeUndoable(
+      command,
+      { description: `removal of ${name}`, folder },
+      (result) => result.success,
+    );
   }
 
   public isAlreadyInstalled(urlOrFolder: string): boolean {
@@ -519,7 +820,13 @@ export class AddonManager extends EventEmitter {
         .replace(/\.git$/, "")
         .toLowerCase();
 
-    const target = clean(urlOrFolder);
+    // A /tree/<branch> URL still refers to the same repository
+    const config = this.configManager.get();
+    const target = clean(
+      parseGitLabUrl(urlOrFolder, config.gitlabHosts)?.url ??
+        parseGiteaUrl(urlOrFolder, config.giteaHosts)?.url ??
+        parseGitHubUrl(urlOrFolder).url,
+    );
 
     // Check by folder name or URL
     return addons.some(
@@ -359,3 +359,16 @@ export function pathExists(p: string): boolean {
     return false;
   }
 }
+
+/**
+ * Resolves a path typed or pasted by the user.
+ * Drag-and-drop into a terminal often wraps the path in quotes,
+ * and shells aren't around to expand a leading ~.
+ */
+export function resolveUserPath(input: string): string {
+  let p = input.trim().replace(/^(["'])(.*)\1$/, "$2");
+  if (p === "~" || p.startsWith("~/") || p.startsWith("~\\")) {
+    p = path.join(os.homedir(), p.slice(1));
+  }
+  return path.resolve(p);
+}
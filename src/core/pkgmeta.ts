@@ -0,0 +1,231 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import * as GitClient from "./git";
+import { logger } from "./logger";
+
+const ExternalSchema = z.union([
+  z.string(),
+  z.object({
+    url: z.string(),
+    tag: z.union([z.string(), z.number()]).optional(),
+    branch: z.string().optional(),
+    commit: z.string().optional(),
+    type: z.enum(["git", "svn", "hg"]).optional(),
+  }),
+]);
+
+const PkgmetaSchema = z.object({
+  "package-as": z.string().optional(),
+  externals: z.record(z.string(), ExternalSchema).nullish(),
+  ignore: z.array(z.string()).nullish(),
+  "move-folders": z.record(z.string(), z.string()).nullish(),
+});
+
+export interface PkgmetaExternal {
+  url: string;
+  tag?: string;
+  branch?: string;
+  commit?: string;
+  type: "git" | "svn" | "hg";
+}
+
+export interface Pkgmeta {
+  packageAs: string | null;
+  externals: Record<string, PkgmetaExternal>;
+  ignore: string[];
+  moveFolders: Record<string, string>;
+}
+
+/**
+ * File names the BigWigs packager accepts, in lookup order.
+ */
+const PKGMETA_FILES = [".pkgmeta", "pkgmeta.yaml", "pkgmeta.yml"];
+
+/**
+ * Guesses the VCS of an external the same way the packager does when no
+ * explicit type is given.
+ */
+function detectExternalType(url: string): PkgmetaExternal["type"] {
+  if (/\/trunk\/?$|\/tags\/|^svn:/.test(url)) return "svn";
+  if (/\/hg\//.test(url)) return "hg";
+  return "git";
+}
+
+export function parsePkgmeta(content: string): Pkgmeta {
+  const data = PkgmetaSchema.parse(Bun.YAML.parse(content) ?? {});
+
+  const externals: Record<string, PkgmetaExternal> = {};
+  for (const [dest, value] of Object.entries(data.externals ?? {})) {
+    const external = typeof value === "string" ? { url: value } : value;
+    externals[dest] = {
+      ...external,
+      tag: external.tag !== undefined ? String(external.tag) : undefined,
+      type: external.type ?? detectExternalType(external.url),
+    };
+  }
+
+  return {
+    packageAs: data["package-as"] ?? null,
+    externals,
+    ignore: data.ignore ?? [],
+    moveFolders: data["move-folders"] ?? {},
+  };
+}
+
+export async function readPkgmeta(dir: string): Promise<Pkgmeta | null> {
+  for (const name of PKGMETA_FILES) {
+    const file = Bun.file(path.join(dir, name));
+    if (await file.exists()) {
+      return parsePkgmeta(await file.text());
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves the git ref to clone for an external.
+ * "latest" means the newest tag, as with the packager.
+ */
+async function resolveExternalRef(external: PkgmetaExternal): Promise<string> {
+  if (external.tag === "latest") {
+    return (await GitClient.getLatestTag(external.url)) ?? "";
+  }
+  return external.tag ?? external.branch ?? "";
+}
+
+/**
+ * Keeps a relative path from escaping the addon directory.
+ */
+function resolveInside(root: string, relative: string): string {
+  const resolved = path.resolve(root, relative);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`.pkgmeta path escapes the addon directory: ${relative}`);
+  }
+  return resolved;
+}
+
+async function fetchExternals(
+  dir: string,
+  externals: Record<string, PkgmetaExternal>,
+): Promise<void> {
+  for (const [dest, external] of Object.entries(externals)) {
+    if (external.type !== "git") {
+      logger.log(
+        "Pkgmeta",
+        `Skipping ${external.type} external ${dest} (${external.url})`,
+      );
+      continue;
+    }
+    if (external.commit) {
+      logger.log(
+        "Pkgmeta",
+        `External ${dest} pins commit ${external.commit}, using ${external.tag ?? external.branch ?? "default branch"} instead`,
+      );
+    }
+
+    const destPath = resolveInside(dir, dest);
+    const ref = await resolveExternalRef(external);
+    logger.log("Pkgmeta", `Fetching external ${dest} from ${external.url}`);
+
+    await fs.rm(destPath, { recursive: true, force: true });
+    await fs.mkdir(path.dirname(destPath), { recursive: true });
+    if (!(await GitClient.clone(external.url, ref, destPath))) {
+      throw new Error(`Failed to fetch external ${dest}`);
+    }
+    // Packaged libraries are plain folders, not nested checkouts
+    await fs.rm(path.join(destPath, ".git"), { recursive: true, force: true });
+  }
+}
+
+async function substituteTokens(dir: string, version: string): Promise<void> {
+  for await (const file of new Bun.Glob("**/*.toc").scan({ cwd: dir })) {
+    const tocPath = path.join(dir, file);
+    const content = await Bun.file(tocPath).text();
+    if (content.includes("@project-version@")) {
+      await Bun.write(
+        tocPath,
+        content.replaceAll("@project-version@", version),
+      );
+    }
+  }
+}
+
+async function applyIgnore(dir: string, patterns: string[]): Promise<void> {
+  for (const pattern of patterns) {
+    const glob = new Bun.Glob(pattern.replace(/\/$/, ""));
+    const matches = Array.from(
+      glob.scanSync({ cwd: dir, dot: true, onlyFiles: false }),
+    );
+    for (const match of matches) {
+      await fs.rm(resolveInside(dir, match), { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Mirrors the packager's move-folders step. Source paths are rooted at the
+ * package-as folder, so the checkout is first moved into a folder of that name.
+ */
+async function applyMoveFolders(
+  dir: string,
+  packageAs: string,
+  moveFolders: Record<string, string>,
+): Promise<void> {
+  const staging = `${dir}.pkg`;
+  await fs.rename(dir, staging);
+  await fs.mkdir(dir);
+  await fs.rename(staging, path.join(dir, packageAs));
+
+  for (const [from, to] of Object.entries(moveFolders)) {
+    const source = resolveInside(dir, from);
+    const target = resolveInside(dir, to);
+    try {
+      await fs.access(source);
+    } catch {
+      logger.log("Pkgmeta", `move-folders source not found: ${from}`);
+      continue;
+    }
+    await fs.rm(target, { recursive: true, force: true });
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.rename(source, target);
+  }
+}
+
+/**
+ * Packages a raw git checkout the way the BigWigs packager would:
+ * substitutes @project-version@ in TOC files, fetches git externals,
+ * drops ignored paths and applies move-folders.
+ *
+ * @param dir - Checkout root containing the .pkgmeta file
+ * @param version - Value for @project-version@ (tag or short hash)
+ * @param projectName - Folder to package as when .pkgmeta has no package-as,
+ *   the repository name like the packager uses
+ * @returns Whether a .pkgmeta file was found and applied
+ */
+export async function applyPkgmeta(
+  dir: string,
+  version: string,
+  projectName?: string,
+): Promise<boolean> {
+  const pkgmeta = await readPkgmeta(dir);
+  if (!pkgmeta) return false;
+
+  logger.log("Pkgmeta", `Applying .pkgmeta in ${dir}`);
+  await substituteTokens(dir, version);
+  await fetchExternals(dir, pkgmeta.externals);
+  await applyIgnore(dir, pkgmeta.ignore);
+
+  const hasMoves = Object.keys(pkgmeta.moveFolders).length > 0;
+  const packageAs = pkgmeta.packageAs || projectName;
+  if (hasMoves && packageAs) {
+    await applyMoveFolders(dir, packageAs, pkgmeta.moveFolders);
+  } else if (hasMoves) {
+    logger.log(
+      "Pkgmeta",
+      "Skipping move-folders: no package-as or project name to root them at",
+    );
+  }
+
+  return true;
+}
@@ -0,0 +1,221 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+import * as GitClient from "./git";
+import { logger } from "./logger";
+
+export interface CacheRef {
+  name: string;
+  isTag: boolean;
+}
+
+export interface PruneResult {
+  removed: string[];
+  freedBytes: number;
+}
+
+let cacheDir: string | null = null;
+
+/**
+ * Sets where cached repositories live. Null disables the cache.
+ */
+export function setRepoCacheDir(dir: string | null): void {
+  cacheDir = dir;
+}
+
+export function getRepoCacheDir(): string | null {
+  return cacheDir;
+}
+
+/**
+ * Whether installs and updates should go through the cache.
+ * A size limit of 0 turns the cache off.
+ */
+export function isRepoCacheEnabled(maxSizeMB: number): boolean {
+  return cacheDir !== null && maxSizeMB > 0;
+}
+
+function qualifyRef(ref: CacheRef): string {
+  return `refs/${ref.isTag ? "tags" : "heads"}/${ref.name}`;
+}
+
+/**
+ * Cache location for a remote, e.g. <cache>/ElvUI-1a2b3c4d5e.git
+ * The hash keeps forks with the same repository name apart.
+ */
+export function getRepoCachePath(remoteUrl: string): string {
+  if (!cacheDir) throw new Error("Repository cache is not configured");
+  const name =
+    remoteUrl
+      .replace(/\/+$/, "")
+      .split(/[/:]/)
+      .pop()
+      ?.replace(/\.git$/, "")
+      .replace(/[^\w.-]/g, "_") || "repo";
+  const hash = createHash("sha1").update(remoteUrl).digest("hex").slice(0, 10);
+  return path.join(cacheDir, `${name}-${hash}.git`);
+}
+
+async function getDirSize(dir: string): Promise<number> {
+  let total = 0;
+  const entries = await fs.readdir(dir, {
+    withFileTypes: true,
+    recursive: true,
+  });
+  for (const entry of entries) {
+    if (!entry.isFile()) continue;
+    const stat = await fs.stat(path.join(entry.parentPath, entry.name));
+    total += stat.size;
+  }
+  return total;
+}
+
+interface CachedRepo {
+  path: string;
+  size: number;
+  lastUsed: number;
+}
+
+async function listCachedRepos(): Promise<CachedRepo[]> {
+  if (!cacheDir) return [];
+  let names: string[];
+  try {
+    names = await fs.readdir(cacheDir);
+  } catch {
+    return [];
+  }
+
+  const repos: CachedRepo[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".git")) continue;
+    const repoPath = path.join(cacheDir, name);
+    const stat = await fs.stat(repoPath);
+    repos.push({
+      path: repoPath,
+      size: await getDirSize(repoPath),
+      lastUsed: stat.mtimeMs,
+    });
+  }
+  return repos;
+}
+
+export async function getRepoCacheSize(): Promise<number> {
+  const repos = await listCachedRepos();
+  return repos.reduce((sum, repo) => sum + repo.size, 0);
+}
+
+/**
+ * Fetches a ref into the cached bare repository and checks it out into
+ * destDir as a worktree. Only objects the cache lacks are transferred,
+ * so repeat updates of large repositories stay cheap.
+ *
+ * @param destDir - Empty or missing directory to check out into
+ * @returns The checked out commit hash
+ */
+export async function checkoutFromCache(
+  remoteUrl: string,
+  ref: CacheRef,
+  destDir: string,
+  maxSizeMB: number,
+): Promise<string> {
+  const repoPath = getRepoCachePath(remoteUrl);
+
+  try {
+    await fs.access(repoPath);
+  } catch {
+    await fs.mkdir(path.dirname(repoPath), { recursive: true });
+    if (!(await GitClient.initBare(repoPath))) {
+      throw new Error(`Failed to create cache repository at ${repoPath}`);
+    }
+  }
+
+  const qualified = qualifyRef(ref);
+  logger.log("RepoCache", `Fetching ${qualified} from ${remoteUrl}`);
+  await GitClient.fetchRef(repoPath, remoteUrl, qualified);
+
+  const commit = await GitClient.resolveRef(repoPath, qualified);
+  if (!commit) throw new Error(`Fetched ref ${qualified} not found in cache`);
+
+  await GitClient.addWorktree(repoPath, commit, destDir);
+
+  // Mark as recently used for size-cap eviction
+  const now = new Date();
+  await fs.utimes(repoPath, now, now);
+  await enforceSizeCap(maxSizeMB, [repoPath]);
+
+  return commit;
+}
+
+/**
+ * Reads the last fetched commit of a ref from the cache, without
+ * touching the network or the AddOns folder.
+ */
+export async function getCachedCommit(
+  remoteUrl: string,
+  ref: CacheRef,
+): Promise<string | null> {
+  if (!cacheDir) return null;
+  const repoPath = getRepoCachePath(remoteUrl);
+  try {
+    await fs.access(repoPath);
+  } catch {
+    return null;
+  }
+  return GitClient.resolveRef(repoPath, qualifyRef(ref));
+}
+
+/**
+ * Evicts least recently used repositories until the cache fits the limit.
+ */
+async function enforceSizeCap(
+  maxSizeMB: number,
+  keep: string[] = [],
+): Promise<PruneResult> {
+  const result: PruneResult = { removed: [], freedBytes: 0 };
+  const maxBytes = maxSizeMB * 1024 * 1024;
+  const repos = (await listCachedRepos()).sort(
+    (a, b) => a.lastUsed - b.lastUsed,
+  );
+  let total = repos.reduce((sum, repo) => sum + repo.size, 0);
+
+  for (const repo of repos) {
+    if (total <= maxBytes) break;
+    if (keep.includes(repo.path)) continue;
+
+    logger.log("RepoCache", `Evicting ${repo.path} (size cap)`);
+    await fs.rm(repo.path, { recursive: true, force: true });
+    result.removed.push(repo.path);
+    result.freedBytes += repo.size;
+    total -= repo.size;
+  }
+  return result;
+}
+
+/**
+ * Removes cached repositories no installed addon uses any more,
+ * then evicts the least recently used ones until under the size limit.
+ *
+ * @param activeUrls - Remote URLs of installed git addons
+ */
+export async function pruneRepoCache(
+  activeUrls: string[],
+  maxSizeMB: number,
+): Promise<PruneResult> {
+  const result: PruneResult = { removed: [], freedBytes: 0 };
+  if (!cacheDir) return result;
+
+  const active = new Set(activeUrls.map(getRepoCachePath));
+  for (const repo of await listCachedRepos()) {
+    if (active.has(repo.path)) continue;
+
+    logger.log("RepoCache", `Pruning unused ${repo.path}`);
+    await fs.rm(repo.path, { recursive: true, force: true });
+    result.removed.push(repo.path);
+    result.freedBytes += repo.size;
+  }
+
+  const capped = await enforceSizeCap(maxSizeMB);
+  result.removed.push(...capped.removed);
+  result.freedBytes += capped.freedBytes;
+  return result;
+}
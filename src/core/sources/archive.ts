@@ -0,0 +1,35 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import * as Downloader from "@/core/downloader";
+
+/**
+ * Extracts a downloaded zip into destDir and removes the zip afterwards
+ * so it never gets copied into AddOns.
+ */
+export async function extractArchive(
+  zipPath: string,
+  destDir: string,
+  onExtract?: () => void,
+): Promise<void> {
+  onExtract?.();
+  if (!(await Downloader.unzip(zipPath, destDir))) {
+    throw new Error("Unzip failed");
+  }
+  await fs.rm(zipPath, { force: true });
+}
+
+/**
+ * Downloads a zip from a public URL and extracts it into destDir.
+ */
+export async function downloadArchive(
+  url: string,
+  destDir: string,
+  onExtract?: () => void,
+): Promise<void> {
+  await fs.mkdir(destDir, { recursive: true });
+  const zipPath = path.join(destDir, "addon.zip");
+  if (!(await Downloader.download(url, zipPath))) {
+    throw new Error("Download failed");
+  }
+  await extractArchive(zipPath, destDir, onExtract);
+}
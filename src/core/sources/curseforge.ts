@@ -0,0 +1,164 @@
+import { REPO_TYPE } from "@/core/config";
+import * as CurseForge from "@/core/curseforge";
+import { getVersionDelta } from "@/core/utils/versionCompare";
+import { downloadArchive } from "./archive";
+import type { RemoteRelease, SourceMatch, SourceProvider } from "./types";
+
+/** Project IDs already looked up by slug, so update checks skip the search */
+const modIdsBySlug = new Map<string, number>();
+
+/**
+ * Turns an API error into a user-readable message.
+ */
+export function describeCurseForgeError(
+  error: CurseForge.CurseForgeError,
+): string {
+  switch (error) {
+    case "not_found":
+      return "Addon not found on CurseForge";
+    case "no_api_key":
+      return "CurseForge API key not configured";
+    case "forbidden":
+      return "CurseForge rejected the API key";
+    default:
+      return "Failed to fetch CurseForge details";
+  }
+}
+
+/**
+ * Fetches the project a URL or project ID refers to.
+ */
+export async function resolveCurseForgeMod(
+  input: CurseForge.ParsedCurseForgeInput,
+  apiKey: string,
+): Promise<CurseForge.CurseForgeMod> {
+  const modId =
+    input.modId ?? (input.slug ? modIdsBySlug.get(input.slug) : undefined);
+  const result =
+    modId !== undefined
+      ? await CurseForge.getMod(modId, apiKey)
+      : await CurseForge.findModBySlug(input.slug ?? "", apiKey);
+  if (!result.success) throw new Error(describeCurseForgeError(result.error));
+
+  modIdsBySlug.set(result.mod.slug.toLowerCase(), result.mod.id);
+  return result.mod;
+}
+
+/**
+ * Builds the release for a specific CurseForge file.
+ */
+export function getCurseForgeRelease(
+  mod: CurseForge.CurseForgeMod,
+  file: CurseForge.CurseForgeFile,
+): RemoteRelease {
+  return {
+    version: file.displayName,
+    fileId: file.id,
+    downloadUrl: file.downloadUrl ?? undefined,
+    fileName: file.fileName,
+    name: mod.name,
+    author: mod.authors?.[0]?.name ?? "",
+  };
+}
+
+export const CurseForgeProvider: SourceProvider = {
+  type: REPO_TYPE.CURSEFORGE,
+
+  matchUrl(url) {
+    return (
+      /^https?:\/\//i.test(url) && CurseForge.parseCurseForgeUrl(url) !== null
+    );
+  },
+
+  async resolveLatest(target, config) {
+    const input = CurseForge.parseCurseForgeUrl(target.url || "");
+    if (!input) throw new Error("Invalid CurseForge URL");
+
+    if (!config.curseforgeApiKey) {
+      throw new Error("CurseForge API key not configured");
+    }
+
+    const mod = await resolveCurseForgeMod(input, config.curseforgeApiKey);
+    const flavor = target.flavor ?? "retail";
+    const result = await CurseForge.getModFiles(
+      mod.id,
+      flavor,
+      config.curseforgeApiKey,
+    );
+    if (!result.success) throw new Error(describeCurseForgeError(result.error));
+
+    const file = CurseForge.selectLatestFile(
+      result.files,
+      flavor,
+      config.curseforgeReleaseType,
+    );
+    if (!file) throw new Error(`No ${flavor} files found on CurseForge`);
+
+    return getCurseForgeRelease(mod, file);
+  },
+
+  async matchFingerprints(fingerprints, config) {
+    if (!config.curseforgeApiKey) return [];
+
+    const result = await CurseForge.getFingerprintMatches(
+      [...new Set(fingerprints.values())],
+      config.curseforgeApiKey,
+    );
+    if (!result.success) throw new Error(describeCurseForgeError(result.error));
+
+    // Only modules whose installed contents are unchanged count as a match
+    const found = result.matches
+      .map((match) => ({
+        match,
+        folders: (match.file.modules ?? [])
+          .filter((m) => fingerprints.get(m.name) === m.fingerprint)
+          .map((m) => m.name),
+      }))
+      .filter((f) => f.folders.length > 0);
+    if (found.length === 0) return [];
+
+    const mods = await CurseForge.getMods(
+      found.map((f) => f.match.id),
+      config.curseforgeApiKey,
+    );
+    if (!mods.success) throw new Error(describeCurseForgeError(mods.error));
+
+    const matches: SourceMatch[] = [];
+    for (const { match, folders } of found) {
+      const mod = mods.mods.find((m) => m.id === match.id);
+      if (!mod) continue;
+      modIdsBySlug.set(mod.slug.toLowerCase(), mod.id);
+      matches.push({
+        type: REPO_TYPE.CURSEFORGE,
+        url: CurseForge.getProjectUrl(mod),
+        release: getCurseForgeRelease(mod, match.file),
+        folders,
+      });
+    }
+    return matches;
+  },
+
+  async download(release, _target, destDir, _config, onExtract) {
+    if (!release.downloadUrl) {
+      // Authors can opt out of third-party distribution
+      throw new Error(
+        "This addon can only be downloaded through the CurseForge app",
+      );
+    }
+    await downloadArchive(release.downloadUrl, destDir, onExtract);
+    return release;
+  },
+
+  /**
+   * File IDs only grow, so a higher ID is a newer upload. This keeps a
+   * manually installed beta from being "updated" to an older release.
+   */
+  compareVersions(local, remoteVersion) {
+    const remoteFileId = Number(remoteVersion);
+    if (local.file_id == null || !Number.isInteger(remoteFileId)) {
+      return getVersionDelta(local.version, remoteVersion);
+    }
+    if (remoteFileId === local.file_id) return "equivalent";
+    return remoteFileId > local.file_id ? "upgrade" : "downgrade";
+  },
+};
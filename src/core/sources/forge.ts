@@ -0,0 +1,110 @@
+import type { Config } from "@/core/config";
+import type { GameFlavor } from "@/core/db";
+import * as GitHub from "@/core/github";
+import { logger } from "@/core/logger";
+import { downloadArchive } from "./archive";
+import { cloneGitRelease } from "./git";
+import type { RemoteRelease } from "./types";
+
+/**
+ * A repository URL on a self-hostable forge (GitLab, Gitea, Forgejo),
+ * split into the instance, the repository and what the URL points at.
+ */
+export interface ParsedForgeUrl {
+  /** Instance base URL, e.g. https://gitlab.com */
+  baseUrl: string;
+  /** Repository path on the instance, e.g. group/subgroup/project */
+  project: string;
+  /** Bare repository URL, usable as a git remote */
+  url: string;
+  /** Ref from a tree URL: a branch, possibly followed by a repo subpath */
+  branch: string | null;
+  /** Whether the URL points at the repository's releases page */
+  isRelease: boolean;
+  /** Specific release from a release tag URL */
+  releaseTag: string | null;
+}
+
+/**
+ * Finds the configured instance a URL belongs to.
+ * Instances may live under a path, e.g. https://example.com/gitlab
+ *
+ * @returns The instance base URL and the path below it, or null
+ */
+export function findForgeHost(
+  url: string,
+  hosts: string[],
+): { baseUrl: string; path: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  for (const host of hosts) {
+    let base: URL;
+    try {
+      base = new URL(host);
+    } catch {
+      continue;
+    }
+    if (base.host.toLowerCase() !== parsed.host.toLowerCase()) continue;
+
+    const basePath = base.pathname.replace(/\/+$/, "");
+    if (basePath && !parsed.pathname.startsWith(`${basePath}/`)) continue;
+
+    return {
+      baseUrl: `${parsed.protocol}//${parsed.host}${basePath}`,
+      path: parsed.pathname.slice(basePath.length).replace(/^\/+|\/+$/g, ""),
+    };
+  }
+  return null;
+}
+
+/**
+ * Picks the packaged zip for a flavor from a release lookup.
+ * Returns null when there's no release or no asset for the flavor,
+ * so callers build from the release tag instead.
+ */
+export async function resolvePackagedAsset(
+  result: GitHub.GetReleaseResult,
+  flavor: GameFlavor,
+  source: string,
+): Promise<RemoteRelease | null> {
+  if (!result.success) return null;
+
+  const manifest = await GitHub.getPackagerManifest(result.release);
+  const asset = GitHub.selectReleaseAsset(result.release, flavor, manifest);
+  if (!asset) {
+    logger.log(
+      source,
+      `No ${flavor} asset in release ${result.release.tag_name}, using tag`,
+    );
+    return null;
+  }
+
+  return {
+    version: result.release.tag_name,
+    tag: result.release.tag_name,
+    downloadUrl: asset.browser_download_url,
+  };
+}
+
+/**
+ * Downloads a packaged release zip, or checks out the resolved ref.
+ */
+export async function downloadForgeRelease(
+  release: RemoteRelease,
+  parsed: ParsedForgeUrl,
+  branch: string,
+  destDir: string,
+  config: Config,
+  onExtract?: () => void,
+): Promise<RemoteRelease> {
+  if (release.downloadUrl) {
+    await downloadArchive(release.downloadUrl, destDir, onExtract);
+    return release;
+  }
+  return cloneGitRelease(parsed.url, release, branch, destDir, config);
+}
@@ -0,0 +1,259 @@
+import fs from "node:fs";
+import path from "node:path";
+import { type Config, REPO_TYPE, type RepoType } from "@/core/config";
+import type { TrackingMode } from "@/core/db";
+import * as GitClient from "@/core/git";
+import { logger } from "@/core/logger";
+import { applyPkgmeta } from "@/core/pkgmeta";
+import * as RepoCache from "@/core/repoCache";
+import {
+  getVersionDelta,
+  selectLatestTag,
+  type VersionDelta,
+} from "@/core/utils/versionCompare";
+import type { LocalVersion, RemoteRelease, SourceProvider } from "./types";
+
+export const DEFAULT_BRANCH = "main";
+
+/**
+ * Whether a string looks like a git remote that isn't a plain web URL:
+ * scp-style (git@host:org/repo.git), ssh://, git://, file://,
+ * https URLs ending in .git, or a local repository path.
+ */
+export function isGitRemote(url: string): boolean {
+  const value = url.trim();
+  if (/^[\w.-]+@[\w.-]+:(?!\/\/).+/.test(value)) return true;
+  if (/^(ssh|git|git\+ssh|ssh\+git|file):\/\//.test(value)) return true;
+  if (/^https?:\/\/.+\.git\/?$/.test(value)) return true;
+  return isLocalRepository(value);
+}
+
+/**
+ * Whether a path points at a local bare repository or working copy.
+ */
+function isLocalRepository(value: string): boolean {
+  if (!path.isAbsolute(value)) return false;
+  try {
+    // Bare repos keep HEAD at the top level, working copies under .git
+    return (
+      fs.existsSync(path.join(value, "HEAD")) ||
+      fs.existsSync(path.join(value, ".git"))
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Derives a repository name from any remote form, e.g.
+ * git@host:org/MyAddon.git -> MyAddon
+ */
+export function getRepoName(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, "");
+  const last = trimmed.split(/[/:]/).pop() || "";
+  return last.replace(/\.git$/, "");
+}
+
+export interface InstallRef {
+  branch: string;
+  /** Folder within the repository holding the addons, for monorepos */
+  subpath: string | null;
+}
+
+/**
+ * Picks the branch and subpath to install from a web UI ref. The ref is split
+ * at the longest remote branch name it starts with, so both release/11.0 and
+ * main/addons/MyAddon resolve correctly.
+ * Without a ref, the remote's default branch is used, falling back to main.
+ */
+export async function resolveRefPath(
+  remoteUrl: string,
+  ref: string | null,
+): Promise<InstallRef> {
+  const trimmed = ref?.replace(/^\/+|\/+$/g, "");
+  if (!trimmed) {
+    const branch = await GitClient.getDefaultBranch(remoteUrl);
+    return { branch: branch || DEFAULT_BRANCH, subpath: null };
+  }
+  if (!trimmed.includes("/")) return { branch: trimmed, subpath: null };
+
+  const branch = (await GitClient.getRemoteBranches(remoteUrl))
+    .filter((b) => trimmed === b || trimmed.startsWith(`${b}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  // Unknown ref: keep treating the whole thing as a branch name
+  if (!branch) return { branch: trimmed, subpath: null };
+
+  return { branch, subpath: trimmed.slice(branch.length + 1) || null };
+}
+
+/**
+ * Ref lookups a host API can answer without spawning git.
+ * Returning null means "unavailable", and ls-remote is used instead.
+ */
+export interface RefLookup {
+  getBranchCommit(branch: string): Promise<string | null>;
+  getTags(): Promise<GitClient.RemoteTag[] | null>;
+}
+
+/**
+ * Resolves the newest ref of a git remote for a tracking mode.
+ * Branch mode follows the branch head; tag mode picks the newest semver tag;
+ * release mode does the same but skips prereleases.
+ *
+ * @param pinnedTag - Resolve exactly this tag instead of the newest one
+ * @param lookup - Faster host-specific lookups, tried before ls-remote
+ */
+export async function resolveGitRelease(
+  url: string,
+  branch: string,
+  tracking: TrackingMode,
+  pinnedTag: string | null = null,
+  lookup?: RefLookup,
+): Promise<RemoteRelease> {
+  const name = getRepoName(url);
+
+  if (tracking !== "branch") {
+    let tags = (await lookup?.getTags()) ?? null;
+    if (!tags || (pinnedTag && !tags.some((t) => t.name === pinnedTag))) {
+      tags = await GitClient.getRemoteTags(url);
+    }
+    // Release mode skips prerelease tags like 2.0.0-beta.1
+    const latest = pinnedTag
+      ? (tags.find((t) => t.name === pinnedTag) ?? null)
+      : selectLatestTag(tags, tracking === "tag");
+    if (!latest) throw new Error("No version tags found on remote");
+
+    return {
+      version: latest.name,
+      commit: latest.commit,
+      tag: latest.name,
+      name,
+    };
+  }
+
+  const remoteHash =
+    (await lookup?.getBranchCommit(branch)) ??
+    (await GitClient.getRemoteCommit(url, branch));
+  if (!remoteHash) throw new Error("Failed to get remote hash");
+
+  return {
+    version: remoteHash.substring(0, 7),
+    commit: remoteHash,
+    branch,
+    name,
+  };
+}
+
+/**
+ * Checks out the ref a release was resolved from and packages the checkout.
+ * Goes through the repository cache when enabled, else does a shallow clone.
+ */
+export async function cloneGitRelease(
+  url: string,
+  release: RemoteRelease,
+  fallbackBranch: string,
+  destDir: string,
+  config: Config,
+): Promise<RemoteRelease> {
+  const ref = release.tag || release.branch || fallbackBranch;
+  if (!(await checkoutCached(url, ref, !!release.tag, destDir, config))) {
+    if (!(await GitClient.clone(url, ref, destDir))) {
+      throw new Error("Git Clone failed");
+    }
+  }
+
+  // Raw checkouts lack the libraries and substitutions a packaged zip has
+  await applyPkgmeta(destDir, release.version, getRepoName(url));
+  return release;
+}
+
+/**
+ * @returns Whether the cache produced the checkout
+ */
+async function checkoutCached(
+  url: string,
+  ref: string,
+  isTag: boolean,
+  destDir: string,
+  config: Config,
+): Promise<boolean> {
+  if (!RepoCache.isRepoCacheEnabled(config.gitCacheMaxMB)) return false;
+
+  try {
+    await RepoCache.checkoutFromCache(
+      url,
+      { name: ref, isTag },
+      destDir,
+      config.gitCacheMaxMB,
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof GitClient.GitAuthError) throw error;
+    logger.error("GitSource", "Cached checkout failed, cloning instead", error);
+    await fs.promises.rm(destDir, { recursive: true, force: true });
+    await fs.promises.mkdir(destDir, { recursive: true });
+    return false;
+  }
+}
+
+export function compareGitVersions(
+  local: LocalVersion,
+  remoteVersion: string,
+): VersionDelta {
+  // Tag tracking stores the tag name as both version and remote_version
+  if (local.tracking === "tag" || local.tracking === "release") {
+    return getVersionDelta(local.version, remoteVersion);
+  }
+
+  // Compare with stored git_commit if available, otherwise fallback to version (legacy behavior)
+  const localHash = local.git_commit || local.version;
+  if (!localHash) return "different";
+
+  // Handle short vs full hash comparison; commits have no order of their own
+  if (
+    remoteVersion.startsWith(localHash) ||
+    localHash.startsWith(remoteVersion)
+  ) {
+    return "equivalent";
+  }
+  return "different";
+}
+
+/**
+ * Whether addons of this type are backed by a git remote,
+ * and so support branch switching and tracking modes.
+ */
+export function isGitSource(type: RepoType | string): boolean {
+  return (
+    type === REPO_TYPE.GITHUB ||
+    type === REPO_TYPE.GITLAB ||
+    type === REPO_TYPE.GITEA ||
+    type === REPO_TYPE.GIT
+  );
+}
+
+export const GitProvider: SourceProvider = {
+  type: REPO_TYPE.GIT,
+
+  matchUrl: isGitRemote,
+
+  async resolveLatest(target) {
+    return resolveGitRelease(
+      target.url || "",
+      target.branch || DEFAULT_BRANCH,
+      target.tracking ?? "branch",
+    );
+  },
+
+  async download(release, target, destDir, config) {
+    return cloneGitRelease(
+      target.url || "",
+      release,
+      target.branch || DEFAULT_BRANCH,
+      destDir,
+      config,
+    );
+  },
+
+  compareVersions: compareGitVersions,
+};
@@ -0,0 +1,109 @@
+import { DEFAULT_GITEA_HOSTS, REPO_TYPE } from "@/core/config";
+import * as Gitea from "@/core/gitea";
+import {
+  downloadForgeRelease,
+  findForgeHost,
+  type ParsedForgeUrl,
+  resolvePackagedAsset,
+} from "./forge";
+import {
+  compareGitVersions,
+  DEFAULT_BRANCH,
+  getRepoName,
+  resolveGitRelease,
+} from "./git";
+import type { SourceProvider, SourceTarget } from "./types";
+
+/**
+ * Splits a Gitea or Forgejo web UI URL on one of the configured instances:
+ * - https://codeberg.org/<owner>/<repo>/src/branch/<branch>
+ * - https://codeberg.org/<owner>/<repo>/releases[/latest]
+ * - https://codeberg.org/<owner>/<repo>/releases/tag/<tag>
+ *
+ * @returns null if the URL isn't on a known Gitea instance
+ */
+export function parseGiteaUrl(
+  url: string,
+  hosts: string[] = DEFAULT_GITEA_HOSTS,
+): ParsedForgeUrl | null {
+  const host = findForgeHost(url, hosts);
+  if (!host) return null;
+
+  const [owner, repoName, ...restParts] = host.path.split("/");
+  const repo = repoName?.replace(/\.git$/, "");
+  if (!owner || !repo) return null;
+
+  const rest = restParts.join("/");
+  const tree = rest.match(/^src\/branch\/(.+)$/);
+  const releases = rest.match(/^releases(?:\/latest|\/tag\/(.+))?$/);
+  return {
+    baseUrl: host.baseUrl,
+    project: `${owner}/${repo}`,
+    url: `${host.baseUrl}/${owner}/${repo}`,
+    branch: tree?.[1] ? decodeURIComponent(tree[1]) : null,
+    isRelease: !!releases,
+    releaseTag: releases?.[1] ? decodeURIComponent(releases[1]) : null,
+  };
+}
+
+function parseTarget(target: SourceTarget, hosts: string[]): ParsedForgeUrl {
+  const parsed = parseGiteaUrl(target.url || "", hosts);
+  if (!parsed) throw new Error(`Not a known Gitea URL: ${target.url}`);
+  return parsed;
+}
+
+function getBranch(target: SourceTarget, parsed: ParsedForgeUrl): string {
+  return target.branch || parsed.branch || DEFAULT_BRANCH;
+}
+
+export const GiteaProvider: SourceProvider = {
+  type: REPO_TYPE.GITEA,
+
+  matchUrl(url, config) {
+    return parseGiteaUrl(url, config?.giteaHosts) !== null;
+  },
+
+  async resolveLatest(target, config) {
+    const parsed = parseTarget(target, config.giteaHosts);
+    const tracking = target.tracking ?? "branch";
+
+    if (tracking === "release") {
+      const [owner = "", repo = ""] = parsed.project.split("/");
+      const result = parsed.releaseTag
+        ? await Gitea.getReleaseByTag(
+            parsed.baseUrl,
+            owner,
+            repo,
+            parsed.releaseTag,
+          )
+        : await Gitea.getLatestRelease(parsed.baseUrl, owner, repo);
+      const packaged = await resolvePackagedAsset(
+        result,
+        target.flavor ?? "retail",
+        "Gitea",
+      );
+      if (packaged) return { ...packaged, name: getRepoName(parsed.url) };
+    }
+
+    return resolveGitRelease(
+      parsed.url,
+      getBranch(target, parsed),
+      tracking,
+      parsed.releaseTag,
+    );
+  },
+
+  async download(release, target, destDir, config, onExtract) {
+    const parsed = parseTarget(target, config.giteaHosts);
+    return downloadForgeRelease(
+      release,
+      parsed,
+      getBranch(target, parsed),
+      destDir,
+      config,
+      onExtract,
+    );
+  },
+
+  compareVersions: compareGitVersions,
+};
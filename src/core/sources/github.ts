@@ -0,0 +1,256 @@
+import { REPO_TYPE } from "@/core/config";
+import * as GitHub from "@/core/github";
+import { logger } from "@/core/logger";
+import { downloadArchive } from "./archive";
+import { resolvePackagedAsset } from "./forge";
+import {
+  cloneGitRelease,
+  compareGitVersions,
+  DEFAULT_BRANCH,
+  getRepoName,
+  type InstallRef,
+  type RefLookup,
+  resolveGitRelease,
+  resolveRefPath,
+} from "./git";
+import type { SourceProvider, SourceTarget } from "./types";
+
+export interface ParsedGitHubUrl {
+  /** Bare repository URL, without any /tree or /releases suffix */
+  url: string;
+  /** Everything after /tree/: a branch, possibly followed by a repo subpath */
+  branch: string | null;
+  /** Whether the URL points at the repository's releases page */
+  isRelease: boolean;
+  /** Specific release from a /releases/tag/<tag> URL */
+  releaseTag: string | null;
+}
+
+/**
+ * Splits a GitHub web UI URL into the repository URL and what it points at:
+ * - https://github.com/<owner>/<repo>/tree/<branch>
+ * - https://github.com/<owner>/<repo>/releases[/latest]
+ * - https://github.com/<owner>/<repo>/releases/tag/<tag>
+ */
+export function parseGitHubUrl(url: string): ParsedGitHubUrl {
+  const plain = { url, branch: null, isRelease: false, releaseTag: null };
+  try {
+    const parsed = new URL(url);
+    const match = parsed.pathname.match(
+      /^\/([^/]+)\/([^/]+)\/(?:tree\/(.+?)|releases(?:\/latest|\/tag\/(.+?))?)\/?$/,
+    );
+    if (!match) return plain;
+
+    const [, owner, repo, branch, tag] = match;
+    return {
+      url: `${parsed.protocol}//${parsed.host}/${owner}/${repo}`,
+      branch: branch ? decodeURIComponent(branch) : null,
+      isRelease: branch === undefined,
+      releaseTag: tag ? decodeURIComponent(tag) : null,
+    };
+  } catch {
+    return plain;
+  }
+}
+
+/**
+ * Picks the branch and subpath to install from a GitHub URL.
+ * See resolveRefPath for how /tree/<ref> suffixes are split.
+ */
+export async function resolveInstallRef(url: string): Promise<InstallRef> {
+  const parsed = parseGitHubUrl(url);
+  return resolveRefPath(parsed.url, parsed.branch);
+}
+
+function getBranch(target: SourceTarget): string {
+  return (
+    target.branch || parseGitHubUrl(target.url || "").branch || DEFAULT_BRANCH
+  );
+}
+
+/** How long batch-prefetched branch heads stay valid */
+const PREFETCH_TTL_MS = 60 * 1000;
+
+const prefetchedCommits = new Map<string, { sha: string; at: number }>();
+
+/**
+ * REST API lookups for commits and tags. Only used with a token, since the
+ * unauthenticated quota is too small to spend on every update check.
+ */
+function createApiLookup(url: string, token: string): RefLookup | undefined {
+  const repo = GitHub.getRepoFromUrl(url);
+  if (!repo || !token) return undefined;
+
+  return {
+    async getBranchCommit(branch) {
+      const key = GitHub.branchKey({ ...repo, branch });
+      const prefetched = prefetchedCommits.get(key);
+      if (prefetched && Date.now() - prefetched.at < PREFETCH_TTL_MS) {
+        prefetchedCommits.delete(key);
+        return prefetched.sha;
+      }
+
+      const result = await GitHub.getBranchCommit(
+        repo.owner,
+        repo.repo,
+        branch,
+        token,
+      );
+      return result.success ? result.sha : null;
+    },
+    async getTags() {
+      const result = await GitHub.getTags(repo.owner, repo.repo, token);
+      return result.success ? result.tags : null;
+    },
+  };
+}
+
+export const GitHubProvider: SourceProvider = {
+  type: REPO_TYPE.GITHUB,
+
+  matchUrl(url) {
+    try {
+      const { hostname, pathname } = new URL(url);
+      // Release assets and archives are direct zip links, left to ZipProvider
+      if (pathname.toLowerCase().endsWith(".zip")) return false;
+      return hostname.endsWith("github.com");
+    } catch {
+      return false;
+    }
+  },
+
+  async resolveLatest(target, config) {
+    const parsed = parseGitHubUrl(target.url || "");
+    const tracking = target.tracking ?? "branch";
+
+    if (tracking === "release") {
+      const result = await getRelease(parsed, config.githubToken);
+      const packaged =
+        result &&
+        (await resolvePackagedAsset(
+          result,
+          target.flavor ?? "retail",
+          "GitHub",
+        ));
+      if (packaged) return { ...packaged, name: getRepoName(parsed.url) };
+    }
+
+    return resolveGitRelease(
+      parsed.url,
+      getBranch(target),
+      tracking,
+      parsed.releaseTag,
+      createApiLookup(parsed.url, config.githubToken),
+    );
+  },
+
+  async prefetch(targets, config) {
+    const refs: GitHub.BranchRef[] = [];
+    for (const target of targets) {
+      if ((target.tracking ?? "branch") !== "branch") continue;
+      const repo = GitHub.getRepoFromUrl(target.url || "");
+      if (repo) refs.push({ ...repo, branch: getBranch(target) });
+    }
+    if (refs.length === 0 || !config.githubToken) return;
+
+    const commits = await GitHub.getBranchCommits(refs, config.githubToken);
+    const now = Date.now();
+    for (const [key, sha] of commits) {
+      prefetchedCommits.set(key, { sha, at: now });
+    }
+    logger.log(
+      "GitHub",
+      `Prefetched ${commits.size}/${refs.length} branch heads`,
+    );
+  },
+
+  async download(release, target, destDir, config, onExtract) {
+    if (release.downloadUrl) {
+      await downloadArchive(release.downloadUrl, destDir, onExtract);
+      return release;
+    }
+
+    return cloneGitRelease(
+      parseGitHubUrl(target.url || "").url,
+      release,
+      getBranch(target),
+      destDir,
+      config,
+    );
+  },
+
+  compareVersions: compareGitVersions,
+
+  async fetchChangelog(target, remoteVersion, config) {
+    const repo = GitHub.getRepoFromUrl(parseGitHubUrl(target.url || "").url);
+    if (!repo) return null;
+
+    // Releases come with notes written for them
+    if (target.tracking === "release") {
+      const result = await GitHub.getReleaseByTag(
+        repo.owner,
+        repo.repo,
+        remoteVersion,
+        config.githubToken,
+      );
+      if (result.success && result.release.body?.trim()) {
+        return result.release.body;
+      }
+    }
+
+    const base = target.git_commit ?? target.version;
+    if (!base) return null;
+    const result = await GitHub.compareCommits(
+      repo.owner,
+      repo.repo,
+      base,
+      remoteVersion,
+      config.githubToken,
+    );
+    if (!result.success) {
+      if (result.error === "rate_limited") {
+        throw new Error("GitHub API rate limit exceeded. Try again later.");
+      }
+      // Base no longer exists upstream, e.g. after a force push
+      if (result.error === "not_found") return null;
+      throw new Error("Failed to fetch commits from GitHub");
+    }
+    return formatCommitLog(result.commits);
+  },
+};
+
+/**
+ * One line per commit, newest first, from each commit message's subject.
+ */
+export function formatCommitLog(commits: GitHub.GitHubCommitSummary[]): string {
+  return commits
+    .toReversed()
+    .map((c) => `- ${c.message.split("\n")[0]?.trim()} (${c.sha.slice(0, 7)})`)
+    .join("\n");
+}
+
+/**
+ * Looks up the release the URL points at, or the latest one.
+ * Returns null when the URL isn't a GitHub repo.
+ * Throws when GitHub's rate limit is hit, rather than quietly building from the tag.
+ */
+async function getRelease(
+  parsed: ParsedGitHubUrl,
+  token: string,
+): Promise<GitHub.GetReleaseResult | null> {
+  const repo = GitHub.getRepoFromUrl(parsed.url);
+  if (!repo) return null;
+
+  const result = parsed.releaseTag
+    ? await GitHub.getReleaseByTag(
+        repo.owner,
+        repo.repo,
+        parsed.releaseTag,
+        token,
+      )
+    : await GitHub.getLatestRelease(repo.owner, repo.repo, token);
+  if (!result.success && result.error === "rate_limited") {
+    throw new Error("GitHub API rate limit exceeded. Try again later.");
+  }
+  return result;
+}
@@ -0,0 +1,107 @@
+import { DEFAULT_GITLAB_HOSTS, REPO_TYPE } from "@/core/config";
+import * as GitLab from "@/core/gitlab";
+import {
+  downloadForgeRelease,
+  findForgeHost,
+  type ParsedForgeUrl,
+  resolvePackagedAsset,
+} from "./forge";
+import {
+  compareGitVersions,
+  DEFAULT_BRANCH,
+  getRepoName,
+  resolveGitRelease,
+} from "./git";
+import type { SourceProvider, SourceTarget } from "./types";
+
+/**
+ * Splits a GitLab web UI URL on one of the configured instances:
+ * - https://gitlab.com/<group>/<project>/-/tree/<branch>
+ * - https://gitlab.com/<group>/<subgroup>/<project>/-/releases[/permalink/latest]
+ * - https://gitlab.com/<group>/<project>/-/releases/<tag>
+ *
+ * @returns null if the URL isn't on a known GitLab instance
+ */
+export function parseGitLabUrl(
+  url: string,
+  hosts: string[] = DEFAULT_GITLAB_HOSTS,
+): ParsedForgeUrl | null {
+  const host = findForgeHost(url, hosts);
+  if (!host) return null;
+
+  // Everything before /-/ is the (possibly nested) project path
+  const [projectPath = "", rest = ""] = host.path.split(/\/-(?:\/|$)/, 2);
+  const project = projectPath.replace(/\.git$/, "");
+  if (project.split("/").length < 2) return null;
+
+  const tree = rest.match(/^tree\/(.+)$/);
+  const releases = rest.match(/^releases(?:\/permalink\/latest|\/(.+))?$/);
+  return {
+    baseUrl: host.baseUrl,
+    project,
+    url: `${host.baseUrl}/${project}`,
+    branch: tree?.[1] ? decodeURIComponent(tree[1]) : null,
+    isRelease: !!releases,
+    releaseTag: releases?.[1] ? decodeURIComponent(releases[1]) : null,
+  };
+}
+
+function parseTarget(target: SourceTarget, hosts: string[]): ParsedForgeUrl {
+  const parsed = parseGitLabUrl(target.url || "", hosts);
+  if (!parsed) throw new Error(`Not a known GitLab URL: ${target.url}`);
+  return parsed;
+}
+
+function getBranch(target: SourceTarget, parsed: ParsedForgeUrl): string {
+  return target.branch || parsed.branch || DEFAULT_BRANCH;
+}
+
+export const GitLabProvider: SourceProvider = {
+  type: REPO_TYPE.GITLAB,
+
+  matchUrl(url, config) {
+    return parseGitLabUrl(url, config?.gitlabHosts) !== null;
+  },
+
+  async resolveLatest(target, config) {
+    const parsed = parseTarget(target, config.gitlabHosts);
+    const tracking = target.tracking ?? "branch";
+
+    if (tracking === "release") {
+      const result = parsed.releaseTag
+        ? await GitLab.getReleaseByTag(
+            parsed.baseUrl,
+            parsed.project,
+            parsed.releaseTag,
+          )
+        : await GitLab.getLatestRelease(parsed.baseUrl, parsed.project);
+      const packaged = await resolvePackagedAsset(
+        result,
+        target.flavor ?? "retail",
+        "GitLab",
+      );
+      if (packaged) return { ...packaged, name: getRepoName(parsed.url) };
+    }
+
+    return resolveGitRelease(
+      parsed.url,
+      getBranch(target, parsed),
+      tracking,
+      parsed.releaseTag,
+    );
+  },
+
+  async download(release, target, destDir, config, onExtract) {
+    const parsed = parseTarget(target, config.gitlabHosts);
+    return downloadForgeRelease(
+      release,
+      parsed,
+      getBranch(target, parsed),
+      destDir,
+      config,
+      onExtract,
+    );
+  },
+
+  compareVersions: compareGitVersions,
+};
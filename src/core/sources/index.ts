@@ -0,0 +1,171 @@
+import type { Config } from "@/core/config";
+import type { AddonRecord } from "@/core/db";
+import { logger } from "@/core/logger";
+import { toPlainText } from "@/core/utils/changelogText";
+import {
+  getVersionDelta,
+  type VersionDelta,
+} from "@/core/utils/versionCompare";
+import { CurseForgeProvider } from "./curseforge";
+import { GitProvider, isGitSource } from "./git";
+import { GiteaProvider } from "./gitea";
+import { GitHubProvider } from "./github";
+import { GitLabProvider } from "./gitlab";
+import { TukUIProvider } from "./tukui";
+import type { SourceMatch, SourceProvider, SourceTarget } from "./types";
+import { WagoProvider } from "./wago";
+import { WoWInterfaceProvider } from "./wowinterface";
+import { ZipProvider } from "./zip";
+
+export { isGitSource } from "./git";
+export * from "./types";
+
+// Order matters for URL matching - first match wins
+const providers: SourceProvider[] = [
+  GitHubProvider,
+  WoWInterfaceProvider,
+  WagoProvider,
+  CurseForgeProvider,
+  TukUIProvider,
+  GitLabProvider,
+  GiteaProvider,
+  // Generic remotes last, so known hosts keep their richer providers
+  GitProvider,
+  // Any other https zip URL
+  ZipProvider,
+];
+
+/**
+ * Registers an additional source provider.
+ * Replaces any existing provider for the same type.
+ */
+export function registerProvider(provider: SourceProvider): void {
+  const idx = providers.findIndex((p) => p.type === provider.type);
+  if (idx !== -1) {
+    providers[idx] = provider;
+  } else {
+    providers.push(provider);
+  }
+}
+
+/**
+ * Returns the provider that manages addons of the given type.
+ * Manual addons have no provider.
+ */
+export function getProvider(type: string): SourceProvider | null {
+  return providers.find((p) => p.type === type) ?? null;
+}
+
+/**
+ * How an addon's remote version relates to what is installed, using its
+ * provider's comparison. The version the user chose to ignore counts as
+ * equivalent, so it stays up to date until a newer one appears.
+ */
+export function compareAddonVersion(
+  addon: Pick<
+    AddonRecord,
+    | "type"
+    | "version"
+    | "git_commit"
+    | "tracking"
+    | "content_hash"
+    | "file_id"
+    | "ignoredVersion"
+  >,
+  remoteVersion: string,
+): VersionDelta {
+  if (addon.ignoredVersion && addon.ignoredVersion === remoteVersion) {
+    return "equivalent";
+  }
+  const provider = getProvider(addon.type);
+  return provider
+    ? provider.compareVersions(addon, remoteVersion)
+    : getVersionDelta(addon.version, remoteVersion);
+}
+
+/**
+ * The installed version in the terms its source offers updates in: the
+ * commit for branch-tracked git sources, the version label otherwise.
+ */
+export function getInstalledVersion(
+  addon: Pick<AddonRecord, "type" | "version" | "git_commit" | "tracking">,
+): string | null {
+  const tracksBranch =
+    isGitSource(addon.type) &&
+    addon.tracking !== "tag" &&
+    addon.tracking !== "release";
+  return tracksBranch ? (addon.git_commit ?? addon.version) : addon.version;
+}
+
+/**
+ * Fetches what changed up to an addon's remote version, as plain text.
+ * Null when its source publishes no changelog for it.
+ */
+export async function fetchAddonChangelog(
+  addon: AddonRecord,
+  remoteVersion: string,
+  config: Config,
+): Promise<string | null> {
+  const provider = getProvider(addon.type);
+  if (!provider?.fetchChangelog) return null;
+  const text = await provider.fetchChangelog(addon, remoteVersion, config);
+  return text ? toPlainText(text) || null : null;
+}
+
+/**
+ * Returns the first provider that can install the given URL.
+ */
+export function findProviderForUrl(
+  url: string,
+  config?: Config,
+): SourceProvider | null {
+  return providers.find((p) => p.matchUrl(url, config)) ?? null;
+}
+
+/**
+ * Lets providers batch their lookups before a run of resolveLatest calls.
+ * Failures only cost the speedup, so they are logged and ignored.
+ */
+export async function prefetchReleases(
+  targets: SourceTarget[],
+  config: Config,
+): Promise<void> {
+  for (const provider of providers) {
+    if (!provider.prefetch) continue;
+    const own = targets.filter((t) => t.type === provider.type);
+    if (own.length === 0) continue;
+    try {
+      await provider.prefetch(own, config);
+    } catch (error) {
+      logger.error("Sources", `Prefetch failed for ${provider.type}`, error);
+    }
+  }
+}
+
+/**
+ * Asks every provider with a fingerprint lookup to identify installed
+ * folders. A folder claimed by an earlier provider isn't offered again.
+ */
+export async function matchFingerprints(
+  fingerprints: Map<string, number>,
+  config: Config,
+): Promise<SourceMatch[]> {
+  const remaining = new Map(fingerprints);
+  const matches: SourceMatch[] = [];
+  for (const provider of providers) {
+    if (!provider.matchFingerprints || remaining.size === 0) continue;
+    try {
+      for (const match of await provider.matchFingerprints(remaining, config)) {
+        matches.push(match);
+        for (const folder of match.folders) remaining.delete(folder);
+      }
+    } catch (error) {
+      logger.error(
+        "Sources",
+        `Fingerprint match failed for ${provider.type}`,
+        error,
+      );
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,99 @@
+import { type Config, REPO_TYPE, type RepoType } from "@/core/config";
+import type { TocProjectIds } from "@/core/db";
+import { findProviderForUrl } from "./index";
+
+export interface TocSourceLink {
+  type: RepoType;
+  url: string;
+}
+
+/**
+ * Sources a TOC can point at. Git hosts are left out: an X-Website
+ * repository usually holds the unpackaged source, not the release zip.
+ */
+const LINKABLE_TYPES: RepoType[] = [
+  REPO_TYPE.WAGO,
+  REPO_TYPE.CURSEFORGE,
+  REPO_TYPE.WOWINTERFACE,
+];
+
+type ProjectSite = Exclude<keyof TocProjectIds, "website">;
+
+/** Prefixes accepted for typed-in project IDs, e.g. "wowi:5108" */
+const SITE_PREFIXES: Record<string, ProjectSite> = {
+  wago: "wago",
+  curse: "curse",
+  curseforge: "curse",
+  cf: "curse",
+  wowi: "wowi",
+  wowinterface: "wowi",
+};
+
+/**
+ * The project page URL for an ID on one of the addon sites.
+ */
+export function getProjectUrlFromId(site: ProjectSite, id: string): string {
+  switch (site) {
+    case "wago":
+      return `https://addons.wago.io/addons/${id}`;
+    case "curse":
+      return `https://www.curseforge.com/projects/${id}`;
+    case "wowi":
+      return `https://www.wowinterface.com/downloads/info${id}`;
+  }
+}
+
+/**
+ * Expands a prefixed project ID ("wago:<id>", "curseforge:<id>",
+ * "wowi:<id>") to its URL. Anything else is returned trimmed.
+ */
+export function resolveSourceInput(input: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(/^([a-z]+):([\w-]+)$/i);
+  const site = match?.[1] ? SITE_PREFIXES[match[1].toLowerCase()] : undefined;
+  return site && match?.[2] ? getProjectUrlFromId(site, match[2]) : trimmed;
+}
+
+/** Whether update checks against this source can work with the config */
+function isUsable(type: RepoType, config: Config): boolean {
+  if (type === REPO_TYPE.WAGO) return Boolean(config.wagoApiKey);
+  if (type === REPO_TYPE.CURSEFORGE) return Boolean(config.curseforgeApiKey);
+  return true;
+}
+
+/**
+ * Picks the source a manual addon can be linked to from the project IDs
+ * in its TOC. Sources needing an API key are skipped until one is set.
+ */
+export function getTocSourceLink(
+  ids: TocProjectIds,
+  config: Config,
+): TocSourceLink | null {
+  const candidates: TocSourceLink[] = [];
+  if (ids.wago) {
+    candidates.push({
+      type: REPO_TYPE.WAGO,
+      url: getProjectUrlFromId("wago", ids.wago),
+    });
+  }
+  if (ids.curse) {
+    candidates.push({
+      type: REPO_TYPE.CURSEFORGE,
+      url: getProjectUrlFromId("curse", ids.curse),
+    });
+  }
+  if (ids.wowi) {
+    candidates.push({
+      type: REPO_TYPE.WOWINTERFACE,
+      url: getProjectUrlFromId("wowi", ids.wowi),
+    });
+  }
+  if (ids.website) {
+    const provider = findProviderForUrl(ids.website, config);
+    if (provider && LINKABLE_TYPES.includes(provider.type)) {
+      candidates.push({ type: provider.type, url: ids.website });
+    }
+  }
+
+  return candidates.find((c) => isUsable(c.type, config)) ?? null;
+}
@@ -0,0 +1,55 @@
+import { REPO_TYPE } from "@/core/config";
+import * as TukUI from "@/core/tukui";
+import { getVersionDelta } from "@/core/utils/versionCompare";
+import { downloadArchive } from "./archive";
+import type { SourceProvider } from "./types";
+
+export const TukUIProvider: SourceProvider = {
+  type: REPO_TYPE.TUKUI,
+
+  matchUrl(url) {
+    try {
+      return new URL(url).hostname.endsWith("tukui.org");
+    } catch {
+      return false;
+    }
+  },
+
+  async resolveLatest(target) {
+    // TOC titles usually match the TukUI name, folders match the slug
+    const details =
+      (await TukUI.getAddonDetails(target.name)) ??
+      (target.folder ? await TukUI.getAddonDetails(target.folder) : null);
+    if (!details) {
+      throw new Error(
+        `Could not find addon details for ${target.name} on TukUI`,
+      );
+    }
+
+    return {
+      version: details.version,
+      downloadUrl: details.url,
+      name: details.name,
+      author: details.author,
+    };
+  },
+
+  async download(release, _target, destDir, _config, onExtract) {
+    if (!release.downloadUrl) {
+      throw new Error("No download URL provided or found");
+    }
+    await downloadArchive(release.downloadUrl, destDir, onExtract);
+    return release;
+  },
+
+  compareVersions(local, remoteVersion) {
+    return getVersionDelta(local.version, remoteVersion);
+  },
+
+  async fetchChangelog(target) {
+    const details =
+      (await TukUI.getAddonDetails(target.name)) ??
+      (target.folder ? await TukUI.getAddonDetails(target.folder) : null);
+    return details ? TukUI.getChangelog(details) : null;
+  },
+};
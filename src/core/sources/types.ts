@@ -0,0 +1,135 @@
+import type { Config, RepoType } from "@/core/config";
+import type { AddonRecord, HttpValidators } from "@/core/db";
+import type { VersionDelta } from "@/core/utils/versionCompare";
+
+/**
+ * The subset of an addon record a provider needs to resolve its source.
+ * Installs only know the URL, so everything beyond name/url is optional.
+ */
+export type SourceTarget = Pick<AddonRecord, "name" | "url"> &
+  Partial<Omit<AddonRecord, "name" | "url">>;
+
+/**
+ * A concrete remote version of an addon, as resolved by a provider.
+ */
+export interface RemoteRelease {
+  /** Version label stored on the addon record (tag, UIVersion, etc.) */
+  version: string;
+  /** Full commit hash for git-based sources */
+  commit?: string | null;
+  /** Branch the commit was resolved from, for git-based sources */
+  branch?: string;
+  /** Tag the commit was resolved from, when tracking tags or releases */
+  tag?: string;
+  /** Archive to fetch for zip-based sources */
+  downloadUrl?: string;
+  /** Display name reported by the source, used for parent folder detection */
+  name?: string;
+  /** Archive file name reported by the source, used for parent folder detection */
+  fileName?: string;
+  author?: string | null;
+  /** SHA-256 of the downloaded archive, for sources without version labels */
+  contentHash?: string;
+  /** Cache validators the archive was served with */
+  validators?: HttpValidators | null;
+  /** File ID for sources that version by uploaded file (CurseForge) */
+  fileId?: number;
+}
+
+/**
+ * A release a provider recognised among the installed folders.
+ */
+export interface SourceMatch {
+  type: RepoType;
+  /** URL the addon can be installed and checked from */
+  url: string;
+  /** The release that is installed, not necessarily the newest one */
+  release: RemoteRelease;
+  /** Installed folders that belong to the release */
+  folders: string[];
+}
+
+/**
+ * What is currently installed, as far as version comparison is concerned.
+ */
+export type LocalVersion = Pick<AddonRecord, "version" | "git_commit"> &
+  Partial<Pick<AddonRecord, "tracking" | "content_hash" | "file_id">>;
+
+export interface SourceProvider {
+  readonly type: RepoType;
+
+  /**
+   * Whether this provider can install the given URL.
+   * Config carries user-defined hosts; without it only the defaults match.
+   */
+  matchUrl(url: string, config?: Config): boolean;
+
+  /**
+   * Resolves the newest version available for the addon.
+   * Throws with a user-readable message when the source can't be reached.
+   */
+  resolveLatest(target: SourceTarget, config: Config): Promise<RemoteRelease>;
+
+  /**
+   * Optionally warms up lookups for many addons at once, so that the
+   * resolveLatest calls that follow can skip a request each.
+   */
+  prefetch?(targets: SourceTarget[], config: Config): Promise<void>;
+
+  /**
+   * Optionally identifies installed folders by their fingerprints
+   * (folder name to hash, see utils/fingerprint).
+   */
+  matchFingerprints?(
+    fingerprints: Map<string, number>,
+    config: Config,
+  ): Promise<SourceMatch[]>;
+
+  /**
+   * Places the addon folders for a release inside destDir.
+   * Returns the release, refined with anything learned while downloading.
+   * onExtract fires when an archive starts extracting.
+   */
+  download(
+    release: RemoteRelease,
+    target: SourceTarget,
+    destDir: string,
+    config: Config,
+    onExtract?: () => void,
+  ): Promise<RemoteRelease>;
+
+  /** How remoteVersion relates to what is installed; see isUpdate */
+  compareVersions(local: LocalVersion, remoteVersion: string): VersionDelta;
+
+  /**
+   * Optionally fetches what changed up to remoteVersion, in whatever markup
+   * the source uses. Null when the source has no notes for it.
+   * Throws with a user-readable message when the source can't be reached.
+   */
+  fetchChangelog?(
+    target: SourceTarget,
+    remoteVersion: string,
+    config: Config,
+  ): Promise<string | null>;
+}
+
+/**
+ * Returns the value recorded as remote_version for a release.
+ */
+export function getRemoteVersion(release: RemoteRelease): string {
+  return (
+    release.tag ??
+    release.commit ??
+    (release.fileId !== undefined ? String(release.fileId) : release.version)
+  );
+}
+
+/**
+ * Returns the release's version as users know it. CurseForge files are
+ * tracked by fileId but shown by their display name.
+ */
+export function getDisplayVersion(release: RemoteRelease): string {
+  return release.fileId !== undefined
+    ? release.version
+    : getRemoteVersion(release);
+}
@@ -0,0 +1,117 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { REPO_TYPE } from "@/core/config";
+import { getVersionDelta } from "@/core/utils/versionCompare";
+import * as Wago from "@/core/wago";
+import { extractArchive } from "./archive";
+import type { RemoteRelease, SourceProvider } from "./types";
+
+/**
+ * Builds the release for a specific Wago stability channel.
+ */
+export function getWagoRelease(
+  addon: Wago.WagoAddonSummary,
+  stability: Wago.WagoStability,
+): RemoteRelease | null {
+  const version = Wago.getVersion(addon, stability);
+  const downloadUrl = Wago.getDownloadUrl(addon, stability);
+  if (!version || !downloadUrl) return null;
+
+  return {
+    version,
+    downloadUrl,
+    name: addon.display_name,
+    author: addon.owner ?? addon.authors?.[0] ?? "",
+  };
+}
+
+export const WagoProvider: SourceProvider = {
+  type: REPO_TYPE.WAGO,
+
+  matchUrl(url) {
+    try {
+      return new URL(url).hostname.endsWith("wago.io");
+    } catch {
+      return false;
+    }
+  },
+
+  async resolveLatest(target, config) {
+    const addonId = Wago.getAddonIdFromUrl(target.url || "");
+    if (!addonId) throw new Error("Invalid Wago URL");
+
+    if (!config.wagoApiKey) throw new Error("Wago API key not configured");
+
+    const result = await Wago.getAddonDetails(addonId, config.wagoApiKey);
+    if (!result.success) {
+      throw new Error(
+        result.error === "not_found"
+          ? "Addon not found on Wago"
+          : result.error === "no_api_key"
+            ? "Wago API key missing"
+            : "Failed to fetch Wago details",
+      );
+    }
+
+    const stability = Wago.selectStability(
+      result.addon,
+      target.channel ?? "stable",
+    );
+    const release = stability ? getWagoRelease(result.addon, stability) : null;
+    if (!release) throw new Error("No release version found");
+
+    return release;
+  },
+
+  async download(release, _target, destDir, config, onExtract) {
+    const downloadUrl = release.downloadUrl;
+    if (!downloadUrl) throw new Error("No download URL available");
+
+    // Validate download URL domain (security check)
+    let urlObj: URL;
+    try {
+      urlObj = new URL(downloadUrl);
+    } catch {
+      throw new Error("Invalid download URL format");
+    }
+    if (!urlObj.hostname.endsWith("wago.io")) {
+      throw new Error("Invalid download URL domain");
+    }
+
+    const downloadResponse = await fetch(downloadUrl, {
+      headers: {
+        Authorization: `Bearer ${config.wagoApiKey}`,
+        Accept: "application/octet-stream",
+      },
+    });
+
+    if (!downloadResponse.ok) {
+      throw new Error(`Download failed: ${downloadResponse.status}`);
+    }
+
+    await fs.mkdir(destDir, { recursive: true });
+    const zipPath = path.join(destDir, "addon.zip");
+    await Bun.write(zipPath, await downloadResponse.arrayBuffer());
+    await extractArchive(zipPath, destDir, onExtract);
+    return release;
+  },
+
+  compareVersions(local, remoteVersion) {
+    return getVersionDelta(local.version, remoteVersion);
+  },
+
+  async fetchChangelog(target, remoteVersion, config) {
+    const addonId = Wago.getAddonIdFromUrl(target.url || "");
+    if (!addonId || !config.wagoApiKey) return null;
+
+    const result = await Wago.getAddonDetails(addonId, config.wagoApiKey);
+    if (!result.success) {
+      throw new Error("Failed to fetch changelog from Wago");
+    }
+    // The release on offer, whichever channel it came from
+    const release = Object.values(result.addon.releases).find(
+      (r) => r?.label === remoteVersion,
+    );
+    return release?.changelog || null;
+  },
+};
@@ -0,0 +1,74 @@
+import { REPO_TYPE } from "@/core/config";
+import { getVersionDelta } from "@/core/utils/versionCompare";
+import * as WoWInterface from "@/core/wowinterface";
+import { downloadArchive } from "./archive";
+import type { SourceProvider } from "./types";
+
+export const WoWInterfaceProvider: SourceProvider = {
+  type: REPO_TYPE.WOWINTERFACE,
+
+  matchUrl(url) {
+    try {
+      return new URL(url).hostname.endsWith("wowinterface.com");
+    } catch {
+      return false;
+    }
+  },
+
+  async resolveLatest(target) {
+    const addonId = WoWInterface.getAddonIdFromUrl(target.url || "");
+    if (!addonId) {
+      throw new Error("Could not parse WoWInterface Addon ID from URL");
+    }
+
+    const result = await WoWInterface.getAddonDetails(addonId);
+    if (!result.success) {
+      switch (result.error) {
+        case "not_found":
+          throw new Error(
+            "Addon not found on WoWInterface. It may have been removed, discontinued, or the URL may be incorrect.",
+          );
+        case "network_error":
+          throw new Error(
+            "Failed to connect to WoWInterface API. Please check your internet connection.",
+          );
+        case "invalid_response":
+          throw new Error(
+            "Received unexpected response from WoWInterface API.",
+          );
+      }
+    }
+
+    const { details } = result;
+    return {
+      version: details.UIVersion,
+      downloadUrl: details.UIDownload,
+      name: details.UIName,
+      fileName: details.UIFileName,
+      author: details.UIAuthorName,
+    };
+  },
+
+  async download(release, _target, destDir, _config, onExtract) {
+    if (!release.downloadUrl) {
+      throw new Error("No download URL available");
+    }
+    await downloadArchive(release.downloadUrl, destDir, onExtract);
+    return release;
+  },
+
+  compareVersions(local, remoteVersion) {
+    return getVersionDelta(local.version, remoteVersion);
+  },
+
+  async fetchChangelog(target) {
+    const addonId = WoWInterface.getAddonIdFromUrl(target.url || "");
+    if (!addonId) return null;
+
+    const result = await WoWInterface.getAddonDetails(addonId);
+    if (!result.success) {
+      throw new Error("Failed to fetch changelog from WoWInterface");
+    }
+    return result.details.UIChangeLog || null;
+  },
+};
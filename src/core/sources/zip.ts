@@ -0,0 +1,144 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { REPO_TYPE } from "@/core/config";
+import type { HttpValidators } from "@/core/db";
+import * as Downloader from "@/core/downloader";
+import { logger } from "@/core/logger";
+import { extractArchive } from "./archive";
+import type { RemoteRelease, SourceProvider, SourceTarget } from "./types";
+
+/** Length of the hash prefix used as version label */
+const HASH_LABEL_LENGTH = 12;
+
+/** Version reported before the first download has been hashed */
+const UNHASHED_VERSION = "new";
+
+function hashLabel(hash: string): string {
+  return hash.slice(0, HASH_LABEL_LENGTH);
+}
+
+/**
+ * Whether a zip is unchanged according to its cache validators.
+ * An ETag or Last-Modified match is required; Content-Length alone
+ * can't prove two files are the same, only that they differ.
+ */
+export function validatorsMatch(
+  stored: HttpValidators | null | undefined,
+  current: HttpValidators | null,
+): boolean {
+  if (!stored || !current) return false;
+
+  let strongMatch = false;
+  if (stored.etag !== null && current.etag !== null) {
+    // Weak ETags (W/"...") compare equal to their strong form
+    if (stored.etag.replace(/^W\//, "") !== current.etag.replace(/^W\//, "")) {
+      return false;
+    }
+    strongMatch = true;
+  }
+  if (stored.lastModified !== null && current.lastModified !== null) {
+    if (stored.lastModified !== current.lastModified) return false;
+    strongMatch = true;
+  }
+  if (
+    stored.contentLength !== null &&
+    current.contentLength !== null &&
+    stored.contentLength !== current.contentLength
+  ) {
+    return false;
+  }
+  return strongMatch;
+}
+
+function getFileName(url: string): string {
+  return decodeURIComponent(path.posix.basename(new URL(url).pathname));
+}
+
+/**
+ * Downloads the zip to a scratch file just to hash it.
+ */
+async function hashRemoteZip(url: string): Promise<string> {
+  const scratch = path.join(
+    os.tmpdir(),
+    `lemonup-zipcheck-${crypto.randomUUID()}.zip`,
+  );
+  try {
+    if (!(await Downloader.download(url, scratch))) {
+      throw new Error("Download failed");
+    }
+    return await Downloader.hashFile(scratch);
+  } finally {
+    await fs.rm(scratch, { force: true });
+  }
+}
+
+export const ZipProvider: SourceProvider = {
+  type: REPO_TYPE.ZIP,
+
+  matchUrl(url) {
+    try {
+      const parsed = new URL(url);
+      return (
+        parsed.protocol === "https:" &&
+        parsed.pathname.toLowerCase().endsWith(".zip")
+      );
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Skips the download when the validators still match the installed zip.
+   * Otherwise the zip is fetched and hashed, since changed validators
+   * don't always mean changed content (e.g. a CDN re-upload).
+   */
+  async resolveLatest(target: SourceTarget) {
+    const url = target.url || "";
+    const fileName = getFileName(url);
+    const validators = await Downloader.getValidators(url);
+    const base: RemoteRelease = {
+      version: UNHASHED_VERSION,
+      downloadUrl: url,
+      fileName,
+      name: fileName.replace(/\.zip$/i, ""),
+      validators,
+    };
+
+    // Installing: the hash is taken from the download itself
+    if (!target.content_hash) return base;
+
+    if (validatorsMatch(target.httpValidators, validators)) {
+      return {
+        ...base,
+        version: hashLabel(target.content_hash),
+        contentHash: target.content_hash,
+      };
+    }
+
+    logger.log("Zip", `Validators changed for ${url}, hashing content`);
+    const contentHash = await hashRemoteZip(url);
+    return { ...base, version: hashLabel(contentHash), contentHash };
+  },
+
+  async download(release, target, destDir, _config, onExtract) {
+    const url = release.downloadUrl || target.url || "";
+    await fs.mkdir(destDir, { recursive: true });
+    const zipPath = path.join(destDir, "addon.zip");
+    if (!(await Downloader.download(url, zipPath))) {
+      throw new Error("Download failed");
+    }
+
+    // Hash what was actually installed, not what the check saw
+    const contentHash = await Downloader.hashFile(zipPath);
+    await extractArchive(zipPath, destDir, onExtract);
+    return { ...release, version: hashLabel(contentHash), contentHash };
+  },
+
+  compareVersions(local, remoteVersion) {
+    if (!local.content_hash) return "different";
+    return local.content_hash.startsWith(remoteVersion)
+      ? "equivalent"
+      : "different";
+  },
+};
@@ -1,15 +1,29 @@
 import fs from "node:fs";
 import os from "node:os";
 import { z } from "zod";
-import type { AddonRecord } from "./db";
+import { type AddonRecord, WagoChannel } from "./db";
 import { logger } from "./logger";
 
 export const ExportedAddonSchema = z.object({
   name: z.string(),
   folder: z.string(),
-  type: z.enum(["github", "tukui", "wowinterface", "manual", "wago"]),
+  type: z.enum([
+    "github",
+    "tukui",
+    "wowinterface",
+    "manual",
+    "wago",
+    "git",
+    "gitlab",
+    "gitea",
+    "zip",
+    "local",
+    "curseforge",
+  ]),
   url: z.string().nullable(),
   ownedFolders: z.array(z.string()).optional(),
+  /** Release channel of Wago addons, when not stable */
+  channel: WagoChannel.optional(),
   reinstallable: z.boolean(),
 });
 
@@ -37,7 +51,11 @@ export async function exportAddons(
       url: addon.url,
       ownedFolders:
         addon.ownedFolders.length > 0 ? addon.ownedFolders : undefined,
-      reinstallable: addon.type !== "manual" && !!addon.url,
+      channel:
+        addon.channel && addon.channel !== "stable" ? addon.channel : undefined,
+      // Local file paths don't carry over to another machine
+      reinstallable:
+        addon.type !== "manual" && addon.type !== "local" && !!addon.url,
     }));
 
     const exportFile: ExportFile = {
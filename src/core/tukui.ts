@@ -61,6 +61,29 @@ export async function getAddons(force = false): Promise<TukUIAddon[]> {
   }
 }
 
+/**
+ * Fetches the changelog an addon links to, or null if it can't be loaded.
+ */
+export async function getChangelog(addon: TukUIAddon): Promise<string | null> {
+  if (!addon.changelog_url) return null;
+
+  logger.log("TukUI", `Fetching changelog from ${addon.changelog_url}`);
+  try {
+    const response = await fetch(addon.changelog_url);
+    if (!response.ok) {
+      logger.error(
+        "TukUI",
+        `Changelog request failed: ${response.status} ${response.statusText}`,
+      );
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    logger.error("TukUI", "Failed to fetch changelog", error);
+    return null;
+  }
+}
+
 export async function getAddonDetails(
   slugOrName: string,
 ): Promise<TukUIAddon | null> {
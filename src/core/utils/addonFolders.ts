@@ -0,0 +1,170 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/**
+ * Repository metadata that never belongs in an AddOns folder.
+ */
+const VCS_METADATA = new Set([
+  ".git",
+  ".github",
+  ".gitlab",
+  ".gitattributes",
+  ".gitignore",
+  ".gitmodules",
+  ".svn",
+  ".hg",
+  ".hgignore",
+  ".bzr",
+]);
+
+export function isVcsMetadata(name: string): boolean {
+  return VCS_METADATA.has(name);
+}
+
+/**
+ * Resolves the directory addons are installed from within a download.
+ * Monorepos keep their addons under a subpath such as addons/ or src/.
+ *
+ * @param root - Checkout or extraction root
+ * @param subpath - Repository-relative folder, or null for the root
+ * @throws If the subpath escapes the root or doesn't exist
+ */
+export async function resolveContentRoot(
+  root: string,
+  subpath: string | null | undefined,
+): Promise<string> {
+  if (!subpath) return root;
+
+  const resolved = path.resolve(root, subpath);
+  if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+    throw new Error(`Subpath escapes the repository: ${subpath}`);
+  }
+
+  const stat = await fs.stat(resolved).catch(() => null);
+  if (!stat?.isDirectory()) {
+    throw new Error(`Subpath '${subpath}' not found in repository`);
+  }
+  return resolved;
+}
+
+/**
+ * Copies an addon folder into place, leaving out VCS metadata.
+ */
+export async function copyAddonFolder(
+  source: string,
+  dest: string,
+): Promise<void> {
+  await fs.cp(source, dest, {
+    recursive: true,
+    force: true,
+    filter: (src) => !isVcsMetadata(path.basename(src)),
+  });
+}
+
+/**
+ * An addon folder found in a download, and where to copy it from.
+ */
+export interface AddonFolderSource {
+  /** Folder name in AddOns */
+  name: string;
+  /** Directory whose contents make up the folder */
+  source: string;
+}
+
+/**
+ * Finds the addon folders in a download or local package.
+ * A .toc at the root makes the root itself an addon named after the .toc;
+ * otherwise every first-level folder containing a .toc is one.
+ * Embedded libs in deeper subfolders are ignored.
+ */
+export async function findAddonFolders(
+  contentRoot: string,
+): Promise<AddonFolderSource[]> {
+  const found: AddonFolderSource[] = [];
+
+  for (const tocFile of new Bun.Glob("*.toc").scanSync({ cwd: contentRoot })) {
+    found.push({ name: path.basename(tocFile, ".toc"), source: contentRoot });
+  }
+
+  const folders = new Set<string>();
+  for await (const file of new Bun.Glob("**/*.toc").scan({
+    cwd: contentRoot,
+  })) {
+    const dir = path.dirname(file);
+    if (dir !== ".") {
+      // Only first-level folders (e.g. "Clique", not "Clique/libs/...")
+      const firstLevel = dir.split("/")[0];
+      if (firstLevel) folders.add(firstLevel);
+    }
+  }
+  for (const folder of folders) {
+    found.push({ name: folder, source: path.join(contentRoot, folder) });
+  }
+
+  return found;
+}
+
+/**
+ * Determines which folder is the "parent" addon from a multi-folder install.
+ * Uses heuristics based on naming patterns and source metadata.
+ *
+ * @param targetName - Name of the download, e.g. the zip without extension
+ * @param displayName - Source display name (e.g. WoWInterface UIName)
+ */
+export function determineParentFolder(
+  folders: string[],
+  targetName: string,
+  displayName: string | null,
+): string {
+  // Should never happen - caller ensures at least one folder
+  if (folders.length === 0) {
+    throw new Error("No folders provided to determineParentFolder");
+  }
+
+  const [first] = folders;
+  if (folders.length === 1 && first) {
+    return first;
+  }
+
+  // Exact match with target name (case-insensitive)
+  const exactMatch = folders.find(
+    (f) => f.toLowerCase() === targetName.toLowerCase(),
+  );
+  if (exactMatch) return exactMatch;
+
+  // Source display name match (e.g. WoWInterface UIName)
+  if (displayName) {
+    const displayNameMatch = folders.find(
+      (f) => f.toLowerCase() === displayName.toLowerCase(),
+    );
+    if (displayNameMatch) return displayNameMatch;
+  }
+
+  // Shortest prefix that matches most other folders
+  const sorted = [...folders].sort((a, b) => a.length - b.length);
+  const [shortest] = sorted;
+  if (!shortest) {
+    throw new Error("Unexpected empty sorted array");
+  }
+  const prefixCount = sorted.filter((n) => n.startsWith(shortest)).length;
+  // If shortest is prefix for at least 50% of items, assume it's parent
+  if (prefixCount / sorted.length >= 0.5) {
+    return shortest;
+  }
+
+  // Target name similarity (substring match)
+  if (targetName) {
+    const candidates = folders.filter(
+      (name) =>
+        targetName.toLowerCase().includes(name.toLowerCase()) ||
+        name.toLowerCase().includes(targetName.toLowerCase()),
+    );
+    const [firstCandidate] = candidates.sort((a, b) => a.length - b.length);
+    if (firstCandidate) {
+      return firstCandidate;
+    }
+  }
+
+  // Fallback to shortest folder name
+  return shortest;
+}
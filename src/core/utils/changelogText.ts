@@ -0,0 +1,68 @@
+/** Changelogs longer than this are cut off, TukUI serves the full history */
+export const MAX_CHANGELOG_LENGTH = 20000;
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code =
+        name[1]?.toLowerCase() === "x"
+          ? Number.parseInt(name.slice(2), 16)
+          : Number(name.slice(1));
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Turns the HTML or BBCode that addon sites serve changelogs in into plain
+ * text for the terminal. List items become "- " lines; other markup is
+ * dropped. Markdown is left as is, it reads fine unrendered.
+ */
+export function toPlainText(text: string): string {
+  const plain = decodeEntities(
+    text
+      .replace(/\r\n?/g, "\n")
+      // HTML
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/\s*<li[^>]*>/gi, "\n- ")
+      .replace(/<\/(p|div|ul|ol|h[1-6])>/gi, "\n")
+      .replace(/<[^>]+>/g, "")
+      // BBCode, as used by WoWInterface
+      .replace(/\s*\[\*\]/g, "\n- ")
+      .replace(/\[\/?(?:[a-z]+)(?:=[^\]]*)?\]/gi, ""),
+  );
+
+  const result = plain
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return result.length > MAX_CHANGELOG_LENGTH
+    ? `${result.slice(0, MAX_CHANGELOG_LENGTH).trimEnd()}\n…`
+    : result;
+}
+
+/**
+ * First change listed in a changelog, skipping headings, which mostly
+ * repeat the version.
+ */
+export function getChangelogHeadline(changelog: string | null): string | null {
+  const line = changelog
+    ?.split("\n")
+    .filter((l) => !l.trimStart().startsWith("#"))
+    .map((l) => l.replace(/^[\s*-]+/, "").trim())
+    .find(Boolean);
+  return line ?? null;
+}
@@ -0,0 +1,119 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** Bytes left out of file hashes, so line endings and indentation don't matter */
+const WHITESPACE = new Set([9, 10, 13, 32]);
+
+const FILE_REFERENCE = /<(?:Script|Include)\s+file\s*=\s*["']([^"']+)["']/gi;
+
+/**
+ * 32-bit MurmurHash2, the hash CurseForge fingerprints are built on.
+ */
+export function murmur2(data: Uint8Array, seed = 1): number {
+  const m = 0x5bd1e995;
+  let h = (seed ^ data.length) >>> 0;
+  let i = 0;
+
+  while (data.length - i >= 4) {
+    let k =
+      (data[i] as number) |
+      ((data[i + 1] as number) << 8) |
+      ((data[i + 2] as number) << 16) |
+      ((data[i + 3] as number) << 24);
+    k = Math.imul(k, m);
+    k ^= k >>> 24;
+    k = Math.imul(k, m);
+    h = Math.imul(h, m) ^ k;
+    i += 4;
+  }
+
+  const remaining = data.length - i;
+  if (remaining > 0) {
+    if (remaining >= 3) h ^= (data[i + 2] as number) << 16;
+    if (remaining >= 2) h ^= (data[i + 1] as number) << 8;
+    h ^= data[i] as number;
+    h = Math.imul(h, m);
+  }
+
+  h ^= h >>> 13;
+  h = Math.imul(h, m);
+  h ^= h >>> 15;
+  return h >>> 0;
+}
+
+/**
+ * Hashes a file with whitespace bytes removed.
+ */
+export async function getFileFingerprint(filePath: string): Promise<number> {
+  const bytes = new Uint8Array(await Bun.file(filePath).arrayBuffer());
+  return murmur2(bytes.filter((b) => !WHITESPACE.has(b)));
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  const stat = await fs.stat(filePath).catch(() => null);
+  return stat?.isFile() ?? false;
+}
+
+/**
+ * Resolves a path written in a TOC or XML file (backslash separated,
+ * relative to that file) against the folder it lives in.
+ */
+function resolveReference(baseDir: string, reference: string): string {
+  return path.join(baseDir, ...reference.trim().split(/[\\/]+/));
+}
+
+/**
+ * Lists the files that make up an addon's fingerprint: its TOC files, the
+ * files they load, anything those XML files include, and Bindings.xml.
+ * Files that aren't loaded by the game (readmes, artwork) are left out.
+ */
+export async function collectFingerprintFiles(
+  folderPath: string,
+): Promise<string[]> {
+  const files = new Set<string>();
+  const entries = await fs.readdir(folderPath);
+
+  const visit = async (filePath: string): Promise<void> => {
+    if (files.has(filePath) || !(await isFile(filePath))) return;
+    files.add(filePath);
+    if (!filePath.toLowerCase().endsWith(".xml")) return;
+
+    const content = await Bun.file(filePath).text();
+    for (const match of content.matchAll(FILE_REFERENCE)) {
+      if (match[1]) {
+        await visit(resolveReference(path.dirname(filePath), match[1]));
+      }
+    }
+  };
+
+  for (const entry of entries) {
+    if (!entry.toLowerCase().endsWith(".toc")) continue;
+    const tocPath = path.join(folderPath, entry);
+    files.add(tocPath);
+
+    const content = await Bun.file(tocPath).text();
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith("#")) continue;
+      await visit(resolveReference(folderPath, trimmed));
+    }
+  }
+
+  const bindings = entries.find((e) => e.toLowerCase() === "bindings.xml");
+  if (bindings) await visit(path.join(folderPath, bindings));
+
+  return [...files];
+}
+
+/**
+ * Fingerprints an addon folder the way CurseForge does: the sorted file
+ * fingerprints are joined into a string, which is hashed again.
+ */
+export async function getFolderFingerprint(
+  folderPath: string,
+): Promise<number> {
+  const files = await collectFingerprintFiles(folderPath);
+  const hashes = await Promise.all(files.map(getFileFingerprint));
+  hashes.sort((a, b) => a - b);
+  return murmur2(new TextEncoder().encode(hashes.join("")));
+}
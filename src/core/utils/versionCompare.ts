@@ -0,0 +1,157 @@
+/**
+ * How a remote version relates to the installed one.
+ * - upgrade: remote is newer
+ * - downgrade: remote is older, e.g. a re-tagged or pulled release
+ * - equivalent: same version, possibly spelled differently (v10.2.5 / 10.2.5)
+ * - different: the versions differ but can't be ordered
+ */
+export type VersionDelta = "upgrade" | "downgrade" | "equivalent" | "different";
+
+interface ParsedVersion {
+  /** Numeric components, most significant first */
+  parts: number[];
+  /** Dates and dotted versions can't be ordered against each other */
+  scheme: "dotted" | "date";
+  /** 0 alpha, 1 beta, 2 rc, 3 release */
+  stage: number;
+  /** Prerelease number, or hotfix letter (a = 1) of a release */
+  stageNumber: number;
+}
+
+const STAGES: Record<string, number> = { alpha: 0, beta: 1, rc: 2, pre: 2 };
+const RELEASE_STAGE = 3;
+
+const DASHED_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[.\-_](\d+))?$/;
+/** A lone trailing letter is a hotfix (7.3.5a), not an alpha */
+const DOTTED =
+  /^(\d+(?:\.\d+)*)(?:[\s.\-_]?(alpha|beta|rc|pre)(?:[\s.\-_]?(\d+))?|([a-z]))?$/;
+/** A leading component this long is a compact date (20250115) */
+const DATE_DIGITS = 8;
+
+/**
+ * Splits off the text before the first digit ("Details.", "v") so that
+ * labels sharing a name can be compared by their numbers.
+ */
+function splitPrefix(label: string): { prefix: string; rest: string } {
+  const prefix = label.match(/^\D*/)?.[0] ?? "";
+  return {
+    prefix: prefix.replace(/v$/, "").replace(/[\s._#-]+/g, ""),
+    rest: label.slice(prefix.length),
+  };
+}
+
+function parseVersion(rest: string): ParsedVersion | null {
+  const date = rest.match(DASHED_DATE);
+  if (date) {
+    return {
+      parts: [Number(`${date[1]}${date[2]}${date[3]}`), Number(date[4] ?? 0)],
+      scheme: "date",
+      stage: RELEASE_STAGE,
+      stageNumber: 0,
+    };
+  }
+
+  const match = rest.match(DOTTED);
+  if (!match?.[1]) return null;
+  const parts = match[1].split(".").map(Number);
+  return {
+    parts,
+    scheme: match[1].split(".")[0]?.length === DATE_DIGITS ? "date" : "dotted",
+    stage: match[2] ? (STAGES[match[2]] ?? RELEASE_STAGE) : RELEASE_STAGE,
+    stageNumber: match[4]
+      ? match[4].charCodeAt(0) - "a".charCodeAt(0) + 1
+      : Number(match[3] ?? 0),
+  };
+}
+
+function compareParsed(a: ParsedVersion, b: ParsedVersion): number {
+  const len = Math.max(a.parts.length, b.parts.length);
+  for (let i = 0; i < len; i++) {
+    // Missing components count as zero, so 1.2 equals 1.2.0
+    const diff = (a.parts[i] ?? 0) - (b.parts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  if (a.stage !== b.stage) return a.stage - b.stage;
+  return a.stageNumber - b.stageNumber;
+}
+
+/**
+ * Compares two version labels. Understands semver and WoW-style dotted
+ * versions (with or without a leading "v" or addon name), dates in
+ * YYYY-MM-DD or YYYYMMDD form, and alpha/beta/rc suffixes, which rank
+ * below the release they lead up to. A single trailing letter ranks above
+ * it, as WoW addons use those for hotfixes.
+ *
+ * @returns Negative if a < b, positive if a > b, 0 if equivalent,
+ *          or null if the labels can't be ordered
+ */
+export function compareVersionLabels(a: string, b: string): number | null {
+  const left = splitPrefix(a.trim().toLowerCase());
+  const right = splitPrefix(b.trim().toLowerCase());
+  if (left.prefix !== right.prefix) return null;
+
+  const leftVersion = parseVersion(left.rest);
+  const rightVersion = parseVersion(right.rest);
+  if (!leftVersion || !rightVersion) {
+    return left.rest === right.rest ? 0 : null;
+  }
+  if (leftVersion.scheme !== rightVersion.scheme) return null;
+  return compareParsed(leftVersion, rightVersion);
+}
+
+/**
+ * Picks the highest version-like tag, skipping the rest (nightly, latest,
+ * or tags carrying a name). Tags are only ordered against tags of the same
+ * scheme as the first version-like one, since dates and dotted versions
+ * can't be compared.
+ *
+ * @param tags - Candidate tags (anything with a name)
+ * @param includePrerelease - Whether tags like 1.2.0-beta.1 may be selected
+ */
+export function selectLatestTag<T extends { name: string }>(
+  tags: T[],
+  includePrerelease = true,
+): T | null {
+  let best: { tag: T; version: ParsedVersion } | null = null;
+
+  for (const tag of tags) {
+    const { prefix, rest } = splitPrefix(tag.name.trim().toLowerCase());
+    const version = prefix ? null : parseVersion(rest);
+    if (!version) continue;
+    if (!includePrerelease && version.stage < RELEASE_STAGE) continue;
+    if (
+      !best ||
+      (version.scheme === best.version.scheme &&
+        compareParsed(version, best.version) > 0)
+    ) {
+      best = { tag, version };
+    }
+  }
+
+  return best?.tag ?? null;
+}
+
+/**
+ * Classifies a remote version against the installed one.
+ */
+export function getVersionDelta(
+  local: string | null | undefined,
+  remote: string,
+): VersionDelta {
+  if (!local) return "different";
+  if (local === remote) return "equivalent";
+
+  const order = compareVersionLabels(remote, local);
+  if (order === null) return "different";
+  if (order > 0) return "upgrade";
+  if (order < 0) return "downgrade";
+  return "equivalent";
+}
+
+/**
+ * Whether a delta should be offered as an update. Versions that differ
+ * without an order still are, since the remote is what the source serves.
+ */
+export function isUpdate(delta: VersionDelta): boolean {
+  return delta === "upgrade" || delta === "different";
+}
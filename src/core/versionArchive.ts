@@ -0,0 +1,138 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { type AddonRecord, AddonRecordSchema } from "./db";
+import { logger } from "./logger";
+
+/**
+ * An installed version that was replaced, kept so it can be restored.
+ * Each archive entry is a directory holding copies of the addon's folders
+ * next to a metadata file with the record they were installed under.
+ */
+export interface ArchivedVersion {
+  /** Directory of the archive entry */
+  path: string;
+  archivedAt: string;
+  /** The addon's record while this version was installed */
+  record: AddonRecord;
+  /** Addon folders stored in the entry */
+  folders: string[];
+}
+
+const METADATA_FILE = "lemonup-version.json";
+
+let archiveDir: string | null = null;
+
+/**
+ * Sets where replaced versions are archived. Null disables the archive.
+ */
+export function setVersionArchiveDir(dir: string | null): void {
+  archiveDir = dir;
+}
+
+export function getVersionArchiveDir(): string | null {
+  return archiveDir;
+}
+
+/**
+ * Path for a new archive entry of an addon, e.g.
+ * <archive>/ElvUI/2025-01-15T20-00-00-000Z. Null when the archive is off.
+ */
+export function createEntryPath(folder: string): string | null {
+  if (!archiveDir) return null;
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return path.join(archiveDir, folder, timestamp);
+}
+
+/**
+ * Records which version the folders copied into an entry belong to.
+ */
+export async function writeEntry(
+  entryPath: string,
+  record: AddonRecord,
+): Promise<void> {
+  await fs.mkdir(entryPath, { recursive: true });
+  await Bun.write(
+    path.join(entryPath, METADATA_FILE),
+    JSON.stringify({ archivedAt: new Date().toISOString(), record }, null, 2),
+  );
+}
+
+/**
+ * Reads an archive entry, or null if it is missing or damaged.
+ */
+export async function readEntry(
+  entryPath: string,
+): Promise<ArchivedVersion | null> {
+  try {
+    const metadata = await Bun.file(path.join(entryPath, METADATA_FILE)).json();
+    const entries = await fs.readdir(entryPath, { withFileTypes: true });
+    return {
+      path: entryPath,
+      archivedAt: String(metadata.archivedAt),
+      record: AddonRecordSchema.parse(metadata.record),
+      folders: entries.filter((e) => e.isDirectory()).map((e) => e.name),
+    };
+  } catch (error) {
+    logger.error("VersionArchive", `Unreadable entry ${entryPath}`, error);
+    return null;
+  }
+}
+
+/**
+ * Lists the archived versions of an addon, newest first.
+ */
+export async function listVersions(folder: string): Promise<ArchivedVersion[]> {
+  if (!archiveDir) return [];
+  const addonDir = path.join(archiveDir, folder);
+  const names = await fs.readdir(addonDir).catch(() => [] as string[]);
+
+  const versions: ArchivedVersion[] = [];
+  for (const name of names) {
+    const entry = await readEntry(path.join(addonDir, name));
+    if (entry) versions.push(entry);
+  }
+  return versions.sort((a, b) => b.archivedAt.localeCompare(a.archivedAt));
+}
+
+/**
+ * Copies an addon's installed folders into a new archive entry.
+ * @returns The entry, or null if the archive is off or nothing is installed
+ */
+export async function archiveInstalled(
+  record: AddonRecord,
+  destDir: string,
+): Promise<string | null> {
+  const entryPath = createEntryPath(record.folder);
+  if (!entryPath) return null;
+
+  let copied = 0;
+  for (const folder of [record.folder, ...record.ownedFolders]) {
+    const source = path.join(destDir, folder);
+    const stat = await fs.stat(source).catch(() => null);
+    if (!stat?.isDirectory()) continue;
+    await fs.cp(source, path.join(entryPath, folder), { recursive: true });
+    copied++;
+  }
+  if (copied === 0) return null;
+
+  await writeEntry(entryPath, record);
+  return entryPath;
+}
+
+export async function removeEntry(entryPath: string): Promise<void> {
+  await fs.rm(entryPath, { recursive: true, force: true });
+}
+
+/**
+ * Deletes all but the newest `retention` versions of an addon.
+ */
+export async function pruneVersions(
+  folder: string,
+  retention: number,
+): Promise<void> {
+  if (retention < 1) return;
+  const versions = await listVersions(folder);
+  for (const version of versions.slice(retention)) {
+    await removeEntry(version.path);
+  }
+}
@@ -11,6 +11,8 @@ const WagoReleaseSchema = z
     download_link: z.string().optional(),
     link: z.string().optional(),
     supported_patches: z.array(z.string()).optional(),
+    /** Release notes the author entered for this release */
+    changelog: z.string().nullable().optional(),
   })
   .loose();
 
@@ -153,6 +155,45 @@ export function getBestAvailableStability(
   return null;
 }
 
+/** Stabilities each channel accepts, from most to least stable */
+const CHANNEL_STABILITIES: Record<WagoStability, WagoStability[]> = {
+  stable: ["stable"],
+  beta: ["stable", "beta"],
+  alpha: ["stable", "beta", "alpha"],
+};
+
+function isNewerRelease(a: WagoRelease, b: WagoRelease): boolean {
+  if (a.logical_timestamp !== undefined && b.logical_timestamp !== undefined) {
+    return a.logical_timestamp > b.logical_timestamp;
+  }
+  return (
+    (Date.parse(a.created_at ?? "") || 0) >
+    (Date.parse(b.created_at ?? "") || 0)
+  );
+}
+
+/**
+ * Picks the release to install for a channel: the newest one that is at
+ * least as stable as the channel, so beta followers move on to a stable
+ * release published after the last beta. Falls back to the best available
+ * release when the channel has none.
+ */
+export function selectStability(
+  addon: WagoAddonSummary,
+  channel: WagoStability = "stable",
+): WagoStability | null {
+  let selected: { stability: WagoStability; release: WagoRelease } | null =
+    null;
+  for (const stability of CHANNEL_STABILITIES[channel]) {
+    const release = addon.releases[stability];
+    if (!release) continue;
+    if (!selected || isNewerRelease(release, selected.release)) {
+      selected = { stability, release };
+    }
+  }
+  return selected?.stability ?? getBestAvailableStability(addon);
+}
+
 /**
  * Extracts addon ID from a Wago URL.
  * Supports: https://addons.wago.io/addons/<id>
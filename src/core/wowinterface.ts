@@ -7,6 +7,8 @@ export interface WoWInterfaceAddonDetails {
   UIDownload: string;
   UIAuthorName: string;
   UIFileName: string;
+  /** Release notes in BBCode, absent on some older uploads */
+  UIChangeLog?: string;
 }
 
 export type GetAddonDetailsResult =
@@ -9,9 +9,11 @@ import { FirstRunWizard } from "./FirstRunWizard";
 import { useAddonManagerEvent } from "./hooks/useAddonManager";
 import { useProgressBar } from "./hooks/useProgressBar";
 import { ConfigScreen } from "./screens/ConfigScreen";
+import { HistoryScreen } from "./screens/HistoryScreen";
 import { InstallScreen } from "./screens/InstallScreen";
 import { MainMenu } from "./screens/MainMenu";
 import { ManageScreen } from "./screens/ManageScreen";
+import { UpdatesScreen } from "./screens/UpdatesScreen";
 import { WagoSearchScreen } from "./screens/WagoSearchScreen";
 import { useAppStore } from "./store/useAppStore";
 
@@ -108,6 +110,7 @@ const AppContent: React.FC<AppProps> = ({
   );
   const setDevMode = useAppStore((state) => state.setDevMode);
   const setNextCheckTime = useAppStore((state) => state.setNextCheckTime);
+  const setGitHubRateLimit = useAppStore((state) => state.setGitHubRateLimit);
   const showToast = useAppStore((state) => state.showToast);
   const showOnboarding = useAppStore((state) => state.showOnboarding);
   const clearOnboarding = useAppStore((state) => state.clearOnboarding);
@@ -292,6 +295,10 @@ const AppContent: React.FC<AppProps> = ({
     }
   });
 
+  useAddonManagerEvent(addonManager, "github:ratelimit", (state) => {
+    setGitHubRateLimit({ ...state });
+  });
+
   useAddonManagerEvent(addonManager, "error", (context, _message) => {
     if (context.startsWith("Auto-check")) {
       progressBar.warn();
@@ -357,6 +364,18 @@ const AppContent: React.FC<AppProps> = ({
         />
       )}
 
+      {activeScreen === "update" && config && addonManager && (
+        <UpdatesScreen
+          config={config}
+          addonManager={addonManager}
+          force={force}
+          onBack={() => {
+            setConfig(addonManager.getConfig());
+            navigate("menu");
+          }}
+        />
+      )}
+
       {activeScreen === "manage" && config && addonManager && (
         <ManageScreen
           config={config}
@@ -381,6 +400,13 @@ const AppContent: React.FC<AppProps> = ({
         />
       )}
 
+      {activeScreen === "history" && addonManager && (
+        <HistoryScreen
+          addonManager={addonManager}
+          onBack={() => navigate("menu")}
+        />
+      )}
+
       {activeScreen === "config" && configManager && addonManager && (
         <ConfigScreen
           configManager={configManager}
@@ -0,0 +1,101 @@
+import { Box, Text } from "ink";
+import Color from "ink-color-pipe";
+import type React from "react";
+import { useTheme } from "@/tui/hooks/useTheme";
+
+interface ChangelogPanelProps {
+  addonName: string;
+  fromVersion: string | null;
+  toVersion: string;
+  /** Wrapped changelog lines, null while loading or when there are none */
+  lines: string[] | null;
+  loading: boolean;
+  error?: string;
+  /** First visible line */
+  offset: number;
+  height: number;
+}
+
+function shortVersion(version: string): string {
+  return /^[a-f0-9]{40}$/i.test(version) ? version.substring(0, 7) : version;
+}
+
+/**
+ * Breaks changelog text into lines that fit the given width, so scrolling
+ * can move one terminal row at a time.
+ */
+export function wrapChangelog(text: string, width: number): string[] {
+  const lines: string[] = [];
+  for (const line of text.split("\n")) {
+    let rest = line;
+    while (rest.length > width) {
+      const space = rest.lastIndexOf(" ", width);
+      const cut = space > 0 ? space : width;
+      lines.push(rest.slice(0, cut));
+      // Continuation lines line up with the text of list items
+      const indent = /^\s*- /.test(line) ? "  " : "";
+      rest = indent + rest.slice(cut).trimStart();
+    }
+    lines.push(rest);
+  }
+  return lines;
+}
+
+/**
+ * Shows what changed in an addon's pending update, scrolled to `offset`.
+ */
+export const ChangelogPanel: React.FC<ChangelogPanelProps> = ({
+  addonName,
+  fromVersion,
+  toVersion,
+  lines,
+  loading,
+  error,
+  offset,
+  height,
+}) => {
+  const { theme } = useTheme();
+  const visible = lines?.slice(offset, offset + height) ?? [];
+  const hasMore = !!lines && offset + height < lines.length;
+
+  return (
+    <Box flexDirection="column" paddingX={2} width="100%">
+      <Box>
+        <Color styles={theme.heading}>
+          <Text>Changelog of {addonName} </Text>
+        </Color>
+        <Color styles={theme.muted}>
+          <Text>
+            {fromVersion ? `${shortVersion(fromVersion)} → ` : ""}
+            {shortVersion(toVersion)}
+          </Text>
+        </Color>
+      </Box>
+      {loading ? (
+        <Color styles={theme.muted}>
+          <Text>Fetching changelog...</Text>
+        </Color>
+      ) : error ? (
+        <Color styles={theme.statusError}>
+          <Text>{error}</Text>
+        </Color>
+      ) : !lines ? (
+        <Color styles={theme.muted}>
+          <Text>No changelog published for this version.</Text>
+        </Color>
+      ) : (
+        <Box flexDirection="column" height={height}>
+          {visible.map((line, idx) => (
+            // biome-ignore lint/suspicious/noArrayIndexKey: lines have no identity beyond position
+            <Text key={offset + idx}>{line || " "}</Text>
+          ))}
+        </Box>
+      )}
+      <Color styles={theme.muted}>
+        <Text>
+          {hasMore ? "↓ more  " : ""}[↑/↓] scroll [u] update [esc] close
+        </Text>
+      </Color>
+    </Box>
+  );
+};
@@ -0,0 +1,147 @@
+import { Box, Text } from "ink";
+import Color from "ink-color-pipe";
+import type React from "react";
+import {
+  type DigestEntry,
+  formatVersionChange,
+  summarizeDigest,
+  type UpdateDigest,
+} from "@/core/digest";
+import { useTheme } from "@/tui/hooks/useTheme";
+
+interface DigestPanelProps {
+  digest: UpdateDigest;
+  /** First visible row */
+  offset: number;
+  height: number;
+  /** Where the Markdown copy was written, if it was */
+  savedPath?: string | null;
+  nerdFonts?: boolean;
+}
+
+type DigestRow =
+  | { kind: "section"; title: string; count: number }
+  | { kind: "updated" | "failed" | "skipped"; entry: DigestEntry }
+  | { kind: "blank" };
+
+/**
+ * Flattens the digest into one row per terminal line, so the panel can
+ * scroll through long batches.
+ */
+export function getDigestRows(digest: UpdateDigest): DigestRow[] {
+  const rows: DigestRow[] = [];
+  const sections = [
+    ["Updated", "updated", digest.updated],
+    ["Failed", "failed", digest.failed],
+    ["Skipped", "skipped", digest.skipped],
+  ] as const;
+
+  for (const [title, kind, entries] of sections) {
+    if (entries.length === 0) continue;
+    if (rows.length > 0) rows.push({ kind: "blank" });
+    rows.push({ kind: "section", title, count: entries.length });
+    for (const entry of entries) rows.push({ kind, entry });
+  }
+  return rows;
+}
+
+/**
+ * Shows what a batch update changed, scrolled to `offset`.
+ */
+export const DigestPanel: React.FC<DigestPanelProps> = ({
+  digest,
+  offset,
+  height,
+  savedPath,
+  nerdFonts = true,
+}) => {
+  const { theme } = useTheme();
+  const rows = getDigestRows(digest);
+  const visible = rows.slice(offset, offset + height);
+  const hasMore = offset + height < rows.length;
+
+  return (
+    <Box flexDirection="column" paddingX={2} width="100%">
+      <Box>
+        <Color styles={theme.heading}>
+          <Text>Update digest </Text>
+        </Color>
+        <Color styles={theme.muted}>
+          <Text>{summarizeDigest(digest)}</Text>
+        </Color>
+      </Box>
+      <Box flexDirection="column" height={height}>
+        {visible.map((row, idx) => {
+          const key = offset + idx;
+          if (row.kind === "blank") return <Text key={key}> </Text>;
+          if (row.kind === "section") {
+            return (
+              <Color key={key} styles={theme.heading}>
+                <Text>
+                  {row.title} ({row.count})
+                </Text>
+              </Color>
+            );
+          }
+
+          const { entry } = row;
+          const detail = row.kind === "updated" ? entry.headline : entry.reason;
+          return (
+            <Box key={key}>
+              <Box width={3} flexShrink={0}>
+                <Color
+                  styles={
+                    row.kind === "updated"
+                      ? theme.statusSuccess
+                      : row.kind === "failed"
+                        ? theme.statusError
+                        : theme.muted
+                  }
+                >
+                  <Text>
+                    {row.kind === "updated"
+                      ? nerdFonts
+                        ? "✔"
+                        : "V"
+                      : row.kind === "failed"
+                        ? nerdFonts
+                          ? "✘"
+                          : "X"
+                        : "-"}
+                  </Text>
+                </Color>
+              </Box>
+              <Box flexGrow={1} flexShrink={1} minWidth={15} flexBasis="25%">
+                <Text wrap="truncate-end">{entry.name}</Text>
+              </Box>
+              {row.kind === "updated" && (
+                <Box width={30} flexShrink={0}>
+                  <Color styles={theme.version}>
+                    <Text wrap="truncate-end">
+                      {formatVersionChange(entry)}
+                    </Text>
+                  </Color>
+                </Box>
+              )}
+              <Box flexGrow={2} flexShrink={1} flexBasis="40%">
+                <Color
+                  styles={
+                    row.kind === "failed" ? theme.statusError : theme.muted
+                  }
+                >
+                  <Text wrap="truncate-end">{detail ?? ""}</Text>
+                </Color>
+              </Box>
+            </Box>
+          );
+        })}
+      </Box>
+      <Color styles={theme.muted}>
+        <Text>
+          {hasMore ? "↓ more  " : ""}
+          {savedPath ? `Saved to ${savedPath}  ` : ""}[↑/↓] scroll [esc] close
+        </Text>
+      </Color>
+    </Box>
+  );
+};
@@ -4,6 +4,7 @@ import Gradient from "ink-gradient";
 import Spinner from "ink-spinner";
 import type React from "react";
 import { useEffect, useState } from "react";
+import type { GitHubRateLimit } from "@/core/github";
 import { useTheme } from "@/tui/hooks/useTheme";
 import { useAppStore } from "@/tui/store/useAppStore";
 import pkg from "../../../package.json";
@@ -18,6 +19,30 @@ const LOGO_TEXT = `
 █▄▄ ██▄ █ ▀ █ █▄█ █ ▀█ █▄█ █▀▀
 `.trim();
 
+/**
+ * Short GitHub quota summary, or null while nothing is worth showing.
+ */
+function formatRateLimit(
+  state: GitHubRateLimit | null,
+  now: number,
+): { text: string; level: "muted" | "warning" | "error" } | null {
+  if (!state || state.limit === null || state.remaining === null) return null;
+
+  if (state.blockedUntil && state.blockedUntil > now) {
+    const resets = new Date(state.blockedUntil).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    return { text: `GH rate limited · resets ${resets}`, level: "error" };
+  }
+
+  const text = `GH ${state.remaining}/${state.limit}`;
+  return {
+    text,
+    level: state.remaining < state.limit * 0.1 ? "warning" : "muted",
+  };
+}
+
 interface HeaderProps {
   dryRun?: boolean;
   isBusy?: boolean;
@@ -35,6 +60,8 @@ export const Header: React.FC<HeaderProps> = ({
     (state) => state.isBackgroundChecking,
   );
   const nextCheckTime = useAppStore((state) => state.nextCheckTime);
+  const githubRateLimit = useAppStore((state) => state.githubRateLimit);
+  const rateLimit = formatRateLimit(githubRateLimit, Date.now());
   const { stdout } = useStdout();
   const [dims, setDims] = useState({
     cols: stdout.columns ?? 80,
@@ -127,6 +154,13 @@ export const Header: React.FC<HeaderProps> = ({
             </Color>
           </Box>
         )}
+        {rateLimit && (
+          <Box marginLeft={2}>
+            <Color styles={theme[rateLimit.level]}>
+              <Text>{rateLimit.text}</Text>
+            </Color>
+          </Box>
+        )}
         {isBusy && (
           <Box marginLeft={2}>
             <Color styles={theme.busy}>
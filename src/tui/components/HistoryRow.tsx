@@ -0,0 +1,103 @@
+import { Box, Text } from "ink";
+import Color from "ink-color-pipe";
+import type React from "react";
+import type { HistoryAction, HistoryEntry } from "@/core/db";
+import { shortVersion } from "@/core/digest";
+import { SourceBadge } from "@/tui/components/RepositoryRow";
+import { useTheme } from "@/tui/hooks/useTheme";
+
+interface HistoryRowProps {
+  entry: HistoryEntry;
+  isSelected?: boolean;
+}
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  install: "Install",
+  update: "Update",
+  remove: "Remove",
+  rollback: "Rollback",
+  kind: "Kind",
+  source: "Source",
+};
+
+/** Local date and time to the minute, e.g. "2026-10-13 21:04" */
+export function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function describeChange(entry: HistoryEntry): string {
+  switch (entry.action) {
+    case "install":
+      return entry.toVersion ? shortVersion(entry.toVersion) : "";
+    case "remove":
+      return shortVersion(entry.fromVersion);
+    default:
+      return `${shortVersion(entry.fromVersion)} → ${shortVersion(entry.toVersion)}`;
+  }
+}
+
+export const HistoryRow: React.FC<HistoryRowProps> = ({
+  entry,
+  isSelected = false,
+}) => {
+  const { theme } = useTheme();
+  const failed = entry.outcome === "failed";
+
+  const actionStyle = failed
+    ? theme.statusError
+    : entry.action === "remove"
+      ? theme.warning
+      : entry.action === "rollback" ||
+          entry.action === "kind" ||
+          entry.action === "source"
+        ? theme.statusChecking
+        : theme.statusSuccess;
+
+  return (
+    <Box paddingX={2} width="100%">
+      <Box width={2} flexShrink={0}>
+        <Color styles={theme.selection}>
+          <Text>{isSelected ? ">" : " "}</Text>
+        </Color>
+      </Box>
+
+      <Box width={18} flexShrink={0}>
+        <Color styles={theme.muted}>
+          <Text>{formatTimestamp(entry.timestamp)}</Text>
+        </Color>
+      </Box>
+
+      <Box width={10} flexShrink={0}>
+        <Color styles={actionStyle}>
+          <Text>{ACTION_LABELS[entry.action]}</Text>
+        </Color>
+      </Box>
+
+      <Box flexGrow={1} flexShrink={1} minWidth={15} flexBasis="20%">
+        <Color styles={isSelected ? theme.selection : undefined}>
+          <Text wrap="truncate-end">{entry.name}</Text>
+        </Color>
+      </Box>
+
+      <Box width={30} flexShrink={0}>
+        <Color styles={theme.version}>
+          <Text wrap="truncate-end">{describeChange(entry)}</Text>
+        </Color>
+      </Box>
+
+      <Box width={9} flexShrink={0}>
+        {entry.source ? <SourceBadge type={entry.source} /> : <Text> </Text>}
+      </Box>
+
+      <Box flexGrow={2} flexShrink={1} flexBasis="25%">
+        <Color styles={failed ? theme.statusError : theme.muted}>
+          <Text wrap="truncate-end">
+            {entry.message ?? (failed ? "Failed" : "")}
+          </Text>
+        </Color>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,118 @@
+import { Box, Text } from "ink";
+import Color from "ink-color-pipe";
+import Spinner from "ink-spinner";
+import type React from "react";
+import { shortVersion } from "@/core/digest";
+import type { PendingUpdate } from "@/core/manager";
+import { getInstalledVersion } from "@/core/sources";
+import { SourceBadge } from "@/tui/components/RepositoryRow";
+import { useTheme } from "@/tui/hooks/useTheme";
+
+export type PendingUpdateStatus =
+  | "pending"
+  | "updating"
+  | "updated"
+  | "skipped"
+  | "failed";
+
+interface PendingUpdateRowProps {
+  update: PendingUpdate;
+  status: PendingUpdateStatus;
+  /** Failure or skip reason, shown in place of the changelog */
+  message?: string;
+  /** First line of the changelog, null when there is none */
+  snippet?: string | null;
+  nerdFonts?: boolean;
+  isSelected?: boolean;
+  isChecked?: boolean;
+}
+
+export const PendingUpdateRow: React.FC<PendingUpdateRowProps> = ({
+  update,
+  status,
+  message,
+  snippet,
+  nerdFonts = true,
+  isSelected = false,
+  isChecked = false,
+}) => {
+  const { theme } = useTheme();
+  const { addon, displayVersion } = update;
+  const installedVersion = getInstalledVersion(addon);
+
+  const icon =
+    status === "updating" ? (
+      <Color styles={theme.statusWorking}>
+        <Text>{nerdFonts ? <SpinnerFixed type="dots" /> : "↓"}</Text>
+      </Color>
+    ) : status === "updated" ? (
+      <Color styles={theme.statusSuccess}>
+        <Text>{nerdFonts ? "✔" : "V"}</Text>
+      </Color>
+    ) : status === "failed" ? (
+      <Color styles={theme.statusError}>
+        <Text>{nerdFonts ? "✘" : "X"}</Text>
+      </Color>
+    ) : status === "skipped" ? (
+      <Color styles={theme.muted}>
+        <Text>-</Text>
+      </Color>
+    ) : (
+      <Text> </Text>
+    );
+
+  return (
+    <Box paddingX={2} width="100%">
+      <Box width={3} flexShrink={0}>
+        <Color styles={theme.selection}>
+          <Text>{isSelected ? ">" : " "}</Text>
+        </Color>
+        <Color styles={isChecked ? theme.checked : theme.unchecked}>
+          <Text>{isChecked ? (nerdFonts ? "●" : "*") : " "}</Text>
+        </Color>
+      </Box>
+
+      <Box width={3} flexShrink={0}>
+        {icon}
+      </Box>
+
+      <Box flexGrow={1} flexShrink={1} minWidth={15} flexBasis="20%">
+        <Color styles={isSelected ? theme.selection : undefined}>
+          <Text wrap="truncate-end">{addon.name}</Text>
+        </Color>
+      </Box>
+
+      <Box width={30} flexShrink={0}>
+        <Color styles={theme.version}>
+          <Text wrap="truncate-end">
+            {shortVersion(installedVersion)} → {shortVersion(displayVersion)}
+            {update.delta === "downgrade" ? " (older)" : ""}
+          </Text>
+        </Color>
+      </Box>
+
+      <Box width={9} flexShrink={0}>
+        <SourceBadge type={addon.type} />
+      </Box>
+
+      <Box flexGrow={2} flexShrink={1} flexBasis="30%">
+        {message ? (
+          <Color styles={status === "failed" ? theme.statusError : theme.muted}>
+            <Text wrap="truncate-end">{message}</Text>
+          </Color>
+        ) : (
+          <Color styles={theme.muted}>
+            <Text wrap="truncate-end">
+              {snippet === undefined ? "…" : (snippet ?? "No changelog")}
+            </Text>
+          </Color>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+// Workaround for React 19 + Ink type mismatch
+const SpinnerFixed = Spinner as unknown as React.FC<{
+  type?: string;
+}>;
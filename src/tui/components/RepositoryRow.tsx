@@ -4,6 +4,7 @@ import Spinner from "ink-spinner";
 import type React from "react";
 import type { AddonRecord } from "@/core/db";
 import type { UpdateResult } from "@/core/manager";
+import { isGitSource } from "@/core/sources";
 import { useTheme } from "@/tui/hooks/useTheme";
 
 export type RepoStatus =
@@ -27,6 +28,56 @@ interface RepositoryRowProps {
   showLibs?: boolean;
 }
 
+/**
+ * Short colored tag naming where an addon is installed from.
+ */
+export const SourceBadge: React.FC<{ type: AddonRecord["type"] }> = ({
+  type,
+}) => {
+  const { theme } = useTheme();
+  return type === "tukui" ? (
+    <Color styles={theme.repoTukui}>
+      <Text>[TukUI]</Text>
+    </Color>
+  ) : type === "wowinterface" ? (
+    <Color styles={theme.repoWowi}>
+      <Text>[WoWI]</Text>
+    </Color>
+  ) : type === "wago" ? (
+    <Color styles={theme.repoWago}>
+      <Text>[Wago]</Text>
+    </Color>
+  ) : type === "curseforge" ? (
+    <Color styles={theme.repoCurseforge}>
+      <Text>[CF]</Text>
+    </Color>
+  ) : type === "gitlab" ? (
+    <Color styles={theme.repoGitlab}>
+      <Text>[GitLab]</Text>
+    </Color>
+  ) : type === "gitea" ? (
+    <Color styles={theme.repoGitea}>
+      <Text>[Gitea]</Text>
+    </Color>
+  ) : type === "zip" ? (
+    <Color styles={theme.repoZip}>
+      <Text>[Zip]</Text>
+    </Color>
+  ) : type === "local" ? (
+    <Color styles={theme.repoLocal}>
+      <Text>[Local]</Text>
+    </Color>
+  ) : type === "manual" ? (
+    <Color styles={theme.repoManual}>
+      <Text>[Manual]</Text>
+    </Color>
+  ) : (
+    <Color styles={theme.repoGit}>
+      <Text>[Git]</Text>
+    </Color>
+  );
+};
+
 export const RepositoryRow: React.FC<RepositoryRowProps> = ({
   repo,
   status,
@@ -50,28 +101,7 @@ export const RepositoryRow: React.FC<RepositoryRowProps> = ({
     </Color>
   );
 
-  const typeLabel =
-    repo.type === "tukui" ? (
-      <Color styles={theme.repoTukui}>
-        <Text>[TukUI]</Text>
-      </Color>
-    ) : repo.type === "wowinterface" ? (
-      <Color styles={theme.repoWowi}>
-        <Text>[WoWI]</Text>
-      </Color>
-    ) : repo.type === "wago" ? (
-      <Color styles={theme.repoWago}>
-        <Text>[Wago]</Text>
-      </Color>
-    ) : repo.type === "manual" ? (
-      <Color styles={theme.repoManual}>
-        <Text>[Manual]</Text>
-      </Color>
-    ) : (
-      <Color styles={theme.repoGit}>
-        <Text>[Git]</Text>
-      </Color>
-    );
+  const typeLabel = <SourceBadge type={repo.type} />;
 
   switch (status) {
     case "idle":
@@ -119,7 +149,9 @@ export const RepositoryRow: React.FC<RepositoryRowProps> = ({
       if (
         repo.type === "tukui" ||
         repo.type === "wowinterface" ||
-        repo.type === "wago"
+        repo.type === "wago" ||
+        repo.type === "zip" ||
+        repo.tracking === "release"
       ) {
         statusText = (
           <Color styles={theme.statusWorking}>
@@ -296,6 +328,24 @@ export const RepositoryRow: React.FC<RepositoryRowProps> = ({
             <Text>({displayVersion})</Text>
           </Color>
         ) : null}
+        {repo.pinned ? (
+          <Color styles={theme.pinned}>
+            <Text> {nerdFonts ? "📌" : "[Pin]"}</Text>
+          </Color>
+        ) : null}
+        {isGitSource(repo.type) &&
+        (repo.tracking ?? "branch") === "branch" &&
+        repo.branch &&
+        repo.branch !== "main" ? (
+          <Color styles={theme.muted}>
+            <Text> @{repo.branch}</Text>
+          </Color>
+        ) : null}
+        {repo.type === "wago" && repo.channel && repo.channel !== "stable" ? (
+          <Color styles={theme.muted}>
+            <Text> [{repo.channel}]</Text>
+          </Color>
+        ) : null}
       </Box>
 
       <Box flexGrow={1} flexShrink={1} minWidth={10} flexBasis="15%">
@@ -0,0 +1,68 @@
+import { Box, Text } from "ink";
+import Color from "ink-color-pipe";
+import type React from "react";
+import type { ArchivedVersion } from "@/core/versionArchive";
+import { useTheme } from "@/tui/hooks/useTheme";
+
+interface VersionsPanelProps {
+  addonName: string;
+  versions: ArchivedVersion[];
+  selectedIndex: number;
+}
+
+/**
+ * Lists the archived versions of one addon for restoring.
+ */
+export const VersionsPanel: React.FC<VersionsPanelProps> = ({
+  addonName,
+  versions,
+  selectedIndex,
+}) => {
+  const { theme } = useTheme();
+
+  return (
+    <Box flexDirection="column" paddingX={2} width="100%">
+      <Color styles={theme.heading}>
+        <Text>Versions of {addonName}</Text>
+      </Color>
+      {versions.length === 0 ? (
+        <Color styles={theme.muted}>
+          <Text>No replaced versions archived yet.</Text>
+        </Color>
+      ) : (
+        versions.map((version, idx) => {
+          const isSelected = idx === selectedIndex;
+          const label = version.record.version ?? "unknown";
+          return (
+            <Box key={version.path}>
+              <Box width={3} flexShrink={0}>
+                <Color styles={theme.selection}>
+                  <Text>{isSelected ? ">" : " "}</Text>
+                </Color>
+              </Box>
+              <Box flexGrow={1} flexShrink={1}>
+                <Color styles={isSelected ? theme.selection : theme.version}>
+                  <Text wrap="truncate-end">
+                    {/^[a-f0-9]{40}$/i.test(label)
+                      ? label.substring(0, 7)
+                      : label}
+                  </Text>
+                </Color>
+              </Box>
+              <Box width={34} flexShrink={0}>
+                <Color styles={theme.muted}>
+                  <Text>
+                    replaced {new Date(version.archivedAt).toLocaleString()}
+                  </Text>
+                </Color>
+              </Box>
+            </Box>
+          );
+        })
+      )}
+      <Color styles={theme.muted}>
+        <Text>[enter] restore [esc] close</Text>
+      </Color>
+    </Box>
+  );
+};
@@ -3,7 +3,7 @@ import Color from "ink-color-pipe";
 import TextInput from "ink-text-input";
 import type React from "react";
 import { useEffect, useState } from "react";
-import type { ConfigManager } from "@/core/config";
+import type { Config, ConfigManager } from "@/core/config";
 import { logger } from "@/core/logger";
 import type { AddonManager } from "@/core/manager";
 import {
@@ -33,15 +33,33 @@ type Field =
   | "autoCheck"
   | "backupWTF"
   | "backupRetention"
+  | "versionRetention"
+  | "saveUpdateDigest"
   | "nerdFonts"
   | "terminalProgress"
   | "themeMode"
   | "debug"
   | "wagoApiKey"
+  | "githubToken"
+  | "curseforgeApiKey"
+  | "curseforgeReleaseType"
+  | "gitCacheMaxMB"
+  | "pruneGitCache"
   | "restartOnboarding"
   | "exportAddons"
   | "importAddons";
 
+/** CurseForge file types, from most to least stable */
+const CURSEFORGE_RELEASE_TYPES = ["release", "beta", "alpha"] as const;
+
+/** Git cache size limits in MB; 0 turns the cache off */
+const GIT_CACHE_STEPS = [0, 256, 512, 1024, 2048, 4096, 8192];
+
+const formatCacheSize = (mb: number) => {
+  if (mb === 0) return "Off";
+  return mb >= 1024 ? `${mb / 1024} GB` : `${mb} MB`;
+};
+
 const SectionHeader: React.FC<{
   title: string;
   first?: boolean;
@@ -76,11 +94,25 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
   const [autoCheckInterval, setAutoCheckInterval] = useState(60); // minutes
   const [backupWTF, setBackupWTF] = useState(true);
   const [backupRetention, setBackupRetention] = useState(5);
+  const [versionRetention, setVersionRetention] = useState(3);
+  const [saveUpdateDigest, setSaveUpdateDigest] = useState(false);
   const [terminalProgress, setTerminalProgress] = useState(true);
   const [debug, setDebug] = useState(false);
   const [wagoApiKey, setWagoApiKey] = useState("");
   const [isEditingWagoApiKey, setIsEditingWagoApiKey] = useState(false);
   const [isWagoKeyFromEnv, setIsWagoKeyFromEnv] = useState(false);
+  const [githubToken, setGithubToken] = useState("");
+  const [isEditingGithubToken, setIsEditingGithubToken] = useState(false);
+  const [isGithubTokenFromEnv, setIsGithubTokenFromEnv] = useState(false);
+  const [curseforgeApiKey, setCurseforgeApiKey] = useState("");
+  const [isEditingCurseforgeApiKey, setIsEditingCurseforgeApiKey] =
+    useState(false);
+  const [isCurseforgeKeyFromEnv, setIsCurseforgeKeyFromEnv] = useState(false);
+  const [curseforgeReleaseType, setCurseforgeReleaseType] =
+    useState<Config["curseforgeReleaseType"]>("release");
+  const [gitCacheMaxMB, setGitCacheMaxMB] = useState(1024);
+  const [gitCacheSize, setGitCacheSize] = useState<number | null>(null);
+  const [pruneStatus, setPruneStatus] = useState<"idle" | "pruning">("idle");
   const [commandHelp, setCommandHelp] = useState<string | null>(null);
 
   const [activeField, setActiveField] = useState<Field>("destDir");
@@ -156,15 +188,33 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
     setAutoCheckInterval(cfg.autoCheckInterval / 1000 / 60); // ms -> minutes
     setBackupWTF(cfg.backupWTF);
     setBackupRetention(cfg.backupRetention);
+    setVersionRetention(cfg.versionRetention);
+    setSaveUpdateDigest(cfg.saveUpdateDigest);
     setTerminalProgress(cfg.terminalProgress);
     setDebug(cfg.debug);
     setWagoApiKey(cfg.wagoApiKey);
+    setGitCacheMaxMB(cfg.gitCacheMaxMB);
 
     // Detect if wago key is from env var
     const envKey = process.env.WAGO_API_KEY;
     setIsWagoKeyFromEnv(!!envKey && cfg.wagoApiKey === envKey);
+
+    setGithubToken(cfg.githubToken);
+    const envToken = process.env.GITHUB_TOKEN;
+    setIsGithubTokenFromEnv(!!envToken && cfg.githubToken === envToken);
+
+    setCurseforgeApiKey(cfg.curseforgeApiKey);
+    const envCurseforgeKey = process.env.CURSEFORGE_API_KEY;
+    setIsCurseforgeKeyFromEnv(
+      !!envCurseforgeKey && cfg.curseforgeApiKey === envCurseforgeKey,
+    );
+    setCurseforgeReleaseType(cfg.curseforgeReleaseType);
   }, [configManager]);
 
+  useEffect(() => {
+    addonManager.getGitCacheSize().then(setGitCacheSize);
+  }, [addonManager]);
+
   useInput((input, key) => {
     // If editing destDir, trap all input except Enter/Escape
     if (isEditingDestDir) {
@@ -200,6 +250,40 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
       return;
     }
 
+    // If editing githubToken, trap all input except Enter/Escape
+    if (isEditingGithubToken) {
+      if (key.return) {
+        flashKey("enter");
+        configManager.set("githubToken", githubToken);
+        setIsEditingGithubToken(false);
+        showToast("Saved!", 1000);
+      } else if (key.escape) {
+        flashKey("esc");
+        // Revert changes
+        const cfg = configManager.get();
+        setGithubToken(cfg.githubToken);
+        setIsEditingGithubToken(false);
+      }
+      return;
+    }
+
+    // If editing curseforgeApiKey, trap all input except Enter/Escape
+    if (isEditingCurseforgeApiKey) {
+      if (key.return) {
+        flashKey("enter");
+        configManager.set("curseforgeApiKey", curseforgeApiKey);
+        setIsEditingCurseforgeApiKey(false);
+        showToast("Saved!", 1000);
+      } else if (key.escape) {
+        flashKey("esc");
+        // Revert changes
+        const cfg = configManager.get();
+        setCurseforgeApiKey(cfg.curseforgeApiKey);
+        setIsEditingCurseforgeApiKey(false);
+      }
+      return;
+    }
+
     const fields: Field[] = [
       "destDir",
       "maxConcurrent",
@@ -207,10 +291,17 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
       "autoCheck",
       "backupWTF",
       "backupRetention",
+      "versionRetention",
+      "saveUpdateDigest",
       "nerdFonts",
       "terminalProgress",
       "themeMode",
       "wagoApiKey",
+      "githubToken",
+      "curseforgeApiKey",
+      "curseforgeReleaseType",
+      "gitCacheMaxMB",
+      "pruneGitCache",
       "exportAddons",
       "importAddons",
       "debug",
@@ -399,6 +490,95 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
       }
     }
 
+    if (activeField === "versionRetention") {
+      if (key.leftArrow || input === "h") {
+        flashKey("←/→");
+        const newVal = Math.max(1, versionRetention - 1);
+        setVersionRetention(newVal);
+        configManager.set("versionRetention", newVal);
+        showToast("Saved!", 1000);
+      }
+      if (key.rightArrow || input === "l") {
+        flashKey("←/→");
+        const newVal = Math.min(20, versionRetention + 1);
+        setVersionRetention(newVal);
+        configManager.set("versionRetention", newVal);
+        showToast("Saved!", 1000);
+      }
+    }
+
+    if (activeField === "saveUpdateDigest") {
+      if (
+        key.leftArrow ||
+        key.rightArrow ||
+        input === "h" ||
+        input === "l" ||
+        input === " "
+      ) {
+        flashKey(input === " " ? "space" : "←/→");
+        setSaveUpdateDigest(!saveUpdateDigest);
+        configManager.set("saveUpdateDigest", !saveUpdateDigest);
+        showToast("Saved!", 1000);
+      }
+    }
+
+    if (activeField === "curseforgeReleaseType") {
+      const idx = CURSEFORGE_RELEASE_TYPES.indexOf(curseforgeReleaseType);
+      let next: Config["curseforgeReleaseType"] | undefined;
+      if (key.leftArrow || input === "h") {
+        next = CURSEFORGE_RELEASE_TYPES[Math.max(0, idx - 1)];
+      }
+      if (key.rightArrow || input === "l") {
+        next =
+          CURSEFORGE_RELEASE_TYPES[
+            Math.min(CURSEFORGE_RELEASE_TYPES.length - 1, idx + 1)
+          ];
+      }
+      if (next !== undefined) {
+        flashKey("←/→");
+        setCurseforgeReleaseType(next);
+        configManager.set("curseforgeReleaseType", next);
+        showToast("Saved!", 1000);
+      }
+    }
+
+    if (activeField === "gitCacheMaxMB") {
+      const idx = Math.max(0, GIT_CACHE_STEPS.indexOf(gitCacheMaxMB));
+      let next: number | undefined;
+      if (key.leftArrow || input === "h") {
+        next = GIT_CACHE_STEPS[Math.max(0, idx - 1)];
+      }
+      if (key.rightArrow || input === "l") {
+        next = GIT_CACHE_STEPS[Math.min(GIT_CACHE_STEPS.length - 1, idx + 1)];
+      }
+      if (next !== undefined) {
+        flashKey("←/→");
+        setGitCacheMaxMB(next);
+        configManager.set("gitCacheMaxMB", next);
+        showToast("Saved!", 1000);
+      }
+    }
+
+    if (activeField === "pruneGitCache" && pruneStatus === "idle") {
+      if (key.return || input === " ") {
+        flashKey("enter");
+        setPruneStatus("pruning");
+        addonManager
+          .pruneGitCache()
+          .then((result) => {
+            const freedMB = (result.freedBytes / 1024 / 1024).toFixed(1);
+            showToast(
+              `Pruned ${result.removed.length} repositories (${freedMB} MB)`,
+              3000,
+            );
+            return addonManager.getGitCacheSize();
+          })
+          .then(setGitCacheSize)
+          .catch(() => showToast("Prune failed", 2000))
+          .finally(() => setPruneStatus("idle"));
+      }
+    }
+
     if (activeField === "debug") {
       if (
         key.leftArrow ||
@@ -421,6 +601,20 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
       }
     }
 
+    if (activeField === "githubToken" && (key.return || input === " ")) {
+      if (!isGithubTokenFromEnv) {
+        flashKey("enter");
+        setIsEditingGithubToken(true);
+      }
+    }
+
+    if (activeField === "curseforgeApiKey" && (key.return || input === " ")) {
+      if (!isCurseforgeKeyFromEnv) {
+        flashKey("enter");
+        setIsEditingCurseforgeApiKey(true);
+      }
+    }
+
     if (activeField === "restartOnboarding") {
       if (key.return || input === " ") {
         flashKey(input === " " ? "space" : "enter");
@@ -626,6 +820,28 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
             </Text>
           </Color>
         </ConfigOption>
+        <ConfigOption
+          label="Addon Version Retention"
+          isActive={activeField === "versionRetention"}
+          helpText="Replaced versions kept per addon for rollback (v in Manage)."
+        >
+          <Color styles={theme.statusChecking}>
+            <Text bold>
+              {"◂"} {versionRetention} versions {"▸"}
+            </Text>
+          </Color>
+        </ConfigOption>
+        <ConfigOption
+          label="Save Update Digest"
+          isActive={activeField === "saveUpdateDigest"}
+          helpText="Writes update-digest.md to the config folder after updating several addons."
+        >
+          <Color
+            styles={saveUpdateDigest ? theme.statusSuccess : theme.statusError}
+          >
+            <Text bold>{saveUpdateDigest ? "Enabled" : "Disabled"}</Text>
+          </Color>
+        </ConfigOption>
 
         {/* Appearance */}
         <SectionHeader title="Appearance" theme={theme} />
@@ -704,6 +920,142 @@ export const ConfigScreen: React.FC<ScreenProps> = ({
           )}
         </ConfigOption>
 
+        <ConfigOption
+          label="GitHub Token"
+          isActive={activeField === "githubToken"}
+          helpText={
+            isGithubTokenFromEnv
+              ? "Token detected from GITHUB_TOKEN environment variable."
+              : isEditingGithubToken
+                ? "Press Enter to save, Esc to cancel."
+                : githubToken
+                  ? "Press Enter or Space to edit."
+                  : "Raises API rate limits. Press Enter to edit, or set GITHUB_TOKEN."
+          }
+        >
+          {isGithubTokenFromEnv ? (
+            <Color styles={theme.statusSuccess}>
+              <Text bold>
+                From env GITHUB_TOKEN (...
+                {githubToken.substring(githubToken.length - 4)})
+              </Text>
+            </Color>
+          ) : isEditingGithubToken ? (
+            <Box>
+              <Color styles={theme.statusChecking}>
+                <Text bold>[EDITING]</Text>
+              </Color>
+              <Box marginLeft={1}>
+                <TextInput
+                  value={githubToken}
+                  onChange={setGithubToken}
+                  onSubmit={() => {}}
+                />
+              </Box>
+            </Box>
+          ) : (
+            <Color
+              styles={githubToken ? theme.statusSuccess : theme.statusIdle}
+            >
+              <Text bold>
+                {githubToken
+                  ? `${"*".repeat(Math.min(githubToken.length - 6, 10))}${githubToken.substring(githubToken.length - 6)}`
+                  : "Not Configured"}
+              </Text>
+            </Color>
+          )}
+        </ConfigOption>
+
+        <ConfigOption
+          label="CurseForge API Key"
+          isActive={activeField === "curseforgeApiKey"}
+          helpText={
+            isCurseforgeKeyFromEnv
+              ? "Key detected from CURSEFORGE_API_KEY environment variable."
+              : isEditingCurseforgeApiKey
+                ? "Press Enter to save, Esc to cancel."
+                : curseforgeApiKey
+                  ? "Press Enter or Space to edit."
+                  : "Press Enter to edit, or set CURSEFORGE_API_KEY env var."
+          }
+        >
+          {isCurseforgeKeyFromEnv ? (
+            <Color styles={theme.statusSuccess}>
+              <Text bold>
+                From env CURSEFORGE_API_KEY (...
+                {curseforgeApiKey.substring(curseforgeApiKey.length - 4)})
+              </Text>
+            </Color>
+          ) : isEditingCurseforgeApiKey ? (
+            <Box>
+              <Color styles={theme.statusChecking}>
+                <Text bold>[EDITING]</Text>
+              </Color>
+              <Box marginLeft={1}>
+                <TextInput
+                  value={curseforgeApiKey}
+                  onChange={setCurseforgeApiKey}
+                  onSubmit={() => {}}
+                />
+              </Box>
+            </Box>
+          ) : (
+            <Color
+              styles={curseforgeApiKey ? theme.statusSuccess : theme.statusIdle}
+            >
+              <Text bold>
+                {curseforgeApiKey
+                  ? `${"*".repeat(Math.min(curseforgeApiKey.length - 6, 10))}${curseforgeApiKey.substring(curseforgeApiKey.length - 6)}`
+                  : "Not Configured"}
+              </Text>
+            </Color>
+          )}
+        </ConfigOption>
+        <ConfigOption
+          label="CurseForge Files"
+          isActive={activeField === "curseforgeReleaseType"}
+          helpText="Least stable file type to install. Beta also accepts releases."
+        >
+          <Color styles={theme.statusChecking}>
+            <Text bold>
+              {"◂"} {curseforgeReleaseType} {"▸"}
+            </Text>
+          </Color>
+        </ConfigOption>
+
+        {/* Git Cache */}
+        <SectionHeader title="Git Cache" theme={theme} />
+        <ConfigOption
+          label="Cache Size Limit"
+          isActive={activeField === "gitCacheMaxMB"}
+          helpText="Git addons update from a local repository cache. Off clones fresh every time."
+        >
+          <Color styles={theme.statusChecking}>
+            <Text bold>
+              {"◂"} {formatCacheSize(gitCacheMaxMB)} {"▸"}
+            </Text>
+          </Color>
+        </ConfigOption>
+        <ConfigOption
+          label="Prune Cache"
+          isActive={activeField === "pruneGitCache"}
+          helpText="Remove cached repositories of uninstalled addons."
+        >
+          {pruneStatus === "pruning" ? (
+            <Color styles={theme.statusChecking}>
+              <Text bold>Pruning...</Text>
+            </Color>
+          ) : (
+            <Color styles={theme.statusIdle}>
+              <Text bold>
+                Press Enter to prune
+                {gitCacheSize !== null &&
+                  ` (${(gitCacheSize / 1024 / 1024).toFixed(1)} MB used)`}
+              </Text>
+            </Color>
+          )}
+        </ConfigOption>
+
         {/* Import/Export */}
         <SectionHeader title="Import/Export" theme={theme} />
         <ConfigOption
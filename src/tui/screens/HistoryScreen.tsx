@@ -0,0 +1,230 @@
+import { Box, Text, useInput } from "ink";
+import Color from "ink-color-pipe";
+import TextInput from "ink-text-input";
+import { useTerminalSize, VirtualList } from "ink-virtual-list";
+import type React from "react";
+import { useMemo, useState } from "react";
+import type { AddonManager } from "@/core/manager";
+import { ControlBar } from "@/tui/components/ControlBar";
+import { HistoryRow } from "@/tui/components/HistoryRow";
+import { ScreenTitle } from "@/tui/components/ScreenTitle";
+import { MANAGE_SCREEN_RESERVED } from "@/tui/constants/layout";
+import { useTheme } from "@/tui/hooks/useTheme";
+import { useAppStore } from "@/tui/store/useAppStore";
+
+interface HistoryScreenProps {
+  addonManager: AddonManager;
+  onBack: () => void;
+}
+
+/** Older entries are still kept, the list just stops here */
+const HISTORY_LIMIT = 1000;
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString(undefined, {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Lists installs, updates, removals, rollbacks, kind and source changes,
+ * newest first, filtered by addon name and day.
+ */
+export const HistoryScreen: React.FC<HistoryScreenProps> = ({
+  addonManager,
+  onBack,
+}) => {
+  const { theme } = useTheme();
+  const flashKey = useAppStore((state) => state.flashKey);
+  const { rows: terminalRows } = useTerminalSize();
+
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  // Local midnight of the day shown, null shows every day
+  const [day, setDay] = useState<Date | null>(null);
+
+  const entries = useMemo(
+    () =>
+      addonManager.getHistory({
+        addon: searchQuery || undefined,
+        since: day?.toISOString(),
+        until: day ? addDays(day, 1).toISOString() : undefined,
+        limit: HISTORY_LIMIT,
+      }),
+    [addonManager, searchQuery, day],
+  );
+
+  const changeDay = (next: Date | null) => {
+    setDay(next);
+    setSelectedIndex(0);
+  };
+
+  useInput((input, key) => {
+    if (isSearching) {
+      if (key.escape) {
+        setIsSearching(false);
+        setSearchQuery("");
+        setSelectedIndex(0);
+      }
+      if (key.return) {
+        setIsSearching(false);
+      }
+      return;
+    }
+
+    if (key.escape || input === "q") {
+      flashKey("esc");
+      // Esc clears filters first, then goes back
+      if (key.escape && (searchQuery || day)) {
+        setSearchQuery("");
+        changeDay(null);
+        return;
+      }
+      onBack();
+      return;
+    }
+
+    if (input === "/") {
+      flashKey("/");
+      setIsSearching(true);
+      setSelectedIndex(0);
+    } else if (input === "d") {
+      flashKey("d");
+      changeDay(day ? null : startOfDay(new Date()));
+    } else if (day && (key.leftArrow || input === "h")) {
+      flashKey("←/→");
+      changeDay(addDays(day, -1));
+    } else if (day && (key.rightArrow || input === "l")) {
+      flashKey("←/→");
+      const today = startOfDay(new Date());
+      changeDay(day < today ? addDays(day, 1) : day);
+    } else if (key.upArrow || input === "k") {
+      flashKey("up");
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow || input === "j") {
+      flashKey("down");
+      setSelectedIndex((prev) => Math.min(entries.length - 1, prev + 1));
+    }
+  });
+
+  return (
+    <Box flexDirection="column">
+      <ScreenTitle title="History">
+        {isSearching ? (
+          <Box>
+            {searchQuery.length > 0 && <Text color="cyan">Addon: </Text>}
+            <TextInput
+              value={searchQuery}
+              onChange={(value) => {
+                setSearchQuery(value);
+                setSelectedIndex(0);
+              }}
+              placeholder="Filter by addon name or folder (esc to cancel):"
+            />
+          </Box>
+        ) : (
+          <Box gap={2}>
+            {searchQuery.length > 0 ? (
+              <Text color="cyan">Addon: "{searchQuery}"</Text>
+            ) : (
+              <Text color="cyan">[/] addon</Text>
+            )}
+            <Color styles={day ? theme.warning : theme.muted}>
+              <Text>{day ? formatDay(day) : "All days"}</Text>
+            </Color>
+            <Color styles={theme.muted}>
+              <Text>
+                {`${entries.length}${entries.length === HISTORY_LIMIT ? "+" : ""} ${entries.length === 1 ? "entry" : "entries"}`}
+              </Text>
+            </Color>
+          </Box>
+        )}
+      </ScreenTitle>
+
+      <Box
+        borderStyle="single"
+        borderColor="gray"
+        paddingX={1}
+        marginTop={1}
+        width="100%"
+      >
+        <Box width={2} flexShrink={0}>
+          <Text> </Text>
+        </Box>
+        <Box width={18} flexShrink={0}>
+          <Text bold>When</Text>
+        </Box>
+        <Box width={10} flexShrink={0}>
+          <Text bold>Action</Text>
+        </Box>
+        <Box flexGrow={1} flexShrink={1} minWidth={15} flexBasis="20%">
+          <Text bold>Name</Text>
+        </Box>
+        <Box width={30} flexShrink={0}>
+          <Text bold>Version</Text>
+        </Box>
+        <Box width={9} flexShrink={0}>
+          <Text bold>Source</Text>
+        </Box>
+        <Box flexGrow={2} flexShrink={1} flexBasis="25%">
+          <Text bold>Details</Text>
+        </Box>
+      </Box>
+
+      {entries.length === 0 ? (
+        <Box
+          flexDirection="column"
+          alignItems="center"
+          justifyContent="center"
+          paddingY={5}
+          width="100%"
+        >
+          <Text color="yellow" bold italic>
+            {searchQuery || day
+              ? "No history matches the filter."
+              : "No history yet. Install or update an addon to start one."}
+          </Text>
+        </Box>
+      ) : (
+        <VirtualList
+          items={entries}
+          selectedIndex={selectedIndex}
+          keyExtractor={(item) => String(item.id)}
+          height={terminalRows - MANAGE_SCREEN_RESERVED}
+          renderItem={({ item, isSelected }) => (
+            <HistoryRow entry={item} isSelected={isSelected} />
+          )}
+        />
+      )}
+
+      <ControlBar
+        controls={
+          isSearching
+            ? [
+                { key: "enter", label: "apply" },
+                { key: "esc", label: "cancel" },
+              ]
+            : [
+                { key: "↑/↓", label: "nav" },
+                { key: "/", label: "addon" },
+                { key: "d", label: day ? "all days" : "by day" },
+                ...(day ? [{ key: "←/→", label: "day" }] : []),
+                { key: "esc", label: searchQuery || day ? "clear" : "back" },
+              ]
+        }
+      />
+    </Box>
+  );
+};
@@ -6,7 +6,13 @@ import type React from "react";
 import { useCallback, useEffect, useState } from "react";
 import type { Config } from "@/core/config";
 import type { AddonManager } from "@/core/manager";
-import { getDefaultWoWPath, isPathConfigured, pathExists } from "@/core/paths";
+import {
+  getDefaultWoWPath,
+  isPathConfigured,
+  pathExists,
+  resolveUserPath,
+} from "@/core/paths";
+import { isGitSource } from "@/core/sources";
 import type { ExportedAddon } from "@/core/transfer";
 import { ControlBar } from "@/tui/components/ControlBar";
 import { ScreenTitle } from "@/tui/components/ScreenTitle";
@@ -22,6 +28,7 @@ interface InstallScreenProps {
 type Mode =
   | "select"
   | "url-input"
+  | "file-input"
   | "installing"
   | "result"
   | "config-auto-confirm"
@@ -44,13 +51,14 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
   const [mode, setMode] = useState<Mode>("select");
   const [selection, setSelection] = useState(0);
   const [url, setUrl] = useState("");
+  const [filePath, setFilePath] = useState("");
   const [status, setStatus] = useState("");
   const [resultMessage, setResultMessage] = useState("");
   const [manualPath, setManualPath] = useState("");
   const [detectedPath, setDetectedPath] = useState("");
 
   const [pendingInstall, setPendingInstall] = useState<{
-    type: "url" | "elvui" | "tukui";
+    type: "url" | "file" | "elvui" | "tukui";
     url?: string;
   } | null>(null);
 
@@ -69,6 +77,7 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
 
   const OPTIONS = [
     { label: "Install from URL", action: "url", section: "General" },
+    { label: "Install from file", action: "file", section: "General" },
     { label: "Search Wago", action: "wagoSearch", section: "Wago" },
     { label: "Install ElvUI", action: "elvui", section: "TukUI" },
     { label: "Install TukUI", action: "tukui", section: "TukUI" },
@@ -112,9 +121,21 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
         updateAddonStatus(index, "installing");
 
         try {
-          if (addon.type === "github" || addon.type === "wowinterface") {
+          if (
+            isGitSource(addon.type) ||
+            addon.type === "wowinterface" ||
+            addon.type === "zip" ||
+            addon.type === "curseforge"
+          ) {
             if (!addon.url) throw new Error("No URL available");
             await addonManager.installFromUrl(addon.url);
+          } else if (addon.type === "wago") {
+            if (!addon.url) throw new Error("No URL available");
+            const result = await addonManager.installWago(
+              addon.url,
+              addon.channel ?? "stable",
+            );
+            if (!result.success) throw new Error(result.error);
           } else if (addon.type === "tukui") {
             const subFolders = addon.ownedFolders ?? [];
             await addonManager.installTukUI("latest", addon.folder, subFolders);
@@ -158,7 +179,7 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
   }, [importQueue, mode, processBatchInstall]);
 
   const checkConfigAndInstall = async (
-    type: "url" | "elvui" | "tukui",
+    type: "url" | "file" | "elvui" | "tukui",
     installUrl?: string,
   ) => {
     let exists = false;
@@ -168,6 +189,8 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
       exists = addonManager.isAlreadyInstalled("Tukui");
     } else if (type === "url" && installUrl) {
       exists = addonManager.isAlreadyInstalled(installUrl);
+    } else if (type === "file" && installUrl) {
+      exists = addonManager.isAlreadyInstalled(resolveUserPath(installUrl));
     }
 
     if (exists) {
@@ -187,7 +210,7 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
   };
 
   const handleInstall = async (
-    type: "url" | "elvui" | "tukui",
+    type: "url" | "file" | "elvui" | "tukui",
     installUrl?: string,
   ) => {
     setMode("installing");
@@ -208,6 +231,19 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
           setResultMessage(res.error || "Unknown Error");
           setResultStatus("error");
         }
+      } else if (type === "file") {
+        if (!installUrl) throw new Error("No path provided");
+        setStatus(`Installing from ${installUrl}...`);
+        const res = await addonManager.installFromFile(installUrl);
+        if (res.success) {
+          setResultMessage(
+            `Successfully installed: ${res.installedAddons.join(", ")}`,
+          );
+          setResultStatus("success");
+        } else {
+          setResultMessage(res.error || "Unknown Error");
+          setResultStatus("error");
+        }
       } else if (type === "elvui") {
         setStatus("Downloading ElvUI from TukUI...");
         await addonManager.installTukUI("latest", "ElvUI", [
@@ -266,6 +302,7 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
       if (key.return || key.escape || input === "q") {
         flashKey("enter");
         setUrl("");
+        setFilePath("");
         setMode("select");
       }
       return;
@@ -293,6 +330,9 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
         if (pendingInstall && pendingInstall.type === "url") {
           setMode("url-input");
           if (pendingInstall.url) setUrl(pendingInstall.url);
+        } else if (pendingInstall && pendingInstall.type === "file") {
+          setMode("file-input");
+          if (pendingInstall.url) setFilePath(pendingInstall.url);
         } else {
           setMode("select");
         }
@@ -329,6 +369,8 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
         const action = OPTIONS[selection]?.action;
         if (action === "url") {
           setMode("url-input");
+        } else if (action === "file") {
+          setMode("file-input");
         } else if (action === "wagoSearch") {
           navigate("wagoSearch");
         } else if (action === "elvui") {
@@ -350,6 +392,16 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
         flashKey("esc");
         setMode("select");
       }
+    } else if (mode === "file-input") {
+      if (key.return) {
+        flashKey("enter");
+        if (filePath.trim()) {
+          await checkConfigAndInstall("file", filePath);
+        }
+      } else if (key.escape) {
+        flashKey("esc");
+        setMode("select");
+      }
     }
   });
 
@@ -447,6 +499,17 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
         </Box>
       )}
 
+      {mode === "file-input" && (
+        <Box>
+          <Text>Path: </Text>
+          <TextInput
+            value={filePath}
+            onChange={setFilePath}
+            onSubmit={() => {}}
+          />
+        </Box>
+      )}
+
       {mode === "installing" && (
         <Color styles={theme.busy}>
           <Text>
@@ -544,13 +607,19 @@ export const InstallScreen: React.FC<InstallScreenProps> = ({
       <ControlBar
         message={
           mode === "url-input" ? (
-            <Text>Enter URL (GitHub/WoWInterface/Wago)</Text>
+            <Text>
+              Enter URL (GitHub/GitLab/Gitea/WoWInterface/Wago/CurseForge/.zip)
+            </Text>
+          ) : mode === "file-input" ? (
+            <Text>Enter path to a .zip file or addon folder</Text>
           ) : undefined
         }
         controls={[
           { key: "esc", label: "back/cancel" },
           ...(mode === "select" ? [{ key: "enter", label: "select" }] : []),
-          ...(mode === "url-input" ? [{ key: "enter", label: "install" }] : []),
+          ...(mode === "url-input" || mode === "file-input"
+            ? [{ key: "enter", label: "install" }]
+            : []),
         ]}
       />
     </Box>
@@ -15,8 +15,10 @@ interface MainMenuProps {
   onSelect: (option: string) => void;
 }
 const OPTIONS = [
+  { id: "update", label: "Update Addons" },
   { id: "install", label: "Install Addon" },
   { id: "manage", label: "Manage Addons" },
+  { id: "history", label: "History" },
   { id: "config", label: "Config" },
 ] as const;
 
@@ -59,7 +61,7 @@ export const MainMenu: React.FC<MainMenuProps> = ({
         if (selected.id === "config") {
           showToast("Why would you even want that?", 2000);
         } else {
-          const newDefault = selected.id as "install" | "manage" | "config";
+          const newDefault = selected.id;
           configManager.set("defaultMenuOption", newDefault);
           setDefaultOption(newDefault);
           showToast("Default Updated", 2000);
@@ -71,12 +73,18 @@ export const MainMenu: React.FC<MainMenuProps> = ({
       setTheme(nextTheme);
       configManager.set("theme", nextTheme);
       showToast(`Theme: ${nextTheme}`, 1000);
+    } else if (input === "u") {
+      flashKey("u");
+      onSelect("update");
     } else if (input === "i") {
       flashKey("i");
       onSelect("install");
     } else if (input === "m") {
       flashKey("m");
       onSelect("manage");
+    } else if (input === "h") {
+      flashKey("h");
+      onSelect("history");
     } else if (input === "c") {
       flashKey("c");
       onSelect("config");
@@ -9,12 +9,22 @@ import pLimit from "p-limit";
 import type React from "react";
 import { useCallback, useMemo, useState } from "react";
 import { BackupManager } from "@/core/backup";
+import type { AddonMatch } from "@/core/commands/MatchSourcesCommand";
+import type { UpdateAddonResult } from "@/core/commands/UpdateAddonCommand";
 import type { Config } from "@/core/config";
+import type { TrackingMode, WagoChannel } from "@/core/db";
+import type { UpdateDigest } from "@/core/digest";
 import type { AddonManager, UpdateResult } from "@/core/manager";
+import { compareAddonVersion, isGitSource } from "@/core/sources";
+import { isUpdate } from "@/core/utils/versionCompare";
+import type { ArchivedVersion } from "@/core/versionArchive";
+import { ChangelogPanel, wrapChangelog } from "@/tui/components/ChangelogPanel";
 import { ControlBar } from "@/tui/components/ControlBar";
+import { DigestPanel, getDigestRows } from "@/tui/components/DigestPanel";
 import { HelpPanel } from "@/tui/components/HelpPanel";
 import { type RepoStatus, RepositoryRow } from "@/tui/components/RepositoryRow";
 import { ScreenTitle } from "@/tui/components/ScreenTitle";
+import { VersionsPanel } from "@/tui/components/VersionsPanel";
 import { MANAGE_SCREEN_RESERVED } from "@/tui/constants/layout";
 import { useAddonManagerEvent } from "@/tui/hooks/useAddonManager";
 import { useTheme } from "@/tui/hooks/useTheme";
@@ -40,7 +50,7 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
   const flashKey = useAppStore((state) => state.flashKey);
   const { theme } = useTheme();
   const { toast, showToast } = useToast();
-  const { rows: terminalRows } = useTerminalSize();
+  const { rows: terminalRows, columns: terminalColumns } = useTerminalSize();
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
@@ -66,6 +76,50 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
     (typeof visibleAddons)[0] | null
   >(null);
   const [confirmBackup, setConfirmBackup] = useState(false);
+  // Source matches waiting for the user to adopt or skip, one at a time
+  const [pendingAdopts, setPendingAdopts] = useState<AddonMatch[]>([]);
+  const [branchInput, setBranchInput] = useState<{
+    folder: string;
+    value: string;
+  } | null>(null);
+  const [linkInput, setLinkInput] = useState<{
+    folder: string;
+    value: string;
+  } | null>(null);
+  const [versionsView, setVersionsView] = useState<{
+    folder: string;
+    name: string;
+    versions: ArchivedVersion[];
+    index: number;
+  } | null>(null);
+  const [changelogView, setChangelogView] = useState<{
+    folder: string;
+    name: string;
+    fromVersion: string | null;
+    toVersion: string;
+    text: string | null;
+    loading: boolean;
+    error?: string;
+    offset: number;
+  } | null>(null);
+  const [digestView, setDigestView] = useState<{
+    digest: UpdateDigest;
+    savedPath: string | null;
+    offset: number;
+  } | null>(null);
+
+  // Heading and key hint take a line each
+  const changelogHeight = Math.max(
+    1,
+    terminalRows - MANAGE_SCREEN_RESERVED - 2,
+  );
+  const changelogLines = useMemo(
+    () =>
+      changelogView?.text
+        ? wrapChangelog(changelogView.text, Math.max(20, terminalColumns - 10))
+        : null,
+    [changelogView?.text, terminalColumns],
+  );
 
   const getStatusPriority = useCallback(
     (folder: string) => {
@@ -205,22 +259,9 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
 
         let updateAvailable = false;
         if (freshAddon.remote_version) {
-          if (freshAddon.type === "github") {
-            const localHash = freshAddon.git_commit || freshAddon.version;
-            if (!localHash) {
-              updateAvailable = true;
-            } else {
-              updateAvailable = localHash !== freshAddon.remote_version;
-              if (
-                freshAddon.remote_version.startsWith(localHash) ||
-                localHash.startsWith(freshAddon.remote_version)
-              ) {
-                updateAvailable = false;
-              }
-            }
-          } else {
-            updateAvailable = freshAddon.version !== freshAddon.remote_version;
-          }
+          updateAvailable = isUpdate(
+            compareAddonVersion(freshAddon, freshAddon.remote_version),
+          );
         }
 
         return {
@@ -369,16 +410,45 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
 
     // Enforce concurrency limit
     const limit = pLimit(config.maxConcurrent);
+    const startedAt = Date.now();
 
-    const promises = foldersNeedingUpdate.map((folder) => {
-      return limit(async () => {
-        await updateMutation.mutateAsync({ folder });
-      });
-    });
-
-    await Promise.all(promises);
+    const batch = await Promise.all(
+      foldersNeedingUpdate.map((folder) => {
+        // Kept to report what the addon was updated from
+        const before = addonManager.getAddon(folder);
+        return limit(async () => {
+          if (!before) return null;
+          try {
+            const result = await updateMutation.mutateAsync({ folder });
+            return { before, result };
+          } catch (error) {
+            const result: UpdateAddonResult = {
+              repoName: before.name,
+              success: false,
+              updated: false,
+              error: error instanceof Error ? error.message : String(error),
+            };
+            return { before, result };
+          }
+        });
+      }),
+    );
 
     showToast("Job's Done");
+
+    // A single update reports itself in its row
+    if (foldersToUpdate.length > 1) {
+      const digest = await addonManager.createDigest(
+        batch.filter((b) => b !== null),
+        startedAt,
+      );
+      // Addons filtered out above were just checked and found current
+      digest.upToDate += foldersToUpdate.length - foldersNeedingUpdate.length;
+      const savedPath = config.saveUpdateDigest
+        ? await addonManager.saveDigest(digest).catch(() => null)
+        : null;
+      setDigestView({ digest, savedPath, offset: 0 });
+    }
   };
 
   const runChecks = async (foldersToCheck: string[]) => {
@@ -447,6 +517,117 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
     setConfirmDelete(false);
   };
 
+  const submitBranch = async (folder: string, branch: string) => {
+    setBranchInput(null);
+    showToast(`Switching ${folder} to ${branch}...`, 0);
+    const result = await addonManager.switchBranch(folder, branch);
+    if (result.success) {
+      setRefreshKey((prev) => prev + 1);
+      queryClient.invalidateQueries({ queryKey: ["addon", folder] });
+      showToast(`Branch Switch Complete: ${branch}`);
+    } else {
+      showToast(`Skipped (${result.error})`, 3000);
+    }
+  };
+
+  const submitLink = async (folder: string, input: string) => {
+    setLinkInput(null);
+    if (!input.trim()) return;
+    showToast(`Linking ${folder}...`, 0);
+    const result = await addonManager.linkSource(folder, input);
+    if (result.success) {
+      setRefreshKey((prev) => prev + 1);
+      queryClient.invalidateQueries({ queryKey: ["addon", folder] });
+      showToast(`Link Complete: ${folder}`);
+    } else {
+      showToast(`Skipped (${result.error})`, 3000);
+    }
+  };
+
+  const openVersions = async (folder: string, name: string) => {
+    const versions = await addonManager.listArchivedVersions(folder);
+    setVersionsView({ folder, name, versions, index: 0 });
+  };
+
+  const restoreVersion = async (folder: string, version: ArchivedVersion) => {
+    setVersionsView(null);
+    showToast(`Restoring ${folder}...`, 0);
+    const result = await addonManager.restoreVersion(folder, version.path);
+    if (result.success) {
+      setRefreshKey((prev) => prev + 1);
+      queryClient.invalidateQueries({ queryKey: ["addon", folder] });
+      showToast(`Restore Complete: ${result.version ?? folder}`);
+    } else {
+      showToast(`Skipped (${result.error})`, 3000);
+    }
+  };
+
+  const undoLast = async () => {
+    showToast("Undoing...", 0);
+    const result = await addonManager.undoLast();
+    if (result.folder) {
+      setRefreshKey((prev) => prev + 1);
+      queryClient.invalidateQueries({ queryKey: ["addon", result.folder] });
+    }
+    if (result.success) {
+      showToast(`Undid ${result.description}`);
+    } else {
+      showToast(`Skipped (${result.error})`, 3000);
+    }
+  };
+
+  const openChangelog = async (folder: string) => {
+    const addon = addonManager.getAddon(folder);
+    if (!addon?.remote_version) {
+      showToast("Skipped (Check for updates first)", 3000);
+      return;
+    }
+
+    const view = {
+      folder,
+      name: addon.name,
+      fromVersion: addon.version,
+      toVersion: addon.remote_version,
+      text: null,
+      offset: 0,
+    };
+    setChangelogView({ ...view, loading: true });
+    const result = await addonManager.getChangelog(addon);
+    // Ignore the result if the pane was closed or moved on meanwhile
+    setChangelogView((prev) =>
+      prev?.folder === folder
+        ? {
+            ...view,
+            text: result.changelog,
+            loading: false,
+            error: result.error,
+          }
+        : prev,
+    );
+  };
+
+  const findSources = async (folders?: string[]) => {
+    showToast("Matching manual addons...", 0);
+    const matches = await addonManager.findSourceMatches(folders);
+    if (matches.length === 0) {
+      showToast("Skipped (No sources found for manual addons)", 3000);
+      return;
+    }
+    showToast(`Matching Complete: ${matches.length} found`);
+    setPendingAdopts(matches);
+  };
+
+  const adoptMatch = async (match: AddonMatch) => {
+    const result = await addonManager.adoptAddon(match);
+    if (result.success) {
+      setRefreshKey((prev) => prev + 1);
+      queryClient.invalidateQueries({ queryKey: ["addon", match.folder] });
+      showToast(`Adopt Complete: ${match.name}`);
+    } else {
+      showToast(`Skipped (${result.error})`, 3000);
+    }
+  };
+
   const [showMenu, setShowMenu] = useState(false);
 
   useInput((input, key) => {
@@ -461,6 +642,91 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
       return;
     }
 
+    if (branchInput) {
+      if (key.escape) {
+        setBranchInput(null);
+      }
+      return;
+    }
+
+    if (linkInput) {
+      if (key.escape) {
+        setLinkInput(null);
+      }
+      return;
+    }
+
+    if (digestView) {
+      const maxOffset = Math.max(
+        0,
+        getDigestRows(digestView.digest).length - changelogHeight,
+      );
+      const scrollTo = (offset: number) =>
+        setDigestView({
+          ...digestView,
+          offset: Math.min(maxOffset, Math.max(0, offset)),
+        });
+
+      if (key.escape || key.return) {
+        setDigestView(null);
+      } else if (key.upArrow || input === "k") {
+        scrollTo(digestView.offset - 1);
+      } else if (key.downArrow || input === "j") {
+        scrollTo(digestView.offset + 1);
+      } else if (key.pageUp) {
+        scrollTo(digestView.offset - changelogHeight);
+      } else if (key.pageDown || input === " ") {
+        scrollTo(digestView.offset + changelogHeight);
+      }
+      return;
+    }
+
+    if (changelogView) {
+      const maxOffset = Math.max(
+        0,
+        (changelogLines?.length ?? 0) - changelogHeight,
+      );
+      const scrollTo = (offset: number) =>
+        setChangelogView({
+          ...changelogView,
+          offset: Math.min(maxOffset, Math.max(0, offset)),
+        });
+
+      if (key.escape) {
+        setChangelogView(null);
+      } else if (key.upArrow || input === "k") {
+        scrollTo(changelogView.offset - 1);
+      } else if (key.downArrow || input === "j") {
+        scrollTo(changelogView.offset + 1);
+      } else if (key.pageUp) {
+        scrollTo(changelogView.offset - changelogHeight);
+      } else if (key.pageDown || input === " ") {
+        scrollTo(changelogView.offset + changelogHeight);
+      } else if (input === "u") {
+        flashKey("u");
+        setChangelogView(null);
+        runUpdates([changelogView.folder]);
+      }
+      return;
+    }
+
+    if (versionsView) {
+      const { versions, index } = versionsView;
+      if (key.escape) {
+        setVersionsView(null);
+      } else if (key.upArrow || input === "k") {
+        setVersionsView({ ...versionsView, index: Math.max(0, index - 1) });
+      } else if (key.downArrow || input === "j") {
+        setVersionsView({
+          ...versionsView,
+          index: Math.min(versions.length - 1, index + 1),
+        });
+      } else if (key.return && versions[index]) {
+        restoreVersion(versionsView.folder, versions[index]);
+      }
+      return;
+    }
+
     if (confirmDelete) {
       if (input === "y" || key.return) {
         flashKey("y");
@@ -479,10 +745,7 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
         if (pendingKindAddon) {
           const addon = pendingKindAddon.record;
           const newKind = addon.kind === "library" ? "addon" : "library";
-          addonManager.updateAddonMetadata(addon.folder, {
-            kind: newKind,
-            kindOverride: true,
-          });
+          addonManager.setAddonKind(addon.folder, newKind);
           setRefreshKey((prev) => prev + 1);
           showToast(`${addon.name} marked as ${newKind}`);
         }
@@ -496,6 +759,21 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
       return;
     }
 
+    const [nextAdopt] = pendingAdopts;
+    if (nextAdopt) {
+      if (input === "y" || key.return) {
+        flashKey("y");
+        adoptMatch(nextAdopt);
+        setPendingAdopts((prev) => prev.slice(1));
+      } else if (input === "n") {
+        flashKey("n");
+        setPendingAdopts((prev) => prev.slice(1));
+      } else if (key.escape) {
+        setPendingAdopts([]);
+      }
+      return;
+    }
+
     if (confirmBackup) {
       if (input === "y" || key.return) {
         flashKey("y");
@@ -586,6 +864,12 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
       return;
     }
 
+    if (key.ctrl && input === "z") {
+      flashKey("ctrl+z");
+      undoLast();
+      return;
+    }
+
     if (showMenu && ["k", "j", " ", "u", "c", "d"].includes(input)) {
       setShowMenu(false);
     }
@@ -646,8 +930,9 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
 
     if (input === "U") {
       flashKey("U");
+      // Pinned addons stay on their version until unpinned
       const allFolders = visibleAddons
-        .filter((a) => !a.isChild)
+        .filter((a) => !a.isChild && !a.record.pinned)
         .map((a) => a.record.folder);
       runUpdates(allFolders);
     }
@@ -687,6 +972,131 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
       }
     }
 
+    if (input === "r") {
+      flashKey("r");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        if (isGitSource(currentItem.record.type)) {
+          setBranchInput({
+            folder: currentItem.record.folder,
+            value: currentItem.record.branch || "main",
+          });
+        } else {
+          showToast("Skipped (Only git addons track branches)", 2000);
+        }
+      }
+    }
+
+    if (input === "g") {
+      flashKey("g");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        const addon = currentItem.record;
+        if (isGitSource(addon.type)) {
+          const modes: TrackingMode[] = ["branch", "tag", "release"];
+          const current = modes.indexOf(addon.tracking ?? "branch");
+          const next = modes[(current + 1) % modes.length] ?? "branch";
+          // Drop the cached check so the next check resolves against the new mode
+          addonManager.updateAddonMetadata(addon.folder, {
+            tracking: next,
+            last_checked: null,
+            remote_version: null,
+          });
+          setRefreshKey((prev) => prev + 1);
+          queryClient.invalidateQueries({ queryKey: ["addon", addon.folder] });
+          showToast(`Tracking Change Complete: ${next}`);
+        } else if (addon.type === "wago") {
+          const channels: WagoChannel[] = ["stable", "beta", "alpha"];
+          const current = channels.indexOf(addon.channel ?? "stable");
+          const next = channels[(current + 1) % channels.length] ?? "stable";
+          addonManager.updateAddonMetadata(addon.folder, {
+            channel: next,
+            last_checked: null,
+            remote_version: null,
+          });
+          setRefreshKey((prev) => prev + 1);
+          queryClient.invalidateQueries({ queryKey: ["addon", addon.folder] });
+          showToast(`Channel Change Complete: ${next}`);
+        } else {
+          showToast(
+            "Skipped (Only git and Wago addons support tracking modes)",
+            2000,
+          );
+        }
+      }
+    }
+
+    if (input === "p") {
+      flashKey("p");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        const { folder, pinned } = currentItem.record;
+        addonManager.updateAddonMetadata(folder, { pinned: !pinned });
+        setRefreshKey((prev) => prev + 1);
+        showToast(`${pinned ? "Unpin" : "Pin"} Complete: ${folder}`);
+      }
+    }
+
+    if (input === "i") {
+      flashKey("i");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        const addon = addonManager.getAddon(currentItem.record.folder);
+        if (addon?.ignoredVersion) {
+          addonManager.updateAddonMetadata(addon.folder, {
+            ignoredVersion: null,
+          });
+          showToast(`Unignore Complete: ${addon.ignoredVersion}`);
+        } else if (addon?.remote_version) {
+          addonManager.updateAddonMetadata(addon.folder, {
+            ignoredVersion: addon.remote_version,
+          });
+          showToast(`Ignore Complete: ${addon.remote_version}`);
+        } else {
+          showToast("Skipped (Check for updates first)", 2000);
+        }
+        if (addon) {
+          setRefreshKey((prev) => prev + 1);
+          queryClient.invalidateQueries({ queryKey: ["addon", addon.folder] });
+        }
+      }
+    }
+
+    if (input === "n") {
+      flashKey("n");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        openChangelog(currentItem.record.folder);
+      }
+    }
+
+    if (input === "v") {
+      flashKey("v");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        openVersions(currentItem.record.folder, currentItem.record.name);
+      }
+    }
+
+    if (input === "s") {
+      flashKey("s");
+      const currentItem = visibleAddons[selectedIndex];
+      if (currentItem && !currentItem.isChild) {
+        const { type, folder } = currentItem.record;
+        if (type === "manual" || type === "local") {
+          setLinkInput({ folder, value: "" });
+        } else {
+          showToast("Skipped (Addon already has a source)", 2000);
+        }
+      }
+    }
+
+    if (input === "a") {
+      flashKey("a");
+      if (showMenu) setShowMenu(false);
+      findSources(selectedIds.size > 0 ? Array.from(selectedIds) : undefined);
+    }
+
     if (input === "b") {
       flashKey("b");
       if (showMenu) setShowMenu(false);
@@ -697,7 +1107,31 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
   return (
     <Box flexDirection="column" gap={1} height="100%" width="100%">
       <ScreenTitle title="Manage Addons">
-        {isSearching ? (
+        {branchInput ? (
+          <Box>
+            <Text color="cyan">Branch: </Text>
+            <TextInput
+              value={branchInput.value}
+              onChange={(value) =>
+                setBranchInput((prev) => (prev ? { ...prev, value } : prev))
+              }
+              onSubmit={(value) => submitBranch(branchInput.folder, value)}
+              placeholder="Branch to track (esc to cancel)"
+            />
+          </Box>
+        ) : linkInput ? (
+          <Box>
+            <Text color="cyan">Source: </Text>
+            <TextInput
+              value={linkInput.value}
+              onChange={(value) =>
+                setLinkInput((prev) => (prev ? { ...prev, value } : prev))
+              }
+              onSubmit={(value) => submitLink(linkInput.folder, value)}
+              placeholder="URL or wago:/curseforge:/wowi: ID (esc to cancel)"
+            />
+          </Box>
+        ) : isSearching ? (
           <Box>
             {searchQuery.length > 0 && <Text color="cyan">Search: </Text>}
             <TextInput
@@ -769,7 +1203,32 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
         </Box>
       </Box>
 
-      {visibleAddons.length === 0 ? (
+      {digestView ? (
+        <DigestPanel
+          digest={digestView.digest}
+          offset={digestView.offset}
+          height={changelogHeight}
+          savedPath={digestView.savedPath}
+          nerdFonts={config.nerdFonts}
+        />
+      ) : changelogView ? (
+        <ChangelogPanel
+          addonName={changelogView.name}
+          fromVersion={changelogView.fromVersion}
+          toVersion={changelogView.toVersion}
+          lines={changelogLines}
+          loading={changelogView.loading}
+          error={changelogView.error}
+          offset={changelogView.offset}
+          height={changelogHeight}
+        />
+      ) : versionsView ? (
+        <VersionsPanel
+          addonName={versionsView.name}
+          versions={versionsView.versions}
+          selectedIndex={versionsView.index}
+        />
+      ) : visibleAddons.length === 0 ? (
         searchQuery.length > 0 ? (
           <Box
             flexDirection="column"
@@ -897,6 +1356,15 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
             <Text color="cyan" bold>
               Confirm: Toggle type for {pendingKindAddon?.record.name}?
             </Text>
+          ) : pendingAdopts[0] ? (
+            <Text color="cyan" bold>
+              Confirm: Adopt {pendingAdopts[0].name} as{" "}
+              {pendingAdopts[0].match.release.name} (
+              {pendingAdopts[0].match.release.version}) from{" "}
+              {pendingAdopts[0].match.type}?
+              {pendingAdopts.length > 1 &&
+                ` [${pendingAdopts.length - 1} more]`}
+            </Text>
           ) : confirmBackup ? (
             <Text color="cyan" bold>
               Confirm: Backup WTF folder?
@@ -945,15 +1413,21 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
                 { key: "y", label: "confirm" },
                 { key: "n", label: "cancel" },
               ]
-            : [
-                { key: "↑/↓", label: "nav" },
-                { key: "space", label: "select" },
-                { key: "u", label: "update" },
-                { key: "U", label: "update all" },
-                { key: "c", label: "check" },
-                { key: "1-4", label: "sort" },
-                { key: "m", label: "menu" },
-              ]
+            : pendingAdopts.length > 0
+              ? [
+                  { key: "y", label: "adopt" },
+                  { key: "n", label: "skip" },
+                  { key: "esc", label: "stop" },
+                ]
+              : [
+                  { key: "↑/↓", label: "nav" },
+                  { key: "space", label: "select" },
+                  { key: "u", label: "update" },
+                  { key: "U", label: "update all" },
+                  { key: "c", label: "check" },
+                  { key: "1-4", label: "sort" },
+                  { key: "m", label: "menu" },
+                ]
         }
       />
 
@@ -968,8 +1442,17 @@ export const ManageScreen: React.FC<ManageScreenProps> = ({
           { key: "c", label: "Check Updates" },
           { key: "l", label: "Toggle Libs" },
           { key: "t", label: "Toggle Kind" },
+          { key: "r", label: "Switch Branch" },
+          { key: "g", label: "Cycle Tracking/Channel" },
+          { key: "p", label: "Pin/Unpin" },
+          { key: "i", label: "Ignore Version" },
+          { key: "n", label: "Changelog" },
+          { key: "v", label: "Versions" },
+          { key: "s", label: "Link to Source" },
+          { key: "a", label: "Find Sources" },
           { key: "d", label: "Delete Selected" },
           { key: "b", label: "Backup WTF" },
+          { key: "Ctrl+z", label: "Undo Update/Removal" },
           { key: "q", label: "Quit Application" },
           { key: "Esc", label: "Go Back / Close" },
         ]}
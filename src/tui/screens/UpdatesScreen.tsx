@@ -0,0 +1,338 @@
+import { Box, Text, useInput } from "ink";
+import Color from "ink-color-pipe";
+import Spinner from "ink-spinner";
+import { useTerminalSize, VirtualList } from "ink-virtual-list";
+import pLimit from "p-limit";
+import type React from "react";
+import { useCallback, useEffect, useState } from "react";
+import type { UpdateAddonResult } from "@/core/commands/UpdateAddonCommand";
+import type { Config } from "@/core/config";
+import type { AddonManager, PendingUpdate } from "@/core/manager";
+import { getChangelogHeadline } from "@/core/utils/changelogText";
+import { ControlBar } from "@/tui/components/ControlBar";
+import {
+  PendingUpdateRow,
+  type PendingUpdateStatus,
+} from "@/tui/components/PendingUpdateRow";
+import { ScreenTitle } from "@/tui/components/ScreenTitle";
+import { MANAGE_SCREEN_RESERVED } from "@/tui/constants/layout";
+import { useTheme } from "@/tui/hooks/useTheme";
+import { useToast } from "@/tui/hooks/useToast";
+import { useAppStore } from "@/tui/store/useAppStore";
+
+interface UpdatesScreenProps {
+  config: Config;
+  addonManager: AddonManager;
+  force?: boolean;
+  onBack: () => void;
+}
+
+type Phase = "checking" | "review" | "updating" | "summary";
+
+export const UpdatesScreen: React.FC<UpdatesScreenProps> = ({
+  config,
+  addonManager,
+  force = false,
+  onBack,
+}) => {
+  const { theme } = useTheme();
+  const flashKey = useAppStore((state) => state.flashKey);
+  const setPendingUpdates = useAppStore((state) => state.setPendingUpdates);
+  const { rows: terminalRows } = useTerminalSize();
+  const { toast, showToast } = useToast();
+
+  const [phase, setPhase] = useState<Phase>("checking");
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [updates, setUpdates] = useState<PendingUpdate[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Everything is applied unless deselected
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [snippets, setSnippets] = useState<Record<string, string | null>>({});
+  const [results, setResults] = useState<
+    Record<string, { status: PendingUpdateStatus; message?: string }>
+  >({});
+
+  const loadSnippets = useCallback(
+    async (found: PendingUpdate[]) => {
+      const limit = pLimit(config.maxConcurrent);
+      await Promise.all(
+        found.map(({ addon }) =>
+          limit(async () => {
+            const { changelog } = await addonManager.getChangelog(addon);
+            setSnippets((prev) => ({
+              ...prev,
+              [addon.folder]: getChangelogHeadline(changelog),
+            }));
+          }),
+        ),
+      );
+    },
+    [addonManager, config.maxConcurrent],
+  );
+
+  const runCheck = useCallback(
+    async (fresh: boolean) => {
+      setPhase("checking");
+      setProgress({ done: 0, total: 0 });
+      setResults({});
+      setDeselected(new Set());
+      setSelectedIndex(0);
+
+      const found = await addonManager.findPendingUpdates(
+        fresh,
+        (done, total) => setProgress({ done, total }),
+      );
+      setUpdates(found);
+      setPendingUpdates(found.length);
+      setPhase("review");
+      loadSnippets(found);
+    },
+    [addonManager, loadSnippets, setPendingUpdates],
+  );
+
+  useEffect(() => {
+    runCheck(false);
+  }, [runCheck]);
+
+  const applyUpdates = async () => {
+    const selected = updates.filter((u) => !deselected.has(u.addon.folder));
+    if (selected.length === 0) {
+      showToast("Skipped (Nothing selected)", 2000);
+      return;
+    }
+
+    setPhase("updating");
+    const setResult = (
+      folder: string,
+      status: PendingUpdateStatus,
+      message?: string,
+    ) => setResults((prev) => ({ ...prev, [folder]: { status, message } }));
+
+    const limit = pLimit(config.maxConcurrent);
+    const startedAt = Date.now();
+    const batch = await Promise.all(
+      selected.map(({ addon }) =>
+        limit(async () => {
+          setResult(addon.folder, "updating");
+          let result: UpdateAddonResult;
+          try {
+            result = await addonManager.updateAddon(addon, force);
+          } catch (error) {
+            result = {
+              repoName: addon.name,
+              success: false,
+              updated: false,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+          if (!result.success) {
+            setResult(addon.folder, "failed", result.error ?? "Failed");
+          } else if (!result.updated) {
+            setResult(addon.folder, "skipped", result.message);
+          } else {
+            setResult(addon.folder, "updated");
+          }
+          return { before: addon, result };
+        }),
+      ),
+    );
+
+    const digest = await addonManager.createDigest(batch, startedAt);
+    setPendingUpdates(updates.length - digest.updated.length);
+    setPhase("summary");
+    if (config.saveUpdateDigest) {
+      const savedPath = await addonManager.saveDigest(digest).catch(() => null);
+      if (savedPath) showToast(`Digest saved to ${savedPath}`, 4000);
+    }
+  };
+
+  useInput((input, key) => {
+    if (phase === "updating") return;
+
+    if (key.escape || input === "q") {
+      flashKey("esc");
+      onBack();
+      return;
+    }
+
+    if (input === "r" && phase !== "checking") {
+      flashKey("r");
+      runCheck(true);
+      return;
+    }
+
+    if (phase !== "review") return;
+
+    if (key.upArrow || input === "k") {
+      flashKey("up");
+      setSelectedIndex((prev) => Math.max(0, prev - 1));
+    } else if (key.downArrow || input === "j") {
+      flashKey("down");
+      setSelectedIndex((prev) => Math.min(updates.length - 1, prev + 1));
+    } else if (input === " ") {
+      flashKey("space");
+      const folder = updates[selectedIndex]?.addon.folder;
+      if (!folder) return;
+      setDeselected((prev) => {
+        const next = new Set(prev);
+        if (next.has(folder)) {
+          next.delete(folder);
+        } else {
+          next.add(folder);
+        }
+        return next;
+      });
+    } else if (input === "a") {
+      flashKey("a");
+      setDeselected((prev) =>
+        prev.size === 0
+          ? new Set(updates.map((u) => u.addon.folder))
+          : new Set(),
+      );
+    } else if (key.return) {
+      flashKey("enter");
+      applyUpdates();
+    }
+  });
+
+  const selectedCount = updates.length - deselected.size;
+  const counts = Object.values(results).reduce<Record<string, number>>(
+    (acc, r) => {
+      acc[r.status] = (acc[r.status] ?? 0) + 1;
+      return acc;
+    },
+    {},
+  );
+
+  const message = toast?.message ? (
+    <Color styles={theme.warning}>
+      <Text>{toast.message}</Text>
+    </Color>
+  ) : phase === "summary" ? (
+    <Color styles={counts.failed ? theme.warning : theme.statusSuccess}>
+      <Text>
+        Done: {counts.updated ?? 0} updated
+        {counts.failed ? `, ${counts.failed} failed` : ""}
+        {counts.skipped ? `, ${counts.skipped} skipped` : ""}
+      </Text>
+    </Color>
+  ) : phase === "updating" ? (
+    <Color styles={theme.statusWorking}>
+      <Text>
+        <SpinnerFixed type="dots" /> Updating{" "}
+        {(counts.updated ?? 0) + (counts.failed ?? 0) + (counts.skipped ?? 0)}/
+        {selectedCount}...
+      </Text>
+    </Color>
+  ) : undefined;
+
+  return (
+    <Box flexDirection="column">
+      <ScreenTitle title="Review Updates">
+        {phase === "checking" ? (
+          <Color styles={theme.statusChecking}>
+            <Text>
+              <SpinnerFixed type="dots" /> Checking {progress.done}/
+              {progress.total}
+              ...
+            </Text>
+          </Color>
+        ) : (
+          <Color styles={theme.muted}>
+            <Text>
+              {updates.length} update{updates.length === 1 ? "" : "s"},{" "}
+              {selectedCount} selected
+            </Text>
+          </Color>
+        )}
+      </ScreenTitle>
+
+      <Box
+        borderStyle="single"
+        borderColor="gray"
+        paddingX={1}
+        marginTop={1}
+        width="100%"
+      >
+        <Box width={6} flexShrink={0}>
+          <Text> </Text>
+        </Box>
+        <Box flexGrow={1} flexShrink={1} minWidth={15} flexBasis="20%">
+          <Text bold>Name</Text>
+        </Box>
+        <Box width={30} flexShrink={0}>
+          <Text bold>Version</Text>
+        </Box>
+        <Box width={9} flexShrink={0}>
+          <Text bold>Source</Text>
+        </Box>
+        <Box flexGrow={2} flexShrink={1} flexBasis="30%">
+          <Text bold>Changes</Text>
+        </Box>
+      </Box>
+
+      {phase !== "checking" && updates.length === 0 ? (
+        <Box
+          flexDirection="column"
+          alignItems="center"
+          justifyContent="center"
+          paddingY={5}
+          width="100%"
+        >
+          <Text color="yellow" bold italic>
+            "Everything is up to date. Work complete!"
+          </Text>
+        </Box>
+      ) : (
+        <VirtualList
+          items={updates}
+          selectedIndex={selectedIndex}
+          keyExtractor={(item) => item.addon.folder}
+          height={terminalRows - MANAGE_SCREEN_RESERVED}
+          renderItem={({ item, isSelected }) => {
+            const result = results[item.addon.folder];
+            return (
+              <PendingUpdateRow
+                update={item}
+                status={result?.status ?? "pending"}
+                message={result?.message}
+                snippet={snippets[item.addon.folder]}
+                nerdFonts={config.nerdFonts}
+                isSelected={isSelected && phase === "review"}
+                isChecked={!deselected.has(item.addon.folder)}
+              />
+            );
+          }}
+        />
+      )}
+
+      <ControlBar
+        message={message}
+        controls={
+          phase === "review"
+            ? [
+                { key: "↑/↓", label: "nav" },
+                { key: "space", label: "toggle" },
+                { key: "a", label: "all/none" },
+                { key: "enter", label: "apply" },
+                { key: "r", label: "recheck" },
+                { key: "esc", label: "back" },
+              ]
+            : phase === "summary"
+              ? [
+                  { key: "r", label: "recheck" },
+                  { key: "esc", label: "back" },
+                ]
+              : phase === "checking"
+                ? [{ key: "esc", label: "back" }]
+                : []
+        }
+      />
+    </Box>
+  );
+};
+
+// Workaround for React 19 + Ink type mismatch
+const SpinnerFixed = Spinner as unknown as React.FC<{
+  type?: string;
+}>;
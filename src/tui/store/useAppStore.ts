@@ -1,8 +1,16 @@
 import { create } from "zustand";
+import type { GitHubRateLimit } from "@/core/github";
 import type { ExportedAddon } from "@/core/transfer";
 import { type Theme, themes } from "@/tui/theme";
 
-export type Screen = "menu" | "manage" | "config" | "install" | "wagoSearch";
+export type Screen =
+  | "menu"
+  | "update"
+  | "manage"
+  | "config"
+  | "install"
+  | "history"
+  | "wagoSearch";
 
 interface Toast {
   message: string;
@@ -29,6 +37,7 @@ interface AppState {
   pendingUpdates: number;
   isBackgroundChecking: boolean;
   nextCheckTime: number | null; // timestamp of next scheduled check
+  githubRateLimit: GitHubRateLimit | null;
 
   // Dev Mode
   devMode: boolean;
@@ -50,6 +59,7 @@ interface AppState {
   setPendingUpdates: (count: number) => void;
   setBackgroundChecking: (checking: boolean) => void;
   setNextCheckTime: (time: number | null) => void;
+  setGitHubRateLimit: (state: GitHubRateLimit | null) => void;
   setDevMode: (enabled: boolean) => void;
   triggerOnboarding: () => void;
   clearOnboarding: () => void;
@@ -70,6 +80,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   pendingUpdates: 0,
   isBackgroundChecking: false,
   nextCheckTime: null,
+  githubRateLimit: null,
   devMode: false,
   showOnboarding: false,
   importQueue: [],
@@ -101,6 +112,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   setPendingUpdates: (count) => set({ pendingUpdates: count }),
   setBackgroundChecking: (checking) => set({ isBackgroundChecking: checking }),
   setNextCheckTime: (time) => set({ nextCheckTime: time }),
+  setGitHubRateLimit: (state) => set({ githubRateLimit: state }),
   setDevMode: (enabled) => set({ devMode: enabled }),
   triggerOnboarding: () => set({ showOnboarding: true }),
   clearOnboarding: () => set({ showOnboarding: false }),
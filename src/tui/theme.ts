@@ -36,6 +36,11 @@ export const DARK_THEME = {
   repoWago: "#7dcfff", // cyan
   repoManual: "#565f89", // comment
   repoGit: "#7aa2f7", // blue
+  repoGitlab: "#ff9e64", // orange
+  repoGitea: "#9ece6a", // green
+  repoZip: "#737aa2", // dark5
+  repoLocal: "#e0af68", // yellow
+  repoCurseforge: "#f7768e", // red
 
   // Status Colors
   statusIdle: "#565f89", // comment
@@ -57,6 +62,7 @@ export const DARK_THEME = {
   checked: "#7dcfff", // cyan
   unchecked: "#565f89", // comment
   library: "#9d7cd8", // purple
+  pinned: "#e0af68", // yellow
 
   // Wizard
   wizardBorder: "#7aa2f7", // blue
@@ -103,6 +109,11 @@ export const LIGHT_THEME: Theme = {
   repoWago: "#007197", // cyan
   repoManual: "#848cb5", // comment
   repoGit: "#2e7de9", // blue
+  repoGitlab: "#b15c00", // orange
+  repoGitea: "#587539", // green
+  repoZip: "#6172b0", // dark5
+  repoLocal: "#8c6c3e", // yellow
+  repoCurseforge: "#f52a65", // red
 
   // Status Colors
   statusIdle: "#848cb5", // comment
@@ -124,6 +135,7 @@ export const LIGHT_THEME: Theme = {
   checked: "#007197", // cyan
   unchecked: "#848cb5", // comment
   library: "#7847bd", // purple
+  pinned: "#8c6c3e", // yellow
 
   // Wizard
   wizardBorder: "#2e7de9", // blue
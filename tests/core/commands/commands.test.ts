@@ -8,12 +8,17 @@ import {
 	test,
 } from "bun:test";
 import fs from "node:fs";
+import fsPromises from "node:fs/promises";
 import os from "node:os";
 import path from "node:path";
 import { ConfigManager } from "@/core/config";
 import { DatabaseManager } from "@/core/db";
+import * as CurseForge from "@/core/curseforge";
 import * as Downloader from "@/core/downloader";
 import * as GitClient from "@/core/git";
+import * as GitHub from "@/core/github";
+import * as RepoCache from "@/core/repoCache";
+import { InstallFromFileCommand } from "@/core/commands/InstallFromFileCommand";
 import { InstallFromUrlCommand } from "@/core/commands/InstallFromUrlCommand";
 import { InstallTukUICommand } from "@/core/commands/InstallTukUICommand";
 import { RemoveAddonCommand } from "@/core/commands/RemoveAddonCommand";
@@ -22,6 +27,14 @@ import * as WoWInterface from "@/core/wowinterface";
 import * as TukUI from "@/core/tukui";
 import { ScanCommand } from "@/core/commands/ScanCommand";
 import { UpdateAddonCommand } from "@/core/commands/UpdateAddonCommand";
+import { SwitchBranchCommand } from "@/core/commands/SwitchBranchCommand";
+import { MatchSourcesCommand } from "@/core/commands/MatchSourcesCommand";
+import { AdoptAddonCommand } from "@/core/commands/AdoptAddonCommand";
+import { LinkSourceCommand } from "@/core/commands/LinkSourceCommand";
+import { RestoreVersionCommand } from "@/core/commands/RestoreVersionCommand";
+import * as VersionArchive from "@/core/versionArchive";
+import { getFolderFingerprint } from "@/core/utils/fingerprint";
+import { compareAddonVersion } from "@/core/sources";
 
 const TMP_BASE = path.join(os.tmpdir(), "lemonup-tests-commands");
 const CONFIG_DIR = path.join(TMP_BASE, "config");
@@ -53,6 +66,12 @@ describe("Commands", () => {
 		spyOn(GitClient, "getCurrentCommit").mockImplementation(() =>
 			Promise.resolve("hash"),
 		);
+		spyOn(GitClient, "getDefaultBranch").mockImplementation(() =>
+			Promise.resolve("main"),
+		);
+		spyOn(GitClient, "getRemoteBranches").mockImplementation(() =>
+			Promise.resolve(["main"]),
+		);
 
 		spyOn(Downloader, "download").mockImplementation((_url, dest) => {
 			if (dest) {
@@ -118,6 +137,378 @@ describe("Commands", () => {
 			expect(addon?.url).toBe(url);
 		});
 
+		test("should record a failed install with its source", async () => {
+			spyOn(GitClient, "clone").mockResolvedValue(false);
+			const url = "https://github.com/user/repo";
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(dbManager.getHistory()).toEqual([
+				expect.objectContaining({
+					folder: url,
+					action: "install",
+					source: "github",
+					outcome: "failed",
+				}),
+			]);
+		});
+
+		test("should track the remote default branch", async () => {
+			const url = "https://github.com/user/repo";
+			spyOn(GitClient, "getDefaultBranch").mockResolvedValue("master");
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.clone).toHaveBeenCalledWith(
+				url,
+				"master",
+				expect.any(String),
+			);
+			expect(dbManager.getByFolder("RepoAddon")?.branch).toBe("master");
+		});
+
+		test("should install the branch from a /tree/ url", async () => {
+			const url = "https://github.com/user/repo/tree/feature/retail";
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.getDefaultBranch).not.toHaveBeenCalled();
+			expect(GitClient.getRemoteCommit).toHaveBeenCalledWith(
+				"https://github.com/user/repo",
+				"feature/retail",
+			);
+
+			const addon = dbManager.getByFolder("RepoAddon");
+			expect(addon?.url).toBe("https://github.com/user/repo");
+			expect(addon?.branch).toBe("feature/retail");
+		});
+
+		test("should install only the subpath of a /tree/ url", async () => {
+			const url = "https://github.com/user/mono/tree/main/addons";
+			spyOn(GitClient, "clone").mockImplementation(async (_url, _branch, dir) => {
+				for (const name of ["MonoCore", "MonoExtras"]) {
+					fs.mkdirSync(path.join(dir, "addons", name), { recursive: true });
+					fs.writeFileSync(
+						path.join(dir, "addons", name, `${name}.toc`),
+						`## Title: ${name}`,
+					);
+				}
+				fs.mkdirSync(path.join(dir, "tools", "Helper"), { recursive: true });
+				fs.writeFileSync(path.join(dir, "tools", "Helper", "Helper.toc"), "");
+				return true;
+			});
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(result.installedAddons.sort()).toEqual(["MonoCore", "MonoExtras"]);
+			expect(GitClient.clone).toHaveBeenCalledWith(
+				"https://github.com/user/mono",
+				"main",
+				expect.any(String),
+			);
+			expect(fs.existsSync(path.join(DEST_DIR, "Helper"))).toBe(false);
+
+			const addon = dbManager.getByFolder("MonoCore");
+			expect(addon?.branch).toBe("main");
+			expect(addon?.subpath).toBe("addons");
+		});
+
+		test("should not copy VCS metadata into AddOns", async () => {
+			const url = "https://github.com/user/LooseAddon";
+			spyOn(GitClient, "clone").mockImplementation(async (_url, _branch, dir) => {
+				fs.mkdirSync(path.join(dir, ".git"), { recursive: true });
+				fs.writeFileSync(path.join(dir, ".git", "HEAD"), "ref: refs/heads/main");
+				fs.mkdirSync(path.join(dir, ".github", "workflows"), {
+					recursive: true,
+				});
+				fs.writeFileSync(path.join(dir, ".gitignore"), "");
+				fs.writeFileSync(path.join(dir, "LooseAddon.toc"), "## Title: Loose");
+				fs.writeFileSync(path.join(dir, "core.lua"), "");
+				return true;
+			});
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			const installed = path.join(DEST_DIR, "LooseAddon");
+			expect(fs.existsSync(path.join(installed, "core.lua"))).toBe(true);
+			expect(fs.existsSync(path.join(installed, ".git"))).toBe(false);
+			expect(fs.existsSync(path.join(installed, ".github"))).toBe(false);
+			expect(fs.existsSync(path.join(installed, ".gitignore"))).toBe(false);
+		});
+
+		test("should install scp-style remotes as a git source", async () => {
+			const url = "git@git.example.com:guild/GuildAddon.git";
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.getDefaultBranch).toHaveBeenCalledWith(url);
+			expect(GitClient.clone).toHaveBeenCalledWith(
+				url,
+				"main",
+				expect.any(String),
+			);
+
+			const addon = dbManager.getByFolder("RepoAddon");
+			expect(addon?.type).toBe("git");
+			expect(addon?.url).toBe(url);
+			expect(addon?.branch).toBe("main");
+		});
+
+		test("should install gitlab tree urls as a gitlab source", async () => {
+			const url = "https://gitlab.com/guild/sub/GuildAddon/-/tree/dev";
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.clone).toHaveBeenCalledWith(
+				"https://gitlab.com/guild/sub/GuildAddon",
+				"dev",
+				expect.any(String),
+			);
+
+			const addon = dbManager.getByFolder("RepoAddon");
+			expect(addon?.type).toBe("gitlab");
+			expect(addon?.url).toBe("https://gitlab.com/guild/sub/GuildAddon");
+			expect(addon?.branch).toBe("dev");
+		});
+
+		test("should install from self-hosted gitea instances", async () => {
+			configManager.set("giteaHosts", ["https://git.guild.example"]);
+			const url = "https://git.guild.example/guild/GuildAddon";
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			const addon = dbManager.getByFolder("RepoAddon");
+			expect(addon?.type).toBe("gitea");
+			expect(addon?.branch).toBe("main");
+		});
+
+		test("should install direct zip urls with their content hash", async () => {
+			const url = "https://guild.example.com/files/GuildAddon.zip";
+			const validators = {
+				etag: '"v1"',
+				lastModified: "Wed, 01 Jan 2025 00:00:00 GMT",
+				contentLength: 17,
+			};
+			spyOn(Downloader, "getValidators").mockResolvedValue(validators);
+			spyOn(Downloader, "unzip").mockImplementation(async (_zip, dest) => {
+				fs.mkdirSync(path.join(dest, "GuildAddon"), { recursive: true });
+				fs.writeFileSync(
+					path.join(dest, "GuildAddon", "GuildAddon.toc"),
+					"## Title: GuildAddon",
+				);
+				return true;
+			});
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			const addon = dbManager.getByFolder("GuildAddon");
+			expect(addon?.type).toBe("zip");
+			expect(addon?.url).toBe(url);
+			// sha256 of the mocked download's "dummy zip content"
+			const expectedHash = new Bun.CryptoHasher("sha256")
+				.update("dummy zip content")
+				.digest("hex");
+			expect(addon?.content_hash).toBe(expectedHash);
+			expect(addon?.version).toBe(expectedHash.slice(0, 12));
+			expect(addon?.httpValidators).toEqual(validators);
+		});
+
+		test("should install curseforge urls with their file id", async () => {
+			const server = Bun.serve({
+				port: 0,
+				fetch(req) {
+					const url = new URL(req.url);
+					const mod = { id: 61284, name: "Details! Damage Meter", slug: "details" };
+					if (url.pathname === "/v1/mods/search") {
+						return Response.json({ data: [mod] });
+					}
+					if (url.pathname === "/v1/mods/61284") {
+						return Response.json({ data: mod });
+					}
+					if (url.pathname === "/v1/mods/61284/files") {
+						return Response.json({
+							data: [
+								{
+									id: 5000001,
+									modId: 61284,
+									displayName: "Details.20250101",
+									fileName: "Details.20250101.zip",
+									releaseType: 1,
+									fileDate: "2025-01-01T00:00:00Z",
+									downloadUrl: "https://edge.forgecdn.net/files/5000/1/Details.zip",
+									sortableGameVersions: [{ gameVersionTypeId: 517 }],
+								},
+							],
+						});
+					}
+					return new Response("Not Found", { status: 404 });
+				},
+			});
+			CurseForge.setApiBase(server.url.href);
+			configManager.set("curseforgeApiKey", "test-key");
+			spyOn(Downloader, "unzip").mockImplementation(async (_zip, dest) => {
+				for (const folder of ["Details", "Details_Streamer"]) {
+					fs.mkdirSync(path.join(dest, folder), { recursive: true });
+					fs.writeFileSync(
+						path.join(dest, folder, `${folder}.toc`),
+						`## Title: ${folder}`,
+					);
+				}
+				return true;
+			});
+
+			try {
+				const command = new InstallFromUrlCommand(
+					dbManager,
+					configManager,
+					"https://www.curseforge.com/wow/addons/details",
+				);
+				const result = await command.execute(mockContext);
+
+				expect(result.success).toBe(true);
+				const addon = dbManager.getByFolder("Details");
+				expect(addon?.type).toBe("curseforge");
+				expect(addon?.url).toBe("https://www.curseforge.com/wow/addons/details");
+				expect(addon?.version).toBe("Details.20250101");
+				expect(addon?.file_id).toBe(5000001);
+				expect(addon?.remote_version).toBe("5000001");
+				expect(addon?.ownedFolders).toEqual(["Details_Streamer"]);
+			} finally {
+				CurseForge.setApiBase(null);
+				server.stop(true);
+			}
+		});
+
+		test("should require a curseforge api key", async () => {
+			const envKey = process.env.CURSEFORGE_API_KEY;
+			delete process.env.CURSEFORGE_API_KEY;
+			const command = new InstallFromUrlCommand(
+				dbManager,
+				configManager,
+				"https://www.curseforge.com/wow/addons/details",
+			);
+			const result = await command.execute(mockContext);
+			if (envKey !== undefined) process.env.CURSEFORGE_API_KEY = envKey;
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("CURSEFORGE_API_KEY");
+		});
+
+		test("should report authentication failures readably", async () => {
+			const url = "git@git.example.com:guild/Private.git";
+			spyOn(GitClient, "getRemoteCommit").mockRejectedValue(
+				new GitClient.GitAuthError(url, "Permission denied (publickey)."),
+			);
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("Authentication failed");
+			expect(result.error).toContain(url);
+		});
+
+		test("should install packaged release assets from a releases url", async () => {
+			const url = "https://github.com/user/repo/releases";
+			spyOn(GitHub, "getLatestRelease").mockResolvedValue({
+				success: true,
+				release: {
+					tag_name: "v2.1.0",
+					name: "v2.1.0",
+					draft: false,
+					prerelease: false,
+					body: null,
+					published_at: null,
+					assets: [
+						{
+							name: "RepoAddon-v2.1.0.zip",
+							browser_download_url: "https://github.com/dl/RepoAddon.zip",
+							content_type: "application/zip",
+							size: 1,
+						},
+					],
+				},
+			});
+			spyOn(GitHub, "getPackagerManifest").mockResolvedValue(null);
+			spyOn(Downloader, "unzip").mockImplementation(async (_zip, dest) => {
+				const folderPath = path.join(dest, "RepoAddon");
+				fs.mkdirSync(folderPath, { recursive: true });
+				await Bun.write(
+					path.join(folderPath, "RepoAddon.toc"),
+					"## Title: RepoAddon\n## Version: @project-version@",
+				);
+				return true;
+			});
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.clone).not.toHaveBeenCalled();
+			expect(Downloader.download).toHaveBeenCalledWith(
+				"https://github.com/dl/RepoAddon.zip",
+				expect.any(String),
+			);
+
+			const addon = dbManager.getByFolder("RepoAddon");
+			expect(addon?.url).toBe("https://github.com/user/repo");
+			expect(addon?.tracking).toBe("release");
+			expect(addon?.version).toBe("v2.1.0");
+			expect(addon?.remote_version).toBe("v2.1.0");
+		});
+
+		test("should clone the release tag when no asset fits", async () => {
+			const url = "https://github.com/user/repo/releases/tag/v1.0.0";
+			spyOn(GitHub, "getReleaseByTag").mockResolvedValue({
+				success: true,
+				release: {
+					tag_name: "v1.0.0",
+					name: null,
+					draft: false,
+					prerelease: false,
+					body: null,
+					published_at: null,
+					assets: [],
+				},
+			});
+			spyOn(GitHub, "getPackagerManifest").mockResolvedValue(null);
+			spyOn(GitClient, "getRemoteTags").mockResolvedValue([
+				{ name: "v1.0.0", commit: "abc" },
+				{ name: "v1.1.0", commit: "def" },
+			]);
+
+			const command = new InstallFromUrlCommand(dbManager, configManager, url);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.clone).toHaveBeenCalledWith(
+				"https://github.com/user/repo",
+				"v1.0.0",
+				expect.any(String),
+			);
+			const addon = dbManager.getByFolder("RepoAddon");
+			expect(addon?.version).toBe("v1.0.0");
+			expect(addon?.git_commit).toBe("abc");
+		});
+
 		test("should install from wowinterface url", async () => {
 			const url = "https://wowinterface.com/downloads/info5108-Clique.html";
 			const mockDetails = {
@@ -157,6 +548,117 @@ describe("Commands", () => {
 		});
 	});
 
+	describe("InstallFromFileCommand", () => {
+		test("should install a local folder as a local source", async () => {
+			const source = path.join(TMP_BASE, "build");
+			fs.mkdirSync(path.join(source, "MyAddon", ".git"), { recursive: true });
+			fs.mkdirSync(path.join(source, "MyAddon_Options"), { recursive: true });
+			fs.writeFileSync(
+				path.join(source, "MyAddon", "MyAddon.toc"),
+				"## Title: MyAddon\n## Version: 1.2.3",
+			);
+			fs.writeFileSync(
+				path.join(source, "MyAddon_Options", "MyAddon_Options.toc"),
+				"## Title: MyAddon Options",
+			);
+
+			const command = new InstallFromFileCommand(
+				dbManager,
+				configManager,
+				source,
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(result.installedAddons.sort()).toEqual([
+				"MyAddon",
+				"MyAddon_Options",
+			]);
+			expect(fs.existsSync(path.join(DEST_DIR, "MyAddon", ".git"))).toBe(
+				false,
+			);
+
+			const addon = dbManager.getByFolder("MyAddon");
+			expect(addon?.type).toBe("local");
+			expect(addon?.url).toBe(source);
+			expect(addon?.version).toBe("1.2.3");
+			expect(addon?.content_hash).toBeNull();
+			expect(addon?.ownedFolders).toEqual(["MyAddon_Options"]);
+			expect(dbManager.getByFolder("MyAddon_Options")).toBeNull();
+		});
+
+		test("should reinstall a local zip from a new file", async () => {
+			spyOn(Downloader, "unzip").mockImplementation(async (_zip, dest) => {
+				fs.mkdirSync(path.join(dest, "GuildAddon"), { recursive: true });
+				fs.writeFileSync(
+					path.join(dest, "GuildAddon", "GuildAddon.toc"),
+					"## Title: GuildAddon",
+				);
+				return true;
+			});
+			const firstZip = path.join(TMP_BASE, "GuildAddon-1.zip");
+			const secondZip = path.join(TMP_BASE, "GuildAddon-2.zip");
+			fs.writeFileSync(firstZip, "first build");
+			fs.writeFileSync(secondZip, "second build");
+
+			await new InstallFromFileCommand(
+				dbManager,
+				configManager,
+				`"${firstZip}"`,
+			).execute(mockContext);
+			const result = await new InstallFromFileCommand(
+				dbManager,
+				configManager,
+				secondZip,
+			).execute(mockContext);
+
+			expect(result.success).toBe(true);
+			const addon = dbManager.getByFolder("GuildAddon");
+			expect(addon?.type).toBe("local");
+			expect(addon?.url).toBe(secondZip);
+			expect(addon?.content_hash).toBe(
+				new Bun.CryptoHasher("sha256").update("second build").digest("hex"),
+			);
+			// The user's file is left where it was
+			expect(fs.existsSync(secondZip)).toBe(true);
+		});
+
+		test("should reject files that aren't zips", async () => {
+			const file = path.join(TMP_BASE, "notes.txt");
+			fs.writeFileSync(file, "hello");
+
+			const result = await new InstallFromFileCommand(
+				dbManager,
+				configManager,
+				file,
+			).execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain(".zip");
+			expect(dbManager.getHistory()).toEqual([
+				expect.objectContaining({
+					folder: file,
+					action: "install",
+					source: "local",
+					outcome: "failed",
+				}),
+			]);
+		});
+
+		test("should reject folders inside AddOns", async () => {
+			fs.mkdirSync(path.join(DEST_DIR, "Existing"), { recursive: true });
+
+			const result = await new InstallFromFileCommand(
+				dbManager,
+				configManager,
+				path.join(DEST_DIR, "Existing"),
+			).execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("already inside");
+		});
+	});
+
 	describe("InstallTukUICommand", () => {
 		test("should install ElvUI", async () => {
 			const url = "http://elvui";
@@ -203,6 +705,15 @@ describe("Commands", () => {
 			);
 
 			expect(dbManager.getByFolder("ElvUI")).toBeTruthy();
+			expect(dbManager.getHistory()).toEqual([
+				expect.objectContaining({
+					folder: "ElvUI",
+					action: "install",
+					toVersion: "1.0",
+					source: "tukui",
+					outcome: "success",
+				}),
+			]);
 		});
 	});
 
@@ -244,6 +755,20 @@ describe("Commands", () => {
 				"addon:remove:complete",
 				folder,
 			);
+			expect(dbManager.getHistory({ addon: folder })).toEqual([
+				expect.objectContaining({
+					action: "remove",
+					fromVersion: "1.0",
+					toVersion: null,
+				}),
+			]);
+
+			// Undoing the removal is recorded as a rollback
+			await command.undo(mockContext);
+			expect(dbManager.getByFolder(folder)).not.toBeNull();
+			expect(dbManager.getHistory({ addon: folder })[0]).toEqual(
+				expect.objectContaining({ action: "rollback", toVersion: "1.0" }),
+			);
 		});
 	});
 
@@ -296,6 +821,94 @@ describe("Commands", () => {
 			expect(updated?.git_commit).toBe(newHash);
 		});
 
+		test("should install the newest tag in tag tracking mode", async () => {
+			const folder = "TaggedAddon";
+			fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+
+			// biome-ignore lint/suspicious/noExplicitAny: test data
+			const addon: any = {
+				name: folder,
+				folder,
+				type: "github",
+				url: "http://git",
+				version: "v1.0.0",
+				tracking: "tag",
+				author: null,
+				interface: null,
+			};
+			dbManager.addAddon({ ...addon, install_date: "", last_updated: "" });
+
+			spyOn(GitClient, "getRemoteTags").mockResolvedValue([
+				{ name: "v1.0.0", commit: "aaa" },
+				{ name: "v1.2.0", commit: "bbb" },
+				{ name: "v1.10.0-beta", commit: "ccc" },
+			]);
+			spyOn(GitClient, "clone").mockImplementation(
+				async (_url, _branch, dest) => {
+					const folderPath = path.join(dest, folder);
+					fs.mkdirSync(folderPath, { recursive: true });
+					await Bun.write(
+						path.join(folderPath, `${folder}.toc`),
+						`## Title: ${folder}`,
+					);
+					return true;
+				},
+			);
+
+			const command = new UpdateAddonCommand(
+				dbManager,
+				configManager,
+				addon,
+				false,
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(result.updated).toBe(true);
+			expect(GitClient.getRemoteCommit).not.toHaveBeenCalled();
+			expect(GitClient.clone).toHaveBeenCalledWith(
+				"http://git",
+				"v1.10.0-beta",
+				expect.any(String),
+			);
+
+			const updated = dbManager.getByFolder(folder);
+			expect(updated?.version).toBe("v1.10.0-beta");
+			expect(updated?.git_commit).toBe("ccc");
+		});
+
+		test("should skip prerelease tags in release tracking mode", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: test data
+			const addon: any = {
+				name: "ReleaseAddon",
+				folder: "ReleaseAddon",
+				type: "github",
+				url: "http://git",
+				version: "v1.2.0",
+				tracking: "release",
+				author: null,
+				interface: null,
+			};
+			dbManager.addAddon({ ...addon, install_date: "", last_updated: "" });
+
+			spyOn(GitClient, "getRemoteTags").mockResolvedValue([
+				{ name: "v1.2.0", commit: "bbb" },
+				{ name: "v2.0.0-rc.1", commit: "ccc" },
+			]);
+
+			const command = new UpdateAddonCommand(
+				dbManager,
+				configManager,
+				addon,
+				false,
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(result.updated).toBe(false);
+			expect(GitClient.clone).not.toHaveBeenCalled();
+		});
+
 		test("should update wowinterface addon", async () => {
 			const folder = "WoWAddon";
 			const addonDir = path.join(DEST_DIR, folder);
@@ -354,6 +967,47 @@ describe("Commands", () => {
 			const updated = dbManager.getByFolder(folder);
 			expect(updated?.version).toBe("1.1");
 		});
+
+		test("should not downgrade to an older remote version", async () => {
+			// biome-ignore lint/suspicious/noExplicitAny: test data
+			const addon: any = {
+				name: "WoWAddon",
+				folder: "WoWAddon",
+				type: "wowinterface",
+				url: "https://wowinterface.com/downloads/info123-WoWAddon.html",
+				version: "v1.2.0",
+				author: null,
+				interface: null,
+			};
+			dbManager.addAddon({ ...addon, install_date: "", last_updated: "" });
+
+			spyOn(WoWInterface, "getAddonDetails").mockResolvedValue({
+				success: true,
+				details: {
+					UID: "123",
+					UIName: "WoWAddon",
+					UIVersion: "1.1.9",
+					UIDownload: "http://download/wowaddon.zip",
+					UIAuthorName: "Author",
+					UIFileName: "wowaddon.zip",
+				},
+			});
+			const downloadSpy = spyOn(Downloader, "download");
+			downloadSpy.mockClear();
+
+			const command = new UpdateAddonCommand(
+				dbManager,
+				configManager,
+				addon,
+				false,
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(result.updated).toBe(false);
+			expect(result.message).toContain("older");
+			expect(downloadSpy).not.toHaveBeenCalled();
+		});
 	});
 
 	describe("ScanCommand", () => {
@@ -382,5 +1036,616 @@ describe("Commands", () => {
 			expect(addon?.author).toBe("Me");
 			expect(addon?.type).toBe("manual");
 		});
+
+		test("should keep the installed commit over the cached branch head", async () => {
+			const folder = "CachedAddon";
+			fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+			await Bun.write(
+				path.join(DEST_DIR, folder, `${folder}.toc`),
+				"## Title: CachedAddon",
+			);
+			dbManager.addAddon({
+				name: "CachedAddon",
+				folder,
+				version: "abc1234",
+				git_commit: "abc1234",
+				type: "github",
+				url: "https://github.com/user/repo",
+				branch: "main",
+				ownedFolders: [],
+				kind: "addon",
+				kindOverride: false,
+				flavor: "retail",
+				requiredDeps: [],
+				optionalDeps: [],
+				embeddedLibs: [],
+				author: null,
+				interface: null,
+				install_date: "",
+				last_updated: "",
+				last_checked: null,
+				remote_version: null,
+			});
+			const cacheSpy = spyOn(RepoCache, "getCachedCommit").mockResolvedValue(
+				"fff9999",
+			);
+
+			await new ScanCommand(dbManager, configManager).execute(mockContext);
+
+			expect(dbManager.getByFolder(folder)?.git_commit).toBe("abc1234");
+			expect(cacheSpy).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("SwitchBranchCommand", () => {
+		// biome-ignore lint/suspicious/noExplicitAny: test data
+		const addon: any = {
+			name: "BranchAddon",
+			folder: "BranchAddon",
+			type: "github",
+			url: "https://github.com/user/repo",
+			version: "abc1234",
+			git_commit: "abc1234",
+			branch: "main",
+			author: null,
+			interface: null,
+			install_date: "",
+			last_updated: "",
+			last_checked: "2024-01-01",
+		};
+
+		test("should switch to an existing branch", async () => {
+			dbManager.addAddon(addon);
+			spyOn(GitClient, "getRemoteCommit").mockResolvedValue("def5678");
+
+			const command = new SwitchBranchCommand(dbManager, "BranchAddon", "dev");
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(GitClient.getRemoteCommit).toHaveBeenCalledWith(addon.url, "dev");
+			const updated = dbManager.getByFolder("BranchAddon");
+			expect(updated?.branch).toBe("dev");
+			expect(updated?.remote_version).toBe("def5678");
+			expect(updated?.last_checked).toBeNull();
+
+			await command.undo(mockContext);
+			expect(dbManager.getByFolder("BranchAddon")?.branch).toBe("main");
+			expect(dbManager.getHistory({ addon: "BranchAddon" })).toEqual([
+				expect.objectContaining({
+					action: "rollback",
+					fromVersion: "dev",
+					toVersion: "main",
+				}),
+				expect.objectContaining({
+					action: "source",
+					fromVersion: "main",
+					toVersion: "dev",
+					outcome: "success",
+				}),
+			]);
+		});
+
+		test("should reject a missing branch", async () => {
+			dbManager.addAddon(addon);
+			spyOn(GitClient, "getRemoteCommit").mockResolvedValue(null);
+
+			const command = new SwitchBranchCommand(dbManager, "BranchAddon", "nope");
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(dbManager.getByFolder("BranchAddon")?.branch).toBe("main");
+			expect(dbManager.getHistory({ addon: "BranchAddon" })).toEqual([
+				expect.objectContaining({
+					action: "source",
+					toVersion: "nope",
+					outcome: "failed",
+					message: "Branch 'nope' not found on remote",
+				}),
+			]);
+		});
+
+		test("should reject non-github addons", async () => {
+			dbManager.addAddon({ ...addon, type: "tukui" });
+
+			const command = new SwitchBranchCommand(dbManager, "BranchAddon", "dev");
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(GitClient.getRemoteCommit).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("MatchSourcesCommand / AdoptAddonCommand", () => {
+		let server: ReturnType<typeof Bun.serve>;
+
+		beforeEach(async () => {
+			for (const folder of ["Details", "Details_Streamer", "Unknown"]) {
+				fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+				fs.writeFileSync(
+					path.join(DEST_DIR, folder, `${folder}.toc`),
+					`## Title: ${folder}\n## Version: 1.0\n${folder}.lua\n`,
+				);
+				fs.writeFileSync(path.join(DEST_DIR, folder, `${folder}.lua`), folder);
+			}
+			await new ScanCommand(dbManager, configManager).execute(mockContext);
+
+			const modules = await Promise.all(
+				["Details", "Details_Streamer"].map(async (name) => ({
+					name,
+					fingerprint: await getFolderFingerprint(path.join(DEST_DIR, name)),
+				})),
+			);
+			const mod = {
+				id: 61284,
+				name: "Details! Damage Meter",
+				slug: "details",
+				authors: [{ name: "Terciob" }],
+			};
+			server = Bun.serve({
+				port: 0,
+				fetch(req) {
+					const url = new URL(req.url);
+					if (url.pathname === "/v1/fingerprints/1") {
+						return Response.json({
+							data: {
+								exactMatches: [
+									{
+										id: mod.id,
+										file: {
+											id: 5000001,
+											modId: mod.id,
+											displayName: "Details.20250101",
+											fileName: "Details.20250101.zip",
+											releaseType: 1,
+											fileDate: "2025-01-01T00:00:00Z",
+											modules,
+										},
+									},
+								],
+							},
+						});
+					}
+					if (url.pathname === "/v1/mods") {
+						return Response.json({ data: [mod] });
+					}
+					return new Response("Not Found", { status: 404 });
+				},
+			});
+			CurseForge.setApiBase(server.url.href);
+			configManager.set("curseforgeApiKey", "test-key");
+		});
+
+		afterEach(() => {
+			CurseForge.setApiBase(null);
+			server.stop(true);
+		});
+
+		test("should match manual folders to a release", async () => {
+			const command = new MatchSourcesCommand(dbManager, configManager);
+			const matches = await command.execute(mockContext);
+
+			expect(matches).toHaveLength(1);
+			expect(matches[0]?.folder).toBe("Details");
+			expect(matches[0]?.ownedFolders).toEqual(["Details_Streamer"]);
+			expect(matches[0]?.match.url).toBe(
+				"https://www.curseforge.com/wow/addons/details",
+			);
+		});
+
+		test("should only fingerprint the requested folders", async () => {
+			const command = new MatchSourcesCommand(dbManager, configManager, [
+				"Unknown",
+			]);
+			expect(await command.execute(mockContext)).toEqual([]);
+		});
+
+		test("should adopt a match and undo it", async () => {
+			const [match] = await new MatchSourcesCommand(
+				dbManager,
+				configManager,
+			).execute(mockContext);
+			if (!match) throw new Error("expected a match");
+
+			const command = new AdoptAddonCommand(dbManager, match);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			const addon = dbManager.getByFolder("Details");
+			expect(addon?.type).toBe("curseforge");
+			expect(addon?.url).toBe("https://www.curseforge.com/wow/addons/details");
+			expect(addon?.version).toBe("Details.20250101");
+			expect(addon?.file_id).toBe(5000001);
+			expect(addon?.author).toBe("Terciob");
+			expect(addon?.ownedFolders).toEqual(["Details_Streamer"]);
+			expect(dbManager.getByFolder("Details_Streamer")).toBeNull();
+
+			// Adopting twice is refused
+			expect((await new AdoptAddonCommand(dbManager, match).execute(mockContext)).success).toBe(false);
+
+			await command.undo(mockContext);
+			expect(dbManager.getByFolder("Details")?.type).toBe("manual");
+			expect(dbManager.getByFolder("Details")?.url).toBeNull();
+			expect(dbManager.getByFolder("Details_Streamer")?.type).toBe("manual");
+			expect(dbManager.getHistory({ addon: "Details" })).toEqual([
+				expect.objectContaining({
+					action: "rollback",
+					fromVersion: "curseforge",
+					toVersion: "manual",
+				}),
+				expect.objectContaining({
+					action: "source",
+					fromVersion: "manual",
+					toVersion: "curseforge",
+					message: "https://www.curseforge.com/wow/addons/details",
+				}),
+			]);
+		});
+	});
+
+	describe("LinkSourceCommand", () => {
+		const installManual = async (folders: string[]) => {
+			for (const folder of folders) {
+				fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+				fs.writeFileSync(
+					path.join(DEST_DIR, folder, `${folder}.toc`),
+					`## Title: ${folder}\n## Version: 1.0`,
+				);
+			}
+			await new ScanCommand(dbManager, configManager).execute(mockContext);
+		};
+
+		const mockPackage = (folders: string[]) => {
+			spyOn(WoWInterface, "getAddonDetails").mockResolvedValue({
+				success: true,
+				details: {
+					UID: "5108",
+					UIName: "Details",
+					UIVersion: "1.1",
+					UIDownload: "http://download/details.zip",
+					UIAuthorName: "Terciob",
+					UIFileName: "details.zip",
+				},
+			});
+			spyOn(Downloader, "unzip").mockImplementation(async (_zip, dest) => {
+				for (const folder of folders) {
+					fs.mkdirSync(path.join(dest, folder), { recursive: true });
+					fs.writeFileSync(
+						path.join(dest, folder, `${folder}.toc`),
+						`## Title: ${folder}`,
+					);
+				}
+				return true;
+			});
+		};
+
+		test("should link a manual addon without touching its files", async () => {
+			await installManual(["Details", "Details_Streamer"]);
+			const installDate = dbManager.getByFolder("Details")?.install_date;
+			mockPackage(["Details", "Details_Streamer", "Details_Extra"]);
+
+			const command = new LinkSourceCommand(
+				dbManager,
+				configManager,
+				"Details",
+				"wowi:5108",
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(true);
+			expect(WoWInterface.getAddonDetails).toHaveBeenCalledWith("5108");
+			const addon = dbManager.getByFolder("Details");
+			expect(addon?.type).toBe("wowinterface");
+			expect(addon?.url).toBe("https://www.wowinterface.com/downloads/info5108");
+			// Files stay as installed, so the next check offers the linked release
+			expect(addon?.version).toBe("1.0");
+			expect(addon?.remote_version).toBeNull();
+			// biome-ignore lint/style/noNonNullAssertion: linked above
+			expect(compareAddonVersion(addon!, "1.1")).toBe("upgrade");
+			expect(addon?.author).toBe("Terciob");
+			expect(addon?.install_date).toBe(installDate);
+			// Only folders that are actually installed are taken over
+			expect(addon?.ownedFolders).toEqual(["Details_Streamer"]);
+			expect(dbManager.getByFolder("Details_Streamer")).toBeNull();
+			expect(fs.existsSync(path.join(DEST_DIR, "Details_Extra"))).toBe(false);
+			expect(
+				fs.readFileSync(path.join(DEST_DIR, "Details", "Details.toc"), "utf8"),
+			).toContain("## Version: 1.0");
+
+			await command.undo(mockContext);
+			expect(dbManager.getByFolder("Details")?.type).toBe("manual");
+			expect(dbManager.getByFolder("Details_Streamer")?.type).toBe("manual");
+			expect(dbManager.getHistory({ addon: "Details" })).toEqual([
+				expect.objectContaining({
+					action: "rollback",
+					fromVersion: "wowinterface",
+					toVersion: "manual",
+					source: "manual",
+				}),
+				expect.objectContaining({
+					action: "source",
+					fromVersion: "manual",
+					toVersion: "wowinterface",
+					source: "wowinterface",
+					message: "https://www.wowinterface.com/downloads/info5108",
+				}),
+			]);
+		});
+
+		test("should refuse a source without the addon's folder", async () => {
+			await installManual(["Details"]);
+			mockPackage(["Skada"]);
+
+			const command = new LinkSourceCommand(
+				dbManager,
+				configManager,
+				"Details",
+				"https://www.wowinterface.com/downloads/info5108",
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toContain("found: Skada");
+			expect(dbManager.getByFolder("Details")?.type).toBe("manual");
+			expect(dbManager.getHistory({ addon: "Details" })).toEqual([
+				expect.objectContaining({
+					action: "source",
+					source: "manual",
+					outcome: "failed",
+					message: result.error,
+				}),
+			]);
+		});
+
+		test("should refuse unsupported input and managed addons", async () => {
+			await installManual(["Details"]);
+
+			const unsupported = await new LinkSourceCommand(
+				dbManager,
+				configManager,
+				"Details",
+				"not a url",
+			).execute(mockContext);
+			expect(unsupported.success).toBe(false);
+
+			dbManager.updateAddon("Details", { type: "wowinterface" });
+			const managed = await new LinkSourceCommand(
+				dbManager,
+				configManager,
+				"Details",
+				"wowi:5108",
+			).execute(mockContext);
+			expect(managed.error).toBe("Addon already has a source");
+		});
+	});
+
+	describe("RestoreVersionCommand", () => {
+		const ARCHIVE_DIR = path.join(CONFIG_DIR, "versions");
+
+		beforeEach(() => {
+			VersionArchive.setVersionArchiveDir(ARCHIVE_DIR);
+		});
+
+		afterEach(() => {
+			VersionArchive.setVersionArchiveDir(null);
+		});
+
+		const installVersion = (folders: string[], content: string) => {
+			for (const folder of folders) {
+				fs.rmSync(path.join(DEST_DIR, folder), {
+					recursive: true,
+					force: true,
+				});
+				fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+				fs.writeFileSync(path.join(DEST_DIR, folder, "code.lua"), content);
+			}
+		};
+
+		const readCode = (folder: string) =>
+			fs.readFileSync(path.join(DEST_DIR, folder, "code.lua"), "utf-8");
+
+		// biome-ignore lint/suspicious/noExplicitAny: test data
+		const addon: any = {
+			name: "Rollback",
+			folder: "Rollback",
+			type: "github",
+			url: "http://git",
+			version: "v1.0.0",
+			author: null,
+			interface: null,
+			install_date: "",
+			last_updated: "",
+		};
+
+		test("should archive the version an update replaces", async () => {
+			installVersion(["Rollback"], "v1");
+			dbManager.addAddon(addon);
+			spyOn(GitClient, "getRemoteCommit").mockResolvedValue("b".repeat(40));
+			spyOn(GitClient, "clone").mockImplementation(
+				async (_url, _branch, dest) => {
+					const folderPath = path.join(dest, "Rollback");
+					fs.mkdirSync(folderPath, { recursive: true });
+					fs.writeFileSync(path.join(folderPath, "Rollback.toc"), "");
+					fs.writeFileSync(path.join(folderPath, "code.lua"), "v2");
+					return true;
+				},
+			);
+
+			const result = await new UpdateAddonCommand(
+				dbManager,
+				configManager,
+				// biome-ignore lint/style/noNonNullAssertion: just added
+				dbManager.getByFolder("Rollback")!,
+				false,
+			).execute(mockContext);
+			expect(result.updated).toBe(true);
+			expect(readCode("Rollback")).toBe("v2");
+			expect(dbManager.getHistory({ addon: "Rollback" })).toEqual([
+				expect.objectContaining({
+					action: "update",
+					fromVersion: "v1.0.0",
+					source: "github",
+					outcome: "success",
+				}),
+			]);
+
+			const versions = await VersionArchive.listVersions("Rollback");
+			expect(versions).toHaveLength(1);
+			expect(versions[0]?.record.version).toBe("v1.0.0");
+			expect(
+				fs.readFileSync(
+					path.join(versions[0]?.path ?? "", "Rollback", "code.lua"),
+					"utf-8",
+				),
+			).toBe("v1");
+		});
+
+		test("should restore an archived version and undo back", async () => {
+			installVersion(["Rollback"], "v1");
+			dbManager.addAddon(addon);
+			// biome-ignore lint/style/noNonNullAssertion: just added
+			const v1 = dbManager.getByFolder("Rollback")!;
+			await VersionArchive.archiveInstalled(v1, DEST_DIR);
+
+			installVersion(["Rollback", "Rollback_Options"], "v2");
+			dbManager.updateAddon("Rollback", {
+				version: "v2.0.0",
+				ownedFolders: ["Rollback_Options"],
+			});
+
+			const [entry] = await VersionArchive.listVersions("Rollback");
+			const command = new RestoreVersionCommand(
+				dbManager,
+				configManager,
+				"Rollback",
+				entry?.path ?? "",
+			);
+			const result = await command.execute(mockContext);
+
+			expect(result).toEqual({ success: true, version: "v1.0.0" });
+			expect(readCode("Rollback")).toBe("v1");
+			expect(fs.existsSync(path.join(DEST_DIR, "Rollback_Options"))).toBe(
+				false,
+			);
+			const restored = dbManager.getByFolder("Rollback");
+			expect(restored?.version).toBe("v1.0.0");
+			expect(restored?.ownedFolders).toEqual([]);
+
+			// The replaced version takes the restored one's place in the archive
+			const versions = await VersionArchive.listVersions("Rollback");
+			expect(versions.map((v) => v.record.version)).toEqual(["v2.0.0"]);
+			expect(versions[0]?.folders.sort()).toEqual([
+				"Rollback",
+				"Rollback_Options",
+			]);
+
+			await command.undo(mockContext);
+			expect(readCode("Rollback")).toBe("v2");
+			expect(readCode("Rollback_Options")).toBe("v2");
+			const rolledForward = dbManager.getByFolder("Rollback");
+			expect(rolledForward?.version).toBe("v2.0.0");
+			expect(rolledForward?.ownedFolders).toEqual(["Rollback_Options"]);
+
+			expect(
+				dbManager
+					.getHistory({ addon: "Rollback" })
+					.map((e) => [e.action, e.fromVersion, e.toVersion]),
+			).toEqual([
+				["rollback", "v1.0.0", "v2.0.0"],
+				["rollback", "v2.0.0", "v1.0.0"],
+			]);
+		});
+
+		test("should keep only the configured number of versions", async () => {
+			installVersion(["Rollback"], "v1");
+			dbManager.addAddon(addon);
+			configManager.set("versionRetention", 2);
+			// biome-ignore lint/style/noNonNullAssertion: just added
+			const record = dbManager.getByFolder("Rollback")!;
+			for (const version of ["v1", "v2", "v3"]) {
+				await VersionArchive.archiveInstalled(
+					{ ...record, version },
+					DEST_DIR,
+				);
+				await Bun.sleep(2);
+			}
+
+			await VersionArchive.pruneVersions(
+				"Rollback",
+				configManager.get().versionRetention,
+			);
+			const versions = await VersionArchive.listVersions("Rollback");
+			expect(versions.map((v) => v.record.version)).toEqual(["v3", "v2"]);
+		});
+
+		test("should fail on a missing archive entry", async () => {
+			installVersion(["Rollback"], "v1");
+			dbManager.addAddon(addon);
+
+			const result = await new RestoreVersionCommand(
+				dbManager,
+				configManager,
+				"Rollback",
+				path.join(ARCHIVE_DIR, "Rollback", "missing"),
+			).execute(mockContext);
+
+			expect(result.success).toBe(false);
+			expect(result.error).toBe("Archived version is missing or damaged");
+			expect(readCode("Rollback")).toBe("v1");
+		});
+
+		test("should put the installed version back if a copy fails", async () => {
+			installVersion(["Rollback"], "v1");
+			dbManager.addAddon(addon);
+			// biome-ignore lint/style/noNonNullAssertion: just added
+			const v1 = dbManager.getByFolder("Rollback")!;
+			await VersionArchive.archiveInstalled(v1, DEST_DIR);
+			installVersion(["Rollback"], "v2");
+			dbManager.updateAddon("Rollback", { version: "v2.0.0" });
+
+			const [entry] = await VersionArchive.listVersions("Rollback");
+			const realCp = fsPromises.cp;
+			spyOn(fsPromises, "cp").mockImplementation(async (src, dest, opts) => {
+				if (String(src).startsWith(entry?.path ?? "")) {
+					throw new Error("Disk full");
+				}
+				return realCp(src, dest, opts);
+			});
+
+			const result = await new RestoreVersionCommand(
+				dbManager,
+				configManager,
+				"Rollback",
+				entry?.path ?? "",
+			).execute(mockContext);
+
+			expect(result).toEqual({ success: false, error: "Disk full" });
+			expect(readCode("Rollback")).toBe("v2");
+			expect(dbManager.getByFolder("Rollback")?.version).toBe("v2.0.0");
+			// Only the version that was to be restored is archived
+			const versions = await VersionArchive.listVersions("Rollback");
+			expect(versions.map((v) => v.record.version)).toEqual(["v1.0.0"]);
+		});
+
+		test("should restore the subpath the archived version used", async () => {
+			installVersion(["Rollback"], "v1");
+			dbManager.addAddon({ ...addon, subpath: "addon/Rollback" });
+			// biome-ignore lint/style/noNonNullAssertion: just added
+			const v1 = dbManager.getByFolder("Rollback")!;
+			await VersionArchive.archiveInstalled(v1, DEST_DIR);
+			installVersion(["Rollback"], "v2");
+			dbManager.updateAddon("Rollback", { version: "v2.0.0", subpath: null });
+
+			const [entry] = await VersionArchive.listVersions("Rollback");
+			await new RestoreVersionCommand(
+				dbManager,
+				configManager,
+				"Rollback",
+				entry?.path ?? "",
+			).execute(mockContext);
+
+			expect(dbManager.getByFolder("Rollback")?.subpath).toBe(
+				"addon/Rollback",
+			);
+		});
 	});
 });
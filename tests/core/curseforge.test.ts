@@ -0,0 +1,286 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { ConfigManager } from "@/core/config";
+import * as CurseForge from "@/core/curseforge";
+import { CurseForgeProvider } from "@/core/sources/curseforge";
+
+const API_KEY = "test-key";
+
+const retail = [{ gameVersionName: "11.0.7", gameVersionTypeId: 517 }];
+const classic = [{ gameVersionName: "1.15.5", gameVersionTypeId: 67408 }];
+
+const file = (
+	id: number,
+	releaseType: number,
+	fileDate: string,
+	sortableGameVersions: typeof retail,
+) => ({
+	id,
+	modId: 61284,
+	displayName: `Details-${id}`,
+	fileName: `Details-${id}.zip`,
+	releaseType,
+	fileDate,
+	downloadUrl: `https://edge.forgecdn.net/files/${id}/Details.zip`,
+	isAvailable: true,
+	sortableGameVersions,
+});
+
+const FILES = [
+	file(5000001, 1, "2025-01-01T00:00:00Z", retail),
+	file(5000002, 2, "2025-02-01T00:00:00Z", retail),
+	file(5000003, 1, "2025-03-01T00:00:00Z", classic),
+	file(5000004, 3, "2025-04-01T00:00:00Z", retail),
+];
+
+const MOD = {
+	id: 61284,
+	name: "Details! Damage Meter",
+	slug: "details",
+	links: { websiteUrl: "https://www.curseforge.com/wow/addons/details" },
+	authors: [{ name: "Terciob" }],
+};
+
+const FINGERPRINT_FILE = {
+	...file(5000001, 1, "2025-01-01T00:00:00Z", retail),
+	modules: [
+		{ name: "Details", fingerprint: 111 },
+		{ name: "Details_Streamer", fingerprint: 222 },
+	],
+};
+
+describe("CurseForge API", () => {
+	let server: ReturnType<typeof Bun.serve>;
+	const requests: URL[] = [];
+
+	beforeAll(() => {
+		server = Bun.serve({
+			port: 0,
+			async fetch(req) {
+				const url = new URL(req.url);
+				requests.push(url);
+				if (req.headers.get("x-api-key") !== API_KEY) {
+					return new Response("Forbidden", { status: 403 });
+				}
+				if (url.pathname === "/v1/mods/search") {
+					const slug = url.searchParams.get("slug");
+					return Response.json({ data: slug === MOD.slug ? [MOD] : [] });
+				}
+				if (url.pathname === "/v1/mods/61284") {
+					return Response.json({ data: MOD });
+				}
+				if (url.pathname === "/v1/mods" && req.method === "POST") {
+					const { modIds } = (await req.json()) as { modIds: number[] };
+					return Response.json({ data: modIds.includes(MOD.id) ? [MOD] : [] });
+				}
+				if (url.pathname === "/v1/fingerprints/1" && req.method === "POST") {
+					const { fingerprints } = (await req.json()) as {
+						fingerprints: number[];
+					};
+					const installed = FINGERPRINT_FILE.modules.filter((m) =>
+						fingerprints.includes(m.fingerprint),
+					);
+					return Response.json({
+						data: {
+							exactMatches:
+								installed.length > 0
+									? [{ id: MOD.id, file: FINGERPRINT_FILE }]
+									: [],
+						},
+					});
+				}
+				if (url.pathname === "/v1/mods/61284/files") {
+					return Response.json({ data: FILES });
+				}
+				const single = url.pathname.match(/^\/v1\/mods\/61284\/files\/(\d+)$/);
+				const match = FILES.find((f) => String(f.id) === single?.[1]);
+				if (match) return Response.json({ data: match });
+				return new Response("Not Found", { status: 404 });
+			},
+		});
+		CurseForge.setApiBase(server.url.href);
+	});
+
+	afterAll(() => {
+		CurseForge.setApiBase(null);
+		server.stop(true);
+	});
+
+	afterEach(() => {
+		requests.length = 0;
+	});
+
+	it("should parse project urls and ids", () => {
+		expect(
+			CurseForge.parseCurseForgeUrl(
+				"https://www.curseforge.com/wow/addons/details",
+			),
+		).toEqual({ modId: null, slug: "details", fileId: null });
+		expect(
+			CurseForge.parseCurseForgeUrl(
+				"https://www.curseforge.com/wow/addons/details/files/5000002",
+			),
+		).toEqual({ modId: null, slug: "details", fileId: 5000002 });
+		expect(
+			CurseForge.parseCurseForgeUrl("https://www.curseforge.com/projects/61284"),
+		).toEqual({ modId: 61284, slug: null, fileId: null });
+		expect(CurseForge.parseCurseForgeUrl("61284")).toEqual({
+			modId: 61284,
+			slug: null,
+			fileId: null,
+		});
+		expect(
+			CurseForge.parseCurseForgeUrl(
+				"https://www.curseforge.com/minecraft/mc-mods/jei",
+			),
+		).toBeNull();
+		expect(
+			CurseForge.parseCurseForgeUrl("https://github.com/wow/addons/details"),
+		).toBeNull();
+	});
+
+	it("should select the newest file for the flavor and release type", () => {
+		expect(CurseForge.selectLatestFile(FILES, "retail")?.id).toBe(5000001);
+		expect(CurseForge.selectLatestFile(FILES, "retail", "beta")?.id).toBe(
+			5000002,
+		);
+		expect(CurseForge.selectLatestFile(FILES, "retail", "alpha")?.id).toBe(
+			5000004,
+		);
+		expect(CurseForge.selectLatestFile(FILES, "classic")?.id).toBe(5000003);
+		expect(CurseForge.selectLatestFile(FILES, "cata")).toBeNull();
+	});
+
+	it("should skip files that are no longer available", () => {
+		const files = [...FILES, { ...file(5000009, 1, "2026-01-01T00:00:00Z", retail), isAvailable: false }];
+		expect(CurseForge.selectLatestFile(files, "retail")?.id).toBe(5000001);
+	});
+
+	it("should find a mod by slug with the api key", async () => {
+		const result = await CurseForge.findModBySlug("details", API_KEY);
+
+		expect(result.success).toBe(true);
+		if (result.success) expect(result.mod.id).toBe(61284);
+		expect(requests[0]?.searchParams.get("gameId")).toBe("1");
+	});
+
+	it("should report missing, rejected and unknown projects", async () => {
+		expect(await CurseForge.getMod(61284)).toEqual({
+			success: false,
+			error: "no_api_key",
+		});
+		expect(requests).toHaveLength(0);
+
+		expect(await CurseForge.getMod(61284, "wrong-key")).toEqual({
+			success: false,
+			error: "forbidden",
+		});
+		expect(await CurseForge.getMod(1, API_KEY)).toEqual({
+			success: false,
+			error: "not_found",
+		});
+	});
+
+	it("should request files for the flavor's game version type", async () => {
+		const result = await CurseForge.getModFiles(61284, "classic", API_KEY);
+
+		expect(result.success).toBe(true);
+		expect(requests[0]?.searchParams.get("gameVersionTypeId")).toBe("67408");
+	});
+
+	it("should resolve the latest release by file id", async () => {
+		const release = await CurseForgeProvider.resolveLatest(
+			{ name: "Details", url: "https://www.curseforge.com/wow/addons/details" },
+			{ curseforgeApiKey: API_KEY, curseforgeReleaseType: "beta" } as any,
+		);
+
+		expect(release.fileId).toBe(5000002);
+		expect(release.version).toBe("Details-5000002");
+		expect(release.downloadUrl).toContain("5000002");
+		expect(release.author).toBe("Terciob");
+	});
+
+	it("should compare versions by file id", () => {
+		const local = { version: "Details-5000002", git_commit: null, file_id: 5000002 };
+
+		expect(CurseForgeProvider.compareVersions(local, "5000004")).toBe("upgrade");
+		expect(CurseForgeProvider.compareVersions(local, "5000002")).toBe(
+			"equivalent",
+		);
+		// An older release doesn't replace a newer beta
+		expect(CurseForgeProvider.compareVersions(local, "5000001")).toBe(
+			"downgrade",
+		);
+	});
+
+	it("should match installed folders by fingerprint", async () => {
+		const matches = await CurseForgeProvider.matchFingerprints?.(
+			new Map([
+				["Details", 111],
+				// Locally modified, so it no longer matches
+				["Details_Streamer", 999],
+				["WeakAuras", 333],
+			]),
+			{ curseforgeApiKey: API_KEY } as any,
+		);
+
+		expect(matches).toHaveLength(1);
+		expect(matches?.[0]?.url).toBe(MOD.links.websiteUrl);
+		expect(matches?.[0]?.folders).toEqual(["Details"]);
+		expect(matches?.[0]?.release.fileId).toBe(5000001);
+		expect(matches?.[0]?.release.version).toBe("Details-5000001");
+	});
+
+	it("should skip fingerprint matching without an api key", async () => {
+		const matches = await CurseForgeProvider.matchFingerprints?.(
+			new Map([["Details", 111]]),
+			{ curseforgeApiKey: "" } as any,
+		);
+
+		expect(matches).toEqual([]);
+		expect(requests).toHaveLength(0);
+	});
+
+	it("should refuse files the author keeps to the CurseForge app", async () => {
+		await expect(
+			CurseForgeProvider.download(
+				{ version: "Details-5000001", fileId: 5000001 },
+				{ name: "Details", url: MOD.links.websiteUrl },
+				os.tmpdir(),
+				{} as any,
+			),
+		).rejects.toThrow("CurseForge app");
+	});
+});
+
+describe("ConfigManager - CurseForge API Key", () => {
+	let tempDir: string;
+	let originalEnvKey: string | undefined;
+
+	beforeAll(() => {
+		originalEnvKey = process.env.CURSEFORGE_API_KEY;
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "lemonup-config-test-"));
+	});
+
+	afterAll(() => {
+		if (originalEnvKey !== undefined) {
+			process.env.CURSEFORGE_API_KEY = originalEnvKey;
+		} else {
+			delete process.env.CURSEFORGE_API_KEY;
+		}
+		fs.rmSync(tempDir, { recursive: true, force: true });
+	});
+
+	it("should fall back to CURSEFORGE_API_KEY only when unset", () => {
+		process.env.CURSEFORGE_API_KEY = "env-api-key";
+		const manager = new ConfigManager({ cwd: tempDir });
+		manager.createDefaultConfig();
+		expect(manager.get().curseforgeApiKey).toBe("env-api-key");
+		expect(manager.get().curseforgeReleaseType).toBe("release");
+
+		manager.set("curseforgeApiKey", "stored-api-key");
+		expect(manager.get().curseforgeApiKey).toBe("stored-api-key");
+	});
+});
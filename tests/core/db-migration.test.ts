@@ -63,7 +63,7 @@ describe("Database Migration V1 to V2", () => {
 
     expect(hasLastChecked).toBe(true);
     expect(hasRemoteVersion).toBe(true);
-    expect(version).toBe(2);
+    expect(version).toBe(13);
 
     // 4. Verify Data Preservation
     const addon = manager.getByFolder("TestAddon");
@@ -76,6 +76,342 @@ describe("Database Migration V1 to V2", () => {
     v2db.close();
   });
 
+  it("should migrate V2 database to V3 with branch column", () => {
+    new DatabaseManager(tempDir).close();
+
+    // Roll back to a V2 schema without branch column
+    const v2db = new Database(dbPath);
+    v2db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v2db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v2db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v2db.run("ALTER TABLE addons DROP COLUMN channel");
+    v2db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v2db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v2db.run("ALTER TABLE addons DROP COLUMN project_ids");
+    v2db.run("ALTER TABLE addons DROP COLUMN file_id");
+    v2db.run("ALTER TABLE addons DROP COLUMN http_validators");
+    v2db.run("ALTER TABLE addons DROP COLUMN content_hash");
+    v2db.run("ALTER TABLE addons DROP COLUMN subpath");
+    v2db.run("ALTER TABLE addons DROP COLUMN tracking");
+    v2db.run("ALTER TABLE addons DROP COLUMN branch");
+    v2db.run("PRAGMA user_version = 2;");
+    v2db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('GitAddon', 'GitAddon', 'github', '2024-01-01', '2024-01-01'),
+             ('ZipAddon', 'ZipAddon', 'tukui', '2024-01-01', '2024-01-01')
+    `);
+    v2db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    const db = new Database(dbPath);
+    const version = (db.query("PRAGMA user_version").get() as any).user_version;
+
+    expect(version).toBe(13);
+    expect(manager.getByFolder("GitAddon")?.branch).toBe("main");
+    expect(manager.getByFolder("ZipAddon")?.branch).toBeNull();
+
+    manager.close();
+    db.close();
+  });
+
+  it("should migrate V3 database to V4 with tracking column", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v3db = new Database(dbPath);
+    v3db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v3db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v3db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v3db.run("ALTER TABLE addons DROP COLUMN channel");
+    v3db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v3db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v3db.run("ALTER TABLE addons DROP COLUMN project_ids");
+    v3db.run("ALTER TABLE addons DROP COLUMN file_id");
+    v3db.run("ALTER TABLE addons DROP COLUMN http_validators");
+    v3db.run("ALTER TABLE addons DROP COLUMN content_hash");
+    v3db.run("ALTER TABLE addons DROP COLUMN subpath");
+    v3db.run("ALTER TABLE addons DROP COLUMN tracking");
+    v3db.run("PRAGMA user_version = 3;");
+    v3db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('GitAddon', 'GitAddon', 'github', '2024-01-01', '2024-01-01')
+    `);
+    v3db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("GitAddon")?.tracking).toBe("branch");
+
+    manager.updateAddon("GitAddon", { tracking: "tag" });
+    expect(manager.getByFolder("GitAddon")?.tracking).toBe("tag");
+
+    manager.close();
+  });
+
+  it("should migrate V4 database to V5 with subpath column", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v4db = new Database(dbPath);
+    v4db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v4db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v4db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v4db.run("ALTER TABLE addons DROP COLUMN channel");
+    v4db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v4db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v4db.run("ALTER TABLE addons DROP COLUMN project_ids");
+    v4db.run("ALTER TABLE addons DROP COLUMN file_id");
+    v4db.run("ALTER TABLE addons DROP COLUMN http_validators");
+    v4db.run("ALTER TABLE addons DROP COLUMN content_hash");
+    v4db.run("ALTER TABLE addons DROP COLUMN subpath");
+    v4db.run("PRAGMA user_version = 4;");
+    v4db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('MonoAddon', 'MonoAddon', 'github', '2024-01-01', '2024-01-01')
+    `);
+    v4db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("MonoAddon")?.subpath).toBeNull();
+
+    manager.updateAddon("MonoAddon", { subpath: "addons/MonoAddon" });
+    expect(manager.getByFolder("MonoAddon")?.subpath).toBe("addons/MonoAddon");
+
+    manager.close();
+  });
+
+  it("should migrate V5 database to V6 with content hash columns", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v5db = new Database(dbPath);
+    v5db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v5db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v5db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v5db.run("ALTER TABLE addons DROP COLUMN channel");
+    v5db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v5db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v5db.run("ALTER TABLE addons DROP COLUMN project_ids");
+    v5db.run("ALTER TABLE addons DROP COLUMN file_id");
+    v5db.run("ALTER TABLE addons DROP COLUMN http_validators");
+    v5db.run("ALTER TABLE addons DROP COLUMN content_hash");
+    v5db.run("PRAGMA user_version = 5;");
+    v5db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('GuildAddon', 'GuildAddon', 'github', '2024-01-01', '2024-01-01')
+    `);
+    v5db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("GuildAddon")?.content_hash).toBeNull();
+    expect(manager.getByFolder("GuildAddon")?.httpValidators).toBeNull();
+
+    const validators = {
+      etag: '"abc"',
+      lastModified: null,
+      contentLength: 1024,
+    };
+    manager.updateAddon("GuildAddon", {
+      content_hash: "f".repeat(64),
+      httpValidators: validators,
+    });
+    const addon = manager.getByFolder("GuildAddon");
+    expect(addon?.content_hash).toBe("f".repeat(64));
+    expect(addon?.httpValidators).toEqual(validators);
+
+    manager.close();
+  });
+
+  it("should migrate V6 database to V7 with file id column", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v6db = new Database(dbPath);
+    v6db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v6db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v6db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v6db.run("ALTER TABLE addons DROP COLUMN channel");
+    v6db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v6db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v6db.run("ALTER TABLE addons DROP COLUMN project_ids");
+    v6db.run("ALTER TABLE addons DROP COLUMN file_id");
+    v6db.run("PRAGMA user_version = 6;");
+    v6db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('Details', 'Details', 'curseforge', '2024-01-01', '2024-01-01')
+    `);
+    v6db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("Details")?.file_id).toBeNull();
+
+    manager.updateAddon("Details", { file_id: 5123456 });
+    expect(manager.getByFolder("Details")?.file_id).toBe(5123456);
+
+    manager.close();
+  });
+
+  it("should migrate V7 database to V8 with project ids column", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v7db = new Database(dbPath);
+    v7db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v7db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v7db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v7db.run("ALTER TABLE addons DROP COLUMN channel");
+    v7db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v7db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v7db.run("ALTER TABLE addons DROP COLUMN project_ids");
+    v7db.run("PRAGMA user_version = 7;");
+    v7db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('Details', 'Details', 'manual', '2024-01-01', '2024-01-01')
+    `);
+    v7db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("Details")?.projectIds).toBeNull();
+
+    const projectIds = {
+      wago: "qv63LLKb",
+      wowi: null,
+      curse: "61284",
+      website: null,
+    };
+    manager.updateAddon("Details", { projectIds });
+    expect(manager.getByFolder("Details")?.projectIds).toEqual(projectIds);
+
+    manager.close();
+  });
+
+  it("should migrate V8 database to V9 with pin and ignore columns", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v8db = new Database(dbPath);
+    v8db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v8db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v8db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v8db.run("ALTER TABLE addons DROP COLUMN channel");
+    v8db.run("ALTER TABLE addons DROP COLUMN ignored_version");
+    v8db.run("ALTER TABLE addons DROP COLUMN pinned");
+    v8db.run("PRAGMA user_version = 8;");
+    v8db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('ElvUI', 'ElvUI', 'tukui', '2024-01-01', '2024-01-01')
+    `);
+    v8db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("ElvUI")?.pinned).toBe(false);
+    expect(manager.getByFolder("ElvUI")?.ignoredVersion).toBeNull();
+
+    manager.updateAddon("ElvUI", { pinned: true, ignoredVersion: "13.80" });
+    expect(manager.getByFolder("ElvUI")?.pinned).toBe(true);
+    expect(manager.getByFolder("ElvUI")?.ignoredVersion).toBe("13.80");
+
+    manager.close();
+  });
+
+  it("should migrate V9 database to V10 with channel column", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v9db = new Database(dbPath);
+    v9db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v9db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v9db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v9db.run("ALTER TABLE addons DROP COLUMN channel");
+    v9db.run("PRAGMA user_version = 9;");
+    v9db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('Clique', 'Clique', 'wago', '2024-01-01', '2024-01-01')
+    `);
+    v9db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("Clique")?.channel).toBeNull();
+
+    manager.updateAddon("Clique", { channel: "beta" });
+    expect(manager.getByFolder("Clique")?.channel).toBe("beta");
+
+    manager.close();
+  });
+
+  it("should migrate V10 database to V11 with changelog columns", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v10db = new Database(dbPath);
+    v10db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v10db.run("ALTER TABLE addons DROP COLUMN changelog_version");
+    v10db.run("ALTER TABLE addons DROP COLUMN changelog");
+    v10db.run("PRAGMA user_version = 10;");
+    v10db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('Details', 'Details', 'wowinterface', '2024-01-01', '2024-01-01')
+    `);
+    v10db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("Details")?.changelog).toBeNull();
+    expect(manager.getByFolder("Details")?.changelogVersion).toBeNull();
+
+    manager.updateAddon("Details", {
+      changelog: "- Fixed a bug",
+      changelogVersion: "1.2",
+    });
+    expect(manager.getByFolder("Details")?.changelog).toBe("- Fixed a bug");
+    expect(manager.getByFolder("Details")?.changelogVersion).toBe("1.2");
+
+    manager.close();
+  });
+
+  it("should migrate V11 database to V12 with history table", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v11db = new Database(dbPath);
+    v11db.run("DROP TABLE history");
+    v11db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v11db.run("PRAGMA user_version = 11;");
+    v11db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getHistory()).toEqual([]);
+
+    manager.addHistory({
+      folder: "Details",
+      name: "Details",
+      action: "update",
+      fromVersion: "1.1",
+      toVersion: "1.2",
+      source: "wowinterface",
+    });
+    expect(manager.getHistory()).toEqual([
+      expect.objectContaining({ folder: "Details", outcome: "success" }),
+    ]);
+
+    manager.close();
+  });
+
+  it("should migrate V12 database to V13 with remote display version", () => {
+    new DatabaseManager(tempDir).close();
+
+    const v12db = new Database(dbPath);
+    v12db.run("ALTER TABLE addons DROP COLUMN remote_display_version");
+    v12db.run("PRAGMA user_version = 12;");
+    v12db.run(`
+      INSERT INTO addons (name, folder, type, install_date, last_updated)
+      VALUES ('Details', 'Details', 'curseforge', '2024-01-01', '2024-01-01')
+    `);
+    v12db.close();
+
+    const manager = new DatabaseManager(tempDir);
+    expect(manager.getByFolder("Details")?.remoteDisplayVersion).toBeNull();
+
+    manager.updateAddon("Details", {
+      remote_version: "5123456",
+      remoteDisplayVersion: "Details-v1.2",
+    });
+    expect(manager.getByFolder("Details")?.remoteDisplayVersion).toBe(
+      "Details-v1.2",
+    );
+
+    manager.close();
+  });
+
   it("should create V2 schema for fresh install", () => {
     const manager = new DatabaseManager(tempDir);
     const db = new Database(dbPath);
@@ -84,7 +420,7 @@ describe("Database Migration V1 to V2", () => {
     const columns = db.query("PRAGMA table_info(addons)").all() as any[];
     const hasLastChecked = columns.some((c) => c.name === "last_checked");
 
-    expect(version).toBe(2);
+    expect(version).toBe(13);
     expect(hasLastChecked).toBe(true);
 
     manager.close();
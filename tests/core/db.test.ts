@@ -101,6 +101,42 @@ describe("DatabaseManager", () => {
 		expect(result?.author).toBe("NewAuthor");
 	});
 
+	test("should leave fields out of a partial update untouched", () => {
+		dbManager.addAddon({
+			name: "Partial",
+			folder: "Partial",
+			ownedFolders: ["Partial_Options"],
+			kind: "library",
+			kindOverride: true,
+			flavor: "classic",
+			version: "1.0.0",
+			git_commit: "abc",
+			author: null,
+			interface: null,
+			url: null,
+			type: "manual",
+			requiredDeps: ["Ace3"],
+			optionalDeps: [],
+			embeddedLibs: [],
+			install_date: new Date().toISOString(),
+			last_updated: new Date().toISOString(),
+			last_checked: "2025-01-01T00:00:00.000Z",
+			remote_version: "1.1.0",
+		});
+
+		dbManager.updateAddon("Partial", { pinned: true });
+
+		const result = dbManager.getByFolder("Partial");
+		expect(result?.pinned).toBe(true);
+		expect(result?.ownedFolders).toEqual(["Partial_Options"]);
+		expect(result?.kind).toBe("library");
+		expect(result?.flavor).toBe("classic");
+		expect(result?.git_commit).toBe("abc");
+		expect(result?.requiredDeps).toEqual(["Ace3"]);
+		expect(result?.last_checked).toBe("2025-01-01T00:00:00.000Z");
+		expect(result?.remote_version).toBe("1.1.0");
+	});
+
 	test("should remove addon", () => {
 		const newAddon: AddonRecord = {
 			name: "Test Addon",
@@ -450,4 +486,53 @@ describe("DatabaseManager", () => {
 		const ownerOfNonExistent = dbManager.getOwnerOf("NonExistent");
 		expect(ownerOfNonExistent).toBeNull();
 	});
+
+	test("getHistory should filter by addon and time, newest first", () => {
+		const entry = {
+			name: "History Addon",
+			action: "update" as const,
+			source: "tukui" as const,
+		};
+		dbManager.addHistory({
+			...entry,
+			folder: "HistoryTest_A",
+			toVersion: "1.0",
+			timestamp: "2026-03-02T10:00:00.000Z",
+		});
+		dbManager.addHistory({
+			...entry,
+			folder: "HistoryTest_A",
+			toVersion: "1.1",
+			outcome: "failed",
+			message: "Download failed",
+			timestamp: "2026-03-03T10:00:00.000Z",
+		});
+		dbManager.addHistory({
+			...entry,
+			name: "Other",
+			folder: "HistoryTest_B",
+			timestamp: "2026-03-03T11:00:00.000Z",
+		});
+
+		expect(
+			dbManager
+				.getHistory({ addon: "HistoryTest_A" })
+				.map((e) => e.toVersion),
+		).toEqual(["1.1", "1.0"]);
+		expect(
+			dbManager.getHistory({
+				addon: "HistoryTest",
+				since: "2026-03-03T00:00:00.000Z",
+				until: "2026-03-04T00:00:00.000Z",
+			}),
+		).toEqual([
+			expect.objectContaining({ folder: "HistoryTest_B" }),
+			expect.objectContaining({
+				folder: "HistoryTest_A",
+				outcome: "failed",
+				message: "Download failed",
+			}),
+		]);
+		expect(dbManager.getHistory({ addon: "HistoryTest", limit: 1 })).toHaveLength(1);
+	});
 });
@@ -0,0 +1,191 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { UpdateAddonResult } from "@/core/commands/UpdateAddonCommand";
+import { type AddonRecord, AddonRecordSchema } from "@/core/db";
+import {
+	buildDigest,
+	formatDigestMarkdown,
+	formatDigestText,
+	writeDigestMarkdown,
+} from "@/core/digest";
+
+function makeAddon(folder: string, extra: Partial<AddonRecord> = {}) {
+	return AddonRecordSchema.parse({
+		name: folder,
+		folder,
+		version: "1.0",
+		author: null,
+		interface: null,
+		url: null,
+		type: "tukui",
+		install_date: "2026-01-01T00:00:00.000Z",
+		last_updated: "2026-01-01T00:00:00.000Z",
+		...extra,
+	});
+}
+
+function makeResult(
+	name: string,
+	result: Partial<UpdateAddonResult>,
+): UpdateAddonResult {
+	return { repoName: name, success: true, updated: false, ...result };
+}
+
+describe("buildDigest", () => {
+	test("should sort results into updated, failed, skipped and up to date", () => {
+		const digest = buildDigest(
+			[
+				{
+					before: makeAddon("ElvUI"),
+					result: makeResult("ElvUI", {
+						updated: true,
+						remoteVersion: "2.0",
+						delta: "upgrade",
+					}),
+				},
+				{
+					before: makeAddon("Broken"),
+					result: makeResult("Broken", {
+						success: false,
+						error: "Download failed",
+					}),
+				},
+				{
+					before: makeAddon("Held"),
+					result: makeResult("Held", { message: "Pinned" }),
+				},
+				{
+					before: makeAddon("Current"),
+					result: makeResult("Current", {
+						remoteVersion: "1.0",
+						delta: "equivalent",
+						message: "Up to date",
+					}),
+				},
+			],
+			Date.now() - 1500,
+		);
+
+		expect(digest.updated).toEqual([
+			expect.objectContaining({
+				name: "ElvUI",
+				fromVersion: "1.0",
+				toVersion: "2.0",
+			}),
+		]);
+		expect(digest.failed).toEqual([
+			expect.objectContaining({ name: "Broken", reason: "Download failed" }),
+		]);
+		expect(digest.skipped).toEqual([
+			expect.objectContaining({ name: "Held", reason: "Pinned" }),
+		]);
+		expect(digest.upToDate).toBe(1);
+		expect(digest.durationMs).toBeGreaterThanOrEqual(1500);
+	});
+
+	test("should show both sides of an update in the source's terms", () => {
+		const digest = buildDigest(
+			[
+				{
+					before: makeAddon("Details", {
+						type: "curseforge",
+						version: "Details-v1.1",
+						file_id: 100,
+					}),
+					result: makeResult("Details", {
+						updated: true,
+						remoteVersion: "200",
+						displayVersion: "Details-v1.2",
+					}),
+				},
+				{
+					before: makeAddon("WeakAuras", {
+						type: "github",
+						version: "5.0.0",
+						git_commit: "a".repeat(40),
+						tracking: "release",
+					}),
+					result: makeResult("WeakAuras", {
+						updated: true,
+						remoteVersion: "5.1.0",
+					}),
+				},
+				{
+					before: makeAddon("Plater", {
+						type: "github",
+						version: "aaaaaaa",
+						git_commit: "a".repeat(40),
+					}),
+					result: makeResult("Plater", {
+						updated: true,
+						remoteVersion: "b".repeat(40),
+					}),
+				},
+			],
+			Date.now(),
+		);
+
+		expect(
+			digest.updated.map((e) => [e.fromVersion, e.toVersion]),
+		).toEqual([
+			["Details-v1.1", "Details-v1.2"],
+			["5.0.0", "5.1.0"],
+			["a".repeat(40), "b".repeat(40)],
+		]);
+	});
+});
+
+describe("digest formatting", () => {
+	const digest = buildDigest(
+		[
+			{
+				before: makeAddon("Details", {
+					type: "github",
+					version: null,
+					git_commit: "a".repeat(40),
+				}),
+				result: makeResult("Details", {
+					updated: true,
+					remoteVersion: "b".repeat(40),
+				}),
+			},
+			{
+				before: makeAddon("Broken"),
+				result: makeResult("Broken", { success: false, error: "Timed out" }),
+			},
+		],
+		Date.now(),
+	);
+
+	test("should print a plain text report with short hashes", () => {
+		const text = formatDigestText(digest);
+		expect(text).toStartWith("Update digest: 1 updated, 1 failed in ");
+		expect(text).toContain("Details  aaaaaaa → bbbbbbb");
+		expect(text).toContain("Failed:\n  Broken  Timed out");
+	});
+
+	test("should render Markdown sections", () => {
+		const markdown = formatDigestMarkdown(digest);
+		expect(markdown).toContain("### Updated\n\n- **Details** `aaaaaaa → bbbbbbb`");
+		expect(markdown).toContain("### Failed\n\n- **Broken**: Timed out");
+		expect(markdown).not.toContain("### Skipped");
+	});
+
+	describe("writeDigestMarkdown", () => {
+		const dir = path.join(os.tmpdir(), `lemonup-digest-${Date.now()}`);
+
+		afterEach(() => {
+			fs.rmSync(dir, { recursive: true, force: true });
+		});
+
+		test("should write update-digest.md to the given dir", async () => {
+			fs.mkdirSync(dir, { recursive: true });
+			const filePath = await writeDigestMarkdown(digest, dir);
+
+			expect(filePath).toBe(path.join(dir, "update-digest.md"));
+			expect(await Bun.file(filePath).text()).toBe(formatDigestMarkdown(digest));
+		});
+	});
+});
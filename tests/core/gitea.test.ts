@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, mock, spyOn } from "bun:test";
+import * as Gitea from "@/core/gitea";
+
+describe("Gitea API", () => {
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("should fetch the latest release", async () => {
+		const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+			new Response(
+				JSON.stringify({
+					tag_name: "1.2.0",
+					name: "1.2.0",
+					body: null,
+					draft: false,
+					prerelease: false,
+					published_at: null,
+					assets: [
+						{
+							name: "Addon-1.2.0.zip",
+							size: 10,
+							browser_download_url:
+								"https://codeberg.org/o/r/releases/download/1.2.0/Addon-1.2.0.zip",
+						},
+					],
+				}),
+				{ status: 200 },
+			),
+		);
+
+		const result = await Gitea.getLatestRelease("https://codeberg.org", "o", "r");
+
+		const [url] = fetchSpy.mock.calls[0] as [string];
+		expect(url).toBe("https://codeberg.org/api/v1/repos/o/r/releases/latest");
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.release.assets[0]?.name).toBe("Addon-1.2.0.zip");
+		}
+	});
+
+	it("should report missing releases", async () => {
+		spyOn(global, "fetch").mockResolvedValue(new Response("", { status: 404 }));
+
+		const result = await Gitea.getReleaseByTag(
+			"https://codeberg.org",
+			"o",
+			"r",
+			"v9",
+		);
+		expect(result).toEqual({ success: false, error: "not_found" });
+	});
+});
@@ -0,0 +1,338 @@
+import {
+	afterEach,
+	describe,
+	expect,
+	it,
+	mock,
+	setSystemTime,
+	spyOn,
+} from "bun:test";
+import * as GitHub from "@/core/github";
+
+const asset = (name: string): GitHub.GitHubReleaseAsset => ({
+	name,
+	browser_download_url: `https://github.com/o/r/releases/download/v1/${name}`,
+	content_type: "application/zip",
+	size: 1,
+});
+
+const release = (...names: string[]): GitHub.GitHubRelease => ({
+	tag_name: "v1.0.0",
+	name: "v1.0.0",
+	draft: false,
+	prerelease: false,
+	body: null,
+	published_at: null,
+	assets: names.map(asset),
+});
+
+describe("GitHub API", () => {
+	afterEach(() => {
+		mock.restore();
+		setSystemTime();
+		GitHub.resetRateLimit();
+	});
+
+	describe("getRepoFromUrl", () => {
+		it("should extract owner and repo", () => {
+			expect(
+				GitHub.getRepoFromUrl("https://github.com/BigWigsMods/BigWigs.git"),
+			).toEqual({ owner: "BigWigsMods", repo: "BigWigs" });
+		});
+
+		it("should reject non-github URLs", () => {
+			expect(GitHub.getRepoFromUrl("https://gitlab.com/a/b")).toBeNull();
+			expect(GitHub.getRepoFromUrl("https://github.com/only-owner")).toBeNull();
+		});
+	});
+
+	describe("getLatestRelease", () => {
+		it("should fetch the latest release", async () => {
+			const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+				new Response(JSON.stringify(release("Addon-v1.0.0.zip")), {
+					status: 200,
+				}),
+			);
+
+			const result = await GitHub.getLatestRelease("o", "r");
+
+			const [url] = fetchSpy.mock.calls[0] as [string];
+			expect(url).toBe("https://api.github.com/repos/o/r/releases/latest");
+			expect(result.success).toBe(true);
+			if (result.success) {
+				expect(result.release.tag_name).toBe("v1.0.0");
+				expect(result.release.assets).toHaveLength(1);
+			}
+		});
+
+		it("should report missing releases", async () => {
+			spyOn(global, "fetch").mockResolvedValue(
+				new Response("", { status: 404 }),
+			);
+
+			const result = await GitHub.getLatestRelease("o", "r");
+			expect(result).toEqual({ success: false, error: "not_found" });
+		});
+
+		it("should report rate limiting", async () => {
+			spyOn(global, "fetch").mockResolvedValue(
+				new Response("", {
+					status: 403,
+					headers: { "x-ratelimit-remaining": "0" },
+				}),
+			);
+
+			const result = await GitHub.getLatestRelease("o", "r");
+			expect(result).toEqual({ success: false, error: "rate_limited" });
+		});
+	});
+
+	describe("token and rate limits", () => {
+		it("should send the token as a bearer header", async () => {
+			const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+				new Response(JSON.stringify(release()), { status: 200 }),
+			);
+
+			await GitHub.getLatestRelease("o", "r", "secret");
+
+			const [, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+			expect(
+				(init.headers as Record<string, string>).Authorization,
+			).toBe("Bearer secret");
+		});
+
+		it("should track remaining quota and notify listeners", async () => {
+			spyOn(global, "fetch").mockResolvedValue(
+				new Response(JSON.stringify(release()), {
+					status: 200,
+					headers: {
+						"x-ratelimit-limit": "60",
+						"x-ratelimit-remaining": "42",
+						"x-ratelimit-reset": "1700000000",
+					},
+				}),
+			);
+			const seen: GitHub.GitHubRateLimit[] = [];
+			const unsubscribe = GitHub.onRateLimitChange((s) => seen.push(s));
+
+			await GitHub.getLatestRelease("o", "r");
+			unsubscribe();
+
+			expect(GitHub.getRateLimit()).toEqual({
+				limit: 60,
+				remaining: 42,
+				resetAt: 1700000000 * 1000,
+				blockedUntil: null,
+			});
+			expect(seen).toHaveLength(1);
+		});
+
+		it("should hold requests back until Retry-After passes", async () => {
+			setSystemTime(new Date("2025-01-01T00:00:00Z"));
+			const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+				new Response("", { status: 429, headers: { "retry-after": "60" } }),
+			);
+
+			expect(await GitHub.getLatestRelease("o", "r")).toEqual({
+				success: false,
+				error: "rate_limited",
+			});
+			expect(GitHub.isRateLimited()).toBe(true);
+
+			await GitHub.getLatestRelease("o", "r");
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+			setSystemTime(new Date("2025-01-01T00:01:01Z"));
+			expect(GitHub.isRateLimited()).toBe(false);
+			await GitHub.getLatestRelease("o", "r");
+			expect(fetchSpy).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe("getBranchCommit", () => {
+		it("should request the bare sha of a branch", async () => {
+			const sha = "a".repeat(40);
+			const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+				new Response(sha, { status: 200 }),
+			);
+
+			const result = await GitHub.getBranchCommit("o", "r", "feature/x");
+
+			const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+			expect(url).toBe("https://api.github.com/repos/o/r/commits/feature/x");
+			expect((init.headers as Record<string, string>).Accept).toBe(
+				"application/vnd.github.sha",
+			);
+			expect(result).toEqual({ success: true, sha });
+		});
+	});
+
+	describe("getTags", () => {
+		it("should map tags to their commits", async () => {
+			spyOn(global, "fetch").mockResolvedValue(
+				new Response(
+					JSON.stringify([
+						{ name: "v2.0", commit: { sha: "b".repeat(40) } },
+						{ name: "v1.0", commit: { sha: "c".repeat(40) } },
+					]),
+					{ status: 200 },
+				),
+			);
+
+			const result = await GitHub.getTags("o", "r");
+			expect(result).toEqual({
+				success: true,
+				tags: [
+					{ name: "v2.0", commit: "b".repeat(40) },
+					{ name: "v1.0", commit: "c".repeat(40) },
+				],
+			});
+		});
+	});
+
+	describe("compareCommits", () => {
+		it("should list the commits between two refs", async () => {
+			const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+				new Response(
+					JSON.stringify({
+						commits: [
+							{ sha: "b".repeat(40), commit: { message: "Fix tooltip" } },
+							{
+								sha: "c".repeat(40),
+								commit: { message: "Add options\n\nLonger description" },
+							},
+						],
+					}),
+					{ status: 200 },
+				),
+			);
+
+			const result = await GitHub.compareCommits("o", "r", "v1.0", "v1.1");
+
+			const [url] = fetchSpy.mock.calls[0] as [string];
+			expect(url).toBe("https://api.github.com/repos/o/r/compare/v1.0...v1.1");
+			expect(result).toEqual({
+				success: true,
+				commits: [
+					{ sha: "b".repeat(40), message: "Fix tooltip" },
+					{ sha: "c".repeat(40), message: "Add options\n\nLonger description" },
+				],
+			});
+		});
+
+		it("should report a missing base", async () => {
+			spyOn(global, "fetch").mockResolvedValue(
+				new Response("", { status: 404 }),
+			);
+			expect(await GitHub.compareCommits("o", "r", "gone", "main")).toEqual({
+				success: false,
+				error: "not_found",
+			});
+		});
+	});
+
+	describe("getBranchCommits", () => {
+		it("should resolve many branches in one GraphQL query", async () => {
+			const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+				new Response(
+					JSON.stringify({
+						data: {
+							r0: { ref: { target: { oid: "d".repeat(40) } } },
+							r1: { ref: null },
+						},
+					}),
+					{ status: 200 },
+				),
+			);
+
+			const commits = await GitHub.getBranchCommits(
+				[
+					{ owner: "Owner", repo: "One", branch: "main" },
+					{ owner: "o", repo: "two", branch: "gone" },
+				],
+				"secret",
+			);
+
+			expect(fetchSpy).toHaveBeenCalledTimes(1);
+			const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+			expect(url).toBe("https://api.github.com/graphql");
+			expect(JSON.parse(init.body as string).variables).toMatchObject({
+				o0: "Owner",
+				n0: "One",
+				b0: "refs/heads/main",
+			});
+			expect(commits).toEqual(new Map([["owner/one#main", "d".repeat(40)]]));
+		});
+
+		it("should skip batching without a token", async () => {
+			const fetchSpy = spyOn(global, "fetch");
+
+			const commits = await GitHub.getBranchCommits(
+				[{ owner: "o", repo: "r", branch: "main" }],
+				"",
+			);
+
+			expect(commits.size).toBe(0);
+			expect(fetchSpy).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("selectReleaseAsset", () => {
+		it("should use release.json flavor metadata", () => {
+			const manifest: GitHub.PackagerReleaseJson = {
+				releases: [
+					{
+						filename: "BigWigs-v300-nolib.zip",
+						nolib: true,
+						metadata: [{ flavor: "mainline", interface: 110000 }],
+					},
+					{
+						filename: "BigWigs-v300.zip",
+						nolib: false,
+						metadata: [{ flavor: "mainline", interface: 110000 }],
+					},
+					{
+						filename: "BigWigs-v300-classic.zip",
+						nolib: false,
+						metadata: [{ flavor: "vanilla", interface: 11500 }],
+					},
+				],
+			};
+			const rel = release(
+				"BigWigs-v300-nolib.zip",
+				"BigWigs-v300.zip",
+				"BigWigs-v300-classic.zip",
+				"release.json",
+			);
+
+			expect(GitHub.selectReleaseAsset(rel, "retail", manifest)?.name).toBe(
+				"BigWigs-v300.zip",
+			);
+			expect(GitHub.selectReleaseAsset(rel, "classic", manifest)?.name).toBe(
+				"BigWigs-v300-classic.zip",
+			);
+			expect(GitHub.selectReleaseAsset(rel, "cata", manifest)).toBeNull();
+		});
+
+		it("should fall back to asset name suffixes", () => {
+			const rel = release(
+				"Addon-1.0-classic.zip",
+				"Addon-1.0-nolib.zip",
+				"Addon-1.0.zip",
+			);
+
+			expect(GitHub.selectReleaseAsset(rel, "retail", null)?.name).toBe(
+				"Addon-1.0.zip",
+			);
+			expect(GitHub.selectReleaseAsset(rel, "classic", null)?.name).toBe(
+				"Addon-1.0-classic.zip",
+			);
+		});
+
+		it("should return null without zip assets", () => {
+			expect(
+				GitHub.selectReleaseAsset(release("notes.txt"), "retail", null),
+			).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it, mock, spyOn } from "bun:test";
+import * as GitLab from "@/core/gitlab";
+
+describe("GitLab API", () => {
+	afterEach(() => {
+		mock.restore();
+	});
+
+	it("should fetch the newest non-upcoming release", async () => {
+		const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+			new Response(
+				JSON.stringify([
+					{
+						tag_name: "v3.0.0",
+						name: "Next",
+						description: null,
+						released_at: null,
+						upcoming_release: true,
+					},
+					{
+						tag_name: "v2.0.0",
+						name: "v2.0.0",
+						description: "notes",
+						released_at: "2025-01-01T00:00:00Z",
+						assets: {
+							links: [
+								{
+									name: "Addon-v2.0.0.zip",
+									url: "https://gitlab.com/g/p/-/releases/v2.0.0/downloads/Addon.zip",
+									direct_asset_url: "https://cdn.example.com/Addon-v2.0.0.zip",
+								},
+							],
+						},
+					},
+				]),
+				{ status: 200 },
+			),
+		);
+
+		const result = await GitLab.getLatestRelease(
+			"https://gitlab.com",
+			"group/sub/project",
+		);
+
+		const [url] = fetchSpy.mock.calls[0] as [string];
+		expect(url).toBe(
+			"https://gitlab.com/api/v4/projects/group%2Fsub%2Fproject/releases?per_page=20",
+		);
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.release.tag_name).toBe("v2.0.0");
+			expect(result.release.assets[0]?.browser_download_url).toBe(
+				"https://cdn.example.com/Addon-v2.0.0.zip",
+			);
+		}
+	});
+
+	it("should report projects without releases", async () => {
+		spyOn(global, "fetch").mockResolvedValue(
+			new Response("[]", { status: 200 }),
+		);
+
+		const result = await GitLab.getLatestRelease("https://gitlab.com", "g/p");
+		expect(result).toEqual({ success: false, error: "not_found" });
+	});
+
+	it("should fetch a release by tag", async () => {
+		const fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+			new Response(
+				JSON.stringify({
+					tag_name: "v1.0",
+					name: null,
+					description: null,
+					released_at: null,
+				}),
+				{ status: 200 },
+			),
+		);
+
+		const result = await GitLab.getReleaseByTag(
+			"https://git.example.com/gitlab",
+			"g/p",
+			"v1.0",
+		);
+
+		const [url] = fetchSpy.mock.calls[0] as [string];
+		expect(url).toBe(
+			"https://git.example.com/gitlab/api/v4/projects/g%2Fp/releases/v1.0",
+		);
+		expect(result.success && result.release.assets).toEqual([]);
+	});
+});
@@ -1,6 +1,7 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
 import fs from "node:fs/promises";
 import path from "node:path";
+import { MatchSourcesCommand } from "@/core/commands/MatchSourcesCommand";
 import { RemoveAddonCommand } from "@/core/commands/RemoveAddonCommand";
 import { ScanCommand } from "@/core/commands/ScanCommand";
 import type { CommandContext } from "@/core/commands/types";
@@ -294,4 +295,49 @@ describe("Addon Lifecycle", () => {
 			expect(addon?.optionalDeps).toEqual(["Masque", "ElvUI"]);
 		});
 	});
+
+	describe("TOC source links", () => {
+		const writeAddon = async (folder: string, extra: string) => {
+			await fs.mkdir(path.join(addonsDir, folder), { recursive: true });
+			await fs.writeFile(
+				path.join(addonsDir, folder, `${folder}.toc`),
+				`## Title: ${folder}\n## Version: 1.0\n${extra}`,
+			);
+		};
+
+		test("should store project ids from the TOC", async () => {
+			await writeAddon(
+				"Details",
+				"## X-Curse-Project-ID: 61284\n## X-WoWI-ID: 5108\n## X-Website: https://www.curseforge.com/wow/addons/details",
+			);
+			await writeAddon("Plain", "");
+
+			await new ScanCommand(dbManager, configManager).execute(mockContext);
+
+			const addon = dbManager.getByFolder("Details");
+			expect(addon?.type).toBe("manual");
+			expect(addon?.projectIds).toEqual({
+				wago: null,
+				wowi: "5108",
+				curse: "61284",
+				website: "https://www.curseforge.com/wow/addons/details",
+			});
+			expect(dbManager.getByFolder("Plain")?.projectIds).toBeNull();
+		});
+
+		test("should offer TOC links instead of applying them", async () => {
+			await writeAddon("Details", "## X-WoWI-ID: 5108");
+
+			await new ScanCommand(dbManager, configManager).execute(mockContext);
+			expect(dbManager.getByFolder("Details")?.type).toBe("manual");
+
+			const matches = await new MatchSourcesCommand(
+				dbManager,
+				configManager,
+			).execute(mockContext);
+			expect(matches).toHaveLength(1);
+			expect(matches[0]?.folder).toBe("Details");
+			expect(matches[0]?.match.type).toBe("wowinterface");
+		});
+	});
 });
@@ -13,11 +13,12 @@ import path from "node:path";
 import { ConfigManager } from "@/core/config";
 import * as Downloader from "@/core/downloader";
 import * as GitClient from "@/core/git";
+import { CurseForgeProvider } from "@/core/sources/curseforge";
 import * as TukUI from "@/core/tukui";
 import type { AddonManager as AddonManagerType } from "@/core/manager";
 
 // Import AddonManager
-const { AddonManager } = await import("@/core/manager");
+const { AddonManager, UNDO_LIMIT } = await import("@/core/manager");
 
 const TMP_BASE = path.join(os.tmpdir(), "lemonup-tests-manager");
 const CONFIG_DIR = path.join(TMP_BASE, "config");
@@ -130,6 +131,28 @@ describe("AddonManager", () => {
 		expect(result.updateAvailable).toBe(false);
 	});
 
+	test("checkUpdate should treat the ignored version as up to date", async () => {
+		// biome-ignore lint/suspicious/noExplicitAny: test data
+		const addon: any = {
+			name: "test-repo",
+			type: "github",
+			url: "http://git",
+			version: "v1.0.0",
+			git_commit: "old-hash",
+			ignoredVersion: "broken-hash",
+		};
+
+		spyOn(GitClient, "getRemoteCommit").mockResolvedValue("broken-hash");
+		expect((await manager.checkUpdate(addon, true)).updateAvailable).toBe(
+			false,
+		);
+
+		spyOn(GitClient, "getRemoteCommit").mockResolvedValue("fixed-hash");
+		expect((await manager.checkUpdate(addon, true)).updateAvailable).toBe(
+			true,
+		);
+	});
+
 	test("updateAddon (GitHub) should clone and install", async () => {
 		// biome-ignore lint/suspicious/noExplicitAny: test data
 		const addon: any = {
@@ -220,6 +243,299 @@ describe("AddonManager", () => {
 		expect(count).toBe(1);
 	});
 
+	test("updateAll should skip pinned addons", async () => {
+		const addonDir = path.join(DEST_DIR, "ElvUI");
+		fs.mkdirSync(addonDir, { recursive: true });
+		await Bun.write(path.join(addonDir, "ElvUI.toc"), "## Title: ElvUI");
+		await manager.scanInstalledAddons();
+		manager.updateAddonMetadata("ElvUI", {
+			type: "tukui",
+			url: "https://tukui.org/elvui",
+			pinned: true,
+		});
+		const detailsSpy = spyOn(TukUI, "getAddonDetails");
+
+		const digest = await manager.updateAll(true);
+
+		expect(digest.updated).toEqual([]);
+		expect(digest.skipped).toEqual([
+			expect.objectContaining({ folder: "ElvUI", reason: "Pinned" }),
+		]);
+		expect(detailsSpy).not.toHaveBeenCalled();
+	});
+
+	test("setAddonKind should override the kind and record it", async () => {
+		const addonDir = path.join(DEST_DIR, "LibStub");
+		fs.mkdirSync(addonDir, { recursive: true });
+		await Bun.write(path.join(addonDir, "LibStub.toc"), "## Title: LibStub");
+		await manager.scanInstalledAddons();
+		const before = manager.getAddon("LibStub");
+		const kind = before?.kind === "library" ? "addon" : "library";
+
+		manager.setAddonKind("LibStub", kind);
+		// Setting the same kind again changes nothing
+		manager.setAddonKind("LibStub", kind);
+
+		expect(manager.getAddon("LibStub")).toEqual(
+			expect.objectContaining({ kind, kindOverride: true }),
+		);
+		expect(manager.getHistory({ addon: "LibStub" })).toEqual([
+			expect.objectContaining({
+				action: "kind",
+				fromVersion: before?.kind,
+				toVersion: kind,
+			}),
+		]);
+	});
+
+	test("undoLast should revert a removal, then the update before it", async () => {
+		const addonDir = path.join(DEST_DIR, "ElvUI");
+		fs.mkdirSync(addonDir, { recursive: true });
+		await Bun.write(path.join(addonDir, "ElvUI.toc"), "## Title: ElvUI");
+		await Bun.write(path.join(addonDir, "old.txt"), "old");
+		await manager.scanInstalledAddons();
+		manager.updateAddonMetadata("ElvUI", {
+			type: "tukui",
+			url: "http://download",
+			version: "1.0",
+		});
+
+		spyOn(TukUI, "getAddonDetails").mockResolvedValue({
+			id: -1,
+			slug: "elvui",
+			name: "ElvUI",
+			version: "2.0",
+			url: "http://download",
+			author: "Elv",
+			directories: ["ElvUI", "ElvUI_Options"],
+		} as any);
+		spyOn(Downloader, "unzip").mockImplementation(async (_zipPath, dest) => {
+			for (const folder of ["ElvUI", "ElvUI_Options"]) {
+				fs.mkdirSync(path.join(dest, folder), { recursive: true });
+				await Bun.write(
+					path.join(dest, folder, `${folder}.toc`),
+					`## Title: ${folder}`,
+				);
+			}
+			await Bun.write(path.join(dest, "ElvUI", "new.txt"), "new");
+			return true;
+		});
+
+		// biome-ignore lint/style/noNonNullAssertion: scanned above
+		const update = await manager.updateAddon(manager.getAddon("ElvUI")!, false);
+		expect(update.updated).toBe(true);
+		expect(manager.getAddon("ElvUI_Options")).not.toBeNull();
+		const removal = await manager.removeAddon("ElvUI");
+		expect(removal.success).toBe(true);
+
+		expect(await manager.undoLast()).toEqual({
+			success: true,
+			description: "removal of ElvUI",
+			folder: "ElvUI",
+		});
+		expect(manager.getAddon("ElvUI")?.version).toBe("2.0");
+		expect(fs.existsSync(path.join(addonDir, "new.txt"))).toBe(true);
+
+		expect(await manager.undoLast()).toEqual({
+			success: true,
+			description: "update of ElvUI",
+			folder: "ElvUI",
+		});
+		expect(manager.getAddon("ElvUI")?.version).toBe("1.0");
+		expect(fs.existsSync(path.join(addonDir, "old.txt"))).toBe(true);
+		expect(fs.existsSync(path.join(addonDir, "new.txt"))).toBe(false);
+		// The folder the update brought along goes with it
+		expect(manager.getAddon("ElvUI_Options")).toBeNull();
+		expect(fs.existsSync(path.join(DEST_DIR, "ElvUI_Options"))).toBe(false);
+		expect(await manager.listArchivedVersions("ElvUI")).toEqual([]);
+
+		expect(await manager.undoLast()).toEqual({
+			success: false,
+			error: "Nothing to undo",
+		});
+		expect(
+			manager.getHistory({ addon: "ElvUI" }).map((entry) => entry.action),
+		).toEqual(["rollback", "rollback", "remove", "update"]);
+	});
+
+	test("undoLast should not remove over an addon installed again", async () => {
+		const addonDir = path.join(DEST_DIR, "MyAddon");
+		fs.mkdirSync(addonDir, { recursive: true });
+		await Bun.write(path.join(addonDir, "MyAddon.toc"), "## Title: MyAddon");
+		await manager.scanInstalledAddons();
+		await manager.removeAddon("MyAddon");
+
+		fs.mkdirSync(addonDir, { recursive: true });
+		await Bun.write(path.join(addonDir, "MyAddon.toc"), "## Title: MyAddon");
+		await manager.scanInstalledAddons();
+
+		expect(await manager.undoLast()).toEqual({
+			success: false,
+			description: "removal of MyAddon",
+			folder: "MyAddon",
+			error: "MyAddon has been installed again",
+		});
+		// Already popped, so there is nothing left to retry
+		expect((await manager.undoLast()).error).toBe("Nothing to undo");
+	});
+
+	test("undoLast should only go back UNDO_LIMIT commands", async () => {
+		const folders = Array.from({ length: UNDO_LIMIT + 1 }, (_, i) => `A${i}`);
+		for (const folder of folders) {
+			fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+			await Bun.write(
+				path.join(DEST_DIR, folder, `${folder}.toc`),
+				`## Title: ${folder}`,
+			);
+		}
+		await manager.scanInstalledAddons();
+		for (const folder of folders) {
+			await manager.removeAddon(folder);
+		}
+
+		const undone: (string | undefined)[] = [];
+		for (let i = 0; i <= UNDO_LIMIT; i++) {
+			undone.push((await manager.undoLast()).folder);
+		}
+
+		expect(undone).toEqual([...folders.slice(1).reverse(), undefined]);
+		expect(manager.getAddon("A0")).toBeNull();
+	});
+
+	test("findPendingUpdates should list only addons with an update", async () => {
+		for (const folder of ["Behind", "Current", "Held"]) {
+			fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+			await Bun.write(
+				path.join(DEST_DIR, folder, `${folder}.toc`),
+				`## Title: ${folder}`,
+			);
+		}
+		await manager.scanInstalledAddons();
+		for (const folder of ["Behind", "Current", "Held"]) {
+			manager.updateAddonMetadata(folder, {
+				type: "github",
+				url: `http://git/${folder}`,
+				git_commit: folder === "Current" ? "new-hash" : "old-hash",
+				pinned: folder === "Held",
+			});
+		}
+		spyOn(GitClient, "getRemoteCommit").mockResolvedValue("new-hash");
+		const progress: number[] = [];
+
+		const pending = await manager.findPendingUpdates(true, (done) =>
+			progress.push(done),
+		);
+
+		expect(pending.map((u) => u.addon.folder)).toEqual(["Behind"]);
+		expect(pending[0]?.remoteVersion).toBe("new-hash");
+		expect(pending[0]?.addon.remote_version).toBe("new-hash");
+		expect(progress).toEqual([1, 2]);
+	});
+
+	test("findPendingUpdates should show CurseForge files by display name", async () => {
+		fs.mkdirSync(path.join(DEST_DIR, "Details"), { recursive: true });
+		await Bun.write(
+			path.join(DEST_DIR, "Details", "Details.toc"),
+			"## Title: Details",
+		);
+		await manager.scanInstalledAddons();
+		manager.updateAddonMetadata("Details", {
+			type: "curseforge",
+			url: "https://www.curseforge.com/wow/addons/details",
+			version: "Details-v1.1",
+			file_id: 100,
+		});
+		spyOn(CurseForgeProvider, "resolveLatest").mockResolvedValue({
+			version: "Details-v1.2",
+			fileId: 200,
+		});
+
+		const pending = await manager.findPendingUpdates(true);
+
+		expect(pending[0]?.remoteVersion).toBe("200");
+		expect(pending[0]?.displayVersion).toBe("Details-v1.2");
+
+		// A cached check still knows the display name
+		const cached = await manager.findPendingUpdates();
+		expect(cached[0]?.displayVersion).toBe("Details-v1.2");
+	});
+
+	test("createDigest should add changelog headlines to updates", async () => {
+		for (const folder of ["ElvUI", "Details"]) {
+			fs.mkdirSync(path.join(DEST_DIR, folder), { recursive: true });
+			await Bun.write(
+				path.join(DEST_DIR, folder, `${folder}.toc`),
+				`## Title: ${folder}`,
+			);
+		}
+		await manager.scanInstalledAddons();
+		const fetched: (string | null)[] = [];
+		spyOn(manager, "getChangelog").mockImplementation(async (addon) => {
+			fetched.push(addon.remote_version);
+			if (addon.folder === "Details") throw new Error("Offline");
+			return { changelog: "# 2.0\n- Faster nameplates\n- Fixes" };
+		});
+		const batch = ["ElvUI", "Details"].map((folder) => ({
+			// biome-ignore lint/style/noNonNullAssertion: scanned above
+			before: manager.getAddon(folder)!,
+			result: {
+				repoName: folder,
+				success: true,
+				updated: true,
+				remoteVersion: "2.0",
+			},
+		}));
+
+		const digest = await manager.createDigest(batch, Date.now());
+
+		expect(fetched).toEqual(["2.0", "2.0"]);
+		expect(digest.updated.map((e) => e.headline)).toEqual([
+			"Faster nameplates",
+			null,
+		]);
+	});
+
+	test("getChangelog should fetch once per remote version", async () => {
+		const addonDir = path.join(DEST_DIR, "ElvUI");
+		fs.mkdirSync(addonDir, { recursive: true });
+		await Bun.write(path.join(addonDir, "ElvUI.toc"), "## Title: ElvUI");
+		await manager.scanInstalledAddons();
+		manager.updateAddonMetadata("ElvUI", {
+			type: "tukui",
+			url: "https://tukui.org/elvui",
+			version: "13.80",
+			remote_version: "13.81",
+		});
+		// biome-ignore lint/suspicious/noExplicitAny: test data
+		spyOn(TukUI, "getAddonDetails").mockResolvedValue({} as any);
+		const changelogSpy = spyOn(TukUI, "getChangelog").mockResolvedValue(
+			"<ul><li>Fixed nameplates</li></ul>",
+		);
+
+		// biome-ignore lint/style/noNonNullAssertion: just scanned
+		const first = await manager.getChangelog(manager.getAddon("ElvUI")!);
+		expect(first).toEqual({ changelog: "- Fixed nameplates" });
+
+		// biome-ignore lint/style/noNonNullAssertion: just scanned
+		const second = await manager.getChangelog(manager.getAddon("ElvUI")!);
+		expect(second).toEqual({ changelog: "- Fixed nameplates", cached: true });
+		expect(changelogSpy).toHaveBeenCalledTimes(1);
+
+		manager.updateAddonMetadata("ElvUI", { remote_version: "13.82" });
+		// biome-ignore lint/style/noNonNullAssertion: just scanned
+		await manager.getChangelog(manager.getAddon("ElvUI")!);
+		expect(changelogSpy).toHaveBeenCalledTimes(2);
+	});
+
+	test("getChangelog should need a checked remote version", async () => {
+		// biome-ignore lint/suspicious/noExplicitAny: test data
+		const addon: any = { name: "x", folder: "x", type: "tukui" };
+		expect(await manager.getChangelog(addon)).toEqual({
+			changelog: null,
+			error: "Check for updates first",
+		});
+	});
+
 	test("isAlreadyInstalled should detect addon by folder or URL", async () => {
 		const addonDir = path.join(DEST_DIR, "ExistingAddon");
 		fs.mkdirSync(addonDir, { recursive: true });
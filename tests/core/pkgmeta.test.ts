@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyPkgmeta, parsePkgmeta } from "@/core/pkgmeta";
+
+function git(cwd: string, ...args: string[]) {
+	const result = Bun.spawnSync(
+		[
+			"git",
+			"-c",
+			"user.name=Test",
+			"-c",
+			"user.email=test@example.com",
+			...args,
+		],
+		{ cwd, stdout: "ignore", stderr: "pipe" },
+	);
+	if (result.exitCode !== 0) {
+		throw new Error(`git ${args.join(" ")} failed: ${result.stderr}`);
+	}
+}
+
+/** Creates a local repo with the given files and returns its file:// URL */
+function createRepo(dir: string, files: Record<string, string>, tag?: string) {
+	fs.mkdirSync(dir, { recursive: true });
+	git(dir, "init", "--quiet", "--initial-branch=main");
+	for (const [name, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+		fs.writeFileSync(path.join(dir, name), content);
+	}
+	git(dir, "add", "-A");
+	git(dir, "commit", "--quiet", "-m", "init");
+	if (tag) git(dir, "tag", tag);
+	return `file://${dir}`;
+}
+
+describe("pkgmeta", () => {
+	let tmp: string;
+
+	beforeEach(() => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), "lemonup-pkgmeta-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	describe("parsePkgmeta", () => {
+		test("should parse externals, ignore and move-folders", () => {
+			const meta = parsePkgmeta(`
+package-as: MyAddon
+
+externals:
+  Libs/LibStub: https://repos.wowace.com/wow/libstub/trunk
+  Libs/LibFoo:
+    url: https://github.com/author/LibFoo.git
+    tag: 1.2
+  Libs/LibBar:
+    url: https://github.com/author/LibBar
+    branch: dev
+
+ignore:
+  - README.md
+  - Tests
+
+move-folders:
+  MyAddon/Modules/Options: MyAddon_Options
+`);
+
+			expect(meta.packageAs).toBe("MyAddon");
+			expect(meta.externals["Libs/LibStub"]?.type).toBe("svn");
+			expect(meta.externals["Libs/LibFoo"]).toMatchObject({
+				type: "git",
+				tag: "1.2",
+			});
+			expect(meta.externals["Libs/LibBar"]).toMatchObject({
+				type: "git",
+				branch: "dev",
+			});
+			expect(meta.ignore).toEqual(["README.md", "Tests"]);
+			expect(meta.moveFolders).toEqual({
+				"MyAddon/Modules/Options": "MyAddon_Options",
+			});
+		});
+
+		test("should tolerate empty sections", () => {
+			const meta = parsePkgmeta("package-as: Foo\nexternals:\n");
+			expect(meta.externals).toEqual({});
+			expect(meta.ignore).toEqual([]);
+		});
+	});
+
+	describe("applyPkgmeta", () => {
+		test("should do nothing without a .pkgmeta file", async () => {
+			const dir = path.join(tmp, "addon");
+			fs.mkdirSync(dir);
+			fs.writeFileSync(path.join(dir, "Addon.toc"), "## Version: @project-version@");
+
+			expect(await applyPkgmeta(dir, "1.0.0")).toBe(false);
+			expect(fs.readFileSync(path.join(dir, "Addon.toc"), "utf8")).toContain(
+				"@project-version@",
+			);
+		});
+
+		test("should package a raw checkout like the packager", async () => {
+			const libUrl = createRepo(
+				path.join(tmp, "LibFoo"),
+				{ "LibFoo.lua": "-- lib", "LibFoo.toc": "## Title: LibFoo" },
+				"v2.0",
+			);
+
+			const dir = path.join(tmp, "checkout");
+			fs.mkdirSync(path.join(dir, "Modules", "Options"), { recursive: true });
+			fs.mkdirSync(path.join(dir, "Tests"), { recursive: true });
+			fs.writeFileSync(
+				path.join(dir, "MyAddon.toc"),
+				"## Title: MyAddon\n## Version: @project-version@\n",
+			);
+			fs.writeFileSync(
+				path.join(dir, "Modules", "Options", "MyAddon_Options.toc"),
+				"## Version: @project-version@\n",
+			);
+			fs.writeFileSync(path.join(dir, "Tests", "spec.lua"), "");
+			fs.writeFileSync(path.join(dir, "README.md"), "");
+			fs.writeFileSync(
+				path.join(dir, ".pkgmeta"),
+				`package-as: MyAddon
+externals:
+  Libs/LibFoo:
+    url: ${libUrl}
+    tag: latest
+  Libs/LibStub: https://repos.wowace.com/wow/libstub/trunk
+ignore:
+  - Tests
+  - "*.md"
+move-folders:
+  MyAddon/Modules/Options: MyAddon_Options
+`,
+			);
+
+			expect(await applyPkgmeta(dir, "v1.2.3")).toBe(true);
+
+			const addonDir = path.join(dir, "MyAddon");
+			expect(fs.readFileSync(path.join(addonDir, "MyAddon.toc"), "utf8")).toContain(
+				"## Version: v1.2.3",
+			);
+			expect(fs.existsSync(path.join(addonDir, "Libs", "LibFoo", "LibFoo.lua"))).toBe(
+				true,
+			);
+			expect(fs.existsSync(path.join(addonDir, "Libs", "LibFoo", ".git"))).toBe(
+				false,
+			);
+			expect(fs.existsSync(path.join(addonDir, "Libs", "LibStub"))).toBe(false);
+			expect(fs.existsSync(path.join(addonDir, "Tests"))).toBe(false);
+			expect(fs.existsSync(path.join(addonDir, "README.md"))).toBe(false);
+			expect(fs.existsSync(path.join(addonDir, "Modules", "Options"))).toBe(
+				false,
+			);
+			expect(
+				fs.readFileSync(
+					path.join(dir, "MyAddon_Options", "MyAddon_Options.toc"),
+					"utf8",
+				),
+			).toContain("## Version: v1.2.3");
+		});
+
+		test("should root move-folders at the project name without package-as", async () => {
+			const dir = path.join(tmp, "checkout");
+			fs.mkdirSync(path.join(dir, "Options"), { recursive: true });
+			fs.writeFileSync(path.join(dir, "MyAddon.toc"), "## Title: MyAddon");
+			fs.writeFileSync(
+				path.join(dir, "Options", "MyAddon_Options.toc"),
+				"## Title: MyAddon_Options",
+			);
+			fs.writeFileSync(
+				path.join(dir, ".pkgmeta"),
+				"move-folders:\n  MyAddon/Options: MyAddon_Options\n",
+			);
+
+			expect(await applyPkgmeta(dir, "1.0", "MyAddon")).toBe(true);
+
+			expect(fs.existsSync(path.join(dir, "MyAddon", "MyAddon.toc"))).toBe(true);
+			expect(
+				fs.existsSync(path.join(dir, "MyAddon_Options", "MyAddon_Options.toc")),
+			).toBe(true);
+		});
+
+		test("should leave the layout alone when move-folders has no root", async () => {
+			const dir = path.join(tmp, "checkout");
+			fs.mkdirSync(path.join(dir, "Options"), { recursive: true });
+			fs.writeFileSync(path.join(dir, "MyAddon.toc"), "## Title: MyAddon");
+			fs.writeFileSync(
+				path.join(dir, ".pkgmeta"),
+				"move-folders:\n  MyAddon/Options: MyAddon_Options\n",
+			);
+
+			expect(await applyPkgmeta(dir, "1.0")).toBe(true);
+
+			expect(fs.existsSync(path.join(dir, "MyAddon.toc"))).toBe(true);
+			expect(fs.existsSync(path.join(dir, "Options"))).toBe(true);
+		});
+
+		test("should fail when a git external can't be fetched", async () => {
+			const dir = path.join(tmp, "checkout");
+			fs.mkdirSync(dir);
+			fs.writeFileSync(
+				path.join(dir, ".pkgmeta"),
+				`externals:\n  Libs/Missing: file://${path.join(tmp, "nope")}.git\n`,
+			);
+
+			await expect(applyPkgmeta(dir, "1.0")).rejects.toThrow();
+		});
+	});
+});
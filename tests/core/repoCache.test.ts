@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import * as RepoCache from "@/core/repoCache";
+
+function git(cwd: string, ...args: string[]): string {
+	const result = Bun.spawnSync(
+		[
+			"git",
+			"-c",
+			"user.name=Test",
+			"-c",
+			"user.email=test@example.com",
+			...args,
+		],
+		{ cwd, stdout: "pipe", stderr: "pipe" },
+	);
+	if (result.exitCode !== 0) {
+		throw new Error(`git ${args.join(" ")} failed: ${result.stderr}`);
+	}
+	return result.stdout.toString().trim();
+}
+
+/** Commits the given files to a local repo and returns the new HEAD */
+function commit(dir: string, files: Record<string, string>): string {
+	for (const [name, content] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+		fs.writeFileSync(path.join(dir, name), content);
+	}
+	git(dir, "add", "-A");
+	git(dir, "commit", "--quiet", "-m", "change");
+	return git(dir, "rev-parse", "HEAD");
+}
+
+describe("RepoCache", () => {
+	let tmp: string;
+	let remote: string;
+	let remoteUrl: string;
+
+	beforeEach(() => {
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), "lemonup-repocache-"));
+		remote = path.join(tmp, "Addon");
+		fs.mkdirSync(remote);
+		git(remote, "init", "--quiet", "--initial-branch=main");
+		remoteUrl = `file://${remote}`;
+		RepoCache.setRepoCacheDir(path.join(tmp, "cache"));
+	});
+
+	afterEach(() => {
+		RepoCache.setRepoCacheDir(null);
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	test("should be disabled without a directory or size limit", () => {
+		expect(RepoCache.isRepoCacheEnabled(1024)).toBe(true);
+		expect(RepoCache.isRepoCacheEnabled(0)).toBe(false);
+		RepoCache.setRepoCacheDir(null);
+		expect(RepoCache.isRepoCacheEnabled(1024)).toBe(false);
+	});
+
+	test("should check out a branch and fetch updates incrementally", async () => {
+		const first = commit(remote, { "Addon.toc": "## Version: 1" });
+
+		const dest1 = path.join(tmp, "checkout1");
+		const hash1 = await RepoCache.checkoutFromCache(
+			remoteUrl,
+			{ name: "main", isTag: false },
+			dest1,
+			1024,
+		);
+		expect(hash1).toBe(first);
+		expect(fs.readFileSync(path.join(dest1, "Addon.toc"), "utf8")).toBe(
+			"## Version: 1",
+		);
+
+		const second = commit(remote, { "Addon.toc": "## Version: 2" });
+		fs.rmSync(dest1, { recursive: true, force: true });
+
+		const dest2 = path.join(tmp, "checkout2");
+		fs.mkdirSync(dest2);
+		const hash2 = await RepoCache.checkoutFromCache(
+			remoteUrl,
+			{ name: "main", isTag: false },
+			dest2,
+			1024,
+		);
+		expect(hash2).toBe(second);
+		expect(fs.readFileSync(path.join(dest2, "Addon.toc"), "utf8")).toBe(
+			"## Version: 2",
+		);
+
+		// The same bare repository is reused
+		const cacheEntries = fs.readdirSync(path.join(tmp, "cache"));
+		expect(cacheEntries).toHaveLength(1);
+		expect(cacheEntries[0]).toMatch(/^Addon-[0-9a-f]{10}\.git$/);
+	});
+
+	test("should check out tags", async () => {
+		const tagged = commit(remote, { "Addon.toc": "## Version: 1.0" });
+		git(remote, "tag", "v1.0");
+		commit(remote, { "Addon.toc": "## Version: dev" });
+
+		const dest = path.join(tmp, "checkout");
+		const hash = await RepoCache.checkoutFromCache(
+			remoteUrl,
+			{ name: "v1.0", isTag: true },
+			dest,
+			1024,
+		);
+		expect(hash).toBe(tagged);
+		expect(
+			await RepoCache.getCachedCommit(remoteUrl, { name: "v1.0", isTag: true }),
+		).toBe(tagged);
+	});
+
+	test("should read cached commits without the network", async () => {
+		expect(
+			await RepoCache.getCachedCommit(remoteUrl, { name: "main", isTag: false }),
+		).toBeNull();
+
+		const head = commit(remote, { "Addon.toc": "" });
+		await RepoCache.checkoutFromCache(
+			remoteUrl,
+			{ name: "main", isTag: false },
+			path.join(tmp, "checkout"),
+			1024,
+		);
+		// Remote moves on, but the cache keeps what was installed
+		commit(remote, { "Addon.toc": "## Version: 2" });
+
+		expect(
+			await RepoCache.getCachedCommit(remoteUrl, { name: "main", isTag: false }),
+		).toBe(head);
+	});
+
+	test("should prune repositories of uninstalled addons", async () => {
+		commit(remote, { "Addon.toc": "" });
+		const other = path.join(tmp, "Other");
+		fs.mkdirSync(other);
+		git(other, "init", "--quiet", "--initial-branch=main");
+		commit(other, { "Other.toc": "" });
+		const otherUrl = `file://${other}`;
+
+		for (const url of [remoteUrl, otherUrl]) {
+			await RepoCache.checkoutFromCache(
+				url,
+				{ name: "main", isTag: false },
+				path.join(tmp, `checkout-${path.basename(url)}`),
+				1024,
+			);
+		}
+		expect(await RepoCache.getRepoCacheSize()).toBeGreaterThan(0);
+
+		const result = await RepoCache.pruneRepoCache([remoteUrl], 1024);
+
+		expect(result.removed).toEqual([RepoCache.getRepoCachePath(otherUrl)]);
+		expect(result.freedBytes).toBeGreaterThan(0);
+		expect(fs.existsSync(RepoCache.getRepoCachePath(remoteUrl))).toBe(true);
+	});
+
+	test("should evict least recently used repositories over the size cap", async () => {
+		commit(remote, { "Addon.toc": "" });
+		await RepoCache.checkoutFromCache(
+			remoteUrl,
+			{ name: "main", isTag: false },
+			path.join(tmp, "checkout"),
+			1024,
+		);
+
+		// A zero limit leaves no room for anything
+		const result = await RepoCache.pruneRepoCache([remoteUrl], 0);
+		expect(result.removed).toEqual([RepoCache.getRepoCachePath(remoteUrl)]);
+	});
+});
@@ -0,0 +1,541 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { REPO_TYPE } from "@/core/config";
+import * as Downloader from "@/core/downloader";
+import * as GitClient from "@/core/git";
+import * as GitHub from "@/core/github";
+import {
+	findProviderForUrl,
+	getProvider,
+	registerProvider,
+	type SourceProvider,
+} from "@/core/sources";
+import { GitProvider, isGitRemote } from "@/core/sources/git";
+import { GiteaProvider, parseGiteaUrl } from "@/core/sources/gitea";
+import {
+	GitHubProvider,
+	parseGitHubUrl,
+	resolveInstallRef,
+} from "@/core/sources/github";
+import { parseGitLabUrl } from "@/core/sources/gitlab";
+import { getTocSourceLink, resolveSourceInput } from "@/core/sources/tocLink";
+import { WoWInterfaceProvider } from "@/core/sources/wowinterface";
+import { validatorsMatch, ZipProvider } from "@/core/sources/zip";
+
+describe("Source Providers", () => {
+	afterEach(() => {
+		registerProvider(WoWInterfaceProvider);
+		mock.restore();
+	});
+
+	test("should resolve providers by type", () => {
+		expect(getProvider("github")?.type).toBe(REPO_TYPE.GITHUB);
+		expect(getProvider("tukui")?.type).toBe(REPO_TYPE.TUKUI);
+		expect(getProvider("wowinterface")?.type).toBe(REPO_TYPE.WOWINTERFACE);
+		expect(getProvider("wago")?.type).toBe(REPO_TYPE.WAGO);
+		expect(getProvider("manual")).toBeNull();
+	});
+
+	test("should match providers by URL", () => {
+		expect(findProviderForUrl("https://github.com/user/repo")?.type).toBe(
+			"github",
+		);
+		expect(
+			findProviderForUrl(
+				"https://www.wowinterface.com/downloads/info12345-Addon.html",
+			)?.type,
+		).toBe("wowinterface");
+		expect(findProviderForUrl("https://addons.wago.io/addons/foo")?.type).toBe(
+			"wago",
+		);
+		expect(findProviderForUrl("https://example.com/addon.zip")?.type).toBe(
+			"zip",
+		);
+		expect(findProviderForUrl("https://example.com/page.html")).toBeNull();
+		expect(findProviderForUrl("not a url")).toBeNull();
+	});
+
+	test("should match generic git remotes", () => {
+		expect(findProviderForUrl("git@git.example.com:guild/Addon.git")?.type).toBe(
+			"git",
+		);
+		expect(findProviderForUrl("ssh://git@host:2222/guild/Addon.git")?.type).toBe(
+			"git",
+		);
+		expect(findProviderForUrl("file:///srv/git/Addon.git")?.type).toBe("git");
+		expect(findProviderForUrl("https://git.example.com/guild/Addon.git")?.type).toBe(
+			"git",
+		);
+		// GitHub https URLs keep their dedicated provider
+		expect(findProviderForUrl("https://github.com/user/repo.git")?.type).toBe(
+			"github",
+		);
+		expect(isGitRemote("/definitely/not/a/repo")).toBe(false);
+		expect(isGitRemote("https://example.com/addon.zip")).toBe(false);
+	});
+
+	test("git provider should resolve local bare repositories", async () => {
+		const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "lemonup-sources-"));
+		try {
+			const work = path.join(tmp, "work");
+			const bare = path.join(tmp, "Addon.git");
+			fs.mkdirSync(work);
+			fs.writeFileSync(path.join(work, "Addon.toc"), "## Title: Addon");
+			const git = (...args: string[]) =>
+				Bun.spawnSync(
+					["git", "-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+					{ cwd: work, stdout: "pipe", stderr: "ignore" },
+				);
+			git("init", "--quiet", "--initial-branch=main");
+			git("add", "-A");
+			git("commit", "--quiet", "-m", "init");
+			git("clone", "--quiet", "--bare", work, bare);
+			const head = git("rev-parse", "HEAD").stdout.toString().trim();
+
+			expect(isGitRemote(bare)).toBe(true);
+			const release = await GitProvider.resolveLatest(
+				{ name: "", url: bare, branch: "main", tracking: "branch" },
+				// biome-ignore lint/suspicious/noExplicitAny: config unused by git
+				{} as any,
+			);
+			expect(release.commit).toBe(head);
+			expect(release.name).toBe("Addon");
+		} finally {
+			fs.rmSync(tmp, { recursive: true, force: true });
+		}
+	});
+
+	test("should replace a registered provider of the same type", () => {
+		const custom: SourceProvider = {
+			...WoWInterfaceProvider,
+			matchUrl: (url) => url.startsWith("custom://"),
+		};
+		registerProvider(custom);
+
+		expect(getProvider("wowinterface")).toBe(custom);
+		expect(findProviderForUrl("custom://addon")).toBe(custom);
+	});
+
+	test("github should treat short and full hashes as equal", () => {
+		const github = getProvider("github");
+		const full = "a1b2c3d4e5f678901234567890abcdef12345678";
+
+		expect(
+			github?.compareVersions({ version: "a1b2c3d", git_commit: null }, full),
+		).toBe("equivalent");
+		expect(
+			github?.compareVersions({ version: "x", git_commit: full }, "a1b2c3d"),
+		).toBe("equivalent");
+		expect(
+			github?.compareVersions({ version: "deadbee", git_commit: null }, full),
+		).toBe("different");
+	});
+
+	test("should split branch from github /tree/ urls", () => {
+		expect(parseGitHubUrl("https://github.com/user/repo")).toMatchObject({
+			url: "https://github.com/user/repo",
+			branch: null,
+		});
+		expect(parseGitHubUrl("https://github.com/user/repo/tree/dev")).toMatchObject({
+			url: "https://github.com/user/repo",
+			branch: "dev",
+		});
+		expect(
+			parseGitHubUrl("https://github.com/user/repo/tree/release/11.0/"),
+		).toMatchObject({
+			url: "https://github.com/user/repo",
+			branch: "release/11.0",
+		});
+	});
+
+	test("should split /tree/ refs into branch and subpath", async () => {
+		spyOn(GitClient, "getRemoteBranches").mockResolvedValue([
+			"main",
+			"release",
+			"release/11.0",
+		]);
+
+		expect(
+			await resolveInstallRef("https://github.com/user/repo/tree/main/addons/Foo"),
+		).toEqual({ branch: "main", subpath: "addons/Foo" });
+		expect(
+			await resolveInstallRef("https://github.com/user/repo/tree/release/11.0"),
+		).toEqual({ branch: "release/11.0", subpath: null });
+		expect(
+			await resolveInstallRef("https://github.com/user/repo/tree/release/11.0/src/"),
+		).toEqual({ branch: "release/11.0", subpath: "src" });
+		// Unknown refs are kept whole as a branch name
+		expect(
+			await resolveInstallRef("https://github.com/user/repo/tree/feature/x"),
+		).toEqual({ branch: "feature/x", subpath: null });
+	});
+
+	test("github should use the API with a token and fall back to ls-remote", async () => {
+		const apiSha = "a".repeat(40);
+		const lsSha = "b".repeat(40);
+		const target = {
+			name: "repo",
+			url: "https://github.com/user/repo",
+			branch: "main",
+			tracking: "branch" as const,
+		};
+		const apiSpy = spyOn(GitHub, "getBranchCommit").mockResolvedValue({
+			success: true,
+			sha: apiSha,
+		});
+		const lsSpy = spyOn(GitClient, "getRemoteCommit").mockResolvedValue(lsSha);
+
+		// biome-ignore lint/suspicious/noExplicitAny: only the token is read
+		const withToken = { githubToken: "secret" } as any;
+		expect((await GitHubProvider.resolveLatest(target, withToken)).commit).toBe(
+			apiSha,
+		);
+		expect(lsSpy).not.toHaveBeenCalled();
+
+		apiSpy.mockResolvedValue({ success: false, error: "rate_limited" });
+		expect((await GitHubProvider.resolveLatest(target, withToken)).commit).toBe(
+			lsSha,
+		);
+
+		// Anonymous checks keep the small API quota for releases
+		apiSpy.mockClear();
+		// biome-ignore lint/suspicious/noExplicitAny: only the token is read
+		await GitHubProvider.resolveLatest(target, { githubToken: "" } as any);
+		expect(apiSpy).not.toHaveBeenCalled();
+	});
+
+	test("github prefetch should batch branch lookups", async () => {
+		const sha = "c".repeat(40);
+		const batchSpy = spyOn(GitHub, "getBranchCommits").mockResolvedValue(
+			new Map([["user/batched#dev", sha]]),
+		);
+		const apiSpy = spyOn(GitHub, "getBranchCommit");
+		const target = {
+			name: "batched",
+			type: REPO_TYPE.GITHUB,
+			url: "https://github.com/User/Batched",
+			branch: "dev",
+			tracking: "branch" as const,
+		};
+		// biome-ignore lint/suspicious/noExplicitAny: only the token is read
+		const config = { githubToken: "secret" } as any;
+
+		await GitHubProvider.prefetch?.([target], config);
+		const release = await GitHubProvider.resolveLatest(target, config);
+
+		expect(batchSpy).toHaveBeenCalledWith(
+			[{ owner: "User", repo: "Batched", branch: "dev" }],
+			"secret",
+		);
+		expect(release.commit).toBe(sha);
+		expect(apiSpy).not.toHaveBeenCalled();
+	});
+
+	test("github should turn the commits since the installed one into a changelog", async () => {
+		const compareSpy = spyOn(GitHub, "compareCommits").mockResolvedValue({
+			success: true,
+			commits: [
+				{ sha: "b".repeat(40), message: "Fix tooltip" },
+				{ sha: "c".repeat(40), message: "Add options\n\nDetails" },
+			],
+		});
+		// biome-ignore lint/suspicious/noExplicitAny: only the token is read
+		const config = { githubToken: "" } as any;
+
+		const changelog = await GitHubProvider.fetchChangelog?.(
+			{
+				name: "Addon",
+				url: "https://github.com/User/Addon",
+				git_commit: "a".repeat(40),
+			},
+			"c".repeat(40),
+			config,
+		);
+
+		expect(compareSpy).toHaveBeenCalledWith(
+			"User",
+			"Addon",
+			"a".repeat(40),
+			"c".repeat(40),
+			"",
+		);
+		expect(changelog).toBe("- Add options (ccccccc)\n- Fix tooltip (bbbbbbb)");
+	});
+
+	test("github should prefer release notes when tracking releases", async () => {
+		spyOn(GitHub, "getReleaseByTag").mockResolvedValue({
+			success: true,
+			release: {
+				tag_name: "v2.0",
+				name: "v2.0",
+				draft: false,
+				prerelease: false,
+				body: "## v2.0\n- New raid module",
+				published_at: null,
+				assets: [],
+			},
+		});
+		const compareSpy = spyOn(GitHub, "compareCommits");
+		// biome-ignore lint/suspicious/noExplicitAny: only the token is read
+		const config = { githubToken: "" } as any;
+
+		const changelog = await GitHubProvider.fetchChangelog?.(
+			{
+				name: "Addon",
+				url: "https://github.com/User/Addon",
+				version: "v1.0",
+				tracking: "release",
+			},
+			"v2.0",
+			config,
+		);
+
+		expect(changelog).toBe("## v2.0\n- New raid module");
+		expect(compareSpy).not.toHaveBeenCalled();
+	});
+
+	test("should match gitlab and gitea hosts, including configured ones", () => {
+		expect(findProviderForUrl("https://gitlab.com/group/addon")?.type).toBe(
+			"gitlab",
+		);
+		expect(findProviderForUrl("https://codeberg.org/owner/addon")?.type).toBe(
+			"gitea",
+		);
+		// Clone URLs on known forges keep their richer provider
+		expect(findProviderForUrl("https://gitlab.com/group/addon.git")?.type).toBe(
+			"gitlab",
+		);
+
+		// biome-ignore lint/suspicious/noExplicitAny: only the host lists are read
+		const config = {
+			gitlabHosts: ["https://git.example.com/gitlab"],
+			giteaHosts: ["https://forgejo.example.org"],
+		} as any;
+		expect(
+			findProviderForUrl("https://git.example.com/gitlab/guild/addon", config)
+				?.type,
+		).toBe("gitlab");
+		expect(
+			findProviderForUrl("https://forgejo.example.org/guild/addon", config)?.type,
+		).toBe("gitea");
+		expect(findProviderForUrl("https://git.example.com/other/addon", config)).toBeNull();
+	});
+
+	test("should parse gitlab urls with nested groups", () => {
+		expect(
+			parseGitLabUrl("https://gitlab.com/group/sub/addon/-/tree/dev/addons"),
+		).toEqual({
+			baseUrl: "https://gitlab.com",
+			project: "group/sub/addon",
+			url: "https://gitlab.com/group/sub/addon",
+			branch: "dev/addons",
+			isRelease: false,
+			releaseTag: null,
+		});
+		expect(
+			parseGitLabUrl("https://gitlab.com/group/addon/-/releases/v1.2"),
+		).toMatchObject({ isRelease: true, releaseTag: "v1.2" });
+		expect(
+			parseGitLabUrl("https://gitlab.com/group/addon/-/releases/permalink/latest"),
+		).toMatchObject({ isRelease: true, releaseTag: null });
+		expect(parseGitLabUrl("https://gitlab.com/group")).toBeNull();
+		expect(parseGitLabUrl("https://github.com/user/repo")).toBeNull();
+	});
+
+	test("should parse gitea urls", () => {
+		expect(
+			parseGiteaUrl("https://codeberg.org/owner/addon/src/branch/main"),
+		).toMatchObject({
+			url: "https://codeberg.org/owner/addon",
+			branch: "main",
+			isRelease: false,
+		});
+		expect(
+			parseGiteaUrl("https://codeberg.org/owner/addon/releases/tag/2.0"),
+		).toMatchObject({ isRelease: true, releaseTag: "2.0" });
+		expect(parseGiteaUrl("https://codeberg.org/owner.git")).toBeNull();
+	});
+
+	test("gitea release tracking should pick the packaged asset", async () => {
+		spyOn(global, "fetch").mockResolvedValue(
+			new Response(
+				JSON.stringify({
+					tag_name: "v2.0",
+					name: "v2.0",
+					body: null,
+					draft: false,
+					prerelease: false,
+					published_at: null,
+					assets: [
+						{
+							name: "Addon-v2.0.zip",
+							size: 1,
+							browser_download_url: "https://codeberg.org/dl/Addon-v2.0.zip",
+						},
+					],
+				}),
+				{ status: 200 },
+			),
+		);
+
+		const release = await GiteaProvider.resolveLatest(
+			{
+				name: "Addon",
+				url: "https://codeberg.org/owner/Addon",
+				tracking: "release",
+			},
+			// biome-ignore lint/suspicious/noExplicitAny: only the host lists are read
+			{ giteaHosts: ["https://codeberg.org"] } as any,
+		);
+
+		expect(release).toEqual({
+			version: "v2.0",
+			tag: "v2.0",
+			downloadUrl: "https://codeberg.org/dl/Addon-v2.0.zip",
+			name: "Addon",
+		});
+	});
+
+	test("should match https zip urls last", () => {
+		expect(
+			findProviderForUrl("https://guild.example.com/files/GuildAddon.zip")?.type,
+		).toBe("zip");
+		expect(findProviderForUrl("http://guild.example.com/GuildAddon.zip")).toBeNull();
+		// A GitHub release asset is a direct zip, not the repository
+		expect(
+			findProviderForUrl("https://github.com/u/r/releases/download/v1/A.zip")
+				?.type,
+		).toBe("zip");
+		expect(findProviderForUrl("https://github.com/u/r/releases")?.type).toBe(
+			"github",
+		);
+	});
+
+	test("zip validators need an etag or last-modified match", () => {
+		const stored = { etag: '"v1"', lastModified: null, contentLength: 10 };
+		expect(validatorsMatch(stored, { ...stored })).toBe(true);
+		expect(validatorsMatch(stored, { ...stored, etag: 'W/"v1"' })).toBe(true);
+		expect(validatorsMatch(stored, { ...stored, etag: '"v2"' })).toBe(false);
+		expect(validatorsMatch(stored, { ...stored, contentLength: 11 })).toBe(
+			false,
+		);
+		const lengthOnly = { etag: null, lastModified: null, contentLength: 10 };
+		expect(validatorsMatch(lengthOnly, { ...lengthOnly })).toBe(false);
+		expect(validatorsMatch(null, stored)).toBe(false);
+	});
+
+	test("zip provider should only hash when validators change", async () => {
+		const hash = "a".repeat(64);
+		const validators = { etag: '"v1"', lastModified: null, contentLength: 10 };
+		const headSpy = spyOn(Downloader, "getValidators").mockResolvedValue(
+			validators,
+		);
+		const downloadSpy = spyOn(Downloader, "download").mockResolvedValue(true);
+		spyOn(Downloader, "hashFile").mockResolvedValue("b".repeat(64));
+		const target = {
+			name: "GuildAddon",
+			url: "https://guild.example.com/GuildAddon.zip",
+			version: hash.slice(0, 12),
+			git_commit: null,
+			content_hash: hash,
+			httpValidators: validators,
+		};
+		// biome-ignore lint/suspicious/noExplicitAny: config unused by zip
+		const config = {} as any;
+
+		const unchanged = await ZipProvider.resolveLatest(target, config);
+		expect(unchanged.version).toBe(hash.slice(0, 12));
+		expect(downloadSpy).not.toHaveBeenCalled();
+		expect(ZipProvider.compareVersions(target, unchanged.version)).toBe(
+			"equivalent",
+		);
+
+		headSpy.mockResolvedValue({ ...validators, etag: '"v2"' });
+		const changed = await ZipProvider.resolveLatest(target, config);
+		expect(downloadSpy).toHaveBeenCalledTimes(1);
+		expect(changed.contentHash).toBe("b".repeat(64));
+		expect(changed.validators?.etag).toBe('"v2"');
+		expect(ZipProvider.compareVersions(target, changed.version)).toBe(
+			"different",
+		);
+	});
+
+	test("should detect github release urls", () => {
+		expect(parseGitHubUrl("https://github.com/user/repo/releases")).toEqual({
+			url: "https://github.com/user/repo",
+			branch: null,
+			isRelease: true,
+			releaseTag: null,
+		});
+		expect(
+			parseGitHubUrl("https://github.com/user/repo/releases/latest"),
+		).toMatchObject({ isRelease: true, releaseTag: null });
+		expect(
+			parseGitHubUrl("https://github.com/user/repo/releases/tag/v1.2.3"),
+		).toMatchObject({
+			url: "https://github.com/user/repo",
+			isRelease: true,
+			releaseTag: "v1.2.3",
+		});
+		expect(parseGitHubUrl("https://github.com/user/repo")).toMatchObject({
+			isRelease: false,
+		});
+	});
+
+	test("should link toc project ids to usable sources", () => {
+		const ids = { wago: "qv63LLKb", wowi: "5108", curse: "61284", website: null };
+		const noKeys = { wagoApiKey: "", curseforgeApiKey: "" } as any;
+
+		expect(getTocSourceLink(ids, noKeys)).toEqual({
+			type: "wowinterface",
+			url: "https://www.wowinterface.com/downloads/info5108",
+		});
+		expect(getTocSourceLink(ids, { ...noKeys, wagoApiKey: "key" })).toEqual({
+			type: "wago",
+			url: "https://addons.wago.io/addons/qv63LLKb",
+		});
+		expect(
+			getTocSourceLink({ ...ids, wago: null }, { ...noKeys, curseforgeApiKey: "key" }),
+		).toEqual({
+			type: "curseforge",
+			url: "https://www.curseforge.com/projects/61284",
+		});
+		expect(getTocSourceLink({ ...ids, wowi: null }, noKeys)).toBeNull();
+	});
+
+	test("should expand prefixed project ids", () => {
+		expect(resolveSourceInput("wowi:5108")).toBe(
+			"https://www.wowinterface.com/downloads/info5108",
+		);
+		expect(resolveSourceInput(" CF:61284 ")).toBe(
+			"https://www.curseforge.com/projects/61284",
+		);
+		expect(resolveSourceInput("wago:qv63LLKb")).toBe(
+			"https://addons.wago.io/addons/qv63LLKb",
+		);
+		expect(resolveSourceInput("https://github.com/user/repo")).toBe(
+			"https://github.com/user/repo",
+		);
+		expect(resolveSourceInput("github:user")).toBe("github:user");
+	});
+
+	test("should only link toc websites on addon sites", () => {
+		const ids = { wago: null, wowi: null, curse: null };
+		const config = { gitlabHosts: [], giteaHosts: [] } as any;
+
+		expect(
+			getTocSourceLink(
+				{ ...ids, website: "https://www.wowinterface.com/downloads/info5108-Details.html" },
+				config,
+			),
+		).toEqual({
+			type: "wowinterface",
+			url: "https://www.wowinterface.com/downloads/info5108-Details.html",
+		});
+		expect(
+			getTocSourceLink({ ...ids, website: "https://github.com/Tercioo/Details" }, config),
+		).toBeNull();
+	});
+});
@@ -79,6 +79,41 @@ describe("exportAddons", () => {
     expect(file.addons[0].reinstallable).toBe(true);
   });
 
+  test("carries the release channel of wago addons", async () => {
+    const wagoAddon: AddonRecord = {
+      name: "Clique",
+      folder: "Clique",
+      type: "wago",
+      url: "https://addons.wago.io/addons/clique",
+      ownedFolders: [],
+      kind: "addon",
+      kindOverride: false,
+      flavor: "retail",
+      version: "1.1.0-beta",
+      git_commit: null,
+      author: null,
+      interface: null,
+      requiredDeps: [],
+      optionalDeps: [],
+      embeddedLibs: [],
+      install_date: "2024-01-01",
+      last_updated: "2024-01-01",
+      last_checked: null,
+      remote_version: null,
+      channel: "beta",
+    };
+
+    const tmpPath = `/tmp/test-export-channel-${Date.now()}.json`;
+    await exportAddons(
+      [wagoAddon, { ...wagoAddon, folder: "Other", channel: "stable" }],
+      tmpPath,
+    );
+
+    const parsed = await parseImportFile(tmpPath);
+    expect(parsed.data?.addons[0]?.channel).toBe("beta");
+    expect(parsed.data?.addons[1]?.channel).toBeUndefined();
+  });
+
   test("marks manual addons as not reinstallable", async () => {
     const mockAddons: AddonRecord[] = [
       {
@@ -0,0 +1,109 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	copyAddonFolder,
+	determineParentFolder,
+	findAddonFolders,
+	isVcsMetadata,
+	resolveContentRoot,
+} from "@/core/utils/addonFolders";
+
+describe("addonFolders", () => {
+	let tempDir: string;
+
+	beforeEach(async () => {
+		tempDir = path.join(os.tmpdir(), `addonFolders-test-${crypto.randomUUID()}`);
+		await fs.mkdir(tempDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	test("should recognise VCS metadata", () => {
+		expect(isVcsMetadata(".git")).toBe(true);
+		expect(isVcsMetadata(".github")).toBe(true);
+		expect(isVcsMetadata(".svn")).toBe(true);
+		expect(isVcsMetadata("Libs")).toBe(false);
+	});
+
+	test("should resolve the root without a subpath", async () => {
+		expect(await resolveContentRoot(tempDir, null)).toBe(tempDir);
+	});
+
+	test("should resolve an existing subpath", async () => {
+		await fs.mkdir(path.join(tempDir, "addons", "MyAddon"), { recursive: true });
+		expect(await resolveContentRoot(tempDir, "addons/MyAddon")).toBe(
+			path.join(tempDir, "addons", "MyAddon"),
+		);
+	});
+
+	test("should reject missing or escaping subpaths", async () => {
+		await expect(resolveContentRoot(tempDir, "missing")).rejects.toThrow(
+			"not found",
+		);
+		await expect(resolveContentRoot(tempDir, "../outside")).rejects.toThrow(
+			"escapes",
+		);
+	});
+
+	test("should copy without VCS metadata at any depth", async () => {
+		const source = path.join(tempDir, "src");
+		await fs.mkdir(path.join(source, ".git"), { recursive: true });
+		await fs.mkdir(path.join(source, "Libs", "LibFoo", ".git"), {
+			recursive: true,
+		});
+		await fs.writeFile(path.join(source, "Addon.toc"), "");
+		await fs.writeFile(path.join(source, "Libs", "LibFoo", "LibFoo.lua"), "");
+
+		const dest = path.join(tempDir, "dest");
+		await copyAddonFolder(source, dest);
+
+		expect(await Bun.file(path.join(dest, "Addon.toc")).exists()).toBe(true);
+		expect(
+			await Bun.file(path.join(dest, "Libs", "LibFoo", "LibFoo.lua")).exists(),
+		).toBe(true);
+		await expect(fs.access(path.join(dest, ".git"))).rejects.toThrow();
+		await expect(
+			fs.access(path.join(dest, "Libs", "LibFoo", ".git")),
+		).rejects.toThrow();
+	});
+
+	test("should find first-level addon folders but not embedded libs", async () => {
+		await fs.mkdir(path.join(tempDir, "Clique", "Libs", "LibFoo"), {
+			recursive: true,
+		});
+		await fs.writeFile(path.join(tempDir, "Clique", "Clique.toc"), "");
+		await fs.writeFile(
+			path.join(tempDir, "Clique", "Libs", "LibFoo", "LibFoo.toc"),
+			"",
+		);
+		await fs.mkdir(path.join(tempDir, "Docs"));
+
+		expect(await findAddonFolders(tempDir)).toEqual([
+			{ name: "Clique", source: path.join(tempDir, "Clique") },
+		]);
+	});
+
+	test("should treat a root .toc as an addon named after it", async () => {
+		await fs.writeFile(path.join(tempDir, "MyAddon.toc"), "");
+
+		expect(await findAddonFolders(tempDir)).toEqual([
+			{ name: "MyAddon", source: tempDir },
+		]);
+	});
+
+	test("should pick the parent folder by name, then by shared prefix", () => {
+		expect(
+			determineParentFolder(["DBM-GUI", "DBM-Core"], "dbm-core", null),
+		).toBe("DBM-Core");
+		expect(
+			determineParentFolder(["Details", "Details_Streamer"], "details", null),
+		).toBe("Details");
+		expect(
+			determineParentFolder(["Bagnon", "Bagnon_Config", "Bagnon_Guild"], "", null),
+		).toBe("Bagnon");
+	});
+});
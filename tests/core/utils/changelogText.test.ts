@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import {
+	getChangelogHeadline,
+	MAX_CHANGELOG_LENGTH,
+	toPlainText,
+} from "@/core/utils/changelogText";
+
+describe("toPlainText", () => {
+	test("should turn HTML lists and breaks into lines", () => {
+		expect(
+			toPlainText(
+				"<h3>v13.80</h3><ul><li>Fixed &amp; improved</li><li>New <b>option</b></li></ul>Thanks<br/>All",
+			),
+		).toBe("v13.80\n\n- Fixed & improved\n- New option\nThanks\nAll");
+	});
+
+	test("should strip WoWInterface BBCode", () => {
+		expect(
+			toPlainText("[b]1.2[/b]\r\n[list]\r\n[*]Fixed errors\r\n[*]See [url=https://x]here[/url]\r\n[/list]"),
+		).toBe("1.2\n\n- Fixed errors\n- See here");
+	});
+
+	test("should leave markdown alone", () => {
+		const markdown = "## 2.0\n- New module\n- `/cmd` added";
+		expect(toPlainText(markdown)).toBe(markdown);
+	});
+
+	test("should cut off very long changelogs", () => {
+		const result = toPlainText("x".repeat(MAX_CHANGELOG_LENGTH + 100));
+		expect(result.length).toBe(MAX_CHANGELOG_LENGTH + 2);
+		expect(result.endsWith("\n…")).toBe(true);
+	});
+});
+
+describe("getChangelogHeadline", () => {
+	test("should skip headings and list markers", () => {
+		expect(getChangelogHeadline("## 2.0\n\n- New module\n- Fixes")).toBe(
+			"New module",
+		);
+	});
+
+	test("should return null without content", () => {
+		expect(getChangelogHeadline(null)).toBeNull();
+		expect(getChangelogHeadline("# 2.0\n")).toBeNull();
+	});
+});
@@ -0,0 +1,90 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	collectFingerprintFiles,
+	getFileFingerprint,
+	getFolderFingerprint,
+	murmur2,
+} from "@/core/utils/fingerprint";
+
+const encode = (s: string) => new TextEncoder().encode(s);
+
+describe("fingerprint", () => {
+	let tempDir: string;
+
+	const write = async (relative: string, content: string) => {
+		const filePath = path.join(tempDir, relative);
+		await fs.mkdir(path.dirname(filePath), { recursive: true });
+		await fs.writeFile(filePath, content);
+	};
+
+	beforeEach(async () => {
+		tempDir = path.join(os.tmpdir(), `fingerprint-test-${crypto.randomUUID()}`);
+		await fs.mkdir(tempDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true });
+	});
+
+	test("should compute 32-bit MurmurHash2 with seed 1", () => {
+		expect(murmur2(encode(""))).toBe(1540447798);
+		expect(murmur2(encode("abc"))).toBe(1621425345);
+		expect(murmur2(encode("Hello, world!"))).toBe(1671593801);
+	});
+
+	test("should ignore whitespace in file fingerprints", async () => {
+		await write("a.lua", "local x = 1\nprint(x)\n");
+		await write("b.lua", "local x=1\r\n\tprint(x)");
+
+		expect(await getFileFingerprint(path.join(tempDir, "a.lua"))).toBe(
+			await getFileFingerprint(path.join(tempDir, "b.lua")),
+		);
+	});
+
+	test("should collect toc-listed files and xml includes", async () => {
+		await write(
+			"MyAddon.toc",
+			"## Title: MyAddon\n# comment\nCore.lua\nLibs\\embeds.xml\nMissing.lua\n",
+		);
+		await write("Core.lua", "print(1)");
+		await write(
+			"Libs/embeds.xml",
+			'<Ui><Script file="LibStub\\LibStub.lua"/><Include file="Lib\\lib.xml"/></Ui>',
+		);
+		await write("Libs/LibStub/LibStub.lua", "-- stub");
+		await write("Libs/Lib/lib.xml", '<Ui><Script file="lib.lua"/></Ui>');
+		await write("Libs/Lib/lib.lua", "-- lib");
+		await write("Bindings.xml", "<Bindings/>");
+		await write("README.md", "not loaded");
+
+		const files = await collectFingerprintFiles(tempDir);
+		const relative = files.map((f) => path.relative(tempDir, f)).sort();
+
+		expect(relative).toEqual(
+			[
+				"Bindings.xml",
+				"Core.lua",
+				path.join("Libs", "Lib", "lib.lua"),
+				path.join("Libs", "Lib", "lib.xml"),
+				path.join("Libs", "LibStub", "LibStub.lua"),
+				path.join("Libs", "embeds.xml"),
+				"MyAddon.toc",
+			].sort(),
+		);
+	});
+
+	test("should only change the folder fingerprint for loaded files", async () => {
+		await write("MyAddon.toc", "## Title: MyAddon\nCore.lua\n");
+		await write("Core.lua", "print(1)");
+		const original = await getFolderFingerprint(tempDir);
+
+		await write("README.md", "docs");
+		expect(await getFolderFingerprint(tempDir)).toBe(original);
+
+		await write("Core.lua", "print(2)");
+		expect(await getFolderFingerprint(tempDir)).not.toBe(original);
+	});
+});
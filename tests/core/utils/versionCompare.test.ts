@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import {
+	compareVersionLabels,
+	getVersionDelta,
+	isUpdate,
+	selectLatestTag,
+} from "@/core/utils/versionCompare";
+
+const tags = (...names: string[]) => names.map((name) => ({ name }));
+
+describe("compareVersionLabels", () => {
+	test("should order dotted and semver versions numerically", () => {
+		expect(compareVersionLabels("10.2.10", "10.2.9")).toBeGreaterThan(0);
+		expect(compareVersionLabels("1.4", "1.4.0")).toBe(0);
+		expect(compareVersionLabels("2.0.0", "11.0.0")).toBeLessThan(0);
+	});
+
+	test("should ignore a leading v and a shared addon name", () => {
+		expect(compareVersionLabels("v10.2.5", "10.2.5")).toBe(0);
+		expect(compareVersionLabels("Details.20250115", "Details.20250201")).toBeLessThan(0);
+		expect(compareVersionLabels("Details 1.2", "Plater 1.3")).toBeNull();
+	});
+
+	test("should rank prereleases below their release", () => {
+		expect(compareVersionLabels("1.2.0-alpha", "1.2.0-beta")).toBeLessThan(0);
+		expect(compareVersionLabels("1.2.0-beta.2", "1.2.0-beta.1")).toBeGreaterThan(0);
+		expect(compareVersionLabels("1.2.0-beta.2", "1.2.0-beta.11")).toBeLessThan(0);
+		expect(compareVersionLabels("1.2.0-beta", "1.2.0-beta.1")).toBeLessThan(0);
+		expect(compareVersionLabels("1.2.0-rc1", "1.2.0")).toBeLessThan(0);
+		expect(compareVersionLabels("1.2.0-beta", "1.1.9")).toBeGreaterThan(0);
+	});
+
+	test("should rank hotfix letters above their release", () => {
+		expect(compareVersionLabels("7.3.5a", "7.3.5")).toBeGreaterThan(0);
+		expect(compareVersionLabels("7.3.5b", "7.3.5a")).toBeGreaterThan(0);
+		expect(compareVersionLabels("7.3.5b", "7.3.6")).toBeLessThan(0);
+	});
+
+	test("should order dates", () => {
+		expect(compareVersionLabels("2025-01-15", "2024-12-31")).toBeGreaterThan(0);
+		expect(compareVersionLabels("2025-01-15", "20250115")).toBe(0);
+		expect(compareVersionLabels("20250115.2", "20250115.1")).toBeGreaterThan(0);
+	});
+
+	test("should not order different schemes or free text", () => {
+		expect(compareVersionLabels("20250115", "1.2.3")).toBeNull();
+		expect(compareVersionLabels("release", "stable")).toBeNull();
+		expect(compareVersionLabels("Release", "release")).toBe(0);
+	});
+});
+
+describe("getVersionDelta", () => {
+	test("should classify the remote version", () => {
+		expect(getVersionDelta("1.0.0", "1.0.1")).toBe("upgrade");
+		expect(getVersionDelta("1.0.1", "1.0.0")).toBe("downgrade");
+		expect(getVersionDelta("v10.2.5", "10.2.5")).toBe("equivalent");
+		expect(getVersionDelta("abc", "def")).toBe("different");
+		expect(getVersionDelta(null, "1.0.0")).toBe("different");
+	});
+
+	test("should offer upgrades and unordered changes as updates", () => {
+		expect(isUpdate("upgrade")).toBe(true);
+		expect(isUpdate("different")).toBe(true);
+		expect(isUpdate("downgrade")).toBe(false);
+		expect(isUpdate("equivalent")).toBe(false);
+	});
+});
+
+describe("selectLatestTag", () => {
+	test("should pick the highest version tag", () => {
+		const result = selectLatestTag(
+			tags("v1.2.0", "nightly", "v1.10.0", "v1.9.9"),
+		);
+		expect(result?.name).toBe("v1.10.0");
+	});
+
+	test("should skip prereleases when asked", () => {
+		const list = tags("2.0.0-beta.1", "1.5.0");
+		expect(selectLatestTag(list)?.name).toBe("2.0.0-beta.1");
+		expect(selectLatestTag(list, false)?.name).toBe("1.5.0");
+	});
+
+	test("should return null when no tag is version-like", () => {
+		expect(selectLatestTag(tags("latest", "stable", "release-2024"))).toBeNull();
+	});
+});
@@ -1,4 +1,5 @@
 import { afterEach, describe, expect, it, mock, spyOn } from "bun:test";
+import { WagoProvider } from "@/core/sources/wago";
 import * as Wago from "@/core/wago";
 
 describe("Wago API", () => {
@@ -473,6 +474,76 @@ describe("Wago API", () => {
 		});
 	});
 
+	describe("selectStability", () => {
+		const withReleases = (
+			releases: Wago.WagoAddonSummary["releases"],
+		): Wago.WagoAddonSummary => ({
+			id: "clique",
+			display_name: "Clique",
+			summary: "",
+			thumbnail_image: null,
+			releases,
+		});
+		const stable = { label: "1.0.0", logical_timestamp: 123 };
+		const beta = { label: "1.1.0-beta", logical_timestamp: 124 };
+		const alpha = { label: "1.2.0-alpha", logical_timestamp: 125 };
+
+		it("should keep stable followers on stable", () => {
+			expect(Wago.selectStability(withReleases({ stable, beta, alpha }))).toBe(
+				"stable",
+			);
+		});
+
+		it("should follow the newest release the channel accepts", () => {
+			const addon = withReleases({ stable, beta, alpha });
+			expect(Wago.selectStability(addon, "beta")).toBe("beta");
+			expect(Wago.selectStability(addon, "alpha")).toBe("alpha");
+		});
+
+		it("should move to a stable release newer than the beta", () => {
+			const addon = withReleases({
+				stable: { label: "1.1.0", logical_timestamp: 126 },
+				beta,
+			});
+			expect(Wago.selectStability(addon, "beta")).toBe("stable");
+		});
+
+		it("should fall back to the best available release", () => {
+			expect(Wago.selectStability(withReleases({ beta }), "stable")).toBe(
+				"beta",
+			);
+			expect(Wago.selectStability(withReleases({}), "beta")).toBeNull();
+		});
+
+		it("should resolve updates on the addon's channel", async () => {
+			spyOn(Wago, "getAddonDetails").mockResolvedValue({
+				success: true,
+				addon: withReleases({
+					stable: { ...stable, download_link: "https://addons.wago.io/s" },
+					beta: { ...beta, download_link: "https://addons.wago.io/b" },
+				}),
+			});
+			const target = {
+				name: "Clique",
+				url: "https://addons.wago.io/addons/clique",
+			};
+			// biome-ignore lint/suspicious/noExplicitAny: only the key is read
+			const config = { wagoApiKey: "key" } as any;
+
+			expect((await WagoProvider.resolveLatest(target, config)).version).toBe(
+				"1.0.0",
+			);
+			expect(
+				(
+					await WagoProvider.resolveLatest(
+						{ ...target, channel: "beta" },
+						config,
+					)
+				).version,
+			).toBe("1.1.0-beta");
+		});
+	});
+
 	describe("getAddonIdFromUrl", () => {
 		it("should extract addon ID from wago.io URL", () => {
 			expect(Wago.getAddonIdFromUrl("https://addons.wago.io/addons/clique")).toBe("clique");